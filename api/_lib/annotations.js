@@ -0,0 +1,171 @@
+/**
+ * 管理员维护的模型注释：团队自己的标签、简短备注和内部评分
+ * 例如标签 "approved for production"、"poor at JSON mode"、"use for summarization"
+ *
+ * data/annotations.json（可用 ANNOTATIONS_FILE 覆盖）：
+ *   { annotations: { "<model id>": { tags, note, rating, updatedAt, updatedBy } } }
+ *
+ * /api/models 返回的模型带有 annotation 字段（没有注释的模型不带）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ANNOTATIONS_FILE } from './paths.js';
+
+const STORE_FILE = process.env.ANNOTATIONS_FILE || ANNOTATIONS_FILE;
+
+/**
+ * @typedef {Object} Annotation
+ * @property {string[]} tags
+ * @property {string} note
+ * @property {number | null} rating     内部评分 1-5，未评分为 null
+ * @property {string} updatedAt
+ * @property {string | null} updatedBy
+ */
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_NOTE_LENGTH = 280;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+// 以模型 ID 为键，使用无原型对象（"__proto__"、"constructor" 等 ID 不会碰到 Object.prototype）
+const createAnnotationMap = (entries = {}) => Object.assign(Object.create(null), entries);
+
+function readStore() {
+    try {
+        const data = JSON.parse(fs.readFileSync(STORE_FILE, 'utf-8'));
+        return { annotations: createAnnotationMap(data.annotations) };
+    } catch (error) {
+        if (error.code === 'ENOENT') return { annotations: createAnnotationMap() };
+        throw error;
+    }
+}
+
+function writeStore(store) {
+    fs.mkdirSync(path.dirname(STORE_FILE), { recursive: true });
+    const tmpFile = `${STORE_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(store, null, 2), 'utf-8');
+    fs.renameSync(tmpFile, STORE_FILE);
+}
+
+/**
+ * 所有注释：{ [modelId]: Annotation }
+ */
+export function readAnnotations() {
+    return readStore().annotations;
+}
+
+/**
+ * 所有用到的标签（按使用次数、名称排序）
+ */
+export function listTags(annotations = readAnnotations()) {
+    const counts = new Map();
+    for (const { tags } of Object.values(annotations)) {
+        tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * 把注释附加到模型上（没有注释的模型保持不变）
+ * 注释读取失败时不影响模型数据
+ */
+export function withAnnotations(models) {
+    let annotations;
+    try {
+        annotations = readAnnotations();
+    } catch (error) {
+        console.error('Failed to read annotations:', error.message);
+        return models;
+    }
+
+    if (Object.keys(annotations).length === 0) return models;
+    return models.map(m => annotations[m.id] ? { ...m, annotation: annotations[m.id] } : m);
+}
+
+/**
+ * 校验并整理提交的注释
+ * 标签去掉首尾空白并去重（不区分大小写，保留第一次出现的写法）
+ * @returns {{ annotation?: { tags, note, rating }, error?: string }}
+ */
+export function validateAnnotation(input) {
+    if (!input || typeof input !== 'object') {
+        return { error: 'annotation must be an object with tags, note and rating' };
+    }
+
+    const rawTags = input.tags ?? [];
+    if (!Array.isArray(rawTags) || rawTags.some(tag => typeof tag !== 'string')) {
+        return { error: 'tags must be an array of strings' };
+    }
+
+    const tags = [];
+    for (const raw of rawTags) {
+        const tag = raw.trim().replace(/\s+/g, ' ');
+        if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) continue;
+        if (tag.length > MAX_TAG_LENGTH) {
+            return { error: `Tag "${tag}" is longer than ${MAX_TAG_LENGTH} characters` };
+        }
+        tags.push(tag);
+    }
+    if (tags.length > MAX_TAGS) {
+        return { error: `At most ${MAX_TAGS} tags per model` };
+    }
+
+    const note = typeof input.note === 'string' ? input.note.trim() : '';
+    if (note.length > MAX_NOTE_LENGTH) {
+        return { error: `note must be at most ${MAX_NOTE_LENGTH} characters` };
+    }
+
+    let rating = null;
+    if (input.rating !== null && input.rating !== undefined && input.rating !== '') {
+        rating = Number(input.rating);
+        if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+            return { error: `rating must be an integer from ${MIN_RATING} to ${MAX_RATING}` };
+        }
+    }
+
+    return { annotation: { tags, note, rating } };
+}
+
+/**
+ * 保存一个模型的注释；标签、备注和评分都为空时删除
+ * 与其他模型的标签只有大小写不同时沿用已有写法，避免筛选时出现重复标签
+ * @returns {Annotation | null}
+ */
+export function saveAnnotation(modelId, annotation, updatedBy = null) {
+    const store = readStore();
+
+    const knownTags = new Map();
+    for (const [id, { tags }] of Object.entries(store.annotations)) {
+        if (id === modelId) continue;
+        tags.forEach(tag => knownTags.set(tag.toLowerCase(), tag));
+    }
+    annotation = {
+        ...annotation,
+        tags: annotation.tags.map(tag => knownTags.get(tag.toLowerCase()) || tag)
+    };
+
+    if (annotation.tags.length === 0 && !annotation.note && annotation.rating === null) {
+        delete store.annotations[modelId];
+        writeStore(store);
+        return null;
+    }
+
+    store.annotations[modelId] = {
+        ...annotation,
+        updatedAt: new Date().toISOString(),
+        updatedBy
+    };
+    writeStore(store);
+    return store.annotations[modelId];
+}
+
+export function deleteAnnotation(modelId) {
+    const store = readStore();
+    if (!store.annotations[modelId]) return false;
+    delete store.annotations[modelId];
+    writeStore(store);
+    return true;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+let dir;
+
+// ANNOTATIONS_FILE 在模块加载时读取，每个用例重新加载模块
+async function loadAnnotations() {
+    vi.stubEnv('ANNOTATIONS_FILE', path.join(dir, 'annotations.json'));
+    vi.resetModules();
+    return import('./annotations.js');
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'annotations-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+});
+
+describe('validateAnnotation', () => {
+    it('trims and de-duplicates tags case-insensitively', async () => {
+        const { validateAnnotation } = await loadAnnotations();
+        expect(validateAnnotation({ tags: [' Approved ', 'approved', 'JSON  mode', ''], note: ' ok ', rating: '4' })).toEqual({
+            annotation: { tags: ['Approved', 'JSON mode'], note: 'ok', rating: 4 }
+        });
+    });
+
+    it('rejects invalid tags, notes and ratings', async () => {
+        const { validateAnnotation } = await loadAnnotations();
+        expect(validateAnnotation(null).error).toMatch(/must be an object/);
+        expect(validateAnnotation({ tags: 'approved' }).error).toBe('tags must be an array of strings');
+        expect(validateAnnotation({ tags: ['x'.repeat(41)] }).error).toMatch(/longer than 40 characters/);
+        expect(validateAnnotation({ tags: Array.from({ length: 11 }, (_, i) => `t${i}`) }).error).toBe('At most 10 tags per model');
+        expect(validateAnnotation({ note: 'x'.repeat(281) }).error).toBe('note must be at most 280 characters');
+        expect(validateAnnotation({ rating: 6 }).error).toBe('rating must be an integer from 1 to 5');
+        expect(validateAnnotation({ rating: 2.5 }).error).toBe('rating must be an integer from 1 to 5');
+    });
+});
+
+describe('annotation store', () => {
+    it('reuses the spelling of tags already used on other models', async () => {
+        const { saveAnnotation, listTags } = await loadAnnotations();
+        saveAnnotation('openai/gpt-4o', { tags: ['Approved'], note: '', rating: null }, 'admin');
+        const saved = saveAnnotation('anthropic/claude-sonnet-4', { tags: ['approved', 'Long context'], note: '', rating: 5 }, 'admin');
+
+        expect(saved).toMatchObject({ tags: ['Approved', 'Long context'], rating: 5, updatedBy: 'admin' });
+        expect(listTags()).toEqual([{ tag: 'Approved', count: 2 }, { tag: 'Long context', count: 1 }]);
+    });
+
+    it('removes an annotation saved empty', async () => {
+        const { saveAnnotation, readAnnotations, deleteAnnotation } = await loadAnnotations();
+        saveAnnotation('openai/gpt-4o', { tags: ['Approved'], note: '', rating: null });
+        expect(saveAnnotation('openai/gpt-4o', { tags: [], note: '', rating: null })).toBeNull();
+        expect(Object.keys(readAnnotations())).toEqual([]);
+        expect(deleteAnnotation('openai/gpt-4o')).toBe(false);
+    });
+
+    it('stores IDs that collide with object prototype keys as plain entries', async () => {
+        const { saveAnnotation, readAnnotations, withAnnotations, deleteAnnotation } = await loadAnnotations();
+        expect(deleteAnnotation('constructor')).toBe(false);
+        expect(withAnnotations([{ id: 'toString' }])).toEqual([{ id: 'toString' }]);
+
+        saveAnnotation('__proto__', { tags: ['odd'], note: '', rating: null });
+        const annotations = readAnnotations();
+        expect(Object.keys(annotations)).toEqual(['__proto__']);
+        expect(Object.getPrototypeOf(annotations)).toBeNull();
+        expect(withAnnotations([{ id: 'constructor' }])).toEqual([{ id: 'constructor' }]);
+    });
+
+    it('attaches annotations to annotated models only', async () => {
+        const { saveAnnotation, withAnnotations } = await loadAnnotations();
+        const annotation = saveAnnotation('openai/gpt-4o', { tags: [], note: 'Default choice', rating: null });
+        expect(withAnnotations([{ id: 'openai/gpt-4o' }, { id: 'x-ai/grok-4' }])).toEqual([
+            { id: 'openai/gpt-4o', annotation },
+            { id: 'x-ai/grok-4' }
+        ]);
+    });
+});
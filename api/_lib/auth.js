@@ -0,0 +1,324 @@
+/**
+ * 管理员认证（会话令牌、密码哈希、登录失败限流）
+ * 由需要管理员权限的 API 共用，登录/登出/续期见 api/auth.js
+ *
+ * 会话令牌：base64url(JSON { sub, jti, iat, exp }) + "." + base64url(HMAC-SHA256 签名)
+ * 浏览器通过 Authorization: Bearer <token> 调用管理 API；
+ * 脚本等非浏览器客户端仍可使用 Basic Auth（失败次数同样按 IP 限制）
+ *
+ * 环境变量：
+ *   ADMIN_USERNAME       默认 admin
+ *   ADMIN_PASSWORD_HASH  scrypt 哈希（node scripts/hash-password.cjs 生成），优先于 ADMIN_PASSWORD
+ *   ADMIN_PASSWORD       明文密码（旧配置，仍然支持）
+ *   AUTH_SECRET          令牌签名密钥；生产环境（Vercel 或 NODE_ENV=production）必须设置，
+ *                        开发环境未设置时每个进程使用随机密钥（重启后需要重新登录）
+ *   AUTH_SESSION_TTL     会话有效期（秒），默认 3600
+ *   TRUST_PROXY=1        按 X-Forwarded-For 识别客户端 IP（Vercel 上自动启用）
+ *
+ * 登出的令牌和登录失败次数只保存在内存中（Vercel 上按实例计算）
+ */
+
+import crypto from 'crypto';
+
+const DEFAULT_SESSION_TTL = 60 * 60;
+
+// 登录失败限流：窗口内最多失败次数
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+// 最多记录的 IP 数，超出时丢弃最早的记录（防止大量 IP 轮换时内存无限增长）
+const MAX_TRACKED_IPS = 10000;
+
+// scrypt 参数（与 scripts/hash-password.cjs 生成的哈希一致）
+const SCRYPT_KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+/**
+ * 读取管理员账号配置
+ * @returns {{ username: string, passwordHash?: string, password?: string } | null}
+ */
+function getAdminConfig() {
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    const passwordHash = process.env.ADMIN_PASSWORD_HASH;
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (passwordHash) return { username, passwordHash };
+    if (password) return { username, password };
+    return null;
+}
+
+/**
+ * 生成密码哈希：scrypt:<salt hex>:<hash hex>
+ * （用冒号分隔，避免 .env 和 shell 展开 $）
+ */
+export function hashPassword(password, salt = crypto.randomBytes(16).toString('hex')) {
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+    return `${HASH_PREFIX}:${salt}:${hash}`;
+}
+
+// 定长比较，避免按耗时猜测密码
+function safeEqual(a, b) {
+    const digestA = crypto.createHash('sha256').update(a).digest();
+    const digestB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(digestA, digestB);
+}
+
+function verifyPassword(password, admin) {
+    if (admin.password) return safeEqual(password, admin.password);
+
+    const [prefix, salt, expected] = admin.passwordHash.split(':');
+    if (prefix !== HASH_PREFIX || !salt || !expected) {
+        console.error('ADMIN_PASSWORD_HASH is not a valid scrypt hash');
+        return false;
+    }
+    return safeEqual(hashPassword(password, salt), admin.passwordHash);
+}
+
+/**
+ * 校验用户名和密码
+ * @returns {{ valid: boolean, username?: string, error?: string }}
+ */
+export function checkCredentials(username, password) {
+    const admin = getAdminConfig();
+    if (!admin) {
+        console.error('ADMIN_PASSWORD_HASH or ADMIN_PASSWORD environment variable not set');
+        return { valid: false, error: 'Server configuration error' };
+    }
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+        return { valid: false, error: 'Invalid credentials' };
+    }
+
+    // 两项都比较，避免通过响应时间判断用户名是否正确
+    const usernameOk = safeEqual(username, admin.username);
+    const passwordOk = verifyPassword(password, admin);
+
+    return usernameOk && passwordOk
+        ? { valid: true, username }
+        : { valid: false, error: 'Invalid credentials' };
+}
+
+// ---------------------------------------------------------------------------
+// 会话令牌
+// ---------------------------------------------------------------------------
+
+function getSessionTtl() {
+    const ttl = Number(process.env.AUTH_SESSION_TTL);
+    return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_SESSION_TTL;
+}
+
+const isProduction = () => Boolean(process.env.VERCEL) || process.env.NODE_ENV === 'production';
+
+// 开发环境的进程内随机密钥
+const processKey = crypto.randomBytes(32);
+
+/**
+ * 令牌签名密钥；生产环境未设置 AUTH_SECRET 时为 null（不能签发或校验会话）
+ */
+function getSigningKey() {
+    if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+    return isProduction() ? null : processKey;
+}
+
+/**
+ * 是否可以签发会话令牌
+ */
+export function hasSigningKey() {
+    return getSigningKey() !== null;
+}
+
+const sign = (payload) =>
+    crypto.createHmac('sha256', getSigningKey()).update(payload).digest('base64url');
+
+// 已登出的令牌：jti -> 过期时间（毫秒）
+const revokedSessions = new Map();
+
+function pruneRevoked(now) {
+    for (const [jti, exp] of revokedSessions) {
+        if (exp <= now) revokedSessions.delete(jti);
+    }
+}
+
+/**
+ * 签发会话令牌
+ * @returns {{ token: string, expiresAt: string, username: string }}
+ */
+export function createSession(username) {
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + getSessionTtl();
+    const payload = Buffer.from(JSON.stringify({
+        sub: username,
+        jti: crypto.randomBytes(12).toString('base64url'),
+        iat,
+        exp
+    })).toString('base64url');
+
+    return {
+        token: `${payload}.${sign(payload)}`,
+        expiresAt: new Date(exp * 1000).toISOString(),
+        username
+    };
+}
+
+/**
+ * 校验会话令牌（签名、过期时间、是否已登出）
+ * @returns {{ valid: boolean, session?: object, error?: string }}
+ */
+export function verifySession(token) {
+    if (!hasSigningKey()) {
+        return { valid: false, error: 'Server configuration error' };
+    }
+
+    const [payload, signature] = String(token || '').split('.');
+    if (!payload || !signature || !safeEqual(signature, sign(payload))) {
+        return { valid: false, error: 'Invalid session token' };
+    }
+
+    let session;
+    try {
+        session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+        return { valid: false, error: 'Invalid session token' };
+    }
+
+    if (!session.exp || session.exp * 1000 <= Date.now()) {
+        return { valid: false, error: 'Session expired' };
+    }
+    if (revokedSessions.has(session.jti)) {
+        return { valid: false, error: 'Session has been logged out' };
+    }
+
+    return { valid: true, session };
+}
+
+/**
+ * 使令牌失效（登出、续期后的旧令牌）
+ */
+export function revokeSession(session) {
+    const now = Date.now();
+    pruneRevoked(now);
+    revokedSessions.set(session.jti, session.exp * 1000);
+}
+
+/**
+ * 从 Authorization: Bearer 头读取会话令牌
+ */
+export function getBearerToken(req) {
+    const authHeader = req.headers.authorization || req.headers.Authorization || '';
+    return authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+}
+
+// ---------------------------------------------------------------------------
+// 登录失败限流（按 IP）
+// ---------------------------------------------------------------------------
+
+// ip -> { count, resetAt }
+const failedLogins = new Map();
+
+// 可信代理层数：Vercel 为 1；TRUST_PROXY 可设为层数，其他非空值按 1 层处理
+function trustedProxyHops() {
+    const hops = Number.parseInt(process.env.TRUST_PROXY, 10);
+    if (Number.isInteger(hops) && hops > 0) return hops;
+    return process.env.VERCEL || process.env.TRUST_PROXY ? 1 : 0;
+}
+
+/**
+ * 客户端 IP：只有在可信代理后面时才使用 X-Forwarded-For
+ * 代理会把对端地址追加到末尾，前面的条目可由客户端伪造，因此从末尾往前数可信代理层数
+ */
+export function getClientIp(req) {
+    const hops = trustedProxyHops();
+    const forwarded = req.headers['x-forwarded-for'];
+    if (hops > 0 && forwarded) {
+        const entries = String(forwarded).split(',').map(entry => entry.trim()).filter(Boolean);
+        const ip = entries[Math.max(entries.length - hops, 0)];
+        if (ip) return ip;
+    }
+    return req.socket?.remoteAddress || 'unknown';
+}
+
+// 清理已过期的记录
+function pruneFailedLogins(now) {
+    for (const [ip, entry] of failedLogins) {
+        if (entry.resetAt <= now) failedLogins.delete(ip);
+    }
+}
+
+/**
+ * 检查是否已被限流
+ * @returns {{ limited: boolean, retryAfter?: number }} retryAfter 为秒数
+ */
+export function checkLoginRateLimit(ip) {
+    const now = Date.now();
+    pruneFailedLogins(now);
+
+    const entry = failedLogins.get(ip);
+    if (!entry) {
+        return { limited: false };
+    }
+    return entry.count >= MAX_FAILED_LOGINS
+        ? { limited: true, retryAfter: Math.ceil((entry.resetAt - now) / 1000) }
+        : { limited: false };
+}
+
+export function recordFailedLogin(ip) {
+    const now = Date.now();
+    const entry = failedLogins.get(ip);
+
+    if (!entry || entry.resetAt <= now) {
+        failedLogins.delete(ip);
+        failedLogins.set(ip, { count: 1, resetAt: now + FAILED_LOGIN_WINDOW_MS });
+    } else {
+        entry.count++;
+    }
+
+    // Map 按插入顺序遍历，最早的记录在前
+    while (failedLogins.size > MAX_TRACKED_IPS) {
+        failedLogins.delete(failedLogins.keys().next().value);
+    }
+}
+
+export function clearFailedLogins(ip) {
+    failedLogins.delete(ip);
+}
+
+/**
+ * Verify admin authentication (Bearer session token or Basic Auth)
+ */
+export function verifyAuth(req) {
+    const authHeader = req.headers.authorization || req.headers.Authorization;
+
+    if (!authHeader) {
+        return { valid: false, error: 'No authorization header' };
+    }
+
+    // 登录后签发的会话令牌
+    const token = getBearerToken(req);
+    if (token) {
+        const result = verifySession(token);
+        return result.valid
+            ? { valid: true, username: result.session.sub }
+            : { valid: false, error: result.error };
+    }
+
+    // Basic Auth（脚本调用），与登录共用失败限流
+    if (authHeader.startsWith('Basic ')) {
+        const ip = getClientIp(req);
+        const rateLimit = checkLoginRateLimit(ip);
+        if (rateLimit.limited) {
+            return { valid: false, error: `Too many failed attempts. Try again in ${rateLimit.retryAfter} seconds.` };
+        }
+
+        const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf-8');
+        const separator = decoded.indexOf(':');
+        const result = checkCredentials(decoded.slice(0, separator), decoded.slice(separator + 1));
+
+        if (result.valid) {
+            clearFailedLogins(ip);
+        } else {
+            recordFailedLogin(ip);
+        }
+        return result;
+    }
+
+    return { valid: false, error: 'Invalid credentials' };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    hashPassword,
+    checkCredentials,
+    createSession,
+    verifySession,
+    revokeSession,
+    hasSigningKey,
+    checkLoginRateLimit,
+    recordFailedLogin,
+    clearFailedLogins,
+    verifyAuth,
+    getClientIp
+} from './auth.js';
+
+beforeEach(() => {
+    vi.stubEnv('ADMIN_USERNAME', 'admin');
+    vi.stubEnv('ADMIN_PASSWORD_HASH', hashPassword('correct horse', 'fixedsalt'));
+    vi.stubEnv('AUTH_SECRET', 'test-secret');
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+});
+
+describe('checkCredentials', () => {
+    it('accepts the hashed password', () => {
+        expect(checkCredentials('admin', 'correct horse')).toEqual({ valid: true, username: 'admin' });
+    });
+
+    it('rejects a wrong username or password', () => {
+        expect(checkCredentials('admin', 'wrong')).toEqual({ valid: false, error: 'Invalid credentials' });
+        expect(checkCredentials('root', 'correct horse')).toEqual({ valid: false, error: 'Invalid credentials' });
+    });
+
+    it('reports a missing password configuration', () => {
+        vi.stubEnv('ADMIN_PASSWORD_HASH', '');
+        expect(checkCredentials('admin', 'x')).toEqual({ valid: false, error: 'Server configuration error' });
+    });
+});
+
+describe('session tokens', () => {
+    it('verifies a token it signed', () => {
+        const { token, username } = createSession('admin');
+        const result = verifySession(token);
+        expect(username).toBe('admin');
+        expect(result.valid).toBe(true);
+        expect(result.session.sub).toBe('admin');
+    });
+
+    it('rejects a tampered payload or a token signed with another key', () => {
+        const { token } = createSession('admin');
+        const [payload, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ sub: 'mallory', exp: 9999999999 })).toString('base64url');
+        expect(verifySession(`${forged}.${signature}`)).toEqual({ valid: false, error: 'Invalid session token' });
+
+        vi.stubEnv('AUTH_SECRET', 'other-secret');
+        expect(verifySession(`${payload}.${signature}`).valid).toBe(false);
+    });
+
+    it('expires tokens after the session TTL', () => {
+        vi.useFakeTimers();
+        vi.stubEnv('AUTH_SESSION_TTL', '60');
+        const { token } = createSession('admin');
+
+        vi.advanceTimersByTime(61 * 1000);
+        expect(verifySession(token)).toEqual({ valid: false, error: 'Session expired' });
+    });
+
+    it('rejects logged-out tokens', () => {
+        const { token } = createSession('admin');
+        revokeSession(verifySession(token).session);
+        expect(verifySession(token)).toEqual({ valid: false, error: 'Session has been logged out' });
+    });
+
+    it('refuses to sign without AUTH_SECRET in production', () => {
+        vi.stubEnv('AUTH_SECRET', '');
+        vi.stubEnv('NODE_ENV', 'production');
+        expect(hasSigningKey()).toBe(false);
+        expect(verifySession('a.b')).toEqual({ valid: false, error: 'Server configuration error' });
+    });
+
+    it('signs with a per-process key in development', () => {
+        vi.stubEnv('AUTH_SECRET', '');
+        vi.stubEnv('NODE_ENV', 'development');
+        expect(hasSigningKey()).toBe(true);
+        expect(verifySession(createSession('admin').token).valid).toBe(true);
+    });
+});
+
+describe('getClientIp', () => {
+    const request = (forwarded) => ({
+        headers: { 'x-forwarded-for': forwarded },
+        socket: { remoteAddress: '10.0.0.1' }
+    });
+
+    it('ignores X-Forwarded-For without a trusted proxy', () => {
+        vi.stubEnv('VERCEL', '');
+        vi.stubEnv('TRUST_PROXY', '');
+        expect(getClientIp(request('198.51.100.7'))).toBe('10.0.0.1');
+    });
+
+    it('uses the entry appended by the trusted proxy, not a spoofed one', () => {
+        vi.stubEnv('TRUST_PROXY', '1');
+        // 客户端自带的伪造条目在前，nginx 追加的真实地址在末尾
+        expect(getClientIp(request('1.2.3.4, 5.6.7.8, 203.0.113.9'))).toBe('203.0.113.9');
+        expect(getClientIp(request('9.9.9.9, 203.0.113.9'))).toBe('203.0.113.9');
+    });
+
+    it('counts back the configured number of proxy hops', () => {
+        vi.stubEnv('TRUST_PROXY', '2');
+        expect(getClientIp(request('1.2.3.4, 203.0.113.9, 10.0.0.2'))).toBe('203.0.113.9');
+        // 条目少于层数时取最前面的一个
+        expect(getClientIp(request('203.0.113.9'))).toBe('203.0.113.9');
+    });
+});
+
+describe('login rate limiting', () => {
+    it('limits an IP after five failures until the window ends', () => {
+        vi.useFakeTimers();
+        const ip = '203.0.113.1';
+        for (let i = 0; i < 4; i++) recordFailedLogin(ip);
+        expect(checkLoginRateLimit(ip)).toEqual({ limited: false });
+
+        recordFailedLogin(ip);
+        expect(checkLoginRateLimit(ip)).toEqual({ limited: true, retryAfter: 900 });
+        expect(checkLoginRateLimit('203.0.113.2')).toEqual({ limited: false });
+
+        vi.advanceTimersByTime(15 * 60 * 1000);
+        expect(checkLoginRateLimit(ip)).toEqual({ limited: false });
+    });
+
+    it('clears the counter after a successful login', () => {
+        const ip = '203.0.113.3';
+        for (let i = 0; i < 5; i++) recordFailedLogin(ip);
+        clearFailedLogins(ip);
+        expect(checkLoginRateLimit(ip)).toEqual({ limited: false });
+    });
+
+    it('counts failed Basic Auth attempts', () => {
+        const req = {
+            headers: { authorization: `Basic ${Buffer.from('admin:wrong').toString('base64')}` },
+            socket: { remoteAddress: '203.0.113.4' }
+        };
+        for (let i = 0; i < 5; i++) verifyAuth(req);
+        expect(verifyAuth(req).error).toMatch(/^Too many failed attempts/);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * 基准测试成绩（由管理员在后台导入，与预设、汇率一起保存在配置中）
+ *
+ * 结构：[{ id, name, scores: { "<model id>": 88.7, ... } }]
+ * 第一个基准为主基准，前端用它计算每分成本（混合价格 / 分数）
+ * CSV / JSON 文件的解析和模型 ID 匹配在后台页面完成（见 src/utils/benchmarks.ts），
+ * 这里只校验整理后的结果；旧版本配置没有 benchmarks 时为空列表
+ */
+
+export const MAX_BENCHMARKS = 20;
+export const MAX_BENCHMARK_NAME_LENGTH = 40;
+
+/**
+ * 从配置中读取基准测试成绩
+ */
+export function getBenchmarks(config) {
+    return Array.isArray(config.benchmarks) ? config.benchmarks : [];
+}
+
+/**
+ * 校验并整理提交的基准测试成绩
+ * @returns {{ benchmarks?: Array, error?: string }}
+ */
+export function validateBenchmarks(input) {
+    if (!Array.isArray(input)) {
+        return { error: 'benchmarks must be an array like [{ id, name, scores }]' };
+    }
+    if (input.length > MAX_BENCHMARKS) {
+        return { error: `At most ${MAX_BENCHMARKS} benchmarks` };
+    }
+
+    const benchmarks = [];
+
+    for (const item of input) {
+        if (!item || typeof item !== 'object') {
+            return { error: 'Each benchmark must be an object with id, name and scores' };
+        }
+
+        const id = typeof item.id === 'string' ? item.id.trim() : '';
+        const name = typeof item.name === 'string' ? item.name.trim() : '';
+
+        if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+            return { error: `Invalid benchmark id "${item.id}" (use lowercase letters, digits and -)` };
+        }
+        if (benchmarks.some(b => b.id === id)) {
+            return { error: `Duplicate benchmark id "${id}"` };
+        }
+        if (!name || name.length > MAX_BENCHMARK_NAME_LENGTH) {
+            return { error: `Benchmark "${id}" needs a name of at most ${MAX_BENCHMARK_NAME_LENGTH} characters` };
+        }
+        if (!item.scores || typeof item.scores !== 'object' || Array.isArray(item.scores)) {
+            return { error: `Scores of "${name}" must be an object like { "openai/gpt-4o": 88.7 }` };
+        }
+
+        const scores = {};
+        for (const [modelId, rawScore] of Object.entries(item.scores)) {
+            const score = Number(rawScore);
+            if (!modelId.trim() || !Number.isFinite(score) || score < 0) {
+                return { error: `Score of ${modelId} in "${name}" must be a non-negative number` };
+            }
+            scores[modelId.trim()] = score;
+        }
+
+        benchmarks.push({ id, name, scores });
+    }
+
+    return { benchmarks };
+}
@@ -0,0 +1,182 @@
+/**
+ * 站点配置存储（可插拔后端，保留所有历史版本）
+ *
+ * CONFIG_STORE=file    写入 data/config.json（自托管服务、本地开发）
+ * CONFIG_STORE=memory  只保存在内存中（Vercel 等只读文件系统，冷启动后丢失）
+ * 未设置时：Vercel 上使用 memory，其他环境使用 file
+ * CONFIG_FILE 可覆盖 file 后端的文件路径
+ *
+ * 每次保存都会追加一个版本：
+ *   { version, config, updatedAt, updatedBy, note }
+ * 没有任何版本时，返回由调用方提供的初始配置（版本号 0）
+ * 同一进程内的保存依次执行（读取 → 追加 → 写入），并发保存不会丢失版本
+ * 部分更新使用 update(merge)：读取当前配置、合并、写入在同一个队列任务中完成
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from './paths.js';
+
+const DEFAULT_CONFIG_FILE = path.join(DATA_DIR, 'config.json');
+
+// 最多保留的版本数
+const MAX_VERSIONS = 200;
+
+/**
+ * 内存后端
+ */
+function createMemoryBackend() {
+    let versions = [];
+    return {
+        name: 'memory',
+        async read() {
+            return versions;
+        },
+        async write(next) {
+            versions = next;
+        }
+    };
+}
+
+/**
+ * 文件后端：先写临时文件再重命名，避免写到一半的文件
+ */
+function createFileBackend(file) {
+    return {
+        name: 'file',
+        async read() {
+            try {
+                const content = await fs.promises.readFile(file, 'utf-8');
+                return JSON.parse(content).versions || [];
+            } catch (error) {
+                if (error.code === 'ENOENT') return [];
+                throw error;
+            }
+        },
+        async write(versions) {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            const tmpFile = `${file}.${process.pid}.tmp`;
+            await fs.promises.writeFile(tmpFile, JSON.stringify({ versions }, null, 2), 'utf-8');
+            await fs.promises.rename(tmpFile, file);
+        }
+    };
+}
+
+const BACKENDS = {
+    memory: () => createMemoryBackend(),
+    file: () => createFileBackend(process.env.CONFIG_FILE || DEFAULT_CONFIG_FILE)
+};
+
+/**
+ * 创建配置存储
+ * @param getInitialConfig 无保存版本时的初始配置 () => { config, source }
+ */
+export function createConfigStore(getInitialConfig, backendName = process.env.CONFIG_STORE) {
+    const name = backendName || (process.env.VERCEL ? 'memory' : 'file');
+    const createBackend = BACKENDS[name];
+
+    if (!createBackend) {
+        throw new Error(`Unknown CONFIG_STORE backend: ${name}`);
+    }
+
+    const backend = createBackend();
+
+    // 保存队列：上一次保存结束（无论成败）后才开始下一次
+    let pending = Promise.resolve();
+    const enqueue = task => {
+        const result = pending.then(task);
+        pending = result.catch(() => {});
+        return result;
+    };
+
+    // 在已读取的版本列表末尾追加一个版本并写入
+    const appendVersion = async (versions, config, updatedBy, note) => {
+        const last = versions[versions.length - 1];
+        const entry = {
+            version: (last?.version || 0) + 1,
+            config,
+            updatedAt: new Date().toISOString(),
+            updatedBy,
+            note
+        };
+        await backend.write([...versions, entry].slice(-MAX_VERSIONS));
+        return { ...entry, source: 'admin' };
+    };
+
+    const initialVersion = () => {
+        const { config, source } = getInitialConfig();
+        return {
+            version: 0,
+            config,
+            updatedAt: null,
+            updatedBy: null,
+            note: 'Initial config',
+            source
+        };
+    };
+
+    return {
+        backend: backend.name,
+
+        /**
+         * 当前生效的版本
+         */
+        async getCurrent() {
+            const versions = await backend.read();
+            return versions.length > 0
+                ? { ...versions[versions.length - 1], source: 'admin' }
+                : initialVersion();
+        },
+
+        /**
+         * 所有版本（新到旧），包含初始配置
+         */
+        async listVersions() {
+            const versions = await backend.read();
+            return [...versions]
+                .reverse()
+                .map(v => ({ ...v, source: 'admin' }))
+                .concat(initialVersion());
+        },
+
+        async getVersion(version) {
+            if (version === 0) return initialVersion();
+            const versions = await backend.read();
+            return versions.find(v => v.version === version) || null;
+        },
+
+        /**
+         * 保存新版本
+         */
+        save(config, updatedBy, note = '') {
+            return enqueue(async () => {
+                const versions = await backend.read();
+                return appendVersion(versions, config, updatedBy, note);
+            });
+        },
+
+        /**
+         * 基于当前配置保存新版本，避免并发的部分更新互相覆盖
+         * @param merge (currentConfig) => { config?, error? }
+         * @returns {{ version?: object, error?: string }} 有 error 时不保存
+         */
+        update(merge, updatedBy, note = '') {
+            return enqueue(async () => {
+                const versions = await backend.read();
+                const current = versions.length > 0 ? versions[versions.length - 1] : initialVersion();
+                const result = merge(current.config);
+                if (result.error) return { error: result.error };
+                return { version: await appendVersion(versions, result.config, updatedBy, note) };
+            });
+        },
+
+        /**
+         * 回滚：把指定版本的配置另存为一个新版本
+         */
+        async rollback(version, updatedBy) {
+            const target = await this.getVersion(version);
+            if (!target) return null;
+            return this.save(target.config, updatedBy, `Rollback to v${version}`);
+        }
+    };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createConfigStore } from './configStore.js';
+
+const initial = () => ({ config: { defaultModels: ['openai/gpt-4o'] }, source: 'env' });
+
+let dir;
+let configFile;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-store-'));
+    configFile = path.join(dir, 'config.json');
+    vi.stubEnv('CONFIG_FILE', configFile);
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+});
+
+describe.each(['memory', 'file'])('createConfigStore (%s)', backend => {
+    it('starts from the initial config as version 0', async () => {
+        const store = createConfigStore(initial, backend);
+        expect(store.backend).toBe(backend);
+        expect(await store.getCurrent()).toMatchObject({ version: 0, config: initial().config, source: 'env' });
+    });
+
+    it('appends a version on every save and lists them newest first', async () => {
+        const store = createConfigStore(initial, backend);
+        await store.save({ defaultModels: ['a/b'] }, 'admin', 'first');
+        await store.save({ defaultModels: ['c/d'] }, 'admin');
+
+        expect(await store.getCurrent()).toMatchObject({ version: 2, config: { defaultModels: ['c/d'] }, source: 'admin' });
+        expect((await store.listVersions()).map(v => v.version)).toEqual([2, 1, 0]);
+    });
+
+    it('keeps every concurrent save', async () => {
+        const store = createConfigStore(initial, backend);
+        const saved = await Promise.all([1, 2, 3].map(n => store.save({ defaultModels: [`a/${n}`] }, 'admin')));
+
+        expect(saved.map(v => v.version)).toEqual([1, 2, 3]);
+        expect((await store.listVersions()).map(v => v.config.defaultModels[0])).toEqual(['a/3', 'a/2', 'a/1', 'openai/gpt-4o']);
+    });
+
+    it('applies overlapping updates on top of each other', async () => {
+        const store = createConfigStore(initial, backend);
+        const [first, second] = await Promise.all([
+            store.update(config => ({ config: { ...config, a: 1 } }), 'admin'),
+            store.update(config => ({ config: { ...config, b: 2 } }), 'admin')
+        ]);
+
+        expect(first.version.version).toBe(1);
+        expect(second.version).toMatchObject({ version: 2, config: { defaultModels: ['openai/gpt-4o'], a: 1, b: 2 } });
+    });
+
+    it('does not save when the merge reports an error', async () => {
+        const store = createConfigStore(initial, backend);
+        expect(await store.update(() => ({ error: 'nope' }), 'admin')).toEqual({ error: 'nope' });
+        expect((await store.getCurrent()).version).toBe(0);
+    });
+
+    it('rolls back by saving the old config as a new version', async () => {
+        const store = createConfigStore(initial, backend);
+        await store.save({ defaultModels: ['a/b'] }, 'admin');
+
+        const rolledBack = await store.rollback(0, 'admin');
+        expect(rolledBack).toMatchObject({ version: 2, config: initial().config, note: 'Rollback to v0' });
+        expect(await store.rollback(42, 'admin')).toBeNull();
+    });
+});
+
+describe('file backend', () => {
+    it('persists versions across store instances', async () => {
+        await createConfigStore(initial, 'file').save({ defaultModels: ['a/b'] }, 'admin');
+        expect(await createConfigStore(initial, 'file').getCurrent()).toMatchObject({ version: 1, updatedBy: 'admin' });
+    });
+
+    it('surfaces a corrupt file instead of resetting it', async () => {
+        fs.writeFileSync(configFile, '{ not json');
+        await expect(createConfigStore(initial, 'file').getCurrent()).rejects.toThrow(SyntaxError);
+    });
+
+    it('continues saving after a failed save', async () => {
+        const store = createConfigStore(initial, 'file');
+        fs.writeFileSync(configFile, '{ not json');
+        await expect(store.save({ defaultModels: ['a/b'] }, 'admin')).rejects.toThrow();
+
+        fs.rmSync(configFile);
+        expect(await store.save({ defaultModels: ['a/b'] }, 'admin')).toMatchObject({ version: 1 });
+    });
+});
+
+it('rejects unknown backends', () => {
+    expect(() => createConfigStore(initial, 'redis')).toThrow('Unknown CONFIG_STORE backend: redis');
+});
+
+describe('POST /api/config', () => {
+    async function loadHandler() {
+        vi.stubEnv('CONFIG_STORE', 'memory');
+        vi.stubEnv('AUTH_SECRET', 'test-secret');
+        vi.resetModules();
+        const { createSession } = await import('./auth.js');
+        const { default: handler } = await import('../config.js');
+        const token = createSession('admin').token;
+
+        return async body => {
+            const res = {
+                setHeader() {},
+                status(code) {
+                    this.statusCode = code;
+                    return this;
+                },
+                json(body) {
+                    this.body = body;
+                    return this;
+                },
+                end() {
+                    return this;
+                }
+            };
+            await handler({ method: 'POST', headers: { authorization: `Bearer ${token}` }, body }, res);
+            return res;
+        };
+    }
+
+    async function post(body) {
+        return (await loadHandler())(body);
+    }
+
+    it('saves a legacy defaultModels list into the first preset', async () => {
+        const res = await post({ defaultModels: ['openai/gpt-4o', 'openai/gpt-4o'] });
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({ success: true, version: 1, defaultModels: ['openai/gpt-4o'] });
+    });
+
+    it('rejects a legacy defaultModels list that is not all strings', async () => {
+        const res = await post({ defaultModels: ['openai/gpt-4o', 42] });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error).toBe('Bad Request');
+    });
+
+    it('keeps both changes from overlapping partial updates', async () => {
+        const send = await loadHandler();
+        await Promise.all([
+            send({ exchangeRates: { CNY: 7.2 } }),
+            send({ presets: [{ id: 'coding', title: 'Coding', models: ['openai/gpt-4o'] }] })
+        ]);
+
+        // 第二次更新基于第一次保存后的配置，汇率不会丢失
+        const res = await send({ benchmarks: [] });
+        expect(res.body).toMatchObject({
+            version: 3,
+            exchangeRates: { USD: 1, CNY: 7.2 },
+            presets: [{ id: 'coding', models: ['openai/gpt-4o'] }]
+        });
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * 模型的上游服务商（endpoint）列表
+ *
+ * 同一个 OpenRouter 模型通常由多个服务商托管，价格、上下文长度和量化方式各不相同；
+ * /api/v1/models 只给出 top_provider，同步脚本额外获取每个模型的 endpoints 列表：
+ *   GET https://openrouter.ai/api/v1/models/<author>/<slug>/endpoints
+ *
+ * data/endpoints.json（可用 ENDPOINTS_FILE 覆盖）：
+ *   { updatedAt, models: { "<模型 ID>": [endpoint, ...] } }
+ *
+ * ENDPOINTS_FIXTURE 指向录制的响应文件 { "<模型 ID>": <endpoints 响应> } 时不请求 OpenRouter，
+ * 用于本地测试（见 scripts/fixtures/openrouter-endpoints.json）；
+ * 录制的错误响应 { "error": { code, message } } 按请求失败处理
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ENDPOINTS_FILE } from './paths.js';
+
+const STORE_FILE = process.env.ENDPOINTS_FILE || ENDPOINTS_FILE;
+const FIXTURE_FILE = process.env.ENDPOINTS_FIXTURE || null;
+
+const OPENROUTER_MODELS_API = 'https://openrouter.ai/api/v1/models';
+
+// 同时进行的请求数和单个请求的超时
+const CONCURRENCY = 4;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// OpenRouter 模型 ID：<author>/<slug>，slug 可带 ":free" 等后缀
+const MODEL_ID_PATTERN = /^[\w.-]+\/[\w.:~-]+$/;
+
+/**
+ * 是否为目录中的模型 ID 格式；"." 和 ".." 段会在请求前被规范化成其他路径，一并拒绝
+ */
+export function isModelId(modelId) {
+    return MODEL_ID_PATTERN.test(modelId) && modelId.split('/').every(segment => !/^\.+$/.test(segment));
+}
+
+/**
+ * @typedef {Object} ModelEndpoint
+ * @property {string} provider           服务商名称，如 "DeepInfra"
+ * @property {string | null} tag         服务商标识，如 "deepinfra/fp8"
+ * @property {number} inputPrice         美元 / 每百万 token
+ * @property {number} outputPrice
+ * @property {number} contextLength
+ * @property {number | null} maxOutput   最大输出 token（max_completion_tokens），未公布时为 null
+ * @property {string | null} quantization
+ */
+
+// 每个 token 的美元价格 → 每百万 token，保留 3 位小数（与模型价格一致）
+function formatPrice(pricePerToken) {
+    const price = parseFloat(pricePerToken) || 0;
+    return Math.round(price * 1000000 * 1000) / 1000;
+}
+
+/**
+ * 整理一个模型的 endpoints 响应，忽略没有服务商名称的条目
+ * @returns {ModelEndpoint[]}
+ */
+export function processEndpoints(response) {
+    const endpoints = response?.data?.endpoints;
+    if (!Array.isArray(endpoints)) return [];
+
+    return endpoints
+        .filter(endpoint => endpoint && typeof endpoint.provider_name === 'string')
+        .map(endpoint => ({
+            provider: endpoint.provider_name,
+            tag: endpoint.tag || null,
+            inputPrice: formatPrice(endpoint.pricing?.prompt),
+            outputPrice: formatPrice(endpoint.pricing?.completion),
+            contextLength: endpoint.context_length || 0,
+            maxOutput: endpoint.max_completion_tokens || null,
+            // OpenRouter 对未公布的量化方式返回 "unknown"
+            quantization: endpoint.quantization && endpoint.quantization !== 'unknown' ? endpoint.quantization : null
+        }));
+}
+
+let fixture = null;
+
+function readFixture() {
+    if (!fixture) {
+        fixture = JSON.parse(fs.readFileSync(path.resolve(FIXTURE_FILE), 'utf-8'));
+    }
+    return fixture;
+}
+
+/**
+ * 获取一个模型的 endpoints 列表
+ * 模型不存在（404）或录制文件中没有该模型时返回 null，其他错误抛出
+ * @returns {Promise<ModelEndpoint[] | null>}
+ */
+export async function fetchModelEndpoints(modelId) {
+    if (FIXTURE_FILE) {
+        const response = readFixture()[modelId];
+        if (response?.error) {
+            throw new Error(`OpenRouter API error: ${response.error.code} ${response.error.message}`);
+        }
+        return response ? processEndpoints(response) : null;
+    }
+
+    // 模型 ID 中的 "/" 是路径的一部分，其余部分分别编码
+    const slug = modelId.split('/').map(encodeURIComponent).join('/');
+    const response = await fetch(`${OPENROUTER_MODELS_API}/${slug}/endpoints`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
+    }
+
+    return processEndpoints(await response.json());
+}
+
+/**
+ * 读取上一次同步的 endpoints 数据
+ */
+export function readEndpoints() {
+    try {
+        const data = JSON.parse(fs.readFileSync(STORE_FILE, 'utf-8'));
+        return { updatedAt: data.updatedAt || null, models: data.models || {} };
+    } catch {
+        return { updatedAt: null, models: {} };
+    }
+}
+
+/**
+ * 获取所有模型的 endpoints 列表并保存
+ * 单个模型请求失败时沿用上一次的数据，不影响其他模型
+ * @returns {{ data: { updatedAt, models }, failed: Array<{ id, error }> }}
+ */
+export async function syncEndpoints(modelIds) {
+    const previous = readEndpoints().models;
+    const models = {};
+    const failed = [];
+
+    let next = 0;
+    const worker = async () => {
+        while (next < modelIds.length) {
+            const id = modelIds[next++];
+            try {
+                const endpoints = await fetchModelEndpoints(id);
+                if (endpoints) models[id] = endpoints;
+            } catch (error) {
+                failed.push({ id, error: error.message });
+                if (previous[id]) models[id] = previous[id];
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, modelIds.length) }, worker));
+
+    // 按目录顺序保存，便于比较两次同步的文件
+    const ordered = {};
+    for (const id of modelIds) {
+        if (models[id]) ordered[id] = models[id];
+    }
+
+    const data = { updatedAt: new Date().toISOString(), models: ordered };
+    fs.mkdirSync(path.dirname(STORE_FILE), { recursive: true });
+    fs.writeFileSync(STORE_FILE, JSON.stringify(data, null, 2), 'utf-8');
+
+    return { data, failed };
+}
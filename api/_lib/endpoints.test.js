@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURE_FILE = fileURLToPath(new URL('../../scripts/fixtures/openrouter-endpoints.json', import.meta.url));
+
+let dir;
+let storeFile;
+
+// ENDPOINTS_FILE 和 ENDPOINTS_FIXTURE 在模块加载时读取，每个用例重新加载模块
+async function loadEndpoints(fixtureFile = FIXTURE_FILE) {
+    vi.stubEnv('ENDPOINTS_FILE', storeFile);
+    vi.stubEnv('ENDPOINTS_FIXTURE', fixtureFile);
+    vi.resetModules();
+    return import('./endpoints.js');
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoints-'));
+    storeFile = path.join(dir, 'endpoints.json');
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+});
+
+describe('processEndpoints', () => {
+    it('converts prices to $/M and drops unknown quantization', async () => {
+        const { processEndpoints } = await loadEndpoints();
+        const fixture = JSON.parse(fs.readFileSync(FIXTURE_FILE, 'utf-8'));
+        const endpoints = processEndpoints(fixture['meta-llama/llama-3.3-70b-instruct']);
+
+        expect(endpoints).toHaveLength(6);
+        expect(endpoints[0]).toMatchObject({ provider: 'DeepInfra', tag: 'deepinfra/fp8', inputPrice: 0.23, quantization: 'fp8' });
+        expect(endpoints.find(e => e.provider === 'Groq').quantization).toBeNull();
+    });
+
+    it('returns no endpoints for malformed responses', async () => {
+        const { processEndpoints } = await loadEndpoints();
+        expect(processEndpoints(null)).toEqual([]);
+        expect(processEndpoints({ data: { endpoints: [{ pricing: {} }] } })).toEqual([]);
+    });
+});
+
+describe('syncEndpoints', () => {
+    it('saves the recorded endpoints in catalog order', async () => {
+        const { syncEndpoints, readEndpoints } = await loadEndpoints();
+        const ids = ['openai/gpt-4o', 'unknown/model', 'deepseek/deepseek-chat', 'meta-llama/llama-3.3-70b-instruct'];
+
+        const { data, failed } = await syncEndpoints(ids);
+        expect(failed).toEqual([]);
+        expect(Object.keys(data.models)).toEqual(['openai/gpt-4o', 'deepseek/deepseek-chat', 'meta-llama/llama-3.3-70b-instruct']);
+        expect(data.models['deepseek/deepseek-chat'].map(e => e.provider)).toEqual(['DeepSeek', 'DeepInfra', 'Fireworks']);
+        expect(readEndpoints()).toEqual(data);
+    });
+
+    it('keeps the previous list of a model whose request fails', async () => {
+        const fixture = JSON.parse(fs.readFileSync(FIXTURE_FILE, 'utf-8'));
+        fixture['openai/gpt-4o'] = { error: { code: 502, message: 'Bad Gateway' } };
+        const failingFixture = path.join(dir, 'fixture.json');
+        fs.writeFileSync(failingFixture, JSON.stringify(fixture));
+
+        const previousList = [{
+            provider: 'OpenAI', tag: 'openai', inputPrice: 2.5, outputPrice: 10,
+            contextLength: 128000, maxOutput: 16384, quantization: null
+        }];
+        fs.writeFileSync(storeFile, JSON.stringify({
+            updatedAt: '2026-01-01T00:00:00.000Z',
+            models: { 'openai/gpt-4o': previousList, 'removed/model': previousList }
+        }));
+
+        const { syncEndpoints } = await loadEndpoints(failingFixture);
+        const { data, failed } = await syncEndpoints(['openai/gpt-4o', 'deepseek/deepseek-chat']);
+
+        expect(failed).toEqual([{ id: 'openai/gpt-4o', error: 'OpenRouter API error: 502 Bad Gateway' }]);
+        expect(data.models['openai/gpt-4o']).toEqual(previousList);
+        expect(data.models['deepseek/deepseek-chat']).toHaveLength(3);
+        expect(data.models).not.toHaveProperty('removed/model');
+        expect(JSON.parse(fs.readFileSync(storeFile, 'utf-8')).models).toEqual(data.models);
+    });
+});
+
+describe('GET /api/endpoints', () => {
+    async function get(model) {
+        const res = {
+            setHeader() {},
+            status(code) {
+                this.statusCode = code;
+                return this;
+            },
+            json(body) {
+                this.body = body;
+                return this;
+            }
+        };
+        const { default: handler } = await import('../endpoints.js');
+        await handler({ method: 'GET', query: { model } }, res);
+        return res;
+    }
+
+    it('serves the synced list of a model', async () => {
+        const previousList = [{ provider: 'OpenAI', tag: 'openai', inputPrice: 2.5, outputPrice: 10 }];
+        fs.writeFileSync(storeFile, JSON.stringify({ updatedAt: '2026-01-01T00:00:00.000Z', models: { 'openai/gpt-4o': previousList } }));
+        await loadEndpoints();
+
+        const res = await get('openai/gpt-4o');
+        expect(res.statusCode).toBe(200);
+        expect(res.body.endpoints).toEqual(previousList);
+    });
+
+    it('rejects IDs that are not catalog IDs before any lookup or request', async () => {
+        fs.writeFileSync(storeFile, JSON.stringify({ updatedAt: null, models: {} }));
+        const fetch = vi.fn();
+        vi.stubGlobal('fetch', fetch);
+        await loadEndpoints('');
+
+        // 原型成员和会被规范化的路径段都不能通过
+        for (const model of ['constructor', '__proto__', 'x/..', '../..', 'openai/../../keys', 'a/b?x=1']) {
+            const res = await get(model);
+            expect(res.statusCode).toBe(400);
+            expect(res.body.error).toBe('Bad Request');
+        }
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * 汇率（由管理员在配置中维护，不依赖外部汇率服务）
+ *
+ * 结构：{ USD: 1, CNY: 7.2, ... }，值为 1 美元可兑换的该货币数量
+ * 模型价格始终以美元保存，前端按汇率换算显示
+ * 旧版本配置没有 exchangeRates 时使用默认汇率
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+// 初始汇率仅供参考，管理员应在后台按实际汇率更新
+export const DEFAULT_EXCHANGE_RATES = {
+    USD: 1,
+    CNY: 7.2,
+    EUR: 0.92
+};
+
+/**
+ * 从配置中读取汇率
+ */
+export function getExchangeRates(config) {
+    const rates = config.exchangeRates;
+    return rates && typeof rates === 'object' ? rates : DEFAULT_EXCHANGE_RATES;
+}
+
+/**
+ * 校验并整理提交的汇率
+ * @returns {{ exchangeRates?: object, error?: string }}
+ */
+export function validateExchangeRates(input) {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { error: 'exchangeRates must be an object like { "CNY": 7.2 }' };
+    }
+
+    const exchangeRates = { [BASE_CURRENCY]: 1 };
+
+    for (const [rawCode, rawRate] of Object.entries(input)) {
+        const code = rawCode.trim().toUpperCase();
+        const rate = Number(rawRate);
+
+        if (!/^[A-Z]{3}$/.test(code)) {
+            return { error: `Invalid currency code "${rawCode}" (use a 3-letter ISO code such as EUR)` };
+        }
+        if (code === BASE_CURRENCY) {
+            if (rate !== 1) {
+                return { error: `${BASE_CURRENCY} is the base currency and its rate must be 1` };
+            }
+            continue;
+        }
+        if (!Number.isFinite(rate) || rate <= 0) {
+            return { error: `Rate for ${code} must be a positive number` };
+        }
+
+        exchangeRates[code] = rate;
+    }
+
+    return { exchangeRates };
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getExchangeRates, validateExchangeRates, DEFAULT_EXCHANGE_RATES } from './exchangeRates.js';
+
+describe('getExchangeRates', () => {
+    it('uses the defaults for configs saved before exchange rates existed', () => {
+        expect(getExchangeRates({ presets: [] })).toBe(DEFAULT_EXCHANGE_RATES);
+        expect(getExchangeRates({ exchangeRates: { USD: 1, JPY: 150 } })).toEqual({ USD: 1, JPY: 150 });
+    });
+});
+
+describe('validateExchangeRates', () => {
+    it('normalizes codes and always includes USD', () => {
+        expect(validateExchangeRates({ ' cny ': '7.1', eur: 0.9 })).toEqual({
+            exchangeRates: { USD: 1, CNY: 7.1, EUR: 0.9 }
+        });
+    });
+
+    it('rejects bad codes, non-positive rates and a USD rate other than 1', () => {
+        expect(validateExchangeRates([]).error).toMatch(/must be an object/);
+        expect(validateExchangeRates({ EURO: 1 }).error).toMatch(/Invalid currency code "EURO"/);
+        expect(validateExchangeRates({ CNY: 0 }).error).toBe('Rate for CNY must be a positive number');
+        expect(validateExchangeRates({ CNY: 'abc' }).error).toBe('Rate for CNY must be a positive number');
+        expect(validateExchangeRates({ USD: 2 }).error).toBe('USD is the base currency and its rate must be 1');
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * 模型列表导出为 CSV / Markdown
+ * 列为前端表格的默认列（不含工作负载成本），价格格式与 src/utils/format.ts 一致
+ */
+
+/**
+ * 价格显示格式（与 src/utils/format.ts 的 formatPrice 相同，固定为美元 / 每百万 token）
+ */
+export function formatDisplayPrice(price) {
+    if (price <= 0) return 'Free';
+    if (price < 0.001) return `$${price.toFixed(6)}`;
+    if (price < 0.01) return `$${price.toFixed(4)}`;
+    if (price < 1) return `$${price.toFixed(3)}`;
+    return `$${price.toFixed(2)}`;
+}
+
+// 服务端导出不跟随前端的货币和价格单位设置，在表头和 X-Price-Unit 响应头中注明
+export const PRICE_UNIT = 'USD per 1M tokens';
+
+const COLUMNS = [
+    { header: 'Model', value: m => m.name },
+    { header: 'ID', value: m => m.id },
+    { header: 'Provider', value: m => m.provider },
+    { header: 'Context', value: m => m.contextLengthFormatted || '-' },
+    { header: 'Max Output', value: m => m.maxOutputFormatted || '-' },
+    { header: 'Input Price ($/M)', value: m => formatDisplayPrice(m.inputPrice) },
+    { header: 'Output Price ($/M)', value: m => formatDisplayPrice(m.outputPrice) },
+    { header: 'Modality', value: m => m.modality },
+];
+
+function escapeCsv(value) {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(value) {
+    return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function toCsv(models) {
+    const lines = [
+        COLUMNS.map(c => escapeCsv(c.header)).join(','),
+        ...models.map(m => COLUMNS.map(c => escapeCsv(String(c.value(m)))).join(','))
+    ];
+    return lines.join('\n') + '\n';
+}
+
+export function toMarkdown(models) {
+    const lines = [
+        `| ${COLUMNS.map(c => c.header).join(' | ')} |`,
+        `| ${COLUMNS.map(() => '---').join(' | ')} |`,
+        ...models.map(m => `| ${COLUMNS.map(c => escapeMarkdown(String(c.value(m)))).join(' | ')} |`)
+    ];
+    return lines.join('\n') + '\n';
+}
+
+// 支持的导出格式及其 Content-Type
+export const EXPORT_FORMATS = {
+    csv: { contentType: 'text/csv; charset=utf-8', render: toCsv },
+    md: { contentType: 'text/markdown; charset=utf-8', render: toMarkdown }
+};
+
+/**
+ * 按名称查找导出格式，不支持的格式（包括 toString 等继承属性）返回 null
+ */
+export function getExporter(format) {
+    return typeof format === 'string' && Object.hasOwn(EXPORT_FORMATS, format) ? EXPORT_FORMATS[format] : null;
+}
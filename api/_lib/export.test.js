@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { formatDisplayPrice, getExporter, toCsv, toMarkdown, EXPORT_FORMATS } from './export.js';
+
+const model = {
+    id: 'acme/widget-1',
+    name: 'Widget, "large" | v1',
+    provider: 'acme',
+    contextLengthFormatted: '128K',
+    maxOutputFormatted: null,
+    inputPrice: 0.5,
+    outputPrice: 0,
+    modality: 'text->text'
+};
+
+describe('formatDisplayPrice', () => {
+    it('uses more decimals for smaller prices', () => {
+        expect(formatDisplayPrice(0)).toBe('Free');
+        expect(formatDisplayPrice(0.0005)).toBe('$0.000500');
+        expect(formatDisplayPrice(0.005)).toBe('$0.0050');
+        expect(formatDisplayPrice(0.5)).toBe('$0.500');
+        expect(formatDisplayPrice(15)).toBe('$15.00');
+    });
+});
+
+describe('getExporter', () => {
+    it('returns the supported formats', () => {
+        expect(getExporter('csv')).toBe(EXPORT_FORMATS.csv);
+        expect(getExporter('md')).toBe(EXPORT_FORMATS.md);
+    });
+
+    it('rejects unknown formats and inherited keys', () => {
+        for (const format of ['json', 'toString', '__proto__', 'constructor', undefined, ['csv']]) {
+            expect(getExporter(format)).toBeNull();
+        }
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes values containing commas or quotes', () => {
+        const [header, row] = toCsv([model]).trimEnd().split('\n');
+        expect(header).toBe('Model,ID,Provider,Context,Max Output,Input Price ($/M),Output Price ($/M),Modality');
+        expect(row).toBe('"Widget, ""large"" | v1",acme/widget-1,acme,128K,-,$0.500,Free,text->text');
+    });
+});
+
+describe('toMarkdown', () => {
+    it('escapes pipes and flattens newlines', () => {
+        const lines = toMarkdown([{ ...model, name: 'Line\nbreak | pipe' }]).trimEnd().split('\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[1]).toBe('| --- | --- | --- | --- | --- | --- | --- | --- |');
+        expect(lines[2]).toMatch(/^\| Line break \\\| pipe \| acme\/widget-1 \|/);
+    });
+});
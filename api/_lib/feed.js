@@ -0,0 +1,126 @@
+/**
+ * Atom 订阅：新模型、下架模型和输入/输出价格变化
+ * 数据来自 data/history/changes.json（见 history.js），每次同步的差异生成若干条目
+ */
+
+import { formatDisplayPrice } from './export.js';
+
+// 默认/最多输出的条目数
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// 订阅中关注的价格字段
+const PRICE_FIELDS = {
+    inputPrice: 'input',
+    outputPrice: 'output'
+};
+
+// XML 1.0 不允许的控制字符（模型描述中偶尔出现）
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value) {
+    return String(value)
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const modelUrl = id => `https://openrouter.ai/${id}`;
+
+/**
+ * 把一次同步的差异展开为订阅条目
+ */
+function entryItems(entry) {
+    const items = [];
+
+    for (const model of entry.added) {
+        items.push({
+            id: `added:${model.id}:${entry.updatedAt}`,
+            provider: model.provider,
+            title: `New model: ${model.name}`,
+            updated: entry.updatedAt,
+            link: modelUrl(model.id),
+            summary: [
+                model.description,
+                `Input ${formatDisplayPrice(model.inputPrice)} / Output ${formatDisplayPrice(model.outputPrice)} per 1M tokens.`
+            ].filter(Boolean).join('\n\n')
+        });
+    }
+
+    for (const model of entry.removed) {
+        items.push({
+            id: `removed:${model.id}:${entry.updatedAt}`,
+            provider: model.provider,
+            title: `Removed: ${model.name}`,
+            updated: entry.updatedAt,
+            link: modelUrl(model.id),
+            summary: `${model.id} is no longer listed on OpenRouter.`
+        });
+    }
+
+    for (const model of entry.changed) {
+        const priceChanges = model.changes.filter(c => PRICE_FIELDS[c.field]);
+        if (priceChanges.length === 0) continue;
+
+        const text = priceChanges
+            .map(c => `${PRICE_FIELDS[c.field]} ${formatDisplayPrice(c.from)} → ${formatDisplayPrice(c.to)}`)
+            .join(', ');
+        items.push({
+            id: `price:${model.id}:${entry.updatedAt}`,
+            provider: model.provider,
+            title: `Price change: ${model.name} (${text})`,
+            updated: entry.updatedAt,
+            link: modelUrl(model.id),
+            summary: `Price per 1M tokens changed: ${text}.`
+        });
+    }
+
+    return items;
+}
+
+/**
+ * 生成 Atom XML
+ * @param history   readChanges() 的结果
+ * @param options   { siteUrl, selfUrl, provider, limit }
+ */
+export function buildAtomFeed(history, { siteUrl, selfUrl, provider, limit } = {}) {
+    const max = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const items = history.entries
+        .flatMap(entryItems)
+        .filter(item => !provider || item.provider === provider)
+        .sort((a, b) => b.updated.localeCompare(a.updated))
+        .slice(0, max);
+
+    const updated = items[0]?.updated || history.since || new Date(0).toISOString();
+    const title = provider
+        ? `OpenRouter model changes: ${provider}`
+        : 'OpenRouter model changes';
+
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <id>${escapeXml(selfUrl)}</id>`,
+        `  <title>${escapeXml(title)}</title>`,
+        `  <subtitle>New models, removed models and price changes on OpenRouter</subtitle>`,
+        `  <updated>${escapeXml(updated)}</updated>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>`,
+        '  <author><name>OpenRouter Model Compare</name></author>',
+        ...items.flatMap(item => [
+            '  <entry>',
+            `    <id>urn:openrouter-model-compare:${escapeXml(encodeURIComponent(item.id))}</id>`,
+            `    <title>${escapeXml(item.title)}</title>`,
+            `    <updated>${escapeXml(item.updated)}</updated>`,
+            `    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>`,
+            `    <category term="${escapeXml(item.provider)}"/>`,
+            `    <summary>${escapeXml(item.summary)}</summary>`,
+            '  </entry>'
+        ]),
+        '</feed>'
+    ];
+
+    return lines.join('\n') + '\n';
+}
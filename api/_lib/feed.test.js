@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildAtomFeed } from './feed.js';
+
+const history = {
+    since: '2026-01-01T00:00:00Z',
+    entries: [
+        {
+            updatedAt: '2026-02-01T00:00:00Z',
+            added: [{
+                id: 'acme/widget', name: 'Widget <Pro>', provider: 'acme', inputPrice: 1, outputPrice: 2,
+                description: 'Fast\u0000 & cheap\u001B', createdAt: '2025-06-01T00:00:00Z'
+            }],
+            removed: [{ id: 'other/old', name: 'Old', provider: 'other' }],
+            changed: []
+        },
+        {
+            updatedAt: '2026-03-01T00:00:00Z',
+            added: [],
+            removed: [],
+            changed: [
+                { id: 'acme/widget', name: 'Widget <Pro>', provider: 'acme', changes: [{ field: 'outputPrice', from: 2, to: 1.5 }] },
+                { id: 'other/ctx', name: 'Ctx', provider: 'other', changes: [{ field: 'contextLength', from: 8192, to: 32768 }] }
+            ]
+        }
+    ]
+};
+
+const options = { siteUrl: 'https://example.com', selfUrl: 'https://example.com/api/feed.xml' };
+const entries = xml => xml.split('<entry>').slice(1);
+
+describe('buildAtomFeed', () => {
+    it('lists price changes, removals and additions newest first', () => {
+        const xml = buildAtomFeed(history, options);
+        const titles = entries(xml).map(entry => entry.match(/<title>(.*)<\/title>/)[1]);
+        expect(titles).toEqual([
+            'Price change: Widget &lt;Pro&gt; (output $2.00 → $1.50)',
+            'New model: Widget &lt;Pro&gt;',
+            'Removed: Old'
+        ]);
+        expect(xml).toContain('<updated>2026-03-01T00:00:00Z</updated>');
+    });
+
+    it('dates new models by the sync that found them', () => {
+        const [, added] = entries(buildAtomFeed(history, options));
+        expect(added).toContain('<updated>2026-02-01T00:00:00Z</updated>');
+    });
+
+    it('strips control characters that XML cannot contain', () => {
+        const xml = buildAtomFeed(history, options);
+        expect(xml).toContain('<summary>Fast &amp; cheap\n\n');
+        expect(xml).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+    });
+
+    it('filters by provider and limits the entry count', () => {
+        const xml = buildAtomFeed(history, { ...options, provider: 'other', limit: '1' });
+        expect(xml).toContain('<title>OpenRouter model changes: other</title>');
+        expect(entries(xml)).toHaveLength(1);
+        expect(xml).toContain('<category term="other"/>');
+    });
+
+    it('falls back to the start of the history when there are no entries', () => {
+        const xml = buildAtomFeed({ since: '2026-01-01T00:00:00Z', entries: [] }, options);
+        expect(xml).toContain('<updated>2026-01-01T00:00:00Z</updated>');
+        expect(entries(xml)).toEqual([]);
+    });
+});
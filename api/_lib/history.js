@@ -0,0 +1,205 @@
+/**
+ * 价格与目录历史
+ * 每次同步保存一份带日期的精简快照，并把与上一次的差异追加到变更记录中
+ *
+ * data/history/
+ *   snapshots/<时间戳>.json  每次同步的精简快照
+ *   changes.json             变更记录 { since, entries: [...] }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { HISTORY_DIR } from './paths.js';
+
+const SNAPSHOT_DIR = path.join(HISTORY_DIR, 'snapshots');
+const CHANGES_FILE = path.join(HISTORY_DIR, 'changes.json');
+
+// 保留的快照数量（每小时一次，默认约 30 天）
+const MAX_SNAPSHOTS = parseInt(process.env.HISTORY_MAX_SNAPSHOTS, 10) || 24 * 30;
+
+// 变更记录最多保留的条目数
+const MAX_ENTRIES = 5000;
+
+// 需要追踪变化的字段
+export const TRACKED_FIELDS = ['inputPrice', 'outputPrice', 'contextLength', 'maxOutput'];
+
+/**
+ * 提取追踪字段的数值
+ */
+function valuesOf(model) {
+    const values = {};
+    for (const field of TRACKED_FIELDS) {
+        values[field] = model[field] || 0;
+    }
+    return values;
+}
+
+/**
+ * 提取模型的标识和追踪字段
+ */
+function pickTracked(model) {
+    return { id: model.id, name: model.name, provider: model.provider, ...valuesOf(model) };
+}
+
+/**
+ * 对比两份模型列表：新增、移除、追踪字段变化
+ */
+export function diffModels(prevModels, nextModels) {
+    const prevMap = new Map(prevModels.map(m => [m.id, m]));
+    const nextMap = new Map(nextModels.map(m => [m.id, m]));
+
+    const added = nextModels
+        .filter(m => !prevMap.has(m.id))
+        .map(m => ({
+            ...pickTracked(m),
+            description: m.description || '',
+            createdAt: m.createdAt || null
+        }));
+
+    const removed = prevModels
+        .filter(m => !nextMap.has(m.id))
+        .map(pickTracked);
+
+    const changed = [];
+    for (const model of nextModels) {
+        const prev = prevMap.get(model.id);
+        if (!prev) continue;
+
+        const changes = TRACKED_FIELDS
+            .filter(field => (prev[field] || 0) !== (model[field] || 0))
+            .map(field => ({ field, from: prev[field] || 0, to: model[field] || 0 }));
+
+        if (changes.length > 0) {
+            changed.push({ id: model.id, name: model.name, provider: model.provider, changes });
+        }
+    }
+
+    return { added, removed, changed };
+}
+
+/**
+ * 是否有同步脚本记录的历史（Vercel 部署不运行同步脚本，始终为 false）
+ */
+export function historyAvailable() {
+    return fs.existsSync(CHANGES_FILE);
+}
+
+/**
+ * 读取变更记录
+ */
+export function readChanges() {
+    try {
+        return JSON.parse(fs.readFileSync(CHANGES_FILE, 'utf-8'));
+    } catch {
+        return { since: null, entries: [] };
+    }
+}
+
+/**
+ * 快照文件名（冒号在部分文件系统上不合法）
+ */
+function snapshotFileName(updatedAt) {
+    return `${updatedAt.replace(/[:.]/g, '-')}.json`;
+}
+
+/**
+ * 写入快照并清理过旧的快照
+ */
+function writeSnapshot(data) {
+    if (!fs.existsSync(SNAPSHOT_DIR)) {
+        fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+    }
+
+    const snapshot = {
+        updatedAt: data.updatedAt,
+        totalCount: data.models.length,
+        models: data.models.map(pickTracked)
+    };
+    fs.writeFileSync(
+        path.join(SNAPSHOT_DIR, snapshotFileName(data.updatedAt)),
+        JSON.stringify(snapshot),
+        'utf-8'
+    );
+
+    const files = fs.readdirSync(SNAPSHOT_DIR).filter(f => f.endsWith('.json')).sort();
+    for (const file of files.slice(0, Math.max(0, files.length - MAX_SNAPSHOTS))) {
+        fs.unlinkSync(path.join(SNAPSHOT_DIR, file));
+    }
+}
+
+/**
+ * 记录一次同步：保存快照，并在有差异时追加变更条目
+ * @returns 本次差异（首次记录时为 null）
+ */
+export function recordHistory(prevData, nextData) {
+    writeSnapshot(nextData);
+
+    const history = readChanges();
+    if (!history.since) {
+        history.since = prevData?.updatedAt || nextData.updatedAt;
+    }
+
+    if (!prevData) {
+        fs.writeFileSync(CHANGES_FILE, JSON.stringify(history, null, 2), 'utf-8');
+        return null;
+    }
+
+    const diff = diffModels(prevData.models, nextData.models);
+    if (diff.added.length || diff.removed.length || diff.changed.length) {
+        history.entries.push({
+            updatedAt: nextData.updatedAt,
+            previousUpdatedAt: prevData.updatedAt,
+            ...diff
+        });
+        history.entries = history.entries.slice(-MAX_ENTRIES);
+    }
+
+    fs.writeFileSync(CHANGES_FILE, JSON.stringify(history, null, 2), 'utf-8');
+    return diff;
+}
+
+/**
+ * 构建单个模型的时间线
+ * 从当前数据出发倒推每次变更前的值，得到按时间排列的价格点
+ */
+export function getModelTimeline(modelId, currentModel, history = readChanges()) {
+    let state = currentModel ? pickTracked(currentModel) : null;
+    const points = [];
+
+    for (let i = history.entries.length - 1; i >= 0; i--) {
+        const entry = history.entries[i];
+
+        const changed = entry.changed.find(c => c.id === modelId);
+        if (changed && state) {
+            points.push({ date: entry.updatedAt, event: 'changed', ...valuesOf(state), changes: changed.changes });
+            state = { ...state };
+            for (const change of changed.changes) {
+                state[change.field] = change.from;
+            }
+            continue;
+        }
+
+        const added = entry.added.find(m => m.id === modelId);
+        if (added) {
+            points.push({ date: entry.updatedAt, event: 'added', ...valuesOf(state || added) });
+            state = null;
+            continue;
+        }
+
+        const removed = entry.removed.find(m => m.id === modelId);
+        if (removed) {
+            points.push({ date: entry.updatedAt, event: 'removed', ...valuesOf(removed) });
+            state = pickTracked(removed);
+        }
+    }
+
+    if (state && history.since) {
+        points.push({ date: history.since, event: 'baseline', ...valuesOf(state) });
+    }
+
+    return {
+        modelId,
+        since: history.since,
+        points: points.reverse()
+    };
+}
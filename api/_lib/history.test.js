@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { diffModels, getModelTimeline } from './history.js';
+
+const model = (id, inputPrice, outputPrice, extra = {}) => ({
+    id, name: id, provider: id.slice(0, id.indexOf('/')), inputPrice, outputPrice, contextLength: 128000, maxOutput: 4096, ...extra
+});
+
+describe('diffModels', () => {
+    it('lists added, removed and changed models', () => {
+        const prev = [model('a/kept', 1, 2), model('a/repriced', 1, 2), model('a/gone', 1, 2)];
+        const next = [
+            model('a/kept', 1, 2),
+            model('a/repriced', 0.5, 2, { contextLength: 200000 }),
+            model('a/new', 3, 4, { description: 'Fresh', createdAt: '2026-03-01T00:00:00Z' })
+        ];
+
+        const diff = diffModels(prev, next);
+        expect(diff.added).toEqual([expect.objectContaining({ id: 'a/new', description: 'Fresh', createdAt: '2026-03-01T00:00:00Z' })]);
+        expect(diff.removed.map(m => m.id)).toEqual(['a/gone']);
+        expect(diff.changed).toEqual([{
+            id: 'a/repriced',
+            name: 'a/repriced',
+            provider: 'a',
+            changes: [
+                { field: 'inputPrice', from: 1, to: 0.5 },
+                { field: 'contextLength', from: 128000, to: 200000 }
+            ]
+        }]);
+    });
+
+    it('treats missing fields as zero', () => {
+        const prev = [{ id: 'a/b', name: 'b', provider: 'a', inputPrice: 1, outputPrice: 1 }];
+        const next = [{ ...prev[0], maxOutput: 0, contextLength: undefined }];
+        expect(diffModels(prev, next).changed).toEqual([]);
+    });
+});
+
+describe('getModelTimeline', () => {
+    const history = {
+        since: '2026-01-01T00:00:00Z',
+        entries: [
+            { updatedAt: '2026-01-02T00:00:00Z', added: [model('a/b', 4, 8)], removed: [], changed: [] },
+            {
+                updatedAt: '2026-01-05T00:00:00Z',
+                added: [],
+                removed: [],
+                changed: [{ id: 'a/b', changes: [{ field: 'inputPrice', from: 4, to: 2 }] }]
+            },
+            { updatedAt: '2026-01-06T00:00:00Z', added: [], removed: [], changed: [{ id: 'x/y', changes: [] }] }
+        ]
+    };
+
+    it('rebuilds past prices backwards from the current model', () => {
+        const timeline = getModelTimeline('a/b', model('a/b', 2, 8), history);
+        expect(timeline.points.map(p => [p.date, p.event, p.inputPrice])).toEqual([
+            ['2026-01-02T00:00:00Z', 'added', 4],
+            ['2026-01-05T00:00:00Z', 'changed', 2]
+        ]);
+    });
+
+    it('starts from a baseline for models older than the history', () => {
+        const timeline = getModelTimeline('x/y', model('x/y', 1, 1), history);
+        expect(timeline.points).toEqual([
+            expect.objectContaining({ date: '2026-01-01T00:00:00Z', event: 'baseline', inputPrice: 1 }),
+            expect.objectContaining({ date: '2026-01-06T00:00:00Z', event: 'changed' })
+        ]);
+    });
+
+    it('keeps the last known prices of a removed model', () => {
+        const removedHistory = {
+            since: '2026-01-01T00:00:00Z',
+            entries: [{ updatedAt: '2026-02-01T00:00:00Z', added: [], removed: [model('a/old', 3, 6)], changed: [] }]
+        };
+        expect(getModelTimeline('a/old', null, removedHistory).points.map(p => [p.event, p.inputPrice])).toEqual([
+            ['baseline', 3],
+            ['removed', 3]
+        ]);
+    });
+
+    it('is empty without any recorded history', () => {
+        expect(getModelTimeline('a/b', null, { since: null, entries: [] }).points).toEqual([]);
+    });
+});
@@ -0,0 +1,17 @@
+/**
+ * 数据目录路径（Vercel Functions、同步脚本和自托管服务共用）
+ * 以 _ 开头的目录不会被 Vercel 当作 API 路由
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const ROOT_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+export const DATA_DIR = path.join(ROOT_DIR, 'data');
+export const MODELS_FILE = path.join(DATA_DIR, 'models.json');
+export const HISTORY_DIR = path.join(DATA_DIR, 'history');
+export const VALIDATION_FILE = path.join(DATA_DIR, 'validation.json');
+export const WATCHLISTS_FILE = path.join(DATA_DIR, 'watchlists.json');
+export const ANNOTATIONS_FILE = path.join(DATA_DIR, 'annotations.json');
+export const PRICE_SOURCES_DIR = path.join(DATA_DIR, 'prices');
+export const ENDPOINTS_FILE = path.join(DATA_DIR, 'endpoints.json');
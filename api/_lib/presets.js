@@ -0,0 +1,75 @@
+/**
+ * 命名模型预设（如 "Coding"、"Cheap chat"、"Long context"）
+ *
+ * 预设结构：{ id, title, description, models: string[] }
+ * 第一个预设是默认预设，其模型列表同时作为 defaultModels 返回，兼容旧客户端
+ * 旧版本配置只有 defaultModels 时，转换为一个 id 为 "default" 的预设
+ */
+
+export const DEFAULT_PRESET_ID = 'default';
+
+/**
+ * 从配置中读取预设列表
+ */
+export function getPresets(config) {
+    if (Array.isArray(config.presets) && config.presets.length > 0) {
+        return config.presets;
+    }
+
+    return [{
+        id: DEFAULT_PRESET_ID,
+        title: 'Default',
+        description: '',
+        models: config.defaultModels || []
+    }];
+}
+
+/**
+ * 替换配置中的预设，去掉旧的 defaultModels 字段
+ */
+export function withPresets(config, presets) {
+    const { defaultModels: _legacy, ...rest } = config;
+    return { ...rest, presets };
+}
+
+/**
+ * 校验并整理提交的预设列表
+ * @returns {{ presets?: object[], error?: string }}
+ */
+export function validatePresets(input) {
+    if (!Array.isArray(input) || input.length === 0) {
+        return { error: 'presets must be a non-empty array' };
+    }
+
+    const seen = new Set();
+    const presets = [];
+
+    for (const preset of input) {
+        const id = typeof preset?.id === 'string' ? preset.id.trim() : '';
+        const title = typeof preset?.title === 'string' ? preset.title.trim() : '';
+
+        if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+            return { error: `Invalid preset id "${id}" (use lowercase letters, digits and dashes)` };
+        }
+        if (seen.has(id)) {
+            return { error: `Duplicate preset id "${id}"` };
+        }
+        if (!title) {
+            return { error: `Preset "${id}" needs a title` };
+        }
+        if (!Array.isArray(preset.models) || preset.models.some(m => typeof m !== 'string')) {
+            return { error: `Preset "${id}" models must be an array of model IDs` };
+        }
+
+        seen.add(id);
+        presets.push({
+            id,
+            title,
+            description: typeof preset.description === 'string' ? preset.description.trim() : '',
+            // 去重并保持顺序
+            models: [...new Set(preset.models)]
+        });
+    }
+
+    return { presets };
+}
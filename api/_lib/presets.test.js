@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getPresets, withPresets, validatePresets, DEFAULT_PRESET_ID } from './presets.js';
+
+describe('getPresets', () => {
+    it('converts a legacy defaultModels config into the default preset', () => {
+        expect(getPresets({ defaultModels: ['a', 'b'] })).toEqual([
+            { id: DEFAULT_PRESET_ID, title: 'Default', description: '', models: ['a', 'b'] }
+        ]);
+        expect(getPresets({ presets: [] })[0].models).toEqual([]);
+    });
+
+    it('returns saved presets as they are', () => {
+        const presets = [{ id: 'coding', title: 'Coding', description: '', models: ['a'] }];
+        expect(getPresets({ presets, defaultModels: ['x'] })).toBe(presets);
+    });
+});
+
+describe('withPresets', () => {
+    it('drops the legacy defaultModels field', () => {
+        const presets = [{ id: 'default', title: 'Default', description: '', models: [] }];
+        expect(withPresets({ defaultModels: ['a'], theme: 'dark' }, presets)).toEqual({ theme: 'dark', presets });
+    });
+});
+
+describe('validatePresets', () => {
+    it('trims fields and de-duplicates models', () => {
+        const result = validatePresets([{ id: ' coding ', title: ' Coding ', models: ['a', 'b', 'a'] }]);
+        expect(result).toEqual({ presets: [{ id: 'coding', title: 'Coding', description: '', models: ['a', 'b'] }] });
+    });
+
+    it('rejects invalid input', () => {
+        expect(validatePresets([]).error).toBe('presets must be a non-empty array');
+        expect(validatePresets([{ id: 'Bad Id', title: 'x', models: [] }]).error).toMatch(/Invalid preset id/);
+        expect(validatePresets([
+            { id: 'a', title: 'A', models: [] },
+            { id: 'a', title: 'B', models: [] }
+        ]).error).toBe('Duplicate preset id "a"');
+        expect(validatePresets([{ id: 'a', title: ' ', models: [] }]).error).toBe('Preset "a" needs a title');
+        expect(validatePresets([{ id: 'a', title: 'A', models: [1] }]).error).toMatch(/must be an array of model IDs/);
+    });
+});
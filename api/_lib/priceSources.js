@@ -0,0 +1,256 @@
+/**
+ * 价格来源适配器
+ *
+ * OpenRouter：目录的主来源，模型列表、上下文、能力和 OpenRouter 价格都来自这里
+ * 本地价格表：data/prices/<来源 ID>.json（目录可用 PRICE_SOURCES_DIR 覆盖），每个文件一个来源，支持两种格式：
+ *   LiteLLM 风格的 model_prices 文件：
+ *     { "claude-3-5-sonnet-20241022": { "litellm_provider": "anthropic", "input_cost_per_token": 3e-6, ... } }
+ *   手工维护的厂商价格表（美元 / 每百万 token）：
+ *     { "name": "Anthropic direct", "models": [{ "id": "anthropic/claude-sonnet-4", "inputPrice": 3, "outputPrice": 15 }] }
+ *
+ * 价格表中的条目按 OpenRouter ID 匹配：完全一致 > 厂商相同且名称一致（忽略大小写和分隔符）
+ * > 厂商相同且 ID 词干一致（去掉日期等后缀，如 claude-3-5-sonnet-20241022 → anthropic/claude-3.5-sonnet）；
+ * 词干匹配只用于不带日期 / preview 后缀的 OpenRouter ID，带日期的版本价格可能不同
+ * 匹配结果作为 sourcePrices 附加到模型上，来源列表作为 sources 写入 models.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PRICE_SOURCES_DIR } from './paths.js';
+import { getIdStem } from './staleModels.js';
+
+export const OPENROUTER_API = 'https://openrouter.ai/api/v1/models';
+
+const SOURCES_DIR = process.env.PRICE_SOURCES_DIR || PRICE_SOURCES_DIR;
+
+// LiteLLM 的 litellm_provider 对应的 OpenRouter 厂商；未列出的（azure、bedrock 等转售渠道）不参与匹配
+const LITELLM_PROVIDERS = {
+    'openai': 'openai',
+    'text-completion-openai': 'openai',
+    'anthropic': 'anthropic',
+    'gemini': 'google',
+    'vertex_ai-language-models': 'google',
+    'mistral': 'mistralai',
+    'deepseek': 'deepseek',
+    'xai': 'x-ai',
+    'cohere': 'cohere',
+    'cohere_chat': 'cohere',
+    'perplexity': 'perplexity',
+    'meta_llama': 'meta-llama'
+};
+
+// LiteLLM 中按 token 计价的文本模型
+const LITELLM_MODES = ['chat', 'completion', 'responses'];
+
+// 匹配等级
+const MATCH_EXACT = 3;
+const MATCH_NAME = 2;
+const MATCH_STEM = 1;
+
+/**
+ * OpenRouter 适配器：获取原始模型列表（由调用方校验和整理）
+ */
+export async function fetchOpenRouterModels() {
+    const response = await fetch(OPENROUTER_API);
+
+    if (!response.ok) {
+        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.data || !Array.isArray(data.data)) {
+        throw new Error('Invalid API response format');
+    }
+
+    return data.data;
+}
+
+// 每个 token 的美元价格 → 每百万 token，保留 3 位小数（与 OpenRouter 价格一致）
+function perMillion(pricePerToken) {
+    return Math.round(pricePerToken * 1000000 * 1000) / 1000;
+}
+
+function toPrice(value) {
+    const price = Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * LiteLLM model_prices：键为模型名（可能带 "gemini/" 等渠道前缀）
+ */
+function parseLiteLlmSheet(data) {
+    const entries = [];
+
+    for (const [key, spec] of Object.entries(data)) {
+        if (key === 'sample_spec' || !spec || typeof spec !== 'object') continue;
+        if (spec.mode && !LITELLM_MODES.includes(spec.mode)) continue;
+
+        const provider = LITELLM_PROVIDERS[spec.litellm_provider];
+        const inputPrice = toPrice(spec.input_cost_per_token);
+        const outputPrice = toPrice(spec.output_cost_per_token);
+        if (!provider || inputPrice === null || outputPrice === null) continue;
+
+        entries.push({
+            key,
+            provider,
+            name: key.slice(key.lastIndexOf('/') + 1),
+            inputPrice: perMillion(inputPrice),
+            outputPrice: perMillion(outputPrice)
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * 手工维护的价格表：id 为 OpenRouter ID，或 model + provider
+ */
+function parseVendorSheet(data) {
+    return data.models
+        .map(item => {
+            const id = String(item.id || '').trim();
+            const slash = id.indexOf('/');
+            const provider = item.provider || (slash === -1 ? null : id.slice(0, slash));
+            return {
+                key: id || String(item.model || '').trim(),
+                provider,
+                name: slash === -1 ? String(item.model || id).trim() : id.slice(slash + 1),
+                inputPrice: toPrice(item.inputPrice),
+                outputPrice: toPrice(item.outputPrice)
+            };
+        })
+        .filter(entry => entry.key && entry.name && entry.inputPrice !== null && entry.outputPrice !== null);
+}
+
+/**
+ * 读取所有本地价格表
+ * 无法解析的文件、以及文件名规范化后与已有来源 ID 重复的文件记录错误后跳过，不影响 OpenRouter 数据
+ * @returns {Array<{ id, file, name, format: 'litellm' | 'sheet', entries }>}
+ */
+export function loadPriceSheets(dir = SOURCES_DIR) {
+    let files;
+    try {
+        files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const sheets = [];
+    for (const file of files) {
+        const id = path.basename(file, '.json').toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+        const duplicate = sheets.find(sheet => sheet.id === id);
+        if (duplicate) {
+            console.error(`Skipping price sheet ${file}: source ID "${id}" is already used by ${duplicate.file}`);
+            continue;
+        }
+
+        try {
+            const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+            const format = Array.isArray(data.models) ? 'sheet' : 'litellm';
+            sheets.push({
+                id,
+                file,
+                name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : id,
+                format,
+                entries: format === 'sheet' ? parseVendorSheet(data) : parseLiteLlmSheet(data)
+            });
+        } catch (error) {
+            console.error(`Failed to read price sheet ${file}:`, error.message);
+        }
+    }
+    return sheets;
+}
+
+// 忽略大小写和分隔符（claude-3-5-sonnet 与 claude-3.5-sonnet 相同）
+const compact = name => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * 预先计算条目的规范化名称和词干（每张价格表只算一次）
+ */
+function prepareEntry(entry) {
+    return { entry, name: compact(entry.name), stem: compact(getIdStem(entry.name)) };
+}
+
+/**
+ * 预先计算模型的规范化名称（每个模型只算一次）
+ */
+function prepareModel(model) {
+    const name = model.id.slice(model.id.indexOf('/') + 1);
+    return {
+        model,
+        name: compact(name),
+        // 词干匹配不用于 :free 等变体和带后缀的版本
+        stemmable: getIdStem(name) === name.toLowerCase()
+    };
+}
+
+/**
+ * 价格表条目与模型的匹配等级，不匹配时为 0
+ */
+function matchLevel(prepared, target) {
+    const { entry } = prepared;
+    const { model } = target;
+    if (entry.key === model.id) return MATCH_EXACT;
+    if (entry.provider !== model.provider) return 0;
+
+    if (prepared.name === target.name) return MATCH_NAME;
+    if (!target.stemmable) return 0;
+    return prepared.stem === target.name ? MATCH_STEM : 0;
+}
+
+/**
+ * 为每个模型找出各价格表中匹配等级最高的条目（同等级取先出现的）
+ * @returns {{ models: Array, sources: Array<{ id, name, format, entries, matched }> }}
+ */
+export function matchSourcePrices(models, sheets) {
+    const byModel = new Map(models.map(m => [m.id, []]));
+    const targets = models.map(prepareModel);
+    const sources = [];
+
+    for (const sheet of sheets) {
+        const entries = sheet.entries.map(prepareEntry);
+        let matched = 0;
+        for (const target of targets) {
+            let best = null;
+            let bestLevel = 0;
+            for (const prepared of entries) {
+                const level = matchLevel(prepared, target);
+                if (level > bestLevel) {
+                    best = prepared.entry;
+                    bestLevel = level;
+                }
+            }
+            if (!best) continue;
+
+            matched++;
+            byModel.get(target.model.id).push({
+                source: sheet.id,
+                key: best.key,
+                inputPrice: best.inputPrice,
+                outputPrice: best.outputPrice
+            });
+        }
+        sources.push({ id: sheet.id, name: sheet.name, format: sheet.format, entries: sheet.entries.length, matched });
+    }
+
+    return {
+        models: models.map(m => byModel.get(m.id).length > 0 ? { ...m, sourcePrices: byModel.get(m.id) } : m),
+        sources
+    };
+}
+
+/**
+ * 读取本地价格表并附加到模型上；没有价格表或读取失败时原样返回
+ * @returns {{ models: Array, sources: Array }}
+ */
+export function withSourcePrices(models) {
+    try {
+        const sheets = loadPriceSheets();
+        return sheets.length > 0 ? matchSourcePrices(models, sheets) : { models, sources: [] };
+    } catch (error) {
+        console.error('Failed to load price sources:', error.message);
+        return { models, sources: [] };
+    }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadPriceSheets, matchSourcePrices } from './priceSources.js';
+
+const models = [
+    { id: 'anthropic/claude-3.5-sonnet', provider: 'anthropic' },
+    { id: 'anthropic/claude-3.5-sonnet:beta', provider: 'anthropic' },
+    { id: 'openai/gpt-4o', provider: 'openai' },
+    { id: 'openai/gpt-4o-2024-08-06', provider: 'openai' },
+    { id: 'google/gemini-2.5-pro', provider: 'google' }
+];
+
+const litellm = {
+    sample_spec: { litellm_provider: 'openai', input_cost_per_token: 0, output_cost_per_token: 0 },
+    'claude-3-5-sonnet-20241022': {
+        litellm_provider: 'anthropic', mode: 'chat', input_cost_per_token: 3e-6, output_cost_per_token: 1.5e-5
+    },
+    'gpt-4o': { litellm_provider: 'openai', mode: 'chat', input_cost_per_token: 2.5e-6, output_cost_per_token: 1e-5 },
+    'azure/gpt-4o': { litellm_provider: 'azure', mode: 'chat', input_cost_per_token: 5e-6, output_cost_per_token: 1.5e-5 },
+    'text-embedding-3-small': { litellm_provider: 'openai', mode: 'embedding', input_cost_per_token: 2e-8, output_cost_per_token: 0 },
+    'gemini/gemini-2.5-pro': { litellm_provider: 'gemini', mode: 'chat', input_cost_per_token: 1.25e-6, output_cost_per_token: 1e-5 }
+};
+
+const vendorSheet = {
+    name: 'Direct pricing',
+    models: [
+        { id: 'openai/gpt-4o', inputPrice: 2, outputPrice: 8 },
+        { model: 'claude-3.5-sonnet', provider: 'anthropic', inputPrice: 3, outputPrice: 15 },
+        { id: 'openai/gpt-4o-mini', inputPrice: 'n/a', outputPrice: 0.6 }
+    ]
+};
+
+let dir;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-sources-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+});
+
+const writeSheet = (file, data) => fs.writeFileSync(path.join(dir, file), typeof data === 'string' ? data : JSON.stringify(data));
+
+describe('loadPriceSheets', () => {
+    it('reads both sheet formats and converts LiteLLM prices to $/M', () => {
+        writeSheet('litellm.json', litellm);
+        writeSheet('Direct Pricing.json', vendorSheet);
+
+        const [direct, lite] = loadPriceSheets(dir);
+        expect(direct).toMatchObject({ id: 'direct-pricing', name: 'Direct pricing', format: 'sheet' });
+        expect(direct.entries.map(e => e.key)).toEqual(['openai/gpt-4o', 'claude-3.5-sonnet']);
+
+        expect(lite).toMatchObject({ id: 'litellm', name: 'litellm', format: 'litellm' });
+        expect(lite.entries).toEqual([
+            { key: 'claude-3-5-sonnet-20241022', provider: 'anthropic', name: 'claude-3-5-sonnet-20241022', inputPrice: 3, outputPrice: 15 },
+            { key: 'gpt-4o', provider: 'openai', name: 'gpt-4o', inputPrice: 2.5, outputPrice: 10 },
+            { key: 'gemini/gemini-2.5-pro', provider: 'google', name: 'gemini-2.5-pro', inputPrice: 1.25, outputPrice: 10 }
+        ]);
+    });
+
+    it('skips unreadable files and files whose ID is already taken', () => {
+        writeSheet('broken.json', '{');
+        writeSheet('My Sheet.json', vendorSheet);
+        writeSheet('my_sheet.json', vendorSheet);
+
+        expect(loadPriceSheets(dir).map(sheet => sheet.file)).toEqual(['My Sheet.json']);
+        expect(console.error).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns no sheets when the directory does not exist', () => {
+        expect(loadPriceSheets(path.join(dir, 'missing'))).toEqual([]);
+    });
+});
+
+describe('matchSourcePrices', () => {
+    it('matches by ID, then by name, then by stem for undated IDs only', () => {
+        writeSheet('litellm.json', litellm);
+        writeSheet('vendor.json', vendorSheet);
+
+        const { models: matched, sources } = matchSourcePrices(models, loadPriceSheets(dir));
+        const prices = Object.fromEntries(matched.map(m => [m.id, m.sourcePrices?.map(p => `${p.source}:${p.key}`)]));
+
+        expect(prices).toEqual({
+            'anthropic/claude-3.5-sonnet': ['litellm:claude-3-5-sonnet-20241022', 'vendor:claude-3.5-sonnet'],
+            'anthropic/claude-3.5-sonnet:beta': undefined,
+            'openai/gpt-4o': ['litellm:gpt-4o', 'vendor:openai/gpt-4o'],
+            'openai/gpt-4o-2024-08-06': undefined,
+            'google/gemini-2.5-pro': ['litellm:gemini/gemini-2.5-pro']
+        });
+        expect(sources).toEqual([
+            { id: 'litellm', name: 'litellm', format: 'litellm', entries: 3, matched: 3 },
+            { id: 'vendor', name: 'Direct pricing', format: 'sheet', entries: 2, matched: 2 }
+        ]);
+    });
+
+    it('prefers an exact ID over a name match', () => {
+        const sheet = {
+            id: 'vendor',
+            name: 'Vendor',
+            format: 'sheet',
+            entries: [
+                { key: 'gpt4o', provider: 'openai', name: 'gpt4o', inputPrice: 1, outputPrice: 1 },
+                { key: 'openai/gpt-4o', provider: 'openai', name: 'gpt-4o', inputPrice: 2, outputPrice: 2 }
+            ]
+        };
+        const [model] = matchSourcePrices([models[2]], [sheet]).models;
+        expect(model.sourcePrices).toEqual([{ source: 'vendor', key: 'openai/gpt-4o', inputPrice: 2, outputPrice: 2 }]);
+    });
+});
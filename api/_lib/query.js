@@ -0,0 +1,146 @@
+/**
+ * /api/models 的查询参数：筛选、搜索、排序、字段投影、分页和批量查询
+ *
+ *   provider=openai,anthropic     厂商（逗号分隔，任一匹配）
+ *   modality=image,audio          输入或输出模态（逗号分隔，需全部支持）
+ *   tag=approved,summarization    注释标签（逗号分隔，需全部带有，不区分大小写）
+ *   minContext=128000             最小上下文长度
+ *   maxInputPrice=1               最高输入价格（$/M，不含价格不固定的路由模型）
+ *   q=claude                      在名称、ID、厂商中搜索
+ *   sort=inputPrice&order=desc    排序字段与方向（默认 asc）
+ *   fields=id,name,inputPrice     只返回指定字段（id 总是返回）
+ *   limit=20&offset=40            分页（limit 最大 500）
+ *   ids=openai/gpt-4o,...         按 ID 批量查询，保持请求顺序
+ */
+
+export const SORT_FIELDS = ['name', 'provider', 'contextLength', 'maxOutput', 'inputPrice', 'outputPrice', 'createdAt'];
+
+const MAX_LIMIT = 500;
+
+// 查询参数中的逗号分隔列表
+const parseList = value => (typeof value === 'string' ? value : '')
+    .split(',')
+    .map(v => v.trim())
+    .filter(Boolean);
+
+/**
+ * 解析数值参数，未提供时为 null
+ */
+function parseNumber(query, name, errors) {
+    const value = query[name];
+    if (value === undefined || value === '') return null;
+
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+        errors.push(`${name} must be a non-negative number`);
+        return null;
+    }
+    return number;
+}
+
+/**
+ * 只保留指定字段
+ */
+function project(model, fields) {
+    if (!fields) return model;
+
+    const result = { id: model.id };
+    for (const field of fields) {
+        if (field in model) result[field] = model[field];
+    }
+    return result;
+}
+
+/**
+ * 按查询参数处理模型列表
+ * @returns {{ error?: string, models?: object[], matchedCount?: number, missing?: string[], offset?: number, limit?: number | null }}
+ */
+export function queryModels(allModels, query = {}) {
+    const errors = [];
+
+    const providers = parseList(query.provider);
+    const modalities = parseList(query.modality);
+    const tags = parseList(query.tag).map(tag => tag.toLowerCase());
+    const ids = parseList(query.ids);
+    const minContext = parseNumber(query, 'minContext', errors);
+    const maxInputPrice = parseNumber(query, 'maxInputPrice', errors);
+    const offset = parseNumber(query, 'offset', errors) ?? 0;
+    const limit = parseNumber(query, 'limit', errors);
+    const q = typeof query.q === 'string' ? query.q.trim().toLowerCase() : '';
+    const fields = query.fields ? parseList(query.fields) : null;
+
+    const sort = query.sort || null;
+    if (sort && !SORT_FIELDS.includes(sort)) {
+        errors.push(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+    }
+    const order = query.order || 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+        errors.push('order must be asc or desc');
+    }
+    if (limit !== null && (!Number.isInteger(limit) || limit > MAX_LIMIT)) {
+        errors.push(`limit must be an integer up to ${MAX_LIMIT}`);
+    }
+    if (!Number.isInteger(offset)) {
+        errors.push('offset must be an integer');
+    }
+
+    if (errors.length > 0) {
+        return { error: errors.join('; ') };
+    }
+
+    let models = allModels;
+    let missing;
+
+    if (ids.length > 0) {
+        const byId = new Map(allModels.map(m => [m.id, m]));
+        models = ids.map(id => byId.get(id)).filter(Boolean);
+        missing = ids.filter(id => !byId.has(id));
+    }
+
+    models = models.filter(m => {
+        if (providers.length > 0 && !providers.includes(m.provider)) return false;
+        if (modalities.length > 0) {
+            const supported = [...(m.inputModalities || []), ...(m.outputModalities || [])];
+            if (!modalities.every(mod => supported.includes(mod))) return false;
+        }
+        if (tags.length > 0) {
+            const modelTags = (m.annotation?.tags || []).map(tag => tag.toLowerCase());
+            if (!tags.every(tag => modelTags.includes(tag))) return false;
+        }
+        if (minContext !== null && m.contextLength < minContext) return false;
+        if (maxInputPrice !== null && (m.inputPrice < 0 || m.inputPrice > maxInputPrice)) return false;
+        if (q && !`${m.name} ${m.id} ${m.provider}`.toLowerCase().includes(q)) return false;
+        return true;
+    });
+
+    if (sort) {
+        const direction = order === 'desc' ? -1 : 1;
+        models = [...models].sort((a, b) => {
+            const aVal = a[sort] ?? '';
+            const bVal = b[sort] ?? '';
+            if (typeof aVal === 'string' || typeof bVal === 'string') {
+                return String(aVal).localeCompare(String(bVal)) * direction;
+            }
+            return (aVal - bVal) * direction;
+        });
+    }
+
+    const matchedCount = models.length;
+    const page = models.slice(offset, limit === null ? undefined : offset + limit);
+
+    return {
+        models: page.map(m => project(m, fields)),
+        matchedCount,
+        missing,
+        offset,
+        limit
+    };
+}
+
+/**
+ * 是否带有任何查询参数（不含 format / id）
+ */
+export function hasQuery(query = {}) {
+    return ['provider', 'modality', 'tag', 'minContext', 'maxInputPrice', 'q', 'sort', 'order', 'fields', 'limit', 'offset', 'ids']
+        .some(name => query[name] !== undefined && query[name] !== '');
+}
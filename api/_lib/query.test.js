@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { queryModels, hasQuery } from './query.js';
+
+const models = [
+    {
+        id: 'openai/gpt-4o', name: 'GPT-4o', provider: 'openai', contextLength: 128000,
+        inputPrice: 2.5, outputPrice: 10, inputModalities: ['text', 'image'], outputModalities: ['text'],
+        annotation: { tags: ['Approved'] }
+    },
+    {
+        id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'anthropic', contextLength: 200000,
+        inputPrice: 3, outputPrice: 15, inputModalities: ['text', 'image'], outputModalities: ['text']
+    },
+    {
+        id: 'meta-llama/llama-3-8b', name: 'Llama 3 8B', provider: 'meta-llama', contextLength: 8192,
+        inputPrice: 0.05, outputPrice: 0.1, inputModalities: ['text'], outputModalities: ['text']
+    },
+    {
+        id: 'openrouter/auto', name: 'Auto Router', provider: 'openrouter', contextLength: 2000000,
+        inputPrice: -1, outputPrice: -1, inputModalities: ['text'], outputModalities: ['text']
+    }
+];
+
+const ids = result => result.models.map(m => m.id);
+
+describe('queryModels', () => {
+    it('returns every model without parameters', () => {
+        const result = queryModels(models);
+        expect(result.models).toEqual(models);
+        expect(result).toMatchObject({ matchedCount: 4, offset: 0, limit: null });
+    });
+
+    it('combines provider, modality, context and search filters', () => {
+        expect(ids(queryModels(models, { provider: 'openai, anthropic' }))).toEqual(['openai/gpt-4o', 'anthropic/claude-sonnet-4']);
+        expect(ids(queryModels(models, { modality: 'image', minContext: '150000' }))).toEqual(['anthropic/claude-sonnet-4']);
+        expect(ids(queryModels(models, { q: 'LLAMA' }))).toEqual(['meta-llama/llama-3-8b']);
+    });
+
+    it('matches tags case-insensitively', () => {
+        expect(ids(queryModels(models, { tag: 'approved' }))).toEqual(['openai/gpt-4o']);
+    });
+
+    it('leaves variable-price routers out of a price ceiling', () => {
+        expect(ids(queryModels(models, { maxInputPrice: '3' }))).toEqual([
+            'openai/gpt-4o', 'anthropic/claude-sonnet-4', 'meta-llama/llama-3-8b'
+        ]);
+    });
+
+    it('sorts, pages and projects', () => {
+        const result = queryModels(models, { sort: 'contextLength', order: 'desc', limit: '2', offset: '1', fields: 'name' });
+        expect(result.models).toEqual([
+            { id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4' },
+            { id: 'openai/gpt-4o', name: 'GPT-4o' }
+        ]);
+        expect(result.matchedCount).toBe(4);
+    });
+
+    it('keeps the requested ID order and reports missing IDs', () => {
+        const result = queryModels(models, { ids: 'meta-llama/llama-3-8b,unknown/model,openai/gpt-4o' });
+        expect(ids(result)).toEqual(['meta-llama/llama-3-8b', 'openai/gpt-4o']);
+        expect(result.missing).toEqual(['unknown/model']);
+    });
+
+    it('collects every invalid parameter into one error', () => {
+        const { error } = queryModels(models, { sort: 'price', order: 'up', limit: '1000', minContext: '-1' });
+        expect(error).toContain('minContext must be a non-negative number');
+        expect(error).toContain('sort must be one of');
+        expect(error).toContain('order must be asc or desc');
+        expect(error).toContain('limit must be an integer up to 500');
+    });
+});
+
+describe('hasQuery', () => {
+    it('ignores format and empty parameters', () => {
+        expect(hasQuery({ format: 'csv', q: '' })).toBe(false);
+        expect(hasQuery({ limit: '10' })).toBe(true);
+    });
+});
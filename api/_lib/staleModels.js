@@ -0,0 +1,131 @@
+/**
+ * 配置中已下架的模型及可能的替代模型
+ *
+ * 已下架：预设中引用、但不在当前 data/models.json 中的模型 ID（如过期的 preview 版本）
+ * 替代模型：同一厂商、ID 词干相近、createdAt 更新的模型
+ *   词干：去掉 :free 等变体后缀和末尾的 preview / 日期 / 版本号，
+ *         如 google/gemini-2.5-pro-preview-06-05 → gemini-2.5-pro
+ *   下架模型的发布时间取自变更记录（api/_lib/history.js），没有记录时取 ID 中的完整日期
+ */
+
+import fs from 'fs';
+import { MODELS_FILE } from './paths.js';
+import { readChanges } from './history.js';
+
+// 每个下架模型最多给出的替代模型数
+const MAX_SUGGESTIONS = 3;
+
+// 词干相似度阈值（词元的 Jaccard 系数）
+const MIN_SIMILARITY = 0.5;
+
+// 末尾可去掉的后缀：preview / exp / latest、MM-DD、YYYY-MM-DD、2411、0528、20240620
+const SUFFIX_PATTERN = /(-(preview|exp|experimental|latest|beta|\d{2}-\d{2}|\d{4}-\d{2}-\d{2}|\d{4}|\d{6}|\d{8}))+$/;
+
+let modelsCache = { mtimeMs: 0, models: null };
+
+/**
+ * 读取当前模型目录（按文件修改时间缓存）
+ * @returns {Array | null} 文件不存在或无法解析时为 null
+ */
+export function readCatalog() {
+    try {
+        const { mtimeMs } = fs.statSync(MODELS_FILE);
+        if (modelsCache.models && modelsCache.mtimeMs === mtimeMs) {
+            return modelsCache.models;
+        }
+        const data = JSON.parse(fs.readFileSync(MODELS_FILE, 'utf-8'));
+        modelsCache = { mtimeMs, models: data.models || [] };
+        return modelsCache.models;
+    } catch {
+        return null;
+    }
+}
+
+function splitId(id) {
+    const slash = id.indexOf('/');
+    return slash === -1
+        ? { provider: 'unknown', name: id }
+        : { provider: id.slice(0, slash), name: id.slice(slash + 1) };
+}
+
+/**
+ * ID 词干（不含厂商）
+ */
+export function getIdStem(id) {
+    const name = splitId(id).name.toLowerCase().replace(/:.*$/, '');
+    return name.replace(SUFFIX_PATTERN, '') || name;
+}
+
+function similarity(stemA, stemB) {
+    if (stemA === stemB) return 1;
+    const a = new Set(stemA.split('-'));
+    const b = new Set(stemB.split('-'));
+    const shared = [...a].filter(token => b.has(token)).length;
+    return shared / (a.size + b.size - shared);
+}
+
+// ID 中的完整日期（2024-08-06 或 20240620）
+function dateFromId(id) {
+    const match = id.match(/(\d{4})-?(\d{2})-?(\d{2})(?!\d)/);
+    if (!match) return null;
+    const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// 变更记录中模型首次出现时的 createdAt
+function knownCreatedAt(history) {
+    const createdAt = new Map();
+    for (const entry of history.entries) {
+        for (const model of entry.added) {
+            if (model.createdAt) createdAt.set(model.id, model.createdAt);
+        }
+    }
+    return createdAt;
+}
+
+/**
+ * 为下架模型查找替代模型：相似度高的优先，其次是正式版（无 preview / 日期后缀），再按发布时间从新到旧
+ */
+export function suggestSuccessors(missingId, catalog, createdAt = null) {
+    const { provider } = splitId(missingId);
+    const stem = getIdStem(missingId);
+
+    return catalog
+        .filter(m => m.provider === provider && (!createdAt || (m.createdAt && m.createdAt > createdAt)))
+        .map(m => ({ model: m, score: similarity(stem, getIdStem(m.id)) }))
+        .filter(({ score }) => score >= MIN_SIMILARITY)
+        .sort((a, b) =>
+            b.score - a.score ||
+            Number(splitId(b.model.id).name === getIdStem(b.model.id)) - Number(splitId(a.model.id).name === getIdStem(a.model.id)) ||
+            (b.model.createdAt || '').localeCompare(a.model.createdAt || '')
+        )
+        .slice(0, MAX_SUGGESTIONS)
+        .map(({ model }) => ({ id: model.id, name: model.name, createdAt: model.createdAt || null }));
+}
+
+/**
+ * 找出预设中已下架的模型
+ * @returns {Array<{ id, presets: string[], suggestions: Array<{ id, name, createdAt }> }> | null}
+ *          模型目录不可用时为 null（无法判断）
+ */
+export function findMissingModels(presets, catalog = readCatalog(), history = readChanges()) {
+    if (!catalog) return null;
+
+    const available = new Set(catalog.map(m => m.id));
+    const missing = new Map();
+
+    for (const preset of presets) {
+        for (const id of preset.models) {
+            if (available.has(id)) continue;
+            if (!missing.has(id)) missing.set(id, []);
+            missing.get(id).push(preset.id);
+        }
+    }
+
+    const createdAt = knownCreatedAt(history);
+    return [...missing].map(([id, presetIds]) => ({
+        id,
+        presets: presetIds,
+        suggestions: suggestSuccessors(id, catalog, createdAt.get(id) || dateFromId(id))
+    }));
+}
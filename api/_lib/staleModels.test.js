@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { getIdStem, suggestSuccessors, findMissingModels } from './staleModels.js';
+
+const model = (id, createdAt) => ({ id, name: id, provider: id.slice(0, id.indexOf('/')), createdAt });
+
+const catalog = [
+    model('google/gemini-2.5-pro', '2025-06-17T00:00:00.000Z'),
+    model('google/gemini-2.5-pro-preview', '2025-05-07T00:00:00.000Z'),
+    model('google/gemini-2.5-flash', '2025-06-17T00:00:00.000Z'),
+    model('openai/gpt-4o-2024-11-20', '2024-11-20T00:00:00.000Z'),
+    model('openai/gpt-4o', '2024-05-13T00:00:00.000Z'),
+    model('anthropic/claude-sonnet-4', '2025-05-22T00:00:00.000Z')
+];
+
+const noHistory = { since: null, entries: [] };
+
+describe('getIdStem', () => {
+    it('drops the provider, variants and preview or date suffixes', () => {
+        expect(getIdStem('google/gemini-2.5-pro-preview-06-05')).toBe('gemini-2.5-pro');
+        expect(getIdStem('openai/gpt-4o-2024-08-06')).toBe('gpt-4o');
+        expect(getIdStem('anthropic/claude-3-5-sonnet-20241022')).toBe('claude-3-5-sonnet');
+        expect(getIdStem('meta-llama/llama-3-8b-instruct:free')).toBe('llama-3-8b-instruct');
+    });
+});
+
+describe('suggestSuccessors', () => {
+    it('prefers the stable release with the same stem', () => {
+        const suggestions = suggestSuccessors('google/gemini-2.5-pro-preview-06-05', catalog, '2025-06-05T00:00:00.000Z');
+        expect(suggestions.map(s => s.id)).toEqual(['google/gemini-2.5-pro', 'google/gemini-2.5-flash']);
+    });
+
+    it('only suggests models from the same provider', () => {
+        const ids = suggestSuccessors('google/gemini-2.5-pro-exp', catalog).map(s => s.id);
+        expect(ids).toEqual(['google/gemini-2.5-pro', 'google/gemini-2.5-pro-preview', 'google/gemini-2.5-flash']);
+    });
+
+    it('skips models released before the missing one', () => {
+        expect(suggestSuccessors('openai/gpt-4o-2024-08-06', catalog, '2024-08-06T00:00:00.000Z').map(s => s.id))
+            .toEqual(['openai/gpt-4o-2024-11-20']);
+    });
+
+    it('returns nothing for unrelated names', () => {
+        expect(suggestSuccessors('anthropic/claude-instant-1', catalog)).toEqual([]);
+    });
+});
+
+describe('findMissingModels', () => {
+    it('lists missing models with the presets that use them', () => {
+        const presets = [
+            { id: 'default', models: ['openai/gpt-4o', 'openai/gpt-4o-2024-08-06'] },
+            { id: 'coding', models: ['openai/gpt-4o-2024-08-06', 'anthropic/claude-sonnet-4'] }
+        ];
+        expect(findMissingModels(presets, catalog, noHistory)).toEqual([{
+            id: 'openai/gpt-4o-2024-08-06',
+            presets: ['default', 'coding'],
+            suggestions: [{ id: 'openai/gpt-4o-2024-11-20', name: 'openai/gpt-4o-2024-11-20', createdAt: '2024-11-20T00:00:00.000Z' }]
+        }]);
+    });
+
+    it('takes the release date from the change history', () => {
+        const history = {
+            since: '2025-01-01T00:00:00.000Z',
+            entries: [{ updatedAt: '2025-05-08T00:00:00.000Z', added: [model('google/gemini-2.5-pro-exp-03-25', '2025-06-01T00:00:00.000Z')], removed: [], changed: [] }]
+        };
+        const [missing] = findMissingModels([{ id: 'default', models: ['google/gemini-2.5-pro-exp-03-25'] }], catalog, history);
+        expect(missing.suggestions.map(s => s.id)).toEqual(['google/gemini-2.5-pro', 'google/gemini-2.5-flash']);
+    });
+
+    it('cannot tell without a catalog', () => {
+        expect(findMissingModels([{ id: 'default', models: ['a/b'] }], null, noHistory)).toBeNull();
+    });
+});
@@ -0,0 +1,241 @@
+/**
+ * 上游数据校验与异常隔离
+ *
+ * 1. 逐条校验 OpenRouter 原始数据，结构错误的模型被拒绝（rejected）并记录原因
+ * 2. 与上一份数据对比，价格突变的模型被隔离（quarantined），继续使用上一次的数据
+ * 3. 拒绝/隔离/移除的比例超过阈值时，整份数据不发布（published: false），保留上一份可用数据
+ *
+ * 校验报告写入 data/validation.json：{ sync: <报告>, api: <报告> }
+ * 只读文件系统（Vercel）上写入失败时只保存在内存中
+ */
+
+import fs from 'fs';
+import { VALIDATION_FILE } from './paths.js';
+
+/**
+ * @typedef {{ id: string, reason: string }} RejectedModel
+ * @typedef {{ id: string, field: string, from: number, to: number, reason: string }} QuarantinedModel
+ *
+ * @typedef {Object} ValidationReport
+ * @property {string} checkedAt
+ * @property {'sync' | 'api'} source
+ * @property {boolean} published      数据是否通过阈值并被发布
+ * @property {number} received        上游返回的模型数
+ * @property {number} accepted        发布的模型数（含隔离后沿用的旧数据）
+ * @property {RejectedModel[]} rejected
+ * @property {QuarantinedModel[]} quarantined
+ * @property {string[]} removed       上一份数据中有、这次没有的模型
+ * @property {string[]} failures      未通过的阈值说明
+ * @property {Object} thresholds
+ */
+
+// 阈值（可通过环境变量调整）
+const THRESHOLDS = {
+    // 价格变化超过该倍数视为异常
+    maxPriceRatio: parseFloat(process.env.VALIDATION_MAX_PRICE_RATIO) || 100,
+    // 被拒绝模型占比上限
+    maxRejectedRatio: parseFloat(process.env.VALIDATION_MAX_REJECTED_RATIO) || 0.1,
+    // 被隔离模型占比上限
+    maxQuarantinedRatio: parseFloat(process.env.VALIDATION_MAX_QUARANTINED_RATIO) || 0.1,
+    // 相比上一份数据被移除的模型占比上限
+    maxRemovedRatio: parseFloat(process.env.VALIDATION_MAX_REMOVED_RATIO) || 0.2
+};
+
+// 报告中每类明细最多保留的条数
+const MAX_REPORT_ITEMS = 200;
+
+// OpenRouter 对路由类模型（如 openrouter/auto）使用 -1 表示价格不固定
+const VARIABLE_PRICE = -1;
+
+// 检查价格突变的字段
+const PRICE_FIELDS = ['inputPrice', 'outputPrice'];
+
+// 写入失败时的内存副本
+const memoryReports = {};
+
+function isNonNegativeNumber(value) {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * 校验价格字段：数字或数字字符串，非负（或 -1）
+ */
+function checkPrice(value, field) {
+    if (value === undefined || value === null || value === '') {
+        return `missing pricing.${field}`;
+    }
+    const price = Number(value);
+    if (!Number.isFinite(price)) {
+        return `pricing.${field} is not a number (${JSON.stringify(value)})`;
+    }
+    if (price < 0 && price !== VARIABLE_PRICE) {
+        return `pricing.${field} is negative (${value})`;
+    }
+    return null;
+}
+
+/**
+ * 校验单个原始模型
+ * @returns {string | null} 拒绝原因，通过时为 null
+ */
+export function validateRawModel(raw) {
+    if (!raw || typeof raw !== 'object') {
+        return 'entry is not an object';
+    }
+    if (typeof raw.id !== 'string' || !raw.id.includes('/')) {
+        return `invalid id (${JSON.stringify(raw.id)})`;
+    }
+    if (raw.name !== undefined && typeof raw.name !== 'string') {
+        return 'name is not a string';
+    }
+    if (!raw.pricing || typeof raw.pricing !== 'object') {
+        return 'missing pricing';
+    }
+
+    const priceError = checkPrice(raw.pricing.prompt, 'prompt') || checkPrice(raw.pricing.completion, 'completion');
+    if (priceError) return priceError;
+
+    if (raw.context_length !== undefined && raw.context_length !== null && !isNonNegativeNumber(raw.context_length)) {
+        return `invalid context_length (${JSON.stringify(raw.context_length)})`;
+    }
+    if (raw.architecture !== undefined && (typeof raw.architecture !== 'object' || raw.architecture === null)) {
+        return 'architecture is not an object';
+    }
+    for (const key of ['input_modalities', 'output_modalities']) {
+        const value = raw.architecture?.[key];
+        if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string'))) {
+            return `architecture.${key} is not a string array`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 检查价格是否突变（两边都为正数时才比较倍数）
+ */
+function findPriceJump(prev, next) {
+    for (const field of PRICE_FIELDS) {
+        const from = prev[field];
+        const to = next[field];
+        if (from > 0 && to > 0) {
+            const ratio = Math.max(to / from, from / to);
+            if (ratio > THRESHOLDS.maxPriceRatio) {
+                return {
+                    id: next.id,
+                    field,
+                    from,
+                    to,
+                    reason: `${field} changed ${Math.round(ratio)}x (limit ${THRESHOLDS.maxPriceRatio}x)`
+                };
+            }
+        }
+    }
+    return null;
+}
+
+const ratioText = (count, total) => `${count}/${total} (${Math.round(count / total * 100)}%)`;
+
+/**
+ * 校验整份数据
+ * @param {Object} options
+ * @param {Object[]} options.rawModels       OpenRouter 原始数据
+ * @param {Object[]} options.previousModels  上一份已发布的模型（处理后的格式）
+ * @param {Function} options.processModels   原始数据 → 处理后模型
+ * @param {'sync' | 'api'} options.source
+ * @returns {{ models: Object[], report: ValidationReport }}
+ */
+export function validateDataset({ rawModels, previousModels = [], processModels, source }) {
+    const previousMap = new Map(previousModels.map(m => [m.id, m]));
+
+    const rejected = [];
+    const validRaw = [];
+    for (const raw of rawModels) {
+        const reason = validateRawModel(raw);
+        if (reason) {
+            rejected.push({ id: typeof raw?.id === 'string' ? raw.id : '(unknown)', reason });
+        } else {
+            validRaw.push(raw);
+        }
+    }
+
+    const quarantined = [];
+    const models = processModels(validRaw).map(model => {
+        const previous = previousMap.get(model.id);
+        const jump = previous && findPriceJump(previous, model);
+        if (jump) {
+            quarantined.push(jump);
+            return previous;
+        }
+        return model;
+    });
+
+    // 被拒绝但上一份数据中存在的模型，继续使用旧数据
+    const publishedIds = new Set(models.map(m => m.id));
+    for (const { id } of rejected) {
+        const previous = previousMap.get(id);
+        if (previous && !publishedIds.has(id)) {
+            models.push(previous);
+            publishedIds.add(id);
+        }
+    }
+
+    const removed = previousModels.map(m => m.id).filter(id => !publishedIds.has(id));
+
+    const failures = [];
+    if (rawModels.length === 0) {
+        failures.push('Upstream returned no models');
+    } else {
+        if (rejected.length / rawModels.length > THRESHOLDS.maxRejectedRatio) {
+            failures.push(`Rejected ${ratioText(rejected.length, rawModels.length)} exceeds ${THRESHOLDS.maxRejectedRatio * 100}%`);
+        }
+        if (quarantined.length / rawModels.length > THRESHOLDS.maxQuarantinedRatio) {
+            failures.push(`Quarantined ${ratioText(quarantined.length, rawModels.length)} exceeds ${THRESHOLDS.maxQuarantinedRatio * 100}%`);
+        }
+    }
+    if (previousModels.length > 0 && removed.length / previousModels.length > THRESHOLDS.maxRemovedRatio) {
+        failures.push(`Removed ${ratioText(removed.length, previousModels.length)} exceeds ${THRESHOLDS.maxRemovedRatio * 100}%`);
+    }
+
+    return {
+        models,
+        report: {
+            checkedAt: new Date().toISOString(),
+            source,
+            published: failures.length === 0,
+            received: rawModels.length,
+            accepted: models.length,
+            rejected: rejected.slice(0, MAX_REPORT_ITEMS),
+            quarantined: quarantined.slice(0, MAX_REPORT_ITEMS),
+            removed: removed.slice(0, MAX_REPORT_ITEMS),
+            failures,
+            thresholds: THRESHOLDS
+        }
+    };
+}
+
+/**
+ * 读取所有来源的最新校验报告
+ */
+export function readValidationReports() {
+    let fileReports = {};
+    try {
+        fileReports = JSON.parse(fs.readFileSync(VALIDATION_FILE, 'utf-8'));
+    } catch {
+        // 文件不存在或无法解析
+    }
+    return { ...fileReports, ...memoryReports };
+}
+
+/**
+ * 保存校验报告（按来源覆盖）
+ */
+export function saveValidationReport(report) {
+    memoryReports[report.source] = report;
+    try {
+        const reports = { ...readValidationReports(), [report.source]: report };
+        fs.writeFileSync(VALIDATION_FILE, JSON.stringify(reports, null, 2), 'utf-8');
+    } catch (error) {
+        console.warn('Failed to write validation report:', error.message);
+    }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { validateRawModel, validateDataset } from './validate.js';
+
+const raw = (id, prompt = '0.000001', completion = '0.000002') => ({
+    id,
+    name: id,
+    context_length: 128000,
+    pricing: { prompt, completion },
+    architecture: { input_modalities: ['text'], output_modalities: ['text'] }
+});
+
+// 与 api/models.js 相同的价格换算，只保留校验用到的字段
+const processModels = rawModels => rawModels.map(m => ({
+    id: m.id,
+    inputPrice: Number(m.pricing.prompt) * 1000000,
+    outputPrice: Number(m.pricing.completion) * 1000000
+}));
+
+const catalog = count => Array.from({ length: count }, (_, i) => raw(`acme/model-${i}`));
+
+describe('validateRawModel', () => {
+    it('accepts a well-formed model and variable router prices', () => {
+        expect(validateRawModel(raw('acme/model'))).toBeNull();
+        expect(validateRawModel(raw('openrouter/auto', '-1', '-1'))).toBeNull();
+    });
+
+    it('reports why a model is rejected', () => {
+        expect(validateRawModel(null)).toBe('entry is not an object');
+        expect(validateRawModel(raw('no-provider'))).toBe('invalid id ("no-provider")');
+        expect(validateRawModel({ ...raw('acme/a'), pricing: undefined })).toBe('missing pricing');
+        expect(validateRawModel(raw('acme/a', 'abc'))).toBe('pricing.prompt is not a number ("abc")');
+        expect(validateRawModel(raw('acme/a', '0', '-2'))).toBe('pricing.completion is negative (-2)');
+        expect(validateRawModel({ ...raw('acme/a'), context_length: '8k' })).toBe('invalid context_length ("8k")');
+        expect(validateRawModel({ ...raw('acme/a'), architecture: { input_modalities: 'text' } }))
+            .toBe('architecture.input_modalities is not a string array');
+    });
+});
+
+describe('validateDataset', () => {
+    it('publishes a clean catalog', () => {
+        const { models, report } = validateDataset({ rawModels: catalog(20), processModels, source: 'sync' });
+        expect(models).toHaveLength(20);
+        expect(report).toMatchObject({ published: true, received: 20, accepted: 20, rejected: [], failures: [] });
+    });
+
+    it('quarantines a price jump and keeps the previous model', () => {
+        const previousModels = processModels(catalog(20));
+        const rawModels = catalog(20);
+        rawModels[3] = raw('acme/model-3', '0.001');
+
+        const { models, report } = validateDataset({ rawModels, previousModels, processModels, source: 'sync' });
+        expect(models.find(m => m.id === 'acme/model-3')).toBe(previousModels[3]);
+        expect(report.quarantined).toEqual([
+            expect.objectContaining({ id: 'acme/model-3', field: 'inputPrice', from: 1, to: 1000 })
+        ]);
+        expect(report.published).toBe(true);
+    });
+
+    it('keeps the previous version of a rejected model', () => {
+        const previousModels = processModels(catalog(20));
+        const rawModels = catalog(20);
+        rawModels[5] = raw('acme/model-5', 'abc');
+
+        const { models, report } = validateDataset({ rawModels, previousModels, processModels, source: 'sync' });
+        expect(models.find(m => m.id === 'acme/model-5')).toBe(previousModels[5]);
+        expect(report.rejected).toEqual([{ id: 'acme/model-5', reason: 'pricing.prompt is not a number ("abc")' }]);
+        expect(report.removed).toEqual([]);
+    });
+
+    it('blocks publishing when too many models are rejected or removed', () => {
+        const rawModels = catalog(10).map((m, i) => i < 3 ? { ...m, pricing: null } : m);
+        expect(validateDataset({ rawModels, processModels, source: 'sync' }).report.published).toBe(false);
+
+        const previousModels = processModels(catalog(10));
+        const { report } = validateDataset({ rawModels: catalog(5), previousModels, processModels, source: 'sync' });
+        expect(report.published).toBe(false);
+        expect(report.failures).toEqual(['Removed 5/10 (50%) exceeds 20%']);
+    });
+
+    it('never publishes an empty upstream response', () => {
+        const { report } = validateDataset({ rawModels: [], processModels, source: 'api' });
+        expect(report.failures).toEqual(['Upstream returned no models']);
+    });
+});
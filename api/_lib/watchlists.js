@@ -0,0 +1,340 @@
+/**
+ * 关注列表与 Webhook 通知
+ *
+ * 管理员登记一组模型 ID、Webhook 地址和触发条件；同步脚本每次同步后
+ * 用本次差异（见 history.js 的 diffModels）评估关注列表，并发送签名的通知
+ *
+ * data/watchlists.json（可用 WATCHLISTS_FILE 覆盖）：
+ *   { watchlists: [...], deliveries: [...] }
+ *
+ * 签名：X-Webhook-Signature: sha256=<HMAC-SHA256(关注列表的 secret, "<timestamp>.<body>")>
+ *       X-Webhook-Timestamp: <Unix 秒>
+ * 每个关注列表创建时生成自己的签名密钥，显示在管理员界面；所有通知都签名
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { WATCHLISTS_FILE } from './paths.js';
+
+const STORE_FILE = process.env.WATCHLISTS_FILE || WATCHLISTS_FILE;
+
+/**
+ * @typedef {'any' | 'removed' | 'price-change' | 'price-increase'} WatchTrigger
+ *
+ * @typedef {Object} Watchlist
+ * @property {string} id
+ * @property {string} name
+ * @property {string[]} models
+ * @property {string} webhookUrl
+ * @property {'slack' | 'generic'} format   Slack 兼容的 { text } 或完整 JSON
+ * @property {WatchTrigger} trigger
+ * @property {number} minPercent            price-change / price-increase 的阈值（百分比）
+ * @property {string} secret                签名密钥（服务端生成）
+ */
+
+export const WATCH_TRIGGERS = ['any', 'removed', 'price-change', 'price-increase'];
+export const WEBHOOK_FORMATS = ['slack', 'generic'];
+
+// 投递记录最多保留的条数
+const MAX_DELIVERIES = 500;
+
+// 重试次数与首次重试间隔（之后每次翻倍）
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) || 4;
+const RETRY_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_DELAY_MS, 10) || 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const PRICE_FIELDS = ['inputPrice', 'outputPrice'];
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const createSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+function readStore() {
+    let data;
+    try {
+        data = JSON.parse(fs.readFileSync(STORE_FILE, 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return { watchlists: [], deliveries: [] };
+        throw error;
+    }
+
+    const store = { watchlists: data.watchlists || [], deliveries: data.deliveries || [] };
+
+    // 旧版本创建的关注列表没有自己的密钥：沿用 WEBHOOK_SECRET（接收端不用改配置），否则生成新密钥
+    if (store.watchlists.some(w => !w.secret)) {
+        store.watchlists = store.watchlists.map(w => w.secret ? w : { ...w, secret: process.env.WEBHOOK_SECRET || createSecret() });
+        writeStore(store);
+    }
+    return store;
+}
+
+function writeStore(store) {
+    fs.mkdirSync(path.dirname(STORE_FILE), { recursive: true });
+    const tmpFile = `${STORE_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(store, null, 2), 'utf-8');
+    fs.renameSync(tmpFile, STORE_FILE);
+}
+
+export function readWatchlists() {
+    return readStore().watchlists;
+}
+
+/**
+ * 投递记录（新到旧）
+ */
+export function readDeliveries(limit = 100) {
+    return readStore().deliveries.slice(-limit).reverse();
+}
+
+/**
+ * 校验并整理提交的关注列表
+ * @returns {{ watchlist?: Watchlist, error?: string }}
+ */
+export function validateWatchlist(input) {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    const webhookUrl = typeof input?.webhookUrl === 'string' ? input.webhookUrl.trim() : '';
+    const models = Array.isArray(input?.models)
+        ? [...new Set(input.models.filter(m => typeof m === 'string').map(m => m.trim()).filter(Boolean))]
+        : [];
+
+    if (!name) return { error: 'name is required' };
+    if (models.length === 0) return { error: 'models must contain at least one model ID' };
+    if (!/^https?:\/\//.test(webhookUrl)) return { error: 'webhookUrl must be an http(s) URL' };
+    if (!WEBHOOK_FORMATS.includes(input.format)) return { error: `format must be one of ${WEBHOOK_FORMATS.join(', ')}` };
+    if (!WATCH_TRIGGERS.includes(input.trigger)) return { error: `trigger must be one of ${WATCH_TRIGGERS.join(', ')}` };
+
+    const minPercent = Number(input.minPercent ?? 0);
+    if (!Number.isFinite(minPercent) || minPercent < 0) return { error: 'minPercent must be a non-negative number' };
+
+    return {
+        watchlist: {
+            id: typeof input.id === 'string' && input.id ? input.id : crypto.randomUUID(),
+            name,
+            models,
+            webhookUrl,
+            format: input.format,
+            trigger: input.trigger,
+            minPercent
+        }
+    };
+}
+
+/**
+ * 新增或更新关注列表；更新时保留原来的签名密钥，新增时生成
+ */
+export function saveWatchlist(watchlist) {
+    const store = readStore();
+    const index = store.watchlists.findIndex(w => w.id === watchlist.id);
+    if (index >= 0) {
+        watchlist = { ...watchlist, secret: store.watchlists[index].secret };
+        store.watchlists[index] = watchlist;
+    } else {
+        watchlist = { ...watchlist, secret: createSecret() };
+        store.watchlists.push(watchlist);
+    }
+    writeStore(store);
+    return watchlist;
+}
+
+export function deleteWatchlist(id) {
+    const store = readStore();
+    const next = store.watchlists.filter(w => w.id !== id);
+    if (next.length === store.watchlists.length) return false;
+    writeStore({ ...store, watchlists: next });
+    return true;
+}
+
+const percentChange = (from, to) => (from > 0 ? ((to - from) / from) * 100 : to > 0 ? Infinity : 0);
+
+/**
+ * 判断一次差异中是否有关注列表关心的事件
+ * @returns {Object[]} 事件列表 [{ type, id, name, provider, changes? }]
+ */
+export function matchWatchlist(watchlist, diff) {
+    const watched = new Set(watchlist.models);
+    const events = [];
+
+    for (const model of diff.removed) {
+        if (watched.has(model.id) && (watchlist.trigger === 'any' || watchlist.trigger === 'removed')) {
+            events.push({ type: 'removed', id: model.id, name: model.name, provider: model.provider });
+        }
+    }
+
+    for (const model of diff.added) {
+        if (watched.has(model.id) && watchlist.trigger === 'any') {
+            events.push({ type: 'added', id: model.id, name: model.name, provider: model.provider });
+        }
+    }
+
+    for (const model of diff.changed) {
+        if (!watched.has(model.id)) continue;
+
+        const changes = model.changes.filter(c => {
+            if (watchlist.trigger === 'any') return true;
+            if (!PRICE_FIELDS.includes(c.field)) return false;
+            const pct = percentChange(c.from, c.to);
+            if (watchlist.trigger === 'price-increase') return pct > watchlist.minPercent;
+            if (watchlist.trigger === 'price-change') return Math.abs(pct) > watchlist.minPercent;
+            return false;
+        });
+
+        if (changes.length > 0) {
+            events.push({
+                type: 'changed',
+                id: model.id,
+                name: model.name,
+                provider: model.provider,
+                changes: changes.map(c => ({ ...c, percent: Math.round(percentChange(c.from, c.to) * 10) / 10 }))
+            });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * 单个事件的可读描述
+ */
+function describeEvent(event) {
+    if (event.type === 'removed') return `❌ ${event.name} (${event.id}) was removed`;
+    if (event.type === 'added') return `✅ ${event.name} (${event.id}) is available again`;
+    const changes = event.changes
+        .map(c => `${c.field} ${c.from} → ${c.to}${Number.isFinite(c.percent) ? ` (${c.percent > 0 ? '+' : ''}${c.percent}%)` : ''}`)
+        .join(', ');
+    return `🔄 ${event.name} (${event.id}): ${changes}`;
+}
+
+/**
+ * 构建 Webhook 请求体
+ */
+export function buildPayload(watchlist, events, updatedAt) {
+    if (watchlist.format === 'slack') {
+        return {
+            text: [`*Watchlist "${watchlist.name}"*: ${events.length} change(s) at ${updatedAt}`, ...events.map(describeEvent)].join('\n')
+        };
+    }
+
+    return {
+        type: 'watchlist.changes',
+        watchlist: { id: watchlist.id, name: watchlist.name, trigger: watchlist.trigger, minPercent: watchlist.minPercent },
+        updatedAt,
+        events
+    };
+}
+
+/**
+ * 计算签名
+ */
+export function signPayload(body, timestamp, secret) {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * 发送 Webhook，网络错误、429 和 5xx 时按指数退避重试；没有签名密钥时不发送
+ * @returns 投递记录
+ */
+export async function deliverWebhook(watchlist, payload, eventCount, maxAttempts = MAX_ATTEMPTS) {
+    const body = JSON.stringify(payload);
+    const delivery = {
+        id: crypto.randomUUID(),
+        watchlistId: watchlist.id,
+        watchlistName: watchlist.name,
+        url: watchlist.webhookUrl,
+        eventCount,
+        createdAt: new Date().toISOString(),
+        status: 'failed',
+        attempts: 0,
+        responseStatus: null,
+        error: null
+    };
+
+    if (!watchlist.secret) {
+        delivery.error = 'Watchlist has no signing secret';
+        return delivery;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        delivery.attempts = attempt;
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const signature = signPayload(body, timestamp, watchlist.secret);
+
+        try {
+            const res = await fetch(watchlist.webhookUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'OpenRouter-Model-Compare-Webhook',
+                    'X-Webhook-Id': delivery.id,
+                    'X-Webhook-Timestamp': timestamp,
+                    'X-Webhook-Signature': signature
+                },
+                body,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+            });
+
+            delivery.responseStatus = res.status;
+            if (res.ok) {
+                delivery.status = 'delivered';
+                delivery.error = null;
+                return delivery;
+            }
+
+            delivery.error = `HTTP ${res.status}`;
+            if (res.status !== 429 && res.status < 500) {
+                return delivery;
+            }
+        } catch (error) {
+            delivery.error = error.message;
+        }
+
+        if (attempt < maxAttempts) {
+            await sleep(RETRY_DELAY_MS * Math.pow(2, attempt - 1));
+        }
+    }
+
+    return delivery;
+}
+
+/**
+ * 追加投递记录
+ */
+export function logDeliveries(deliveries) {
+    if (deliveries.length === 0) return;
+    const store = readStore();
+    store.deliveries = [...store.deliveries, ...deliveries].slice(-MAX_DELIVERIES);
+    writeStore(store);
+}
+
+/**
+ * 用一次同步的差异评估所有关注列表并发送通知
+ * @returns 本次的投递记录
+ */
+export async function notifyWatchlists(diff, updatedAt) {
+    const deliveries = [];
+
+    for (const watchlist of readWatchlists()) {
+        const events = matchWatchlist(watchlist, diff);
+        if (events.length === 0) continue;
+
+        deliveries.push(await deliverWebhook(watchlist, buildPayload(watchlist, events, updatedAt), events.length));
+    }
+
+    logDeliveries(deliveries);
+    return deliveries;
+}
+
+/**
+ * 发送测试通知（管理员界面的 “Send test” 按钮）
+ * 只尝试一次，避免重试的等待时间超过 Serverless 请求的时限
+ */
+export async function sendTestWebhook(watchlist) {
+    const events = [{ type: 'test', id: watchlist.models[0], name: 'Test notification', provider: '' }];
+    const payload = watchlist.format === 'slack'
+        ? { text: `*Watchlist "${watchlist.name}"*: test notification from OpenRouter Model Compare` }
+        : { ...buildPayload(watchlist, events, new Date().toISOString()), type: 'watchlist.test' };
+
+    const delivery = await deliverWebhook(watchlist, payload, 0, 1);
+    logDeliveries([delivery]);
+    return delivery;
+}
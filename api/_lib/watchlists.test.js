@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+let dir;
+let storeFile;
+
+// WATCHLISTS_FILE 和重试间隔在模块加载时读取，每个用例重新加载模块
+async function loadWatchlists() {
+    vi.stubEnv('WATCHLISTS_FILE', storeFile);
+    vi.stubEnv('WEBHOOK_RETRY_DELAY_MS', '1');
+    vi.resetModules();
+    return import('./watchlists.js');
+}
+
+const watchlist = {
+    id: 'w1',
+    name: 'Team models',
+    models: ['openai/gpt-4o', 'anthropic/claude-sonnet-4'],
+    webhookUrl: 'https://hooks.example.com/w1',
+    format: 'generic',
+    trigger: 'price-increase',
+    minPercent: 10,
+    secret: 'whsec_test'
+};
+
+const diff = {
+    added: [{ id: 'openai/gpt-4o', name: 'GPT-4o', provider: 'openai' }],
+    removed: [{ id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'anthropic' }],
+    changed: [{
+        id: 'openai/gpt-4o',
+        name: 'GPT-4o',
+        provider: 'openai',
+        changes: [
+            { field: 'inputPrice', from: 2, to: 2.1 },
+            { field: 'outputPrice', from: 8, to: 10 },
+            { field: 'contextLength', from: 128000, to: 64000 }
+        ]
+    }]
+};
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlists-'));
+    storeFile = path.join(dir, 'watchlists.json');
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+});
+
+describe('matchWatchlist', () => {
+    it('reports price increases above the threshold only', async () => {
+        const { matchWatchlist } = await loadWatchlists();
+        expect(matchWatchlist(watchlist, diff)).toEqual([{
+            type: 'changed',
+            id: 'openai/gpt-4o',
+            name: 'GPT-4o',
+            provider: 'openai',
+            changes: [{ field: 'outputPrice', from: 8, to: 10, percent: 25 }]
+        }]);
+    });
+
+    it('reports removals and every change for the "any" trigger', async () => {
+        const { matchWatchlist } = await loadWatchlists();
+        const events = matchWatchlist({ ...watchlist, trigger: 'any' }, diff);
+        expect(events.map(e => e.type)).toEqual(['removed', 'added', 'changed']);
+        expect(events[2].changes).toHaveLength(3);
+
+        expect(matchWatchlist({ ...watchlist, trigger: 'removed' }, diff).map(e => e.id)).toEqual(['anthropic/claude-sonnet-4']);
+    });
+
+    it('ignores models that are not watched', async () => {
+        const { matchWatchlist } = await loadWatchlists();
+        expect(matchWatchlist({ ...watchlist, trigger: 'any', models: ['x-ai/grok-4'] }, diff)).toEqual([]);
+    });
+});
+
+describe('watchlist store', () => {
+    it('creates a secret for new watchlists and keeps it on update', async () => {
+        const { validateWatchlist, saveWatchlist, readWatchlists } = await loadWatchlists();
+        const { watchlist: input } = validateWatchlist({ ...watchlist, id: undefined, secret: 'ignored' });
+        expect(input).not.toHaveProperty('secret');
+
+        const created = saveWatchlist(input);
+        expect(created.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+        const updated = saveWatchlist({ ...input, name: 'Renamed' });
+        expect(updated.secret).toBe(created.secret);
+        expect(readWatchlists()).toEqual([updated]);
+    });
+
+    it('gives watchlists saved without a secret the legacy WEBHOOK_SECRET', async () => {
+        const legacy = { ...watchlist, secret: undefined };
+        fs.writeFileSync(storeFile, JSON.stringify({ watchlists: [legacy], deliveries: [] }));
+        vi.stubEnv('WEBHOOK_SECRET', 'legacy-secret');
+
+        const { readWatchlists } = await loadWatchlists();
+        expect(readWatchlists()[0].secret).toBe('legacy-secret');
+        expect(JSON.parse(fs.readFileSync(storeFile, 'utf-8')).watchlists[0].secret).toBe('legacy-secret');
+    });
+});
+
+describe('deliverWebhook', () => {
+    it('signs the timestamp and body with the watchlist secret', async () => {
+        const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+        vi.stubGlobal('fetch', fetch);
+        const { deliverWebhook } = await loadWatchlists();
+
+        const delivery = await deliverWebhook(watchlist, { hello: 'world' }, 1);
+        expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+
+        const { headers, body } = fetch.mock.calls[0][1];
+        const expected = crypto.createHmac('sha256', 'whsec_test')
+            .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+            .digest('hex');
+        expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    });
+
+    it('retries server errors but not client errors', async () => {
+        const fetch = vi.fn()
+            .mockResolvedValueOnce({ ok: false, status: 503 })
+            .mockRejectedValueOnce(new Error('socket hang up'))
+            .mockResolvedValueOnce({ ok: true, status: 204 });
+        vi.stubGlobal('fetch', fetch);
+        const { deliverWebhook } = await loadWatchlists();
+
+        expect(await deliverWebhook(watchlist, {}, 1)).toMatchObject({ status: 'delivered', attempts: 3, error: null });
+
+        fetch.mockReset().mockResolvedValue({ ok: false, status: 404 });
+        expect(await deliverWebhook(watchlist, {}, 1)).toMatchObject({ status: 'failed', attempts: 1, error: 'HTTP 404' });
+    });
+
+    it('refuses to send without a secret', async () => {
+        const fetch = vi.fn();
+        vi.stubGlobal('fetch', fetch);
+        const { deliverWebhook } = await loadWatchlists();
+
+        const delivery = await deliverWebhook({ ...watchlist, secret: '' }, {}, 1);
+        expect(delivery).toMatchObject({ status: 'failed', attempts: 0, error: 'Watchlist has no signing secret' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends a test notification once and logs it', async () => {
+        const fetch = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+        vi.stubGlobal('fetch', fetch);
+        const { sendTestWebhook, readDeliveries } = await loadWatchlists();
+
+        const delivery = await sendTestWebhook(watchlist);
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(fetch.mock.calls[0][1].body).type).toBe('watchlist.test');
+        expect(readDeliveries()).toEqual([delivery]);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Vercel Serverless Function: 模型注释（标签、备注、内部评分）
+ *
+ * GET                                  { annotations, tags } 所有注释和标签（公开）
+ * POST { modelId, annotation }         保存一个模型的注释，全部为空时删除（需要管理员认证）
+ *                                      modelId 必须是 data/models.json 中的模型
+ * DELETE ?id=<model id>                删除注释（需要管理员认证）
+ *
+ * 数据保存在 data/annotations.json（见 _lib/annotations.js），需要可写的文件系统；
+ * /api/models 返回的模型带有对应的 annotation 字段
+ */
+
+import fs from 'fs';
+import { MODELS_FILE } from './_lib/paths.js';
+import { verifyAuth } from './_lib/auth.js';
+import {
+    readAnnotations,
+    listTags,
+    validateAnnotation,
+    saveAnnotation,
+    deleteAnnotation
+} from './_lib/annotations.js';
+
+/**
+ * 同步的模型 ID；models.json 不存在时为 null（不校验）
+ */
+function readCatalogIds() {
+    try {
+        const data = JSON.parse(fs.readFileSync(MODELS_FILE, 'utf-8'));
+        return new Set((data.models || []).map(m => m.id));
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    try {
+        if (req.method === 'GET') {
+            const annotations = readAnnotations();
+            return res.status(200).json({ annotations, tags: listTags(annotations) });
+        }
+
+        if (req.method !== 'POST' && req.method !== 'DELETE') {
+            return res.status(405).json({ error: 'Method not allowed' });
+        }
+
+        const auth = verifyAuth(req);
+        if (!auth.valid) {
+            return res.status(401).json({
+                error: 'Unauthorized',
+                message: auth.error
+            });
+        }
+
+        if (req.method === 'POST') {
+            const { modelId, annotation } = req.body || {};
+            if (typeof modelId !== 'string' || !modelId.trim()) {
+                return res.status(400).json({ error: 'Bad Request', message: 'modelId is required' });
+            }
+
+            const catalog = readCatalogIds();
+            if (catalog && !catalog.has(modelId.trim())) {
+                return res.status(400).json({ error: 'Bad Request', message: `Unknown model: ${modelId.trim()}` });
+            }
+
+            const result = validateAnnotation(annotation);
+            if (result.error) {
+                return res.status(400).json({ error: 'Bad Request', message: result.error });
+            }
+
+            const saved = saveAnnotation(modelId.trim(), result.annotation, auth.username);
+            return res.status(200).json({ success: true, modelId: modelId.trim(), annotation: saved });
+        }
+
+        const id = req.query?.id;
+        if (!id || !deleteAnnotation(id)) {
+            return res.status(404).json({ error: 'Not Found', message: `No annotation for ${id}` });
+        }
+        return res.status(200).json({ success: true });
+    } catch (error) {
+        return res.status(500).json({
+            error: 'Internal Server Error',
+            message: error.message
+        });
+    }
+}
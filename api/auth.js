@@ -0,0 +1,124 @@
+/**
+ * Admin API: Session login, logout and refresh
+ *
+ * POST /api/auth/login   { username, password } - Issue a session token
+ * POST /api/auth/refresh - Exchange a valid session token for a new one (Bearer)
+ * POST /api/auth/logout  - Invalidate the current session token (Bearer)
+ *
+ * Login returns { token, expiresAt, username }; send the token as
+ * Authorization: Bearer <token> to admin endpoints (config, validation, watchlists).
+ * Failed logins are limited per client IP (HTTP 429 with Retry-After).
+ *
+ * Environment variables: ADMIN_USERNAME, ADMIN_PASSWORD_HASH or ADMIN_PASSWORD,
+ * AUTH_SECRET, AUTH_SESSION_TTL, TRUST_PROXY (see api/_lib/auth.js)
+ */
+
+import {
+    checkCredentials,
+    checkLoginRateLimit,
+    clearFailedLogins,
+    createSession,
+    getBearerToken,
+    getClientIp,
+    recordFailedLogin,
+    revokeSession,
+    verifySession,
+    hasSigningKey
+} from './_lib/auth.js';
+
+function login(req, res) {
+    const ip = getClientIp(req);
+    const rateLimit = checkLoginRateLimit(ip);
+
+    if (rateLimit.limited) {
+        res.setHeader('Retry-After', String(rateLimit.retryAfter));
+        return res.status(429).json({
+            error: 'Too Many Requests',
+            message: `Too many failed login attempts. Try again in ${Math.ceil(rateLimit.retryAfter / 60)} minutes.`,
+            retryAfter: rateLimit.retryAfter
+        });
+    }
+
+    const { username, password } = req.body || {};
+    const result = checkCredentials(username, password);
+
+    if (!result.valid) {
+        if (result.error === 'Server configuration error') {
+            return res.status(500).json({
+                error: 'Internal Server Error',
+                message: result.error
+            });
+        }
+
+        recordFailedLogin(ip);
+        return res.status(401).json({
+            error: 'Unauthorized',
+            message: result.error
+        });
+    }
+
+    clearFailedLogins(ip);
+
+    if (!hasSigningKey()) {
+        console.error('AUTH_SECRET environment variable must be set in production');
+        return res.status(500).json({
+            error: 'Internal Server Error',
+            message: 'Server configuration error'
+        });
+    }
+
+    return res.status(200).json(createSession(result.username));
+}
+
+function refresh(req, res) {
+    const result = verifySession(getBearerToken(req));
+
+    if (!result.valid) {
+        return res.status(401).json({
+            error: 'Unauthorized',
+            message: result.error
+        });
+    }
+
+    // 旧令牌立即失效，避免同一会话无限续期出多个有效令牌
+    revokeSession(result.session);
+    return res.status(200).json(createSession(result.session.sub));
+}
+
+function logout(req, res) {
+    const result = verifySession(getBearerToken(req));
+
+    // 已过期或无效的令牌视为已登出
+    if (result.valid) {
+        revokeSession(result.session);
+    }
+    return res.status(200).json({ success: true });
+}
+
+const ACTIONS = { login, refresh, logout };
+
+export default async function handler(req, res) {
+    // CORS
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    const action = req.query?.action;
+    if (!Object.hasOwn(ACTIONS, action)) {
+        return res.status(404).json({
+            error: 'Not Found',
+            message: 'Use /api/auth/login, /api/auth/refresh or /api/auth/logout'
+        });
+    }
+
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    return ACTIONS[action](req, res);
+}
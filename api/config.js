@@ -1,19 +1,41 @@
 /**
  * Admin API: Get and update default model configuration
  * 
- * GET - Get current config (public)
- * POST - Update config (requires auth)
+ * GET  - Get current config (public)
+ * GET  ?history=1 - List all saved versions (requires auth)
+ * POST { presets, note? } - Save named presets as a new version (requires auth)
+ * POST { exchangeRates, note? } - Save currency rates, optionally together with presets (requires auth)
+ * POST { benchmarks, note? } - Save imported benchmark scores, optionally together with the rest (requires auth)
+ * POST { defaultModels, note? } - Legacy: replace the first preset's models (requires auth)
+ * POST { rollbackTo: <version> } - Restore an earlier version as a new version (requires auth)
+ *
+ * Presets: [{ id, title, description, models }], the first one is the default
+ * and is also returned as defaultModels (see api/_lib/presets.js).
+ * Exchange rates: { USD: 1, CNY: 7.2, ... } used for price display (see api/_lib/exchangeRates.js).
+ * Benchmarks: [{ id, name, scores: { <model id>: score } }], the first one is used
+ * for the cost-per-point column (see api/_lib/benchmarks.js).
+ * missingModels: configured IDs that are not in data/models.json, with likely
+ * successors (see api/_lib/staleModels.js); null when the catalog is unavailable.
  * 
- * Authentication: Basic Auth or Bearer Token
+ * Authentication: Bearer session token from /api/auth/login, or Basic Auth (see api/_lib/auth.js)
  * Environment variables:
  *   ADMIN_USERNAME (default: admin)
- *   ADMIN_PASSWORD (required)
+ *   ADMIN_PASSWORD_HASH or ADMIN_PASSWORD (required)
  *   DEFAULT_MODELS (comma-separated model IDs, initial config)
+ *   CONFIG_STORE   (file | memory, see api/_lib/configStore.js)
  * 
- * Storage: Uses in-memory cache for runtime updates,
- *          falls back to environment variable on cold start.
+ * Storage: Every save is kept as a version with updatedBy and timestamp.
+ *          The file backend survives restarts; the memory backend
+ *          falls back to DEFAULT_MODELS on cold start.
  */
 
+import { createConfigStore } from './_lib/configStore.js';
+import { getPresets, withPresets, validatePresets } from './_lib/presets.js';
+import { getExchangeRates, validateExchangeRates } from './_lib/exchangeRates.js';
+import { getBenchmarks, validateBenchmarks } from './_lib/benchmarks.js';
+import { findMissingModels } from './_lib/staleModels.js';
+import { verifyAuth } from './_lib/auth.js';
+
 // Fallback model list (when no config is set)
 const FALLBACK_MODELS = [
     'openai/gpt-4o',
@@ -28,89 +50,95 @@ const FALLBACK_MODELS = [
     'mistralai/mistral-large-2411',
 ];
 
-// Runtime cache - persists across requests within the same serverless instance
-// Will reset on cold start, then reads from environment variable
-let runtimeCache = null;
-
 /**
- * Initialize or get cached config
+ * Initial config from environment variable or fallback
  */
-function getConfig() {
-    // If we have a runtime cache, use it
-    if (runtimeCache !== null) {
-        return runtimeCache;
-    }
-
-    // Otherwise, initialize from environment variable or fallback
+function getInitialConfig() {
     const envModels = process.env.DEFAULT_MODELS;
-    let models;
 
     if (envModels && envModels.trim()) {
-        models = envModels.split(',').map(id => id.trim()).filter(Boolean);
-    } else {
-        models = FALLBACK_MODELS;
+        return {
+            config: { defaultModels: envModels.split(',').map(id => id.trim()).filter(Boolean) },
+            source: 'environment'
+        };
     }
 
-    runtimeCache = {
-        defaultModels: models,
-        updatedAt: new Date().toISOString(),
-        source: envModels ? 'environment' : 'fallback'
+    return {
+        config: { defaultModels: FALLBACK_MODELS },
+        source: 'fallback'
     };
-
-    return runtimeCache;
 }
 
+// Config store - file backend persists across restarts,
+// memory backend persists within the same serverless instance
+const store = createConfigStore(getInitialConfig);
+
 /**
- * Update runtime cache
+ * Public view of a stored version
  */
-function updateConfig(models, username) {
-    runtimeCache = {
-        defaultModels: models,
-        updatedAt: new Date().toISOString(),
-        updatedBy: username,
-        source: 'admin'
+function toResponse(entry) {
+    const presets = getPresets(entry.config);
+    return {
+        defaultModels: presets[0].models,
+        count: presets[0].models.length,
+        presets,
+        exchangeRates: getExchangeRates(entry.config),
+        benchmarks: getBenchmarks(entry.config),
+        version: entry.version,
+        source: entry.source,
+        storage: store.backend,
+        updatedAt: entry.updatedAt,
+        updatedBy: entry.updatedBy
     };
-    return runtimeCache;
 }
 
 /**
- * Verify admin authentication
+ * Current version with the configured models that are no longer in the catalog
  */
-function verifyAuth(req) {
-    const adminUsername = process.env.ADMIN_USERNAME || 'admin';
-    const adminPassword = process.env.ADMIN_PASSWORD;
-
-    if (!adminPassword) {
-        console.error('ADMIN_PASSWORD environment variable not set');
-        return { valid: false, error: 'Server configuration error' };
-    }
+function toCurrentResponse(entry) {
+    return {
+        ...toResponse(entry),
+        missingModels: findMissingModels(getPresets(entry.config))
+    };
+}
 
-    const authHeader = req.headers.authorization || req.headers.Authorization;
+/**
+ * Merge a partial update into the current config
+ * Runs inside the store queue, so concurrent partial updates build on each other
+ * @returns {{ config?: object, error?: string }}
+ */
+function mergeConfigUpdate(current, { presets, defaultModels, exchangeRates, benchmarks }) {
+    let nextConfig = current;
+
+    if (presets !== undefined) {
+        const result = validatePresets(presets);
+        if (result.error) return { error: result.error };
+        nextConfig = withPresets(nextConfig, result.presets);
+    } else if (defaultModels !== undefined || (exchangeRates === undefined && benchmarks === undefined)) {
+        if (!Array.isArray(defaultModels)) {
+            return { error: 'presets or defaultModels must be an array' };
+        }
 
-    if (!authHeader) {
-        return { valid: false, error: 'No authorization header' };
+        // 与预设使用相同的校验（模型 ID 必须是字符串）
+        const [first, ...others] = getPresets(current);
+        const result = validatePresets([{ ...first, models: defaultModels }, ...others]);
+        if (result.error) return { error: result.error };
+        nextConfig = withPresets(nextConfig, result.presets);
     }
 
-    // Support Basic Auth
-    if (authHeader.startsWith('Basic ')) {
-        const base64 = authHeader.slice(6);
-        const decoded = Buffer.from(base64, 'base64').toString('utf-8');
-        const [username, password] = decoded.split(':');
-
-        if (username === adminUsername && password === adminPassword) {
-            return { valid: true, username };
-        }
+    if (exchangeRates !== undefined) {
+        const result = validateExchangeRates(exchangeRates);
+        if (result.error) return { error: result.error };
+        nextConfig = { ...nextConfig, exchangeRates: result.exchangeRates };
     }
 
-    // Support Bearer Token
-    if (authHeader.startsWith('Bearer ')) {
-        const token = authHeader.slice(7);
-        if (token === adminPassword) {
-            return { valid: true, username: adminUsername };
-        }
+    if (benchmarks !== undefined) {
+        const result = validateBenchmarks(benchmarks);
+        if (result.error) return { error: result.error };
+        nextConfig = { ...nextConfig, benchmarks: result.benchmarks };
     }
 
-    return { valid: false, error: 'Invalid credentials' };
+    return { config: nextConfig };
 }
 
 export default async function handler(req, res) {
@@ -123,18 +151,38 @@ export default async function handler(req, res) {
         return res.status(200).end();
     }
 
-    // GET: Get current config (public)
+    // GET: Get current config (public), or version history (requires auth)
     if (req.method === 'GET') {
-        const config = getConfig();
-        return res.status(200).json({
-            defaultModels: config.defaultModels,
-            count: config.defaultModels.length,
-            source: config.source,
-            updatedAt: config.updatedAt
-        });
+        if (req.query?.history) {
+            const auth = verifyAuth(req);
+            if (!auth.valid) {
+                return res.status(401).json({
+                    error: 'Unauthorized',
+                    message: auth.error
+                });
+            }
+        }
+
+        try {
+            if (req.query?.history) {
+                const versions = await store.listVersions();
+                return res.status(200).json({
+                    storage: store.backend,
+                    versions: versions.map(v => ({ ...toResponse(v), note: v.note }))
+                });
+            }
+
+            const config = await store.getCurrent();
+            return res.status(200).json(toCurrentResponse(config));
+        } catch (error) {
+            return res.status(500).json({
+                error: 'Internal Server Error',
+                message: error.message
+            });
+        }
     }
 
-    // POST: Update config (requires auth)
+    // POST: Update config or roll back (requires auth)
     if (req.method === 'POST') {
         const auth = verifyAuth(req);
 
@@ -146,30 +194,47 @@ export default async function handler(req, res) {
         }
 
         try {
-            const { defaultModels } = req.body;
-
-            if (!Array.isArray(defaultModels)) {
-                return res.status(400).json({
-                    error: 'Bad Request',
-                    message: 'defaultModels must be an array'
-                });
+            const { presets, defaultModels, exchangeRates, benchmarks, rollbackTo, note } = req.body || {};
+            let config;
+
+            if (rollbackTo !== undefined) {
+                config = await store.rollback(Number(rollbackTo), auth.username);
+                if (!config) {
+                    return res.status(404).json({
+                        error: 'Not Found',
+                        message: `Version ${rollbackTo} does not exist`
+                    });
+                }
+            } else {
+                const result = await store.update(
+                    current => mergeConfigUpdate(current, { presets, defaultModels, exchangeRates, benchmarks }),
+                    auth.username,
+                    note || ''
+                );
+                if (result.error) {
+                    return res.status(400).json({
+                        error: 'Bad Request',
+                        message: result.error
+                    });
+                }
+                config = result.version;
             }
 
-            // Update runtime cache - takes effect immediately
-            const config = updateConfig(defaultModels, auth.username);
-
-            // Generate environment variable value for persistence
-            const envValue = defaultModels.join(',');
-
-            return res.status(200).json({
+            const response = {
                 success: true,
-                message: 'Config updated successfully! Changes are now active.',
-                defaultModels: config.defaultModels,
-                count: config.defaultModels.length,
-                updatedAt: config.updatedAt,
-                envValue,
-                persistenceNote: 'To persist after redeployment, set DEFAULT_MODELS environment variable in Vercel to the envValue above.'
-            });
+                message: rollbackTo !== undefined
+                    ? `Rolled back to version ${rollbackTo}.`
+                    : 'Config updated successfully! Changes are now active.',
+                ...toCurrentResponse(config)
+            };
+
+            // Memory storage is lost on cold start; tell the admin how to persist it
+            if (store.backend === 'memory') {
+                response.envValue = response.defaultModels.join(',');
+                response.persistenceNote = 'Memory storage resets on cold start. To persist, set DEFAULT_MODELS to the envValue above or use CONFIG_STORE=file on a self-hosted server.';
+            }
+
+            return res.status(200).json(response);
 
         } catch (error) {
             return res.status(500).json({
@@ -0,0 +1,48 @@
+/**
+ * Vercel Serverless Function: 模型的上游服务商列表
+ *
+ * GET /api/endpoints?model=<id>   各服务商的价格、上下文长度、最大输出和量化方式
+ *
+ * 优先读取同步脚本保存的 data/endpoints.json（见 _lib/endpoints.js）；
+ * 其中没有该模型时（如 Vercel 上没有同步数据）实时请求 OpenRouter
+ */
+
+import { readEndpoints, fetchModelEndpoints, isModelId } from './_lib/endpoints.js';
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET');
+    res.setHeader('Content-Type', 'application/json');
+
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const modelId = typeof req.query?.model === 'string' ? req.query.model.trim() : '';
+    if (!modelId) {
+        return res.status(400).json({ error: 'Bad Request', message: 'model is required' });
+    }
+    if (!isModelId(modelId)) {
+        return res.status(400).json({ error: 'Bad Request', message: `Invalid model ID: ${modelId}` });
+    }
+
+    try {
+        const stored = readEndpoints();
+        if (Object.hasOwn(stored.models, modelId)) {
+            return res.status(200).json({ modelId, updatedAt: stored.updatedAt, endpoints: stored.models[modelId] });
+        }
+
+        const endpoints = await fetchModelEndpoints(modelId);
+        if (!endpoints) {
+            return res.status(404).json({ error: 'Not Found', message: `No endpoints for ${modelId}` });
+        }
+        return res.status(200).json({ modelId, updatedAt: new Date().toISOString(), endpoints });
+
+    } catch (error) {
+        console.error('Endpoints API Error:', error);
+        return res.status(500).json({
+            error: 'Failed to fetch endpoints',
+            message: error.message
+        });
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * Vercel Serverless Function: 目录变更的 Atom 订阅
+ *
+ * GET /api/feed.xml                    新模型、下架模型和价格变化（vercel.json 重写到 /api/feed）
+ * GET /api/feed.xml?provider=<厂商>    只包含指定厂商
+ * GET /api/feed.xml?limit=<n>          条目数（默认 50）
+ */
+
+import { readChanges } from './_lib/history.js';
+import { buildAtomFeed } from './_lib/feed.js';
+
+/**
+ * 根据请求头推断站点地址
+ */
+function getSiteUrl(req) {
+    const host = req.headers['x-forwarded-host'] || req.headers.host || 'localhost';
+    const proto = req.headers['x-forwarded-proto'] || (host.startsWith('localhost') ? 'http' : 'https');
+    return `${proto}://${host}`;
+}
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET');
+
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        // 重复的查询参数会解析为数组，只取第一个
+        const providerParam = req.query?.provider;
+        const provider = String((Array.isArray(providerParam) ? providerParam[0] : providerParam) || '');
+        const siteUrl = getSiteUrl(req);
+        const selfUrl = `${siteUrl}/api/feed.xml${provider ? `?provider=${encodeURIComponent(provider)}` : ''}`;
+
+        const xml = buildAtomFeed(readChanges(), {
+            siteUrl,
+            selfUrl,
+            provider,
+            limit: req.query?.limit
+        });
+
+        res.setHeader('Content-Type', 'application/atom+xml; charset=utf-8');
+        res.setHeader('Cache-Control', 's-maxage=600, stale-while-revalidate');
+        return res.status(200).send(xml);
+    } catch (error) {
+        return res.status(500).json({
+            error: 'Failed to build feed',
+            message: error.message
+        });
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Vercel Serverless Function: 价格与目录历史
+ *
+ * GET /api/history              最近的变更记录（新到旧）
+ * GET /api/history?model=<id>   单个模型的价格时间线
+ * GET /api/history?limit=<n>    限制返回的变更条目数（默认 50）
+ *
+ * 历史由自托管的同步脚本写入；未记录时响应中 available 为 false（例如 Vercel 部署）
+ */
+
+import fs from 'fs';
+import { MODELS_FILE } from './_lib/paths.js';
+import { readChanges, getModelTimeline, historyAvailable } from './_lib/history.js';
+
+/**
+ * 读取当前同步的模型数据
+ */
+function readCurrentModels() {
+    try {
+        return JSON.parse(fs.readFileSync(MODELS_FILE, 'utf-8')).models || [];
+    } catch {
+        return [];
+    }
+}
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET');
+    res.setHeader('Content-Type', 'application/json');
+
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const history = readChanges();
+        const available = historyAvailable();
+        const modelId = req.query?.model;
+
+        if (modelId) {
+            const current = readCurrentModels().find(m => m.id === modelId) || null;
+            return res.status(200).json({
+                ...getModelTimeline(modelId, current, history),
+                available,
+                current
+            });
+        }
+
+        const limit = Math.max(1, parseInt(req.query?.limit, 10) || 50);
+        return res.status(200).json({
+            available,
+            since: history.since,
+            totalEntries: history.entries.length,
+            entries: history.entries.slice(-limit).reverse()
+        });
+
+    } catch (error) {
+        console.error('History API Error:', error);
+        return res.status(500).json({
+            error: 'Failed to read history',
+            message: error.message
+        });
+    }
+}
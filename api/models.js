@@ -1,9 +1,29 @@
 /**
  * Vercel Serverless Function: 获取 OpenRouter 模型数据
  * 每次请求时从 OpenRouter API 获取最新数据（带缓存）
+ *
+ * GET /api/models               JSON
+ * GET /api/models?format=csv    CSV 表格
+ * GET /api/models?format=md     Markdown 表格
+ * GET /api/models?provider=&q=&sort=&fields=&limit=...  筛选/排序/投影/分页（见 _lib/query.js）
+ * GET /api/models/<id>          单个模型（vercel.json 重写为 ?id=<id>）
+ *
+ * 有注释的模型带有 annotation 字段（标签、备注、内部评分，见 _lib/annotations.js）
+ * 本地价格表中匹配到的价格作为 sourcePrices 字段返回，来源列表为 sources（见 _lib/priceSources.js）
+ *
+ * 上游数据经过校验（见 _lib/validate.js），未通过阈值时继续返回上一次的缓存
+ *
+ * MODELS_SOURCE=file 时直接返回同步脚本生成的 data/models.json，不请求 OpenRouter
+ * （自托管服务器的默认值，见 scripts/server.cjs）
  */
 
-const OPENROUTER_API = 'https://openrouter.ai/api/v1/models';
+import fs from 'fs';
+import { MODELS_FILE } from './_lib/paths.js';
+import { getExporter, PRICE_UNIT } from './_lib/export.js';
+import { validateDataset, saveValidationReport } from './_lib/validate.js';
+import { queryModels, hasQuery } from './_lib/query.js';
+import { withAnnotations } from './_lib/annotations.js';
+import { fetchOpenRouterModels, withSourcePrices } from './_lib/priceSources.js';
 
 // 内存缓存
 let cache = {
@@ -20,6 +40,22 @@ function formatPrice(pricePerToken) {
     return Math.round(price * 1000000 * 1000) / 1000;
 }
 
+/**
+ * 可选的按 token 计费价格（缓存读写、内部推理），未提供时为 null
+ */
+function formatOptionalPrice(pricePerToken) {
+    if (pricePerToken === undefined || pricePerToken === null || pricePerToken === '') return null;
+    return formatPrice(pricePerToken);
+}
+
+/**
+ * 按次计费价格（每张图片、每次请求、每次搜索）的美元价格，未提供时为 null
+ */
+function formatUnitPrice(price) {
+    if (price === undefined || price === null || price === '') return null;
+    return parseFloat(price) || 0;
+}
+
 /**
  * 格式化上下文长度为可读格式
  */
@@ -57,48 +93,136 @@ function processModels(rawModels) {
         maxOutputFormatted: formatContextLength(model.top_provider?.max_completion_tokens),
         inputPrice: formatPrice(model.pricing?.prompt),
         outputPrice: formatPrice(model.pricing?.completion),
+        pricing: {
+            cacheRead: formatOptionalPrice(model.pricing?.input_cache_read),
+            cacheWrite: formatOptionalPrice(model.pricing?.input_cache_write),
+            internalReasoning: formatOptionalPrice(model.pricing?.internal_reasoning),
+            image: formatUnitPrice(model.pricing?.image),
+            request: formatUnitPrice(model.pricing?.request),
+            webSearch: formatUnitPrice(model.pricing?.web_search)
+        },
         modality: model.architecture?.modality || 'text->text',
         inputModalities: model.architecture?.input_modalities || ['text'],
         outputModalities: model.architecture?.output_modalities || ['text'],
+        tokenizer: model.architecture?.tokenizer || null,
+        supportedParameters: model.supported_parameters || [],
+        isModerated: model.top_provider?.is_moderated ?? false,
         openRouterUrl: `https://openrouter.ai/${model.id}`,
-        createdAt: model.created ? new Date(model.created * 1000).toISOString() : null
+        createdAt: model.created ? new Date(model.created * 1000).toISOString() : null,
+        expirationDate: model.expiration_date || null
     }));
 }
 
+/**
+ * 读取同步脚本发布的最后一份可用数据
+ */
+function readSyncedData() {
+    try {
+        return JSON.parse(fs.readFileSync(MODELS_FILE, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 按请求的格式输出模型数据
+ */
+function sendModels(req, res, payload) {
+    const query = req.query || {};
+    const exporter = getExporter(query.format);
+    payload = { ...payload, models: withAnnotations(payload.models) };
+
+    // 单个模型
+    if (query.id) {
+        const [model] = queryModels(payload.models, { ids: query.id, fields: query.fields }).models || [];
+        if (!model) {
+            return res.status(404).json({
+                error: 'Not Found',
+                message: `Model ${query.id} does not exist`
+            });
+        }
+        return res.status(200).json({ updatedAt: payload.updatedAt, model });
+    }
+
+    if (hasQuery(query)) {
+        // 导出表格的列固定，忽略字段投影
+        const result = queryModels(payload.models, exporter ? { ...query, fields: undefined } : query);
+        if (result.error) {
+            return res.status(400).json({
+                error: 'Bad Request',
+                message: result.error
+            });
+        }
+
+        const { models, ...meta } = result;
+        payload = { ...payload, ...meta, models };
+    }
+
+    if (!exporter) {
+        return res.status(200).json(payload);
+    }
+
+    res.setHeader('Content-Type', exporter.contentType);
+    res.setHeader('X-Price-Unit', PRICE_UNIT);
+    return res.status(200).send(exporter.render(payload.models));
+}
+
 export default async function handler(req, res) {
     // 设置 CORS 头
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET');
     res.setHeader('Content-Type', 'application/json');
 
+    const format = req.query?.format;
+    if (format && format !== 'json' && !getExporter(format)) {
+        return res.status(400).json({
+            error: 'Bad Request',
+            message: `Unsupported format: ${format} (use json, csv or md)`
+        });
+    }
+
+    // 使用同步好的数据
+    if (process.env.MODELS_SOURCE === 'file') {
+        const synced = readSyncedData();
+        if (!synced) {
+            return res.status(503).json({
+                error: 'Models not synced yet',
+                message: 'data/models.json is missing; run scripts/sync-models.cjs'
+            });
+        }
+        return sendModels(req, res, synced);
+    }
+
     // 检查缓存是否有效
     const now = Date.now();
     if (cache.data && (now - cache.timestamp) < cache.TTL) {
-        return res.status(200).json({
+        return sendModels(req, res, {
             ...cache.data,
             fromCache: true
         });
     }
 
     try {
-        const response = await fetch(OPENROUTER_API);
+        const rawModels = await fetchOpenRouterModels();
 
-        if (!response.ok) {
-            throw new Error(`OpenRouter API error: ${response.status}`);
-        }
-
-        const data = await response.json();
+        const { models: validModels, report } = validateDataset({
+            rawModels,
+            previousModels: (cache.data || readSyncedData())?.models || [],
+            processModels,
+            source: 'api'
+        });
+        saveValidationReport(report);
 
-        if (!data.data || !Array.isArray(data.data)) {
-            throw new Error('Invalid API response format');
+        if (!report.published) {
+            throw new Error(`Upstream data failed validation: ${report.failures.join('; ')}`);
         }
 
-        const models = processModels(data.data);
-
+        const { models, sources } = withSourcePrices(validModels);
         const result = {
             updatedAt: new Date().toISOString(),
             totalCount: models.length,
-            models: models
+            models: models,
+            sources
         };
 
         // 更新缓存
@@ -108,20 +232,30 @@ export default async function handler(req, res) {
             TTL: cache.TTL
         };
 
-        return res.status(200).json(result);
+        return sendModels(req, res, result);
 
     } catch (error) {
         console.error('API Error:', error);
 
         // 如果有缓存数据（即使过期），返回缓存
         if (cache.data) {
-            return res.status(200).json({
+            return sendModels(req, res, {
                 ...cache.data,
                 fromCache: true,
                 cacheReason: 'API error fallback'
             });
         }
 
+        // 冷启动时没有缓存，返回同步脚本发布的数据
+        const synced = readSyncedData();
+        if (synced) {
+            return sendModels(req, res, {
+                ...synced,
+                fromCache: true,
+                cacheReason: 'Synced data fallback'
+            });
+        }
+
         return res.status(500).json({
             error: 'Failed to fetch models',
             message: error.message
@@ -0,0 +1,36 @@
+/**
+ * Vercel Serverless Function: 上游数据校验报告（需要管理员认证）
+ *
+ * GET /api/validation   { sync, api } 同步脚本和实时 API 最近一次的校验报告
+ */
+
+import { verifyAuth } from './_lib/auth.js';
+import { readValidationReports } from './_lib/validate.js';
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const auth = verifyAuth(req);
+    if (!auth.valid) {
+        return res.status(401).json({
+            error: 'Unauthorized',
+            message: auth.error
+        });
+    }
+
+    const reports = readValidationReports();
+    return res.status(200).json({
+        sync: reports.sync || null,
+        api: reports.api || null
+    });
+}
@@ -0,0 +1,83 @@
+/**
+ * Vercel Serverless Function: 关注列表与 Webhook 投递记录（需要管理员认证）
+ *
+ * GET                       { watchlists, deliveries }
+ * POST { watchlist }        新增或更新（带 id 时更新）
+ * POST { testId }           向指定关注列表发送测试通知
+ * DELETE ?id=<id>           删除关注列表
+ *
+ * 数据保存在 data/watchlists.json，通知由同步脚本发送（scripts/sync-models.cjs），
+ * 因此需要可写的文件系统（自托管服务或运行同步脚本的机器）
+ */
+
+import { verifyAuth } from './_lib/auth.js';
+import {
+    readWatchlists,
+    readDeliveries,
+    validateWatchlist,
+    saveWatchlist,
+    deleteWatchlist,
+    sendTestWebhook
+} from './_lib/watchlists.js';
+
+export default async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    const auth = verifyAuth(req);
+    if (!auth.valid) {
+        return res.status(401).json({
+            error: 'Unauthorized',
+            message: auth.error
+        });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            return res.status(200).json({
+                watchlists: readWatchlists(),
+                deliveries: readDeliveries()
+            });
+        }
+
+        if (req.method === 'POST') {
+            const { watchlist, testId } = req.body || {};
+
+            if (testId) {
+                const target = readWatchlists().find(w => w.id === testId);
+                if (!target) {
+                    return res.status(404).json({ error: 'Not Found', message: `Watchlist ${testId} does not exist` });
+                }
+                const delivery = await sendTestWebhook(target);
+                return res.status(200).json({ success: delivery.status === 'delivered', delivery });
+            }
+
+            const result = validateWatchlist(watchlist);
+            if (result.error) {
+                return res.status(400).json({ error: 'Bad Request', message: result.error });
+            }
+
+            return res.status(200).json({ success: true, watchlist: saveWatchlist(result.watchlist) });
+        }
+
+        if (req.method === 'DELETE') {
+            const id = req.query?.id;
+            if (!id || !deleteWatchlist(id)) {
+                return res.status(404).json({ error: 'Not Found', message: `Watchlist ${id} does not exist` });
+            }
+            return res.status(200).json({ success: true });
+        }
+
+        return res.status(405).json({ error: 'Method not allowed' });
+    } catch (error) {
+        return res.status(500).json({
+            error: 'Internal Server Error',
+            message: error.message
+        });
+    }
+}
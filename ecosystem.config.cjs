@@ -6,7 +6,8 @@ module.exports = {
             cwd: '/home/ubuntu/OpenRouter_Model_Compare/OpenRouter_Model_Compare',
             env: {
                 NODE_ENV: 'production',
-                PORT: 4180
+                PORT: 4180,
+                MODELS_SOURCE: 'file' // 读取同步脚本生成的 data/models.json
             },
             interpreter: 'node',
             autorestart: true,
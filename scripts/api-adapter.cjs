@@ -0,0 +1,117 @@
+/**
+ * Vercel 风格 API 处理函数的请求/响应适配层
+ * 让 api/*.js 中的 handler(req, res) 可以直接挂在 Node 原生 http 服务器上
+ *
+ * req：{ method, headers, query, body, url, socket }，body 按 JSON 解析
+ * res：setHeader / getHeader / status / json / send / end，
+ *      响应结束时把 { statusCode, headers, body } 交给 onFinish 统一输出（压缩、ETag）
+ */
+
+// 请求体大小上限
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// 客户端错误：带 HTTP 状态码，由 server.cjs 原样返回
+const clientError = (statusCode, message) => Object.assign(new Error(message), { statusCode });
+
+/**
+ * 读取并解析 JSON 请求体
+ * 请求体过大或不是合法 JSON 时以带 statusCode 的错误拒绝（413 / 400），只结束一次
+ */
+function readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        let settled = false;
+        const settle = (fn, value) => {
+            if (settled) return;
+            settled = true;
+            fn(value);
+        };
+
+        req.on('data', chunk => {
+            if (settled) return;
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                settle(reject, clientError(413, 'Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            try {
+                settle(resolve, body ? JSON.parse(body) : undefined);
+            } catch {
+                settle(reject, clientError(400, 'Invalid JSON body'));
+            }
+        });
+        req.on('error', error => settle(reject, error));
+    });
+}
+
+/**
+ * 构建传给处理函数的请求对象
+ * @param params 路由参数（合并到 query，与 Vercel 重写规则一致）
+ */
+async function createApiRequest(req, url, params = {}) {
+    const hasBody = req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH';
+    return {
+        method: req.method,
+        headers: req.headers,
+        query: { ...Object.fromEntries(url.searchParams), ...params },
+        body: hasBody ? await readJsonBody(req) : undefined,
+        url: req.url,
+        // 客户端地址（登录失败限流，见 api/_lib/auth.js）
+        socket: req.socket,
+    };
+}
+
+/**
+ * 构建传给处理函数的响应对象
+ * @param onFinish (statusCode, headers, body) => void
+ */
+function createApiResponse(onFinish) {
+    const headers = {};
+    let finished = false;
+
+    const finish = (res, body) => {
+        if (finished) return res;
+        finished = true;
+        onFinish(res.statusCode, headers, body);
+        return res;
+    };
+
+    return {
+        statusCode: 200,
+        setHeader(name, value) {
+            headers[name.toLowerCase()] = value;
+            return this;
+        },
+        getHeader(name) {
+            return headers[name.toLowerCase()];
+        },
+        status(code) {
+            this.statusCode = code;
+            return this;
+        },
+        json(data) {
+            headers['content-type'] = 'application/json; charset=utf-8';
+            return finish(this, JSON.stringify(data));
+        },
+        send(body) {
+            if (body !== null && typeof body === 'object' && !Buffer.isBuffer(body)) {
+                return this.json(body);
+            }
+            return finish(this, body ?? '');
+        },
+        end(body) {
+            return finish(this, body ?? '');
+        },
+        get finished() {
+            return finished;
+        },
+    };
+}
+
+module.exports = {
+    readJsonBody,
+    createApiRequest,
+    createApiResponse,
+};
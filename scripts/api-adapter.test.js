@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import adapter from './api-adapter.cjs';
+
+const { readJsonBody, createApiRequest, createApiResponse } = adapter;
+
+const request = (chunks, props = {}) => Object.assign(Readable.from(chunks.map(chunk => Buffer.from(chunk))), props);
+
+describe('readJsonBody', () => {
+    it('parses a JSON body sent in chunks', async () => {
+        await expect(readJsonBody(request(['{"models":', '["a/b"]}']))).resolves.toEqual({ models: ['a/b'] });
+    });
+
+    it('resolves an empty body to undefined', async () => {
+        await expect(readJsonBody(request([]))).resolves.toBeUndefined();
+    });
+
+    it('rejects malformed JSON as a 400 client error', async () => {
+        await expect(readJsonBody(request(['{"models": ']))).rejects.toMatchObject({
+            statusCode: 400,
+            message: 'Invalid JSON body'
+        });
+    });
+
+    it('rejects an oversized body once with 413', async () => {
+        const req = request(['x'.repeat(600 * 1024), 'x'.repeat(600 * 1024), 'x']);
+        const destroy = vi.spyOn(req, 'destroy');
+
+        await expect(readJsonBody(req)).rejects.toMatchObject({ statusCode: 413, message: 'Request body too large' });
+        expect(destroy).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('createApiRequest', () => {
+    it('merges route params into the query and only reads bodies for writes', async () => {
+        const url = new URL('http://localhost/api/models?format=csv&id=a');
+        const req = await createApiRequest(request([]), url, { id: 'openai/gpt-4o' });
+        expect(req.query).toEqual({ format: 'csv', id: 'openai/gpt-4o' });
+        expect(req.body).toBeUndefined();
+
+        const post = await createApiRequest(request(['{"a":1}'], { method: 'POST' }), url);
+        expect(post.body).toEqual({ a: 1 });
+    });
+});
+
+describe('createApiResponse', () => {
+    it('finishes once with the status, lower-cased headers and body', () => {
+        const onFinish = vi.fn();
+        const res = createApiResponse(onFinish);
+
+        res.setHeader('X-Price-Unit', 'USD per 1M tokens').status(201).json({ ok: true });
+        res.end('ignored');
+
+        expect(res.finished).toBe(true);
+        expect(onFinish).toHaveBeenCalledTimes(1);
+        expect(onFinish).toHaveBeenCalledWith(201, {
+            'x-price-unit': 'USD per 1M tokens',
+            'content-type': 'application/json; charset=utf-8'
+        }, '{"ok":true}');
+    });
+
+    it('sends objects as JSON and strings as they are', () => {
+        const onFinish = vi.fn();
+        createApiResponse(onFinish).send({ a: 1 });
+        createApiResponse(onFinish).send('<feed/>');
+        expect(onFinish.mock.calls.map(call => call[2])).toEqual(['{"a":1}', '<feed/>']);
+    });
+});
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+/**
+ * 生成管理员密码哈希（ADMIN_PASSWORD_HASH）
+ *
+ * 用法：
+ *   node scripts/hash-password.cjs               # 从标准输入读取密码（不会留在 shell 历史中）
+ *   node scripts/hash-password.cjs <password>
+ *
+ * 输出形如 scrypt:<salt>:<hash>，设置为 ADMIN_PASSWORD_HASH 后即可删除 ADMIN_PASSWORD
+ */
+
+const readline = require('readline');
+
+function readPassword() {
+    if (process.argv[2]) return Promise.resolve(process.argv[2]);
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    return new Promise(resolve => {
+        rl.question('Password: ', answer => {
+            rl.close();
+            resolve(answer);
+        });
+    });
+}
+
+async function main() {
+    const password = await readPassword();
+    if (!password) {
+        console.error('Password must not be empty');
+        process.exit(1);
+    }
+
+    const { hashPassword } = await import('../api/_lib/auth.js');
+    console.log(hashPassword(password));
+}
+
+main();
@@ -1,16 +1,28 @@
 #!/usr/bin/env node
 
 /**
- * 简单的静态文件服务器
- * 用于托管构建后的前端应用
+ * 自托管服务器
+ * 托管构建后的前端应用，并挂载 api/ 目录中与 Vercel 相同的处理函数
+ *
+ * - /api/<name> 对应 api/<name>.js（请求/响应适配见 api-adapter.cjs）
+ * - 模型数据默认读取同步脚本生成的 data/models.json（MODELS_SOURCE=file），
+ *   设置 MODELS_SOURCE=openrouter 则与 Vercel 一样实时请求 OpenRouter
+ * - 静态文件和 API 响应都支持 gzip/brotli 压缩和 ETag（304）
  */
 
 const http = require('http');
 const fs = require('fs');
 const path = require('path');
+const zlib = require('zlib');
+const crypto = require('crypto');
+const { createApiRequest, createApiResponse } = require('./api-adapter.cjs');
 
 const PORT = process.env.PORT || 4180;
 const DIST_DIR = path.join(__dirname, '..', 'dist');
+const API_DIR = path.join(__dirname, '..', 'api');
+
+// 自托管时默认使用同步好的数据，避免每次缓存失效都请求 OpenRouter
+process.env.MODELS_SOURCE = process.env.MODELS_SOURCE || 'file';
 
 const MIME_TYPES = {
     '.html': 'text/html; charset=utf-8',
@@ -25,13 +37,161 @@ const MIME_TYPES = {
     '.woff2': 'font/woff2',
 };
 
+// 小于该大小的响应不压缩
+const MIN_COMPRESS_BYTES = 1024;
+
+// 可压缩的内容类型
+const COMPRESSIBLE_TYPE = /^(text\/|application\/(json|javascript|xml|atom\+xml)|image\/svg\+xml)/;
+
+// 与 vercel.json 中重写规则对应的路径别名
+const API_ALIASES = {
+    '/api/feed.xml': 'feed',
+};
+
 function getMimeType(filePath) {
     const ext = path.extname(filePath).toLowerCase();
     return MIME_TYPES[ext] || 'application/octet-stream';
 }
 
-const server = http.createServer((req, res) => {
-    let filePath = path.join(DIST_DIR, req.url === '/' ? 'index.html' : req.url);
+/**
+ * api/ 目录下的处理函数名（不含以 _ 开头的共享模块）
+ */
+const API_HANDLERS = new Set(
+    fs.readdirSync(API_DIR)
+        .filter(file => file.endsWith('.js') && !file.startsWith('_'))
+        .map(file => path.basename(file, '.js'))
+);
+
+// 带路由参数的路径（对应 vercel.json 中的重写规则）
+const API_PATTERNS = [
+    { pattern: /^\/api\/models\/(.+)$/, name: 'models', param: 'id' },
+    { pattern: /^\/api\/auth\/(\w+)$/, name: 'auth', param: 'action' },
+];
+
+/**
+ * 根据路径找到处理函数名和路由参数
+ * @returns {{ name: string, params: object } | null}
+ */
+function resolveApiRoute(pathname) {
+    if (API_ALIASES[pathname]) return { name: API_ALIASES[pathname], params: {} };
+
+    for (const { pattern, name, param } of API_PATTERNS) {
+        const match = pathname.match(pattern);
+        if (match) {
+            let value = match[1];
+            try {
+                value = decodeURIComponent(value);
+            } catch {
+                // 保留原始值，由处理函数返回 404
+            }
+            return { name, params: { [param]: value } };
+        }
+    }
+
+    const match = pathname.match(/^\/api\/([\w-]+)\/?$/);
+    return match && API_HANDLERS.has(match[1]) ? { name: match[1], params: {} } : null;
+}
+
+/**
+ * 按 Accept-Encoding 选择压缩算法
+ */
+function pickEncoding(req, contentType, size) {
+    if (size < MIN_COMPRESS_BYTES || !COMPRESSIBLE_TYPE.test(contentType || '')) return null;
+
+    const accepted = req.headers['accept-encoding'] || '';
+    if (/\bbr\b/.test(accepted)) return 'br';
+    if (/\bgzip\b/.test(accepted)) return 'gzip';
+    return null;
+}
+
+function compress(body, encoding) {
+    return encoding === 'br'
+        ? zlib.brotliCompressSync(body, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+        : zlib.gzipSync(body);
+}
+
+// 静态文件的压缩结果缓存（构建产物不会变化）
+const compressedCache = new Map();
+
+/**
+ * 统一输出响应：ETag / 304、压缩、Content-Length
+ * @param cacheKey 可选，压缩结果缓存键（静态文件）
+ */
+function sendResponse(req, res, statusCode, headers, body, cacheKey) {
+    const buffer = Buffer.isBuffer(body) ? body : Buffer.from(String(body ?? ''));
+    const outHeaders = { ...headers };
+
+    if (statusCode === 200 && (req.method === 'GET' || req.method === 'HEAD')) {
+        const etag = `W/"${crypto.createHash('sha1').update(buffer).digest('base64url')}"`;
+        outHeaders['etag'] = etag;
+
+        if (req.headers['if-none-match'] === etag) {
+            res.writeHead(304, outHeaders);
+            res.end();
+            return;
+        }
+    }
+
+    let payload = buffer;
+    const encoding = pickEncoding(req, outHeaders['content-type'], buffer.length);
+    if (encoding) {
+        const key = cacheKey && `${cacheKey}:${encoding}`;
+        payload = (key && compressedCache.get(key)) || compress(buffer, encoding);
+        if (key) compressedCache.set(key, payload);
+
+        outHeaders['content-encoding'] = encoding;
+    }
+    if (COMPRESSIBLE_TYPE.test(outHeaders['content-type'] || '')) {
+        outHeaders['vary'] = 'Accept-Encoding';
+    }
+    outHeaders['content-length'] = payload.length;
+
+    res.writeHead(statusCode, outHeaders);
+    res.end(req.method === 'HEAD' ? undefined : payload);
+}
+
+/**
+ * 调用 api/ 中的处理函数（ESM，需要动态导入）
+ */
+async function handleApi(req, res, { name, params }, url) {
+    try {
+        const { default: handler } = await import(path.join(API_DIR, `${name}.js`));
+        const apiReq = await createApiRequest(req, url, params);
+        const apiRes = createApiResponse((statusCode, headers, body) =>
+            sendResponse(req, res, statusCode, headers, body)
+        );
+        await handler(apiReq, apiRes);
+
+        if (!apiRes.finished) {
+            apiRes.status(500).json({ error: 'Handler did not send a response' });
+        }
+    } catch (error) {
+        // 请求体错误（见 api-adapter.cjs 的 readJsonBody）返回 4xx，其余为 500
+        const statusCode = error.statusCode || 500;
+        if (statusCode === 500) {
+            console.error(`[${new Date().toISOString()}] API 错误 ${url.pathname}:`, error);
+        }
+        if (!res.headersSent) {
+            sendResponse(req, res, statusCode, { 'content-type': 'application/json; charset=utf-8' },
+                JSON.stringify({ error: http.STATUS_CODES[statusCode], message: error.message }));
+        }
+    }
+}
+
+/**
+ * 静态文件（SPA 回退到 index.html）
+ */
+function handleStatic(req, res, url) {
+    let pathname;
+    try {
+        pathname = decodeURIComponent(url.pathname);
+    } catch {
+        res.writeHead(400);
+        res.end('Bad Request');
+        return;
+    }
+
+    let filePath = path.join(DIST_DIR, pathname === '/' ? 'index.html' : pathname);
 
     // 安全检查：防止目录遍历攻击
     if (!filePath.startsWith(DIST_DIR)) {
@@ -53,19 +213,36 @@ const server = http.createServer((req, res) => {
                 return;
             }
 
-            const mimeType = getMimeType(filePath);
-            res.writeHead(200, {
-                'Content-Type': mimeType,
-                'Cache-Control': filePath.includes('/assets/')
+            sendResponse(req, res, 200, {
+                'content-type': getMimeType(filePath),
+                'cache-control': filePath.includes('/assets/')
                     ? 'max-age=31536000, immutable'
                     : 'no-cache',
-            });
-            res.end(data);
+            }, data, filePath.includes('/assets/') ? filePath : null);
         });
     });
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+
+    const apiRoute = resolveApiRoute(url.pathname);
+    if (apiRoute) {
+        handleApi(req, res, apiRoute, url);
+        return;
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+        sendResponse(req, res, 404, { 'content-type': 'application/json; charset=utf-8' },
+            JSON.stringify({ error: 'Not Found' }));
+        return;
+    }
+
+    handleStatic(req, res, url);
 });
 
 server.listen(PORT, '0.0.0.0', () => {
-    console.log(`[${new Date().toISOString()}] 静态文件服务器已启动: http://0.0.0.0:${PORT}`);
+    console.log(`[${new Date().toISOString()}] 服务器已启动: http://0.0.0.0:${PORT}`);
     console.log(`[${new Date().toISOString()}] 服务目录: ${DIST_DIR}`);
+    console.log(`[${new Date().toISOString()}] API: ${[...API_HANDLERS].map(name => `/api/${name}`).join(', ')}（模型数据来源: ${process.env.MODELS_SOURCE}）`);
 });
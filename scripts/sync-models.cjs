@@ -3,12 +3,16 @@
 /**
  * OpenRouter 模型数据同步脚本
  * 每小时从 OpenRouter API 获取最新模型信息并保存到 JSON 文件
+ * 同时记录带日期的快照和价格/目录变更（见 api/_lib/history.js）
+ * 发布前校验数据（见 api/_lib/validate.js），未通过阈值时保留上一份数据
+ * 同步后评估关注列表并发送 Webhook 通知（见 api/_lib/watchlists.js）
+ * 价格来源：OpenRouter 为主来源，data/prices/ 中的本地价格表按模型匹配后附加（见 api/_lib/priceSources.js）
+ * 每个模型的上游服务商列表单独保存到 data/endpoints.json（见 api/_lib/endpoints.js）
  */
 
 const fs = require('fs');
 const path = require('path');
 
-const API_URL = 'https://openrouter.ai/api/v1/models';
 const DATA_DIR = path.join(__dirname, '..', 'data');
 const OUTPUT_FILE = path.join(DATA_DIR, 'models.json');
 
@@ -20,6 +24,22 @@ function formatPrice(pricePerToken) {
     return Math.round(price * 1000000 * 1000) / 1000; // 保留3位小数
 }
 
+/**
+ * 可选的按 token 计费价格（缓存读写、内部推理），未提供时为 null
+ */
+function formatOptionalPrice(pricePerToken) {
+    if (pricePerToken === undefined || pricePerToken === null || pricePerToken === '') return null;
+    return formatPrice(pricePerToken);
+}
+
+/**
+ * 按次计费价格（每张图片、每次请求、每次搜索）的美元价格，未提供时为 null
+ */
+function formatUnitPrice(price) {
+    if (price === undefined || price === null || price === '') return null;
+    return parseFloat(price) || 0;
+}
+
 /**
  * 格式化上下文长度为可读格式
  */
@@ -51,21 +71,26 @@ function extractProvider(modelId) {
 async function fetchModels() {
     console.log(`[${new Date().toISOString()}] 开始从 OpenRouter API 获取模型数据...`);
 
-    const response = await fetch(API_URL);
+    const { fetchOpenRouterModels } = await import('../api/_lib/priceSources.js');
+    const rawModels = await fetchOpenRouterModels();
 
-    if (!response.ok) {
-        throw new Error(`API 请求失败: ${response.status} ${response.statusText}`);
-    }
+    console.log(`[${new Date().toISOString()}] 获取到 ${rawModels.length} 个模型`);
 
-    const data = await response.json();
+    return rawModels;
+}
 
-    if (!data.data || !Array.isArray(data.data)) {
-        throw new Error('API 返回数据格式错误');
-    }
+/**
+ * 匹配本地价格表中的价格
+ */
+async function addSourcePrices(models) {
+    const { withSourcePrices } = await import('../api/_lib/priceSources.js');
+    const result = withSourcePrices(models);
 
-    console.log(`[${new Date().toISOString()}] 获取到 ${data.data.length} 个模型`);
+    for (const source of result.sources) {
+        console.log(`[${new Date().toISOString()}] 价格来源 ${source.name}: ${source.entries} 条价格，匹配 ${source.matched} 个模型`);
+    }
 
-    return data.data;
+    return result;
 }
 
 /**
@@ -88,23 +113,50 @@ function processModels(rawModels) {
         inputPrice: formatPrice(model.pricing?.prompt),
         outputPrice: formatPrice(model.pricing?.completion),
 
+        // 其他价格：缓存读写、内部推理按每百万 token，图片/请求/搜索按次
+        pricing: {
+            cacheRead: formatOptionalPrice(model.pricing?.input_cache_read),
+            cacheWrite: formatOptionalPrice(model.pricing?.input_cache_write),
+            internalReasoning: formatOptionalPrice(model.pricing?.internal_reasoning),
+            image: formatUnitPrice(model.pricing?.image),
+            request: formatUnitPrice(model.pricing?.request),
+            webSearch: formatUnitPrice(model.pricing?.web_search)
+        },
+
         // 模态信息
         modality: model.architecture?.modality || 'text->text',
         inputModalities: model.architecture?.input_modalities || ['text'],
         outputModalities: model.architecture?.output_modalities || ['text'],
 
+        // 能力信息
+        tokenizer: model.architecture?.tokenizer || null,
+        supportedParameters: model.supported_parameters || [],
+        isModerated: model.top_provider?.is_moderated ?? false,
+
         // OpenRouter 页面链接
         openRouterUrl: `https://openrouter.ai/${model.id}`,
 
         // 元信息
-        createdAt: model.created ? new Date(model.created * 1000).toISOString() : null
+        createdAt: model.created ? new Date(model.created * 1000).toISOString() : null,
+        expirationDate: model.expiration_date || null
     }));
 }
 
+/**
+ * 读取上一次同步的数据（用于生成差异）
+ */
+function loadPreviousData() {
+    try {
+        return JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
 /**
  * 保存数据到 JSON 文件
  */
-function saveData(models) {
+function saveData(models, sources) {
     // 确保数据目录存在
     if (!fs.existsSync(DATA_DIR)) {
         fs.mkdirSync(DATA_DIR, { recursive: true });
@@ -113,7 +165,8 @@ function saveData(models) {
     const data = {
         updatedAt: new Date().toISOString(),
         totalCount: models.length,
-        models: models
+        models: models,
+        sources
     };
 
     const jsonContent = JSON.stringify(data, null, 2);
@@ -133,6 +186,94 @@ function saveData(models) {
     console.log(`[${new Date().toISOString()}] 数据已保存到 ${OUTPUT_FILE}`);
     console.log(`[${new Date().toISOString()}] 数据已同步到 ${PUBLIC_OUTPUT_FILE}`);
     console.log(`[${new Date().toISOString()}] 共 ${models.length} 个模型`);
+
+    return data;
+}
+
+/**
+ * 校验新数据，输出并保存校验报告
+ */
+async function validateModels(rawModels, previousData) {
+    const { validateDataset, saveValidationReport } = await import('../api/_lib/validate.js');
+    const { models, report } = validateDataset({
+        rawModels,
+        previousModels: previousData?.models || [],
+        processModels,
+        source: 'sync'
+    });
+    saveValidationReport(report);
+
+    console.log(`[${new Date().toISOString()}] 校验: 拒绝 ${report.rejected.length}，隔离 ${report.quarantined.length}，移除 ${report.removed.length}`);
+    for (const item of report.rejected) {
+        console.log(`    拒绝 ${item.id}: ${item.reason}`);
+    }
+    for (const item of report.quarantined) {
+        console.log(`    隔离 ${item.id}: ${item.reason}`);
+    }
+
+    if (!report.published) {
+        throw new Error(`数据未通过校验，保留上一份数据: ${report.failures.join('; ')}`);
+    }
+
+    return models;
+}
+
+/**
+ * 获取并保存每个模型的服务商列表
+ * 失败不影响模型数据的同步
+ */
+async function saveEndpoints(models) {
+    const { syncEndpoints } = await import('../api/_lib/endpoints.js');
+
+    try {
+        const { data, failed } = await syncEndpoints(models.map(m => m.id));
+        const count = Object.values(data.models).reduce((sum, endpoints) => sum + endpoints.length, 0);
+        console.log(`[${new Date().toISOString()}] 服务商: ${Object.keys(data.models).length} 个模型，共 ${count} 个 endpoint，失败 ${failed.length}`);
+        for (const item of failed) {
+            console.log(`    ${item.id}: ${item.error}`);
+        }
+    } catch (error) {
+        console.error(`[${new Date().toISOString()}] 服务商列表同步失败:`, error.message);
+    }
+}
+
+/**
+ * 记录历史快照并输出变更摘要
+ * @returns 本次差异（首次记录时为 null）
+ */
+async function saveHistory(previousData, data) {
+    const { recordHistory } = await import('../api/_lib/history.js');
+    const diff = recordHistory(previousData, data);
+
+    if (!diff) {
+        console.log(`[${new Date().toISOString()}] 已创建首个历史快照`);
+        return null;
+    }
+
+    console.log(`[${new Date().toISOString()}] 变更: 新增 ${diff.added.length}，移除 ${diff.removed.length}，变化 ${diff.changed.length}`);
+    for (const model of diff.changed) {
+        const summary = model.changes.map(c => `${c.field} ${c.from} → ${c.to}`).join(', ');
+        console.log(`    ${model.id}: ${summary}`);
+    }
+
+    return diff;
+}
+
+/**
+ * 评估关注列表并发送通知
+ */
+async function notifyWatchers(diff, data) {
+    if (!diff) return;
+
+    const { notifyWatchlists } = await import('../api/_lib/watchlists.js');
+    const deliveries = await notifyWatchlists(diff, data.updatedAt);
+
+    for (const delivery of deliveries) {
+        const result = delivery.status === 'delivered'
+            ? `已送达 (HTTP ${delivery.responseStatus})`
+            : `失败: ${delivery.error}`;
+        console.log(`[${new Date().toISOString()}] 关注列表 "${delivery.watchlistName}": ${delivery.eventCount} 个事件，尝试 ${delivery.attempts} 次，${result}`);
+    }
 }
 
 /**
@@ -140,9 +281,15 @@ function saveData(models) {
  */
 async function main() {
     try {
+        const previousData = loadPreviousData();
         const rawModels = await fetchModels();
-        const processedModels = processModels(rawModels);
-        saveData(processedModels);
+        const validModels = await validateModels(rawModels, previousData);
+        const { models, sources } = await addSourcePrices(validModels);
+        const data = saveData(models, sources);
+        const diff = await saveHistory(previousData, data);
+        await notifyWatchers(diff, data);
+        // 逐个模型请求，耗时最长，放在历史记录和通知之后
+        await saveEndpoints(models);
         console.log(`[${new Date().toISOString()}] 同步完成!`);
     } catch (error) {
         console.error(`[${new Date().toISOString()}] 同步失败:`, error.message);
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+/**
+ * 本地 Webhook 接收端，用于测试关注列表通知
+ *
+ * 用法：
+ *   WEBHOOK_SECRET=<关注列表的签名密钥> node scripts/webhook-stub.cjs
+ *   关注列表的 Webhook 地址填 http://localhost:4190/hook
+ *
+ * 环境变量：
+ *   PORT            监听端口（默认 4190）
+ *   WEBHOOK_SECRET  关注列表的签名密钥（管理员界面中显示），设置后校验 X-Webhook-Signature
+ *   FAIL_FIRST      前 N 次请求返回 500，用于测试重试
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = process.env.PORT || 4190;
+const SECRET = process.env.WEBHOOK_SECRET;
+let failuresLeft = parseInt(process.env.FAIL_FIRST, 10) || 0;
+
+/**
+ * 校验签名（与 api/_lib/watchlists.js 的 signPayload 一致）
+ */
+function verifySignature(req, body) {
+    if (!SECRET) return 'not checked (WEBHOOK_SECRET not set)';
+
+    const timestamp = req.headers['x-webhook-timestamp'] || '';
+    const expected = `sha256=${crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+    const actual = req.headers['x-webhook-signature'] || '';
+
+    const valid = actual.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+    return valid ? 'valid' : 'INVALID';
+}
+
+const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        const now = new Date().toISOString();
+
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.log(`[${now}] ${req.method} ${req.url} -> 500 (模拟失败，剩余 ${failuresLeft} 次)`);
+            res.writeHead(500);
+            res.end('Simulated failure');
+            return;
+        }
+
+        console.log(`[${now}] ${req.method} ${req.url} 签名: ${verifySignature(req, body)}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"ok":true}');
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`[${new Date().toISOString()}] Webhook 接收端已启动: http://localhost:${PORT}/hook`);
+});
@@ -1,7 +1,34 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { ModelsData, SortField, SortDirection } from './types';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { Benchmark, ColumnId, ModalityFilter, ModelsData, ModelFilters, ModelPreset, SiteConfig, SortField, TablePreferences, Workload } from './types';
 import ModelTable from './components/ModelTable';
 import ModelSelector from './components/ModelSelector';
+import PriceTimeline from './components/PriceTimeline';
+import WorkloadPanel from './components/WorkloadPanel';
+import FilterPanel from './components/FilterPanel';
+import ExportMenu from './components/ExportMenu';
+import ScatterChart from './components/ScatterChart';
+import ColumnMenu from './components/ColumnMenu';
+import PriceMenu from './components/PriceMenu';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { useI18n } from './i18n/context';
+import {
+  EMPTY_FILTERS,
+  EMPTY_MODALITY_FILTER,
+  applyFilters,
+  applyModalityFilter,
+  countActiveFilters,
+  toggleModalityFilter,
+} from './utils/filters';
+import { fetchModelsData } from './utils/api';
+import { DEFAULT_WORKLOAD } from './utils/workload';
+import { DEFAULT_SORT, sortModels, updateSortKeys } from './utils/sort';
+import { DEFAULT_TABLE_PREFERENCES, loadTablePreferences, saveTablePreferences } from './utils/columns';
+import {
+  parseComparisonParams,
+  buildComparisonParams,
+  buildComparePath,
+} from './utils/urlState';
 import './App.css';
 
 // 本地回退的默认模型列表
@@ -17,68 +44,148 @@ const FALLBACK_MODEL_IDS = [
   'mistralai/mistral-large-2411',
 ];
 
+const FALLBACK_PRESET: ModelPreset = {
+  id: 'default',
+  title: 'Default',
+  description: '',
+  models: FALLBACK_MODEL_IDS,
+};
+
 function App() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { t, currency, priceUnitLong, formatDateTime } = useI18n();
+
+  // 分享链接中携带的对比状态（只在首次加载时读取）
+  const [initialParams] = useState(() => parseComparisonParams(searchParams));
+
   const [allModelsData, setAllModelsData] = useState<ModelsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // 服务端配置的默认模型 ID
-  const [serverDefaultIds, setServerDefaultIds] = useState<string[]>([]);
+  // 服务端配置的模型预设及当前选用的预设
+  const [presets, setPresets] = useState<ModelPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState('');
+
+  // 管理员导入的基准测试成绩
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
 
   // 用户当前选择展示的模型（包含默认 + 用户临时添加的）
   const [displayModelIds, setDisplayModelIds] = useState<Set<string>>(new Set());
 
-  // 排序状态
-  const [sortField, setSortField] = useState<SortField>('inputPrice');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  // 表格列和排序偏好（保存在 localStorage，分享链接中的排序优先）
+  const [tablePreferences, setTablePreferences] = useState<TablePreferences>(() => {
+    const saved = loadTablePreferences();
+    return initialParams.sort ? { ...saved, sort: initialParams.sort } : saved;
+  });
+  const { columns, sort } = tablePreferences;
+
+  // 表格按模态筛选（点击模态标签切换）
+  const [modalityFilter, setModalityFilter] = useState<ModalityFilter>(EMPTY_MODALITY_FILTER);
+
+  // 工作负载成本估算
+  const [showWorkload, setShowWorkload] = useState(initialParams.workload !== null);
+  const [workload, setWorkload] = useState<Workload>(initialParams.workload ?? DEFAULT_WORKLOAD);
+
+  // 表格 / 散点图视图
+  const [view, setView] = useState<'table' | 'chart'>('table');
+
+  // 目录筛选（主界面和添加模型下拉框共用）
+  const [filters, setFilters] = useState<ModelFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+
+  // 复制链接的反馈
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // 正在查看价格历史的模型
+  const [historyModelId, setHistoryModelId] = useState<string | null>(null);
 
   // 加载数据
   useEffect(() => {
     const fetchData = async () => {
       try {
         // 并行获取模型数据和配置
-        const [modelsRes, configRes] = await Promise.all([
-          fetch('/api/models').catch(() => fetch('/data/models.json')),
+        const [modelsData, configRes] = await Promise.all([
+          fetchModelsData(),
           fetch('/api/config').catch(() => null)
         ]);
 
-        if (!modelsRes.ok) throw new Error('数据加载失败');
-
-        const modelsData: ModelsData = await modelsRes.json();
         setAllModelsData(modelsData);
 
-        // 获取服务端配置的默认模型
-        let defaultIds = FALLBACK_MODEL_IDS;
+        // 获取服务端配置的预设
+        let serverPresets: ModelPreset[] = [FALLBACK_PRESET];
         if (configRes && configRes.ok) {
-          const configData = await configRes.json();
-          if (configData.defaultModels && configData.defaultModels.length > 0) {
-            defaultIds = configData.defaultModels;
+          const configData: SiteConfig = await configRes.json();
+          if (configData.presets && configData.presets.length > 0) {
+            serverPresets = configData.presets;
+          } else if (configData.defaultModels && configData.defaultModels.length > 0) {
+            serverPresets = [{ ...FALLBACK_PRESET, models: configData.defaultModels }];
           }
+          setBenchmarks(configData.benchmarks || []);
         }
 
-        setServerDefaultIds(defaultIds);
+        // 分享链接可以指定预设，未指定或不存在时使用第一个预设
+        const preset = serverPresets.find(p => p.id === initialParams.presetId) || serverPresets[0];
+        const defaultIds = preset.models;
+
+        setPresets(serverPresets);
+        setActivePresetId(preset.id);
 
         // 初始化显示的模型（过滤有效的 ID）
-        const validIds = defaultIds.filter(id =>
-          modelsData.models.some(m => m.id === id)
-        );
-        setDisplayModelIds(new Set(validIds));
+        const isValid = (id: string) => modelsData.models.some(m => m.id === id);
+        const validIds = defaultIds.filter(isValid);
+
+        // 优先使用分享链接中的模型；链接中的模型全部失效时回退到默认列表
+        const requested = initialParams.modelIds;
+        const requestedIds = requested ? requested.filter(isValid) : [];
+        const useRequested = requested !== null && (requestedIds.length > 0 || requested.length === 0);
+
+        setDisplayModelIds(new Set(useRequested ? requestedIds : validIds));
         setLoading(false);
 
       } catch (err) {
-        setError(err instanceof Error ? err.message : '未知错误');
+        // 空字符串表示未知错误，显示时翻译
+        setError(err instanceof Error ? err.message : '');
         setLoading(false);
       }
     };
 
     fetchData();
-  }, []);
+  }, [initialParams]);
+
+  const activePreset = presets.find(p => p.id === activePresetId);
+  const activePresetIds = useMemo(() => activePreset?.models || [], [activePreset]);
+
+  // 将当前对比状态同步到 URL
+  useEffect(() => {
+    if (loading || error !== null) return;
+
+    const params = buildComparisonParams({
+      presetId: activePresetId,
+      defaultPresetId: presets[0]?.id || '',
+      modelIds: Array.from(displayModelIds),
+      defaultIds: activePresetIds,
+      sort,
+      workload: showWorkload ? workload : null,
+    });
+    setSearchParams(params, { replace: true });
+  }, [loading, error, activePresetId, presets, activePresetIds, displayModelIds, sort, showWorkload, workload, setSearchParams]);
+
+  // 保存表格偏好
+  useEffect(() => {
+    saveTablePreferences(tablePreferences);
+  }, [tablePreferences]);
 
   // 添加模型到对比列表
   const addModel = useCallback((modelId: string) => {
     setDisplayModelIds(prev => new Set([...prev, modelId]));
   }, []);
 
+  // 批量添加模型
+  const addModels = useCallback((modelIds: string[]) => {
+    setDisplayModelIds(prev => new Set([...prev, ...modelIds]));
+  }, []);
+
   // 从对比列表移除模型
   const removeModel = useCallback((modelId: string) => {
     setDisplayModelIds(prev => {
@@ -88,64 +195,111 @@ function App() {
     });
   }, []);
 
-  // 重置为默认列表
-  const resetToDefault = useCallback(() => {
-    if (allModelsData) {
-      const validIds = serverDefaultIds.filter(id =>
+  // 在对比列表中添加或移除模型（散点图点击）
+  const toggleModel = useCallback((modelId: string) => {
+    setDisplayModelIds(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(modelId)) {
+        newSet.delete(modelId);
+      } else {
+        newSet.add(modelId);
+      }
+      return newSet;
+    });
+  }, []);
+
+  // 加载预设的模型列表（过滤有效的 ID）
+  const loadPreset = useCallback((presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (allModelsData && preset) {
+      const validIds = preset.models.filter(id =>
         allModelsData.models.some(m => m.id === id)
       );
+      setActivePresetId(preset.id);
       setDisplayModelIds(new Set(validIds));
     }
-  }, [allModelsData, serverDefaultIds]);
+  }, [allModelsData, presets]);
+
+  // 重置为当前预设
+  const resetToDefault = useCallback(() => {
+    loadPreset(activePresetId);
+  }, [loadPreset, activePresetId]);
+
+  // 符合筛选条件的目录模型
+  const filteredCatalog = useMemo(
+    () => allModelsData ? applyFilters(allModelsData.models, filters) : [],
+    [allModelsData, filters]
+  );
+  const addableFilteredIds = useMemo(
+    () => filteredCatalog.filter(m => !displayModelIds.has(m.id)).map(m => m.id),
+    [filteredCatalog, displayModelIds]
+  );
+
+  // 当前预设中已不在目录里的模型（上游已下架），提示用户而不是悄悄少显示
+  const missingPresetIds = useMemo(() => {
+    if (!allModelsData) return [];
+    const available = new Set(allModelsData.models.map(m => m.id));
+    return activePresetIds.filter(id => !available.has(id));
+  }, [allModelsData, activePresetIds]);
 
   // 过滤显示的模型并排序
   const displayedModels = useMemo(() => {
     if (!allModelsData) return [];
 
     const models = allModelsData.models.filter(m => displayModelIds.has(m.id));
+    return sortModels(models, sort, workload, benchmarks);
+  }, [allModelsData, displayModelIds, sort, workload, benchmarks]);
 
-    // 排序
-    models.sort((a, b) => {
-      let aVal: string | number = a[sortField];
-      let bVal: string | number = b[sortField];
-
-      if (typeof aVal === 'string') {
-        aVal = aVal.toLowerCase();
-        bVal = (bVal as string).toLowerCase();
-      }
+  // 表格中显示的模型（应用模态筛选）
+  const tableModels = useMemo(
+    () => applyModalityFilter(displayedModels, modalityFilter),
+    [displayedModels, modalityFilter]
+  );
+  const modalityFilterCount = modalityFilter.input.length + modalityFilter.output.length;
+
+  // 复制当前对比的分享链接
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      window.prompt(t('app.copyPrompt'), window.location.href);
+    }
+  };
 
-      if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
+  // 切换工作负载面板；关闭时成本列消失，需要去掉对应的排序键
+  const toggleWorkload = () => {
+    if (showWorkload) {
+      const remaining = sort.filter(k => k.field !== 'costPerRequest' && k.field !== 'monthlyCost');
+      setTablePreferences(prev => ({ ...prev, sort: remaining.length > 0 ? remaining : DEFAULT_SORT }));
+    }
+    setShowWorkload(prev => !prev);
+  };
 
-    return models;
-  }, [allModelsData, displayModelIds, sortField, sortDirection]);
+  // 处理排序点击，Shift+点击追加次要排序键
+  const handleSort = (field: SortField, additive: boolean) => {
+    setTablePreferences(prev => ({ ...prev, sort: updateSortKeys(prev.sort, field, additive) }));
+  };
 
-  // 处理排序点击
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('asc');
-    }
+  const setColumns = (next: ColumnId[]) => {
+    setTablePreferences(prev => ({ ...prev, columns: next }));
   };
 
   if (loading) {
     return (
       <div className="app loading-container">
         <div className="loading-spinner"></div>
-        <p>Loading model data...</p>
+        <p>{t('common.loadingModels')}</p>
       </div>
     );
   }
 
-  if (error) {
+  if (error !== null) {
     return (
       <div className="app error-container">
-        <h2>Failed to load</h2>
-        <p>{error}</p>
+        <h2>{t('app.loadFailed')}</h2>
+        <p>{error ? t('app.dataLoadFailed', { detail: error }) : t('app.unknownError')}</p>
       </div>
     );
   }
@@ -155,27 +309,28 @@ function App() {
       <header className="header">
         <div className="header-content">
           <div className="header-title-row">
-            <h1>OpenRouter Model Comparison</h1>
+            <h1>{t('app.title')}</h1>
             <a
               href="https://github.com/dracohu2025-cloud/OpenRouter_Model_Compare"
               target="_blank"
               rel="noopener noreferrer"
               className="github-link"
-              title="View on GitHub"
+              title={t('app.github')}
             >
               <svg viewBox="0 0 24 24" width="28" height="28" fill="currentColor">
                 <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
               </svg>
             </a>
+            <LanguageSwitcher />
           </div>
           <p className="subtitle">
-            Compare pricing and context length of top LLMs
+            {t('app.subtitle')}
           </p>
           {allModelsData && (
             <p className="update-time">
-              Updated: {new Date(allModelsData.updatedAt).toLocaleString('en-US')}
+              {t('app.updated', { date: formatDateTime(allModelsData.updatedAt) })}
               {' · '}
-              Available: {allModelsData.totalCount} models
+              {t('app.available', { count: allModelsData.totalCount })}
             </p>
           )}
         </div>
@@ -188,38 +343,194 @@ function App() {
             allModels={allModelsData?.models || []}
             selectedIds={displayModelIds}
             onAdd={addModel}
+            onAddMany={addModels}
+            filters={filters}
+            onFiltersChange={setFilters}
           />
 
           <div className="toolbar-right">
             <span className="model-count">
-              Comparing {displayedModels.length} models
+              {t('app.comparing', { count: displayedModels.length })}
             </span>
+            <button
+              className={`reset-btn ${showFilters ? 'active' : ''}`}
+              onClick={() => setShowFilters(prev => !prev)}
+              title={t('app.filtersTitle')}
+            >
+              {t('app.filters')}{countActiveFilters(filters) > 0 ? ` (${countActiveFilters(filters)})` : ''}
+            </button>
+            <button
+              className={`reset-btn ${showWorkload ? 'active' : ''}`}
+              onClick={toggleWorkload}
+              title={t('app.workloadTitle')}
+            >
+              {t('app.workload')}
+            </button>
+            <ColumnMenu
+              columns={columns}
+              onChange={setColumns}
+              onReset={() => setTablePreferences(DEFAULT_TABLE_PREFERENCES)}
+              benchmarks={benchmarks}
+              sources={allModelsData?.sources || []}
+            />
+            <PriceMenu />
+            <button
+              className="reset-btn"
+              onClick={() => navigate(buildComparePath(displayedModels.map(m => m.id)))}
+              disabled={displayedModels.length === 0}
+              title={t('app.detailsTitle')}
+            >
+              {t('app.details')}
+            </button>
+            {presets.length > 1 && (
+              <select
+                className="preset-select"
+                value={activePresetId}
+                onChange={(e) => loadPreset(e.target.value)}
+                title={activePreset?.description || t('app.choosePreset')}
+              >
+                {presets.map(p => (
+                  <option key={p.id} value={p.id}>{p.title}</option>
+                ))}
+              </select>
+            )}
             <button
               className="reset-btn"
               onClick={resetToDefault}
-              title="Reset to default list"
+              title={t('app.resetTitle', { preset: activePreset?.title || t('app.defaultPreset') })}
             >
-              🔄 Reset
+              {t('app.reset')}
+            </button>
+            <ExportMenu
+              models={tableModels}
+              columns={columns}
+              workload={showWorkload ? workload : null}
+              benchmarks={benchmarks}
+              sources={allModelsData?.sources || []}
+            />
+            <button
+              className="reset-btn"
+              onClick={copyLink}
+              title={t('app.copyLinkTitle')}
+            >
+              {linkCopied ? t('common.copied') : t('app.copyLink')}
             </button>
           </div>
         </div>
 
-        {/* 模型表格 */}
-        <ModelTable
-          models={displayedModels}
-          sortField={sortField}
-          sortDirection={sortDirection}
-          onSort={handleSort}
-          onRemove={removeModel}
-          showRemoveButton={true}
-        />
-
-        {displayedModels.length === 0 && (
+        {/* 预设中已下架的模型 */}
+        {missingPresetIds.length > 0 && (
+          <div className="stale-notice" role="status">
+            {t('app.missingModels', {
+              count: missingPresetIds.length,
+              preset: activePreset?.title || t('app.defaultPreset'),
+              ids: missingPresetIds.join(', '),
+            })}
+          </div>
+        )}
+
+        {/* 目录筛选 */}
+        {showFilters && (
+          <FilterPanel
+            allModels={allModelsData?.models || []}
+            filters={filters}
+            onChange={setFilters}
+            matchCount={filteredCatalog.length}
+            onAddAll={() => addModels(addableFilteredIds)}
+            addableCount={addableFilteredIds.length}
+          />
+        )}
+
+        {/* 工作负载 */}
+        {showWorkload && (
+          <WorkloadPanel workload={workload} onChange={setWorkload} />
+        )}
+
+        {/* 视图切换 */}
+        <div className="view-toggle" role="tablist">
+          <button
+            role="tab"
+            aria-selected={view === 'table'}
+            className={view === 'table' ? 'active' : ''}
+            onClick={() => setView('table')}
+          >
+            {t('app.viewTable')}
+          </button>
+          <button
+            role="tab"
+            aria-selected={view === 'chart'}
+            className={view === 'chart' ? 'active' : ''}
+            onClick={() => setView('chart')}
+          >
+            {t('app.viewChart')}
+          </button>
+        </div>
+
+        {/* 表格的模态筛选 */}
+        {view === 'table' && modalityFilterCount > 0 && (
+          <div className="table-filter-bar">
+            <span>{t('app.modalityFilter', { shown: tableModels.length, total: displayedModels.length })}</span>
+            {(['input', 'output'] as const).flatMap(direction =>
+              modalityFilter[direction].map(modality => (
+                <button
+                  key={`${direction}-${modality}`}
+                  className="table-filter-chip"
+                  onClick={() => setModalityFilter(prev => toggleModalityFilter(prev, direction, modality))}
+                  title={t('app.removeFilter')}
+                >
+                  {t(`modality.${direction}`)}: {modality} ✕
+                </button>
+              ))
+            )}
+            <button className="table-filter-clear" onClick={() => setModalityFilter(EMPTY_MODALITY_FILTER)}>
+              {t('common.clear')}
+            </button>
+          </div>
+        )}
+
+        {/* 模型表格 / 散点图 */}
+        {view === 'table' ? (
+          <ModelTable
+            models={tableModels}
+            columns={columns}
+            sort={sort}
+            onSort={handleSort}
+            onRemove={removeModel}
+            onShowHistory={setHistoryModelId}
+            showRemoveButton={true}
+            workload={showWorkload ? workload : null}
+            modalityFilter={modalityFilter}
+            onModalityToggle={(direction, modality) =>
+              setModalityFilter(prev => toggleModalityFilter(prev, direction, modality))
+            }
+            benchmarks={benchmarks}
+            sources={allModelsData?.sources}
+          />
+        ) : (
+          <ScatterChart
+            selectedModels={displayedModels}
+            catalogModels={filteredCatalog}
+            selectedIds={displayModelIds}
+            onToggle={toggleModel}
+          />
+        )}
+
+        {view === 'table' && displayedModels.length === 0 && (
           <div className="empty-state">
-            <p>😅 No models selected</p>
-            <p>Click "Add Model" above to add models</p>
+            <p>{t('app.emptyTitle')}</p>
+            <p>{t('app.emptyHint')}</p>
           </div>
         )}
+
+        {/* 价格历史 */}
+        {historyModelId && (
+          <PriceTimeline
+            key={historyModelId}
+            modelId={historyModelId}
+            modelName={allModelsData?.models.find(m => m.id === historyModelId)?.name || historyModelId}
+            onClose={() => setHistoryModelId(null)}
+          />
+        )}
       </main>
 
       {/* Ad Placeholder - Hidden by default, enable in CSS when ready */}
@@ -231,9 +542,11 @@ function App() {
 
       <footer className="footer">
         <p>
-          Data: <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer">OpenRouter API</a>
+          {t('app.footerData')} <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer">OpenRouter API</a>
+          {' | '}
+          {t('app.footerPrices', { currency, unit: priceUnitLong })}
           {' | '}
-          Prices: USD per million tokens
+          <a href="/api/feed.xml" target="_blank" rel="noopener noreferrer">{t('app.footerFeed')}</a>
         </p>
       </footer>
     </div>
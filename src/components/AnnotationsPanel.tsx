@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import type { Model, ModelAnnotation } from '../types';
+import { useI18n } from '../i18n/context';
+import './AnnotationsPanel.css';
+
+interface AnnotationsPanelProps {
+    // Authorization 请求头的值
+    authorization: string;
+    allModels: Model[];
+}
+
+interface TagCount {
+    tag: string;
+    count: number;
+}
+
+const EMPTY_FORM = {
+    modelId: '',
+    tags: '',
+    note: '',
+    rating: '',
+};
+
+// 与 api/_lib/annotations.js 的限制一致
+const MAX_NOTE_LENGTH = 280;
+const RATINGS = [1, 2, 3, 4, 5];
+
+// 表单中的标签：逗号分隔
+const parseTags = (text: string): string[] =>
+    text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+function AnnotationsPanel({ authorization, allModels }: AnnotationsPanelProps) {
+    const { t } = useI18n();
+    const [annotations, setAnnotations] = useState<Record<string, ModelAnnotation>>({});
+    const [tags, setTags] = useState<TagCount[]>([]);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editing, setEditing] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch('/api/annotations')
+            .then(res => {
+                if (!res.ok) throw new Error(t('annotations.unavailable'));
+                return res.json();
+            })
+            .then((data: { annotations: Record<string, ModelAnnotation>; tags: TagCount[] }) => {
+                if (cancelled) return;
+                setAnnotations(data.annotations);
+                setTags(data.tags);
+            })
+            .catch(err => {
+                if (!cancelled) setMessage(`❌ ${err instanceof Error ? err.message : t('annotations.unavailable')}`);
+            });
+
+        return () => { cancelled = true; };
+    }, [reloadKey, t]);
+
+    const request = async (method: string, body?: unknown, query = '') => {
+        const res = await fetch(`/api/annotations${query}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', 'Authorization': authorization },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.message || `HTTP ${res.status}`);
+        return data;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await request('POST', {
+                modelId: form.modelId.trim(),
+                annotation: {
+                    tags: parseTags(form.tags),
+                    note: form.note,
+                    rating: form.rating === '' ? null : Number(form.rating),
+                },
+            });
+            setMessage(t('annotations.saved', { id: form.modelId.trim() }));
+            setForm(EMPTY_FORM);
+            setEditing(false);
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            setMessage(`❌ ${err instanceof Error ? err.message : t('annotations.saveFailed')}`);
+        }
+    };
+
+    const handleEdit = (modelId: string, annotation: ModelAnnotation) => {
+        setForm({
+            modelId,
+            tags: annotation.tags.join(', '),
+            note: annotation.note,
+            rating: annotation.rating === null ? '' : String(annotation.rating),
+        });
+        setEditing(true);
+        setMessage('');
+    };
+
+    const handleDelete = async (modelId: string) => {
+        if (!window.confirm(t('annotations.confirmDelete', { id: modelId }))) return;
+        try {
+            await request('DELETE', undefined, `?id=${encodeURIComponent(modelId)}`);
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            setMessage(`❌ ${err instanceof Error ? err.message : t('annotations.deleteFailed')}`);
+        }
+    };
+
+    // 点击已有标签加入表单
+    const addTag = (tag: string) => {
+        const current = parseTags(form.tags);
+        if (current.some(existing => existing.toLowerCase() === tag.toLowerCase())) return;
+        setForm({ ...form, tags: [...current, tag].join(', ') });
+    };
+
+    const modelNames = new Map(allModels.map(m => [m.id, m.name]));
+    const entries = Object.entries(annotations).sort(([a], [b]) => a.localeCompare(b));
+    const modelId = form.modelId.trim();
+    const unknownModel = modelId !== '' && !modelNames.has(modelId);
+
+    return (
+        <section className="annotations-panel">
+            <h2>{t('annotations.title')}</h2>
+            <p className="annotations-hint">{t('annotations.hint')}</p>
+
+            {entries.length > 0 && (
+                <ul className="annotations-list">
+                    {entries.map(([id, annotation]) => (
+                        <li key={id}>
+                            <div className="annotation-info">
+                                <strong>{modelNames.get(id) ?? id}</strong>
+                                <span className="annotation-meta">
+                                    <code>{id}</code>
+                                    {annotation.rating !== null && ` · ${t('table.rating', { rating: annotation.rating })}`}
+                                </span>
+                                {annotation.tags.length > 0 && (
+                                    <span className="annotation-tags">
+                                        {annotation.tags.map(tag => <span key={tag} className="annotation-tag">{tag}</span>)}
+                                    </span>
+                                )}
+                                {annotation.note && <span className="annotation-note">{annotation.note}</span>}
+                            </div>
+                            <div className="annotation-actions">
+                                <button className="action-btn" onClick={() => handleEdit(id, annotation)}>{t('common.edit')}</button>
+                                <button className="action-btn danger" onClick={() => handleDelete(id)}>{t('common.delete')}</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form className="annotations-form" onSubmit={handleSubmit}>
+                <h3>{editing ? t('annotations.editTitle', { id: form.modelId }) : t('annotations.new')}</h3>
+                <div className="annotations-form-row">
+                    <label className="annotation-model-field">
+                        {t('annotations.model')}
+                        <input
+                            type="text"
+                            list="annotation-model-ids"
+                            value={form.modelId}
+                            onChange={(e) => setForm({ ...form, modelId: e.target.value })}
+                            placeholder="openai/gpt-4o"
+                            disabled={editing}
+                            required
+                        />
+                        <datalist id="annotation-model-ids">
+                            {allModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </datalist>
+                    </label>
+                    <label>
+                        {t('annotations.rating')}
+                        <select
+                            value={form.rating}
+                            onChange={(e) => setForm({ ...form, rating: e.target.value })}
+                        >
+                            <option value="">{t('annotations.noRating')}</option>
+                            {RATINGS.map(r => <option key={r} value={r}>{'★'.repeat(r)}</option>)}
+                        </select>
+                    </label>
+                </div>
+                <label>
+                    {t('annotations.tags')}
+                    <input
+                        type="text"
+                        value={form.tags}
+                        onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                        placeholder={t('annotations.tagsPlaceholder')}
+                    />
+                </label>
+                {tags.length > 0 && (
+                    <div className="annotation-tag-suggestions">
+                        {tags.map(({ tag, count }) => (
+                            <button type="button" key={tag} className="annotation-tag" onClick={() => addTag(tag)}>
+                                + {tag} <span className="annotation-tag-count">{count}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <label>
+                    {t('annotations.note')}
+                    <input
+                        type="text"
+                        value={form.note}
+                        onChange={(e) => setForm({ ...form, note: e.target.value })}
+                        maxLength={MAX_NOTE_LENGTH}
+                        placeholder={t('annotations.notePlaceholder')}
+                    />
+                </label>
+                {unknownModel && (
+                    <p className="annotations-warning">{t('common.notInCatalog', { ids: modelId })}</p>
+                )}
+                <div className="annotations-form-actions">
+                    <button type="submit" className="action-btn">{t('annotations.save')}</button>
+                    {editing && (
+                        <button
+                            type="button"
+                            className="action-btn"
+                            onClick={() => {
+                                setForm(EMPTY_FORM);
+                                setEditing(false);
+                            }}
+                        >
+                            {t('common.cancel')}
+                        </button>
+                    )}
+                    {message && <span className="annotations-message">{message}</span>}
+                </div>
+            </form>
+        </section>
+    );
+}
+
+export default AnnotationsPanel;
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import type { Benchmark, Model } from '../types';
+import { matchModel, mergeBenchmarks, parseBenchmarkFile } from '../utils/benchmarks';
+import type { MatchMethod, ParsedBenchmarks } from '../utils/benchmarks';
+import { useI18n } from '../i18n/context';
+import './BenchmarkPanel.css';
+
+interface BenchmarkPanelProps {
+    benchmarks: Benchmark[];
+    allModels: Model[];
+    // 修改后与预设、汇率一起保存
+    onChange: (benchmarks: Benchmark[]) => void;
+}
+
+// 待确认的导入：每行匹配到的模型 ID（空字符串表示跳过）
+interface PendingImport {
+    fileName: string;
+    parsed: ParsedBenchmarks;
+    methods: (MatchMethod | null)[];
+    modelIds: string[];
+}
+
+function BenchmarkPanel({ benchmarks, allModels, onChange }: BenchmarkPanelProps) {
+    const { t, formatNumber } = useI18n();
+    const [pending, setPending] = useState<PendingImport | null>(null);
+    const [message, setMessage] = useState('');
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const result = parseBenchmarkFile(await file.text(), file.name);
+        if ('error' in result) {
+            setPending(null);
+            setMessage(`❌ ${t(result.error)}`);
+            return;
+        }
+
+        const matches = result.rows.map(row => matchModel(row.key, allModels));
+        setPending({
+            fileName: file.name,
+            parsed: result,
+            methods: matches.map(m => m?.method ?? null),
+            modelIds: matches.map(m => m?.modelId ?? ''),
+        });
+        setMessage('');
+    };
+
+    const modelNames = new Map(allModels.map(m => [m.id, m.name]));
+
+    // 目录中不存在的 ID 视为跳过
+    const resolvedIds = pending?.modelIds.map(id => modelNames.has(id.trim()) ? id.trim() : null) ?? [];
+
+    const setRowModel = (index: number, modelId: string) => {
+        if (!pending) return;
+        setPending({ ...pending, modelIds: pending.modelIds.map((id, i) => i === index ? modelId : id) });
+    };
+
+    const applyImport = () => {
+        if (!pending) return;
+        const mapped = resolvedIds.filter(Boolean).length;
+        onChange(mergeBenchmarks(benchmarks, pending.parsed, resolvedIds));
+        setMessage(t('benchmarks.imported', { rows: mapped, benchmarks: pending.parsed.names.join(', ') }));
+        setPending(null);
+    };
+
+    const removeBenchmark = (id: string) => {
+        onChange(benchmarks.filter(b => b.id !== id));
+    };
+
+    // 需要人工确认的行（未匹配或模糊匹配）在前，自动匹配的行折叠
+    const rows = pending?.parsed.rows.map((row, index) => ({ row, index, method: pending.methods[index] })) ?? [];
+    const reviewRows = rows.filter(r => r.method === null || r.method === 'fuzzy');
+    const matchedRows = rows.filter(r => r.method === 'exact' || r.method === 'normalized');
+
+    const renderRow = ({ row, index, method }: (typeof rows)[number]) => {
+        const value = pending?.modelIds[index] ?? '';
+        const unknown = value.trim() !== '' && !modelNames.has(value.trim());
+        return (
+            <tr key={index}>
+                <td className="benchmark-key">{row.key}</td>
+                <td className="benchmark-scores">
+                    {Object.entries(row.scores).map(([name, score]) => `${name}: ${formatNumber(score)}`).join(' · ')}
+                </td>
+                <td>
+                    <input
+                        type="text"
+                        list="benchmark-model-ids"
+                        value={value}
+                        onChange={(e) => setRowModel(index, e.target.value)}
+                        placeholder={t('benchmarks.skip')}
+                        className={unknown ? 'invalid' : undefined}
+                    />
+                    {value && modelNames.has(value.trim()) && (
+                        <span className="benchmark-model-name">{modelNames.get(value.trim())}</span>
+                    )}
+                </td>
+                <td>
+                    <span className={`benchmark-match match-${method ?? 'none'}`}>
+                        {t(`benchmarks.match.${method ?? 'none'}`)}
+                    </span>
+                </td>
+            </tr>
+        );
+    };
+
+    const renderTable = (items: typeof rows) => (
+        <table className="benchmark-rows">
+            <thead>
+                <tr>
+                    <th>{t('benchmarks.fileModel')}</th>
+                    <th>{t('benchmarks.scores')}</th>
+                    <th>{t('benchmarks.catalogModel')}</th>
+                    <th>{t('benchmarks.matchColumn')}</th>
+                </tr>
+            </thead>
+            <tbody>{items.map(renderRow)}</tbody>
+        </table>
+    );
+
+    return (
+        <section className="benchmark-panel">
+            <h2>{t('benchmarks.title')}</h2>
+            <p className="benchmark-hint">{t('benchmarks.hint')}</p>
+
+            {benchmarks.length > 0 && (
+                <ul className="benchmark-list">
+                    {benchmarks.map((b, i) => (
+                        <li key={b.id}>
+                            <div className="benchmark-info">
+                                <strong>{b.name}</strong>
+                                {i === 0 && <span className="benchmark-primary-tag">{t('benchmarks.primary')}</span>}
+                                <span className="benchmark-meta">
+                                    <code>{b.id}</code> · {t('benchmarks.modelCount', { count: Object.keys(b.scores).length })}
+                                </span>
+                            </div>
+                            <div className="benchmark-actions">
+                                <button
+                                    className="action-btn"
+                                    onClick={() => onChange([b, ...benchmarks.filter(other => other.id !== b.id)])}
+                                    disabled={i === 0}
+                                    title={t('benchmarks.makePrimaryTitle')}
+                                >
+                                    {t('benchmarks.makePrimary')}
+                                </button>
+                                <button className="action-btn danger" onClick={() => removeBenchmark(b.id)}>
+                                    {t('common.delete')}
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <label className="benchmark-upload">
+                {t('benchmarks.upload')}
+                <input type="file" accept=".csv,.json,.tsv,.txt" onChange={handleFile} />
+            </label>
+
+            {pending && (
+                <div className="benchmark-review">
+                    <h3>
+                        {t('benchmarks.reviewTitle', {
+                            file: pending.fileName,
+                            benchmarks: pending.parsed.names.join(', '),
+                        })}
+                    </h3>
+                    <datalist id="benchmark-model-ids">
+                        {allModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </datalist>
+
+                    {reviewRows.length > 0 ? (
+                        <>
+                            <p className="benchmark-warning">{t('benchmarks.needsReview', { count: reviewRows.length })}</p>
+                            {renderTable(reviewRows)}
+                        </>
+                    ) : (
+                        <p className="benchmark-hint">{t('benchmarks.allMatched')}</p>
+                    )}
+
+                    {matchedRows.length > 0 && (
+                        <details>
+                            <summary>{t('benchmarks.matchedRows', { count: matchedRows.length })}</summary>
+                            {renderTable(matchedRows)}
+                        </details>
+                    )}
+
+                    <div className="benchmark-review-actions">
+                        <button className="action-btn" onClick={applyImport} disabled={!resolvedIds.some(Boolean)}>
+                            {t('benchmarks.apply', { count: resolvedIds.filter(Boolean).length })}
+                        </button>
+                        <button className="action-btn" onClick={() => setPending(null)}>
+                            {t('common.cancel')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {message && <p className="benchmark-message">{message}</p>}
+        </section>
+    );
+}
+
+export default BenchmarkPanel;
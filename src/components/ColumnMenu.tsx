@@ -0,0 +1,125 @@
+import { useState, useRef, useEffect } from 'react';
+import type { Benchmark, ColumnId, PriceSource } from '../types';
+import { COLUMN_GROUPS, getColumns } from '../utils/columns';
+import { movePresetItem } from '../utils/configDiff';
+import { useI18n } from '../i18n/context';
+import './ColumnMenu.css';
+
+interface ColumnMenuProps {
+    // 可见列，按显示顺序
+    columns: ColumnId[];
+    onChange: (columns: ColumnId[]) => void;
+    onReset: () => void;
+    // 管理员导入的基准测试（每个基准一列成绩）
+    benchmarks: Benchmark[];
+    // 本地价格表（每个来源一列价格）
+    sources: PriceSource[];
+}
+
+function ColumnMenu({ columns, onChange, onReset, benchmarks, sources }: ColumnMenuProps) {
+    const { t, priceUnitLong } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // 点击外部关闭
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    // 没有基准测试成绩时不提供每分成本列
+    const available = getColumns(benchmarks, sources).filter(c => !c.requiresBenchmarks || benchmarks.length > 0);
+
+    const hideColumn = (id: ColumnId) => onChange(columns.filter(c => c !== id));
+    const showColumn = (id: ColumnId) => onChange([...columns, id]);
+
+    return (
+        <div className="column-menu" ref={containerRef}>
+            <button
+                className={`reset-btn ${isOpen ? 'active' : ''}`}
+                onClick={() => setIsOpen(!isOpen)}
+                title={t('columnMenu.title')}
+            >
+                {t('columnMenu.button')}
+            </button>
+
+            {isOpen && (
+                <div className="column-dropdown">
+                    <div className="column-section-title">{t('columnMenu.shown')}</div>
+                    <ul className="column-list">
+                        {columns.map((id, index) => {
+                            const column = available.find(c => c.id === id);
+                            if (!column) return null;
+                            return (
+                                <li key={id} className="column-row">
+                                    <label>
+                                        <input
+                                            type="checkbox"
+                                            checked
+                                            disabled={column.required}
+                                            onChange={() => hideColumn(id)}
+                                        />
+                                        {t(column.label, column.params)}
+                                        {column.requiresWorkload && <span className="column-note">{t('columnMenu.workload')}</span>}
+                                    </label>
+                                    <div className="column-move">
+                                        <button
+                                            onClick={() => onChange(movePresetItem(columns, index, -1))}
+                                            disabled={index === 0}
+                                            title={t('common.moveLeft')}
+                                        >
+                                            ↑
+                                        </button>
+                                        <button
+                                            onClick={() => onChange(movePresetItem(columns, index, 1))}
+                                            disabled={index === columns.length - 1}
+                                            title={t('common.moveRight')}
+                                        >
+                                            ↓
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    {COLUMN_GROUPS.map(group => {
+                        const hidden = available.filter(c => c.group === group.id && !columns.includes(c.id));
+                        if (hidden.length === 0) return null;
+                        return (
+                            <div key={group.id}>
+                                <div className="column-section-title">{t(group.label)}</div>
+                                <ul className="column-list">
+                                    {hidden.map(column => (
+                                        <li key={column.id} className="column-row">
+                                            <label title={column.title && t(column.title, { ...column.params, unit: priceUnitLong })}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={false}
+                                                    onChange={() => showColumn(column.id)}
+                                                />
+                                                {t(column.label, column.params)}
+                                            </label>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        );
+                    })}
+
+                    <button className="column-reset" onClick={onReset}>
+                        {t('columnMenu.reset')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default ColumnMenu;
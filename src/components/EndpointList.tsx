@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import type { Model, ModelEndpoints } from '../types';
+import { rankEndpoints } from '../utils/endpoints';
+import { formatTokenCount } from '../utils/chart';
+import { useI18n } from '../i18n/context';
+import './EndpointList.css';
+
+interface EndpointListProps {
+    model: Model;
+}
+
+function EndpointList({ model }: EndpointListProps) {
+    const { t, formatPrice, formatDateTime } = useI18n();
+    const [data, setData] = useState<ModelEndpoints | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch(`/api/endpoints?model=${encodeURIComponent(model.id)}`)
+            .then(res => {
+                if (!res.ok) throw new Error('Endpoints unavailable');
+                return res.json();
+            })
+            .then((result: ModelEndpoints) => {
+                if (!cancelled) setData(result);
+            })
+            .catch(() => {
+                if (!cancelled) setFailed(true);
+            });
+
+        return () => { cancelled = true; };
+    }, [model.id]);
+
+    if (failed) return <p className="endpoint-empty">{t('endpoints.unavailable')}</p>;
+    if (!data) return <p className="endpoint-empty">{t('endpoints.loading')}</p>;
+    if (data.endpoints.length === 0) return <p className="endpoint-empty">{t('endpoints.empty')}</p>;
+
+    return (
+        <div className="endpoint-list">
+            <table className="endpoint-table">
+                <thead>
+                    <tr>
+                        <th>{t('endpoints.provider')}</th>
+                        <th>{t('endpoints.price')}</th>
+                        <th>{t('endpoints.contextLength')}</th>
+                        <th>{t('endpoints.maxOutput')}</th>
+                        <th>{t('endpoints.quantization')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rankEndpoints(model, data.endpoints).map(({ endpoint, cheapest }) => (
+                        <tr key={endpoint.tag || endpoint.provider} className={cheapest ? 'endpoint-cheapest' : undefined}>
+                            <td>
+                                <span className="endpoint-provider">{endpoint.provider}</span>
+                                {cheapest && (
+                                    <span className="endpoint-badge" title={t('endpoints.cheapestTitle')}>
+                                        {t('endpoints.cheapest')}
+                                    </span>
+                                )}
+                                {endpoint.tag && <span className="endpoint-tag">{endpoint.tag}</span>}
+                            </td>
+                            <td className="endpoint-price">
+                                {formatPrice(endpoint.inputPrice)} / {formatPrice(endpoint.outputPrice)}
+                            </td>
+                            <td>{endpoint.contextLength ? formatTokenCount(endpoint.contextLength) : '-'}</td>
+                            <td>{endpoint.maxOutput ? formatTokenCount(endpoint.maxOutput) : '-'}</td>
+                            <td>{endpoint.quantization || '-'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {data.updatedAt && (
+                <p className="endpoint-updated">{t('endpoints.updatedAt', { date: formatDateTime(data.updatedAt) })}</p>
+            )}
+        </div>
+    );
+}
+
+export default EndpointList;
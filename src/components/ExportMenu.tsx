@@ -0,0 +1,88 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Benchmark, ColumnId, Model, PriceSource, Workload } from '../types';
+import { downloadExport, toMarkdown } from '../utils/export';
+import type { ExportFormat } from '../utils/export';
+import { createI18n, useI18n } from '../i18n/context';
+import './ExportMenu.css';
+
+interface ExportMenuProps {
+    models: Model[];
+    // 与表格相同的列（见 TablePreferences）
+    columns: ColumnId[];
+    workload: Workload | null;
+    benchmarks: Benchmark[];
+    sources: PriceSource[];
+}
+
+const OPTIONS: { format: ExportFormat; label: string }[] = [
+    { format: 'csv', label: 'CSV (.csv)' },
+    { format: 'json', label: 'JSON (.json)' },
+    { format: 'md', label: 'Markdown (.md)' },
+];
+
+function ExportMenu({ models, columns, workload, benchmarks, sources }: ExportMenuProps) {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [isOpen, setIsOpen] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // 导出文件统一使用英文表头和格式，货币和价格单位跟随当前显示设置
+    const prices = useMemo(() => createI18n({ ...i18n, locale: 'en' }), [i18n]);
+    const options = { columns, workload, benchmarks, sources };
+
+    // 点击外部关闭
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleExport = (format: ExportFormat) => {
+        downloadExport(models, format, prices, options);
+        setIsOpen(false);
+    };
+
+    const handleCopyMarkdown = async () => {
+        try {
+            await navigator.clipboard.writeText(toMarkdown(models, prices, options));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            handleExport('md');
+        }
+    };
+
+    return (
+        <div className="export-menu" ref={containerRef}>
+            <button
+                className="reset-btn"
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={models.length === 0}
+                title={t('export.title')}
+            >
+                {t('export.button')}
+            </button>
+
+            {isOpen && (
+                <div className="export-dropdown">
+                    {OPTIONS.map(option => (
+                        <button key={option.format} onClick={() => handleExport(option.format)}>
+                            {option.label}
+                        </button>
+                    ))}
+                    <button onClick={handleCopyMarkdown}>
+                        {copied ? t('common.copied') : t('export.copyMarkdown')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default ExportMenu;
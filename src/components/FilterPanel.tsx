@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import type { Model, ModelFilters } from '../types';
+import { EMPTY_FILTERS, getFacets } from '../utils/filters';
+import { convertTokenPrice, toBaseTokenPrice } from '../utils/currency';
+import { useI18n } from '../i18n/context';
+import './FilterPanel.css';
+
+interface FilterPanelProps {
+    allModels: Model[];
+    filters: ModelFilters;
+    onChange: (filters: ModelFilters) => void;
+    matchCount: number;
+    onAddAll?: () => void;
+    addableCount?: number;
+    compact?: boolean;
+}
+
+const CONTEXT_OPTIONS = [
+    { value: 8_000, label: '8K+' },
+    { value: 32_000, label: '32K+' },
+    { value: 128_000, label: '128K+' },
+    { value: 200_000, label: '200K+' },
+    { value: 1_000_000, label: '1M+' },
+];
+
+const MAX_OUTPUT_OPTIONS = [
+    { value: 4_000, label: '4K+' },
+    { value: 8_000, label: '8K+' },
+    { value: 16_000, label: '16K+' },
+    { value: 32_000, label: '32K+' },
+    { value: 64_000, label: '64K+' },
+];
+
+// 折叠时显示的厂商数量
+const PROVIDER_PREVIEW_COUNT = 12;
+
+function FilterPanel({
+    allModels,
+    filters,
+    onChange,
+    matchCount,
+    onAddAll,
+    addableCount = 0,
+    compact = false
+}: FilterPanelProps) {
+    const { t, priceDisplay, exchangeRates, priceUnit } = useI18n();
+    const [showAllProviders, setShowAllProviders] = useState(false);
+
+    const facets = useMemo(() => getFacets(allModels), [allModels]);
+
+    const update = (patch: Partial<ModelFilters>) => onChange({ ...filters, ...patch });
+
+    const toggleValue = (key: 'providers' | 'inputModalities' | 'outputModalities' | 'tags', value: string) => {
+        const current = filters[key];
+        update({
+            [key]: current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+        });
+    };
+
+    // 筛选条件保存为美元 / 每百万 token，输入框按当前货币和价格单位显示
+    const parsePrice = (value: string): number | null => {
+        if (value.trim() === '') return null;
+        const n = Number(value);
+        return Number.isFinite(n) && n >= 0 ? toBaseTokenPrice(n, priceDisplay, exchangeRates) : null;
+    };
+
+    // 换算后保留 6 位有效数字，避免输入框显示浮点误差
+    const formatPriceInput = (price: number | null): number | '' =>
+        price === null ? '' : Number(convertTokenPrice(price, priceDisplay, exchangeRates).toPrecision(6));
+
+    // 已选中的厂商始终显示
+    const visibleProviders = showAllProviders
+        ? facets.providers
+        : facets.providers.filter((p, i) => i < PROVIDER_PREVIEW_COUNT || filters.providers.includes(p.value));
+
+    return (
+        <div className={`filter-panel ${compact ? 'compact' : 'filter-toolbar'}`}>
+            <div className="filter-section">
+                <span className="filter-label">{t('filter.provider')}</span>
+                <div className="filter-chips">
+                    {visibleProviders.map(p => (
+                        <button
+                            key={p.value}
+                            className={`filter-chip ${filters.providers.includes(p.value) ? 'active' : ''}`}
+                            onClick={() => toggleValue('providers', p.value)}
+                        >
+                            {p.value} <span className="chip-count">{p.count}</span>
+                        </button>
+                    ))}
+                    {facets.providers.length > PROVIDER_PREVIEW_COUNT && (
+                        <button className="filter-chip more" onClick={() => setShowAllProviders(prev => !prev)}>
+                            {showAllProviders
+                                ? t('filter.showLess')
+                                : t('filter.more', { count: facets.providers.length - PROVIDER_PREVIEW_COUNT })}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {facets.tags.length > 0 && (
+                <div className="filter-section">
+                    <span className="filter-label">{t('filter.tags')}</span>
+                    <div className="filter-chips">
+                        {facets.tags.map(tag => (
+                            <button
+                                key={tag.value}
+                                className={`filter-chip tag-chip ${filters.tags.includes(tag.value) ? 'active' : ''}`}
+                                onClick={() => toggleValue('tags', tag.value)}
+                            >
+                                {tag.value} <span className="chip-count">{tag.count}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="filter-section">
+                <span className="filter-label">{t('filter.inputModalities')}</span>
+                <div className="filter-chips">
+                    {facets.inputModalities.map(m => (
+                        <button
+                            key={m.value}
+                            className={`filter-chip ${filters.inputModalities.includes(m.value) ? 'active' : ''}`}
+                            onClick={() => toggleValue('inputModalities', m.value)}
+                        >
+                            {m.value} <span className="chip-count">{m.count}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="filter-section">
+                <span className="filter-label">{t('filter.outputModalities')}</span>
+                <div className="filter-chips">
+                    {facets.outputModalities.map(m => (
+                        <button
+                            key={m.value}
+                            className={`filter-chip ${filters.outputModalities.includes(m.value) ? 'active' : ''}`}
+                            onClick={() => toggleValue('outputModalities', m.value)}
+                        >
+                            {m.value} <span className="chip-count">{m.count}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="filter-row">
+                <div className="filter-group">
+                    <label>{t('filter.minContext')}</label>
+                    <select
+                        value={filters.minContext}
+                        onChange={(e) => update({ minContext: Number(e.target.value) })}
+                    >
+                        <option value={0}>{t('filter.any')}</option>
+                        {CONTEXT_OPTIONS.map(o => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="filter-group">
+                    <label>{t('filter.minMaxOutput')}</label>
+                    <select
+                        value={filters.minMaxOutput}
+                        onChange={(e) => update({ minMaxOutput: Number(e.target.value) })}
+                    >
+                        <option value={0}>{t('filter.any')}</option>
+                        {MAX_OUTPUT_OPTIONS.map(o => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="filter-group">
+                    <label>{t('filter.price', { unit: priceUnit })}</label>
+                    <div className="price-range">
+                        <select
+                            value={filters.priceField}
+                            onChange={(e) => update({ priceField: e.target.value as ModelFilters['priceField'] })}
+                        >
+                            <option value="inputPrice">{t('filter.input')}</option>
+                            <option value="outputPrice">{t('filter.output')}</option>
+                        </select>
+                        <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder={t('filter.min')}
+                            value={formatPriceInput(filters.minPrice)}
+                            onChange={(e) => update({ minPrice: parsePrice(e.target.value) })}
+                        />
+                        <span>–</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder={t('filter.max')}
+                            value={formatPriceInput(filters.maxPrice)}
+                            onChange={(e) => update({ maxPrice: parsePrice(e.target.value) })}
+                        />
+                    </div>
+                </div>
+
+                <div className="filter-group checkbox-group">
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={filters.freeOnly}
+                            onChange={(e) => update({ freeOnly: e.target.checked })}
+                        />
+                        {t('filter.freeOnly')}
+                    </label>
+                </div>
+            </div>
+
+            <div className="filter-actions">
+                <span className="results-count">{t('common.matchingModels', { count: matchCount })}</span>
+                <button className="filter-clear" onClick={() => onChange(EMPTY_FILTERS)}>
+                    {t('filter.clear')}
+                </button>
+                {onAddAll && (
+                    <button
+                        className="filter-add-all"
+                        onClick={onAddAll}
+                        disabled={addableCount === 0}
+                        title={t('filter.addAllTitle')}
+                    >
+                        {t('filter.addAll', { count: addableCount })}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default FilterPanel;
@@ -0,0 +1,24 @@
+import { LOCALES } from '../i18n';
+import type { Locale } from '../i18n';
+import { useI18n } from '../i18n/context';
+import './LanguageSwitcher.css';
+
+function LanguageSwitcher() {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <select
+            className="language-switcher"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t('common.language')}
+            title={t('common.language')}
+        >
+            {LOCALES.map(l => (
+                <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+        </select>
+    );
+}
+
+export default LanguageSwitcher;
@@ -1,33 +1,61 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
-import type { Model } from '../types';
+import type { KeyboardEvent } from 'react';
+import type { Model, ModelFilters } from '../types';
+import FilterPanel from './FilterPanel';
+import { applyFilters, countActiveFilters } from '../utils/filters';
+import { rankModels } from '../utils/search';
+import { useI18n } from '../i18n/context';
 import './ModelSelector.css';
 
 interface ModelSelectorProps {
     allModels: Model[];
     selectedIds: Set<string>;
     onAdd: (modelId: string) => void;
+    onAddMany: (modelIds: string[]) => void;
+    filters: ModelFilters;
+    onFiltersChange: (filters: ModelFilters) => void;
 }
 
-function ModelSelector({ allModels, selectedIds, onAdd }: ModelSelectorProps) {
+// 虚拟列表：固定行高（与 .selector-item 的 height 一致），只渲染可见区域及上下缓冲行
+const ITEM_HEIGHT = 56;
+const LIST_HEIGHT = 300;
+const OVERSCAN = 6;
+
+function ModelSelector({
+    allModels,
+    selectedIds,
+    onAdd,
+    onAddMany,
+    filters,
+    onFiltersChange
+}: ModelSelectorProps) {
+    const { t, formatPrice } = useI18n();
     const [isOpen, setIsOpen] = useState(false);
+    const [showFilters, setShowFilters] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [scrollTop, setScrollTop] = useState(0);
     const containerRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
 
-    // 可添加的模型（排除已选的）
-    const availableModels = useMemo(() => {
-        let models = allModels.filter(m => !selectedIds.has(m.id));
-
-        if (searchQuery) {
-            const query = searchQuery.toLowerCase();
-            models = models.filter(m =>
-                m.name.toLowerCase().includes(query) ||
-                m.id.toLowerCase().includes(query) ||
-                m.provider.toLowerCase().includes(query)
-            );
-        }
+    const activeFilterCount = countActiveFilters(filters);
 
-        return models.slice(0, 50); // 限制显示数量
-    }, [allModels, selectedIds, searchQuery]);
+    // 符合筛选条件、未选中的模型，按搜索相关度排序
+    const matchingModels = useMemo(() => {
+        const models = applyFilters(allModels, filters).filter(m => !selectedIds.has(m.id));
+        return rankModels(models, searchQuery);
+    }, [allModels, selectedIds, searchQuery, filters]);
+
+    // 添加模型后列表变短，高亮项不能越界
+    const currentIndex = Math.min(activeIndex, matchingModels.length - 1);
+    const activeModel = currentIndex >= 0 ? matchingModels[currentIndex] : undefined;
+
+    const firstVisible = Math.max(0, Math.floor(scrollTop / ITEM_HEIGHT) - OVERSCAN);
+    const lastVisible = Math.min(
+        matchingModels.length,
+        Math.ceil((scrollTop + LIST_HEIGHT) / ITEM_HEIGHT) + OVERSCAN
+    );
+    const visibleModels = matchingModels.slice(firstVisible, lastVisible);
 
     // 点击外部关闭
     useEffect(() => {
@@ -41,62 +69,182 @@ function ModelSelector({ allModels, selectedIds, onAdd }: ModelSelectorProps) {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
+    const resetList = () => {
+        setActiveIndex(0);
+        setScrollTop(0);
+        if (listRef.current) listRef.current.scrollTop = 0;
+    };
+
+    const handleQueryChange = (value: string) => {
+        setSearchQuery(value);
+        resetList();
+    };
+
+    // 把指定行滚动到可见区域
+    const scrollToIndex = (index: number) => {
+        const list = listRef.current;
+        if (!list) return;
+
+        const top = index * ITEM_HEIGHT;
+        if (top < list.scrollTop) {
+            list.scrollTop = top;
+        } else if (top + ITEM_HEIGHT > list.scrollTop + list.clientHeight) {
+            list.scrollTop = top + ITEM_HEIGHT - list.clientHeight;
+        }
+    };
+
+    const moveActive = (index: number) => {
+        if (matchingModels.length === 0) return;
+        const next = Math.max(0, Math.min(index, matchingModels.length - 1));
+        setActiveIndex(next);
+        scrollToIndex(next);
+    };
+
+    // 添加后保持下拉框打开、保留搜索词，方便连续添加
     const handleSelect = (modelId: string) => {
         onAdd(modelId);
-        setSearchQuery('');
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        const pageSize = Math.floor(LIST_HEIGHT / ITEM_HEIGHT);
+
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault();
+                moveActive(currentIndex + 1);
+                break;
+            case 'ArrowUp':
+                event.preventDefault();
+                moveActive(currentIndex - 1);
+                break;
+            case 'PageDown':
+                event.preventDefault();
+                moveActive(currentIndex + pageSize);
+                break;
+            case 'PageUp':
+                event.preventDefault();
+                moveActive(currentIndex - pageSize);
+                break;
+            case 'Enter':
+                event.preventDefault();
+                if (activeModel) handleSelect(activeModel.id);
+                break;
+            case 'Escape':
+                event.preventDefault();
+                setIsOpen(false);
+                break;
+        }
+    };
+
+    const toggleOpen = () => {
+        if (!isOpen) resetList();
+        setIsOpen(!isOpen);
     };
 
     return (
         <div className="model-selector" ref={containerRef}>
             <button
                 className="add-model-btn"
-                onClick={() => setIsOpen(!isOpen)}
+                onClick={toggleOpen}
+                aria-expanded={isOpen}
+                aria-haspopup="listbox"
             >
-                ➕ Add Model
+                {t('selector.add')}
             </button>
 
             {isOpen && (
                 <div className="selector-dropdown">
-                    <input
-                        type="text"
-                        placeholder="Search by name, ID, or provider..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="selector-search"
-                        autoFocus
-                    />
-
-                    <div className="selector-list">
-                        {availableModels.length === 0 ? (
+                    <div className="selector-search-row">
+                        <input
+                            type="text"
+                            placeholder={t('selector.placeholder')}
+                            value={searchQuery}
+                            onChange={(e) => handleQueryChange(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                            className="selector-search"
+                            role="combobox"
+                            aria-expanded="true"
+                            aria-controls="model-selector-list"
+                            aria-autocomplete="list"
+                            aria-activedescendant={activeModel ? `model-option-${currentIndex}` : undefined}
+                            autoFocus
+                        />
+                        <button
+                            className={`selector-filter-btn ${showFilters || activeFilterCount > 0 ? 'active' : ''}`}
+                            onClick={() => setShowFilters(prev => !prev)}
+                            title={t('selector.filtersTitle')}
+                        >
+                            {t('selector.filters')}{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                        </button>
+                    </div>
+
+                    {showFilters && (
+                        <FilterPanel
+                            allModels={allModels}
+                            filters={filters}
+                            onChange={onFiltersChange}
+                            matchCount={matchingModels.length}
+                            onAddAll={() => onAddMany(matchingModels.map(m => m.id))}
+                            addableCount={matchingModels.length}
+                            compact
+                        />
+                    )}
+
+                    <div
+                        className="selector-list"
+                        id="model-selector-list"
+                        role="listbox"
+                        aria-label={t('selector.listLabel')}
+                        ref={listRef}
+                        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                    >
+                        {matchingModels.length === 0 ? (
                             <div className="selector-empty">
-                                {searchQuery ? 'No matching models found' : 'All models added'}
+                                {searchQuery || activeFilterCount > 0 ? t('selector.noMatch') : t('selector.allAdded')}
                             </div>
                         ) : (
-                            availableModels.map(model => (
-                                <div
-                                    key={model.id}
-                                    className="selector-item"
-                                    onClick={() => handleSelect(model.id)}
-                                >
-                                    <div className="selector-item-info">
-                                        <span className="selector-item-name">{model.name}</span>
-                                        <span className="selector-item-id">{model.id}</span>
-                                    </div>
-                                    <div className="selector-item-meta">
-                                        <span className={`provider-tag provider-${model.provider}`}>
-                                            {model.provider}
-                                        </span>
-                                        <span className="price-tag">
-                                            ${model.inputPrice}/${model.outputPrice}
-                                        </span>
-                                    </div>
-                                </div>
-                            ))
+                            <div
+                                className="selector-list-spacer"
+                                style={{ height: matchingModels.length * ITEM_HEIGHT }}
+                            >
+                                {visibleModels.map((model, offset) => {
+                                    const index = firstVisible + offset;
+                                    return (
+                                        <div
+                                            key={model.id}
+                                            id={`model-option-${index}`}
+                                            className={`selector-item ${index === currentIndex ? 'active' : ''}`}
+                                            style={{ top: index * ITEM_HEIGHT }}
+                                            role="option"
+                                            aria-selected={index === currentIndex}
+                                            onMouseMove={() => index !== currentIndex && setActiveIndex(index)}
+                                            onMouseDown={(e) => e.preventDefault()}
+                                            onClick={() => handleSelect(model.id)}
+                                        >
+                                            <div className="selector-item-info">
+                                                <span className="selector-item-name">{model.name}</span>
+                                                <span className="selector-item-id">{model.id}</span>
+                                            </div>
+                                            <div className="selector-item-meta">
+                                                <span className={`provider-tag provider-${model.provider}`}>
+                                                    {model.provider}
+                                                </span>
+                                                <span className="price-tag">
+                                                    {formatPrice(model.inputPrice)} / {formatPrice(model.outputPrice)}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
                         )}
                     </div>
 
                     <div className="selector-footer">
-                        {allModels.length - selectedIds.size} models available
+                        {searchQuery || activeFilterCount > 0
+                            ? t('common.matchingModels', { count: matchingModels.length })
+                            : t('selector.available', { count: matchingModels.length })}
+                        <span className="selector-hint">{t('selector.hint')}</span>
                     </div>
                 </div>
             )}
@@ -1,35 +1,83 @@
-import type { Model, SortField, SortDirection } from '../types';
+import { Fragment, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { Benchmark, ColumnId, ModalityFilter, Model, ModelAnnotation, PriceSource, SortField, SortKey, Workload } from '../types';
+import { sortModalities } from '../utils/format';
+import { getCapabilities } from '../utils/capabilities';
+import { getVisibleColumns } from '../utils/columns';
+import { getCostPerRequest, getMonthlyCost, getWorkloadIssues } from '../utils/workload';
+import { getBenchmarkScore, getCostPerPoint, isBenchmarkField } from '../utils/benchmarks';
+import { getPriceDifference, getSourcePrice, isSourceField } from '../utils/priceSources';
+import EndpointList from './EndpointList';
+import { useI18n } from '../i18n/context';
 import './ModelTable.css';
 
 interface ModelTableProps {
     models: Model[];
-    sortField: SortField;
-    sortDirection: SortDirection;
-    onSort: (field: SortField) => void;
+    columns: ColumnId[];
+    sort: SortKey[];
+    // additive 为 true 时（Shift+点击）追加次要排序键
+    onSort: (field: SortField, additive: boolean) => void;
     onRemove?: (modelId: string) => void;
+    onShowHistory?: (modelId: string) => void;
     showRemoveButton?: boolean;
+    workload?: Workload | null;
+    modalityFilter?: ModalityFilter;
+    onModalityToggle?: (direction: keyof ModalityFilter, modality: string) => void;
+    // 管理员导入的基准测试成绩（成绩列和每分成本列）
+    benchmarks?: Benchmark[];
+    // 本地价格表（每个来源一列价格，与 OpenRouter 对比）
+    sources?: PriceSource[];
 }
 
+// 列对应的 th-/td- 样式类名，未列出的列使用 extra
+const CELL_CLASSES: Partial<Record<ColumnId, string>> = {
+    name: 'name',
+    provider: 'provider',
+    contextLength: 'context',
+    maxOutput: 'output',
+    inputPrice: 'input-price',
+    outputPrice: 'output-price',
+    costPerRequest: 'cost',
+    monthlyCost: 'cost',
+    modality: 'modality',
+    description: 'description',
+};
+
 function ModelTable({
     models,
-    sortField,
-    sortDirection,
+    columns,
+    sort,
     onSort,
     onRemove,
-    showRemoveButton = false
+    onShowHistory,
+    showRemoveButton = false,
+    workload = null,
+    modalityFilter,
+    onModalityToggle,
+    benchmarks = [],
+    sources = []
 }: ModelTableProps) {
+    const { t, locale, priceUnitLong, formatNumber, formatDate, formatPrice, formatCost, formatOptionalPrice, formatUnitPrice } = useI18n();
+    // 展开了服务商列表的模型
+    const [expandedIds, setExpandedIds] = useState<string[]>([]);
+
+    const toggleExpanded = (modelId: string) => {
+        setExpandedIds(prev => prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]);
+    };
+
+    const visibleColumns = getVisibleColumns(columns, workload, benchmarks, sources);
+
     const renderSortIcon = (field: SortField) => {
-        if (sortField !== field) {
+        const index = sort.findIndex(k => k.field === field);
+        if (index === -1) {
             return <span className="sort-icon">↕</span>;
         }
-        return <span className="sort-icon active">{sortDirection === 'asc' ? '↑' : '↓'}</span>;
-    };
-
-    const formatPrice = (price: number): string => {
-        if (price <= 0) return 'Free';
-        if (price < 0.01) return `$${price.toFixed(4)}`;
-        if (price < 1) return `$${price.toFixed(3)}`;
-        return `$${price.toFixed(2)}`;
+        return (
+            <span className="sort-icon active">
+                {sort[index].direction === 'asc' ? '↑' : '↓'}
+                {sort.length > 1 && <sup className="sort-priority">{index + 1}</sup>}
+            </span>
+        );
     };
 
     const getProviderBadgeClass = (provider: string): string => {
@@ -46,6 +94,173 @@ function ModelTable({
         return providerMap[provider] || 'badge-default';
     };
 
+    const renderModalities = (model: Model, direction: keyof ModalityFilter) => {
+        const values = sortModalities(direction === 'input' ? model.inputModalities : model.outputModalities);
+        return values.map(modality => {
+            const active = modalityFilter?.[direction].includes(modality);
+            return (
+                <button
+                    key={modality}
+                    className={`modality-chip ${active ? 'active' : ''}`}
+                    onClick={() => onModalityToggle?.(direction, modality)}
+                    disabled={!onModalityToggle}
+                    title={t(active ? 'table.unfilterModality' : 'table.filterModality', {
+                        direction: t(`modality.${direction}`),
+                        modality,
+                    })}
+                >
+                    {modality}
+                </button>
+            );
+        });
+    };
+
+    // 注释标签的提示：内部评分和备注
+    const getAnnotationTitle = (annotation: ModelAnnotation) => [
+        annotation.rating !== null ? t('table.rating', { rating: annotation.rating }) : '',
+        annotation.note,
+    ].filter(Boolean).join(' · ');
+
+    const renderAnnotation = (annotation: ModelAnnotation) => {
+        const title = getAnnotationTitle(annotation);
+        // 没有标签时用备注图标显示提示
+        if (annotation.tags.length === 0) {
+            return title && <span className="capability-badge badge-tag" title={title}>📝</span>;
+        }
+        return annotation.tags.map(tag => (
+            <span key={`tag-${tag}`} className="capability-badge badge-tag" title={title || undefined}>
+                🏷️ {tag}
+            </span>
+        ));
+    };
+
+    const renderPrice = (price: number) => (
+        <span className={price === 0 ? 'price-free' : 'price-value'}>
+            {formatPrice(price)}
+        </span>
+    );
+
+    // 与 OpenRouter 价格不同的来源价格高亮显示
+    const renderSourcePrice = (price: number, openRouterPrice: number) => {
+        const className = price < openRouterPrice ? 'price-lower' : price > openRouterPrice ? 'price-higher' : '';
+        return <span className={className}>{formatPrice(price)}</span>;
+    };
+
+    const renderCell = (id: ColumnId, model: Model, issues: string[]): ReactNode => {
+        if (isSourceField(id)) {
+            const price = getSourcePrice(model, id);
+            if (!price) return <span className="price-value">-</span>;
+
+            const difference = getPriceDifference(model, price);
+            const percent = difference === null ? null : Math.round(difference * 100);
+            return (
+                <div className="source-price" title={t('table.sourceEntry', { key: price.key })}>
+                    <span className="price-value">
+                        {renderSourcePrice(price.inputPrice, model.inputPrice)}
+                        {' / '}
+                        {renderSourcePrice(price.outputPrice, model.outputPrice)}
+                    </span>
+                    {percent !== null && (
+                        <span
+                            className={`price-diff ${percent < 0 ? 'cheaper' : percent > 0 ? 'pricier' : 'same'}`}
+                            title={t('table.priceDiffTitle')}
+                        >
+                            {percent > 0 ? `+${percent}%` : percent < 0 ? `${percent}%` : '±0%'}
+                        </span>
+                    )}
+                </div>
+            );
+        }
+
+        if (isBenchmarkField(id)) {
+            const score = getBenchmarkScore(model, benchmarks, id);
+            return <span className="score-value">{score === null ? '-' : formatNumber(score)}</span>;
+        }
+
+        switch (id) {
+            case 'name':
+                return (
+                    <div className="model-name-wrapper">
+                        <span className="model-name">{model.name}</span>
+                        <span className="model-id">{model.id}</span>
+                        <div className="capability-badges">
+                            {getCapabilities(model).map(c => (
+                                <span key={c.key} className="capability-badge" title={t(c.label)}>
+                                    {c.icon} {t(c.label)}
+                                </span>
+                            ))}
+                            {model.isModerated && (
+                                <span className="capability-badge badge-moderated" title={t('table.moderatedTitle')}>
+                                    {t('table.moderated')}
+                                </span>
+                            )}
+                            {model.expirationDate && (
+                                <span className="capability-badge badge-expiring" title={t('table.expiresTitle')}>
+                                    {t('table.expires', { date: formatDate(model.expirationDate) })}
+                                </span>
+                            )}
+                            {model.annotation && renderAnnotation(model.annotation)}
+                        </div>
+                    </div>
+                );
+            case 'provider':
+                return (
+                    <span className={`provider-badge ${getProviderBadgeClass(model.provider)}`}>
+                        {model.provider}
+                    </span>
+                );
+            case 'contextLength':
+                return <span className="context-value">{model.contextLengthFormatted || '-'}</span>;
+            case 'maxOutput':
+                return <span className="output-value">{model.maxOutputFormatted || '-'}</span>;
+            case 'inputPrice':
+                return renderPrice(model.inputPrice);
+            case 'outputPrice':
+                return renderPrice(model.outputPrice);
+            case 'costPerRequest':
+                return workload && <span className="price-value">{formatCost(getCostPerRequest(model, workload))}</span>;
+            case 'monthlyCost':
+                return workload && (
+                    <>
+                        <span className="price-value">{formatCost(getMonthlyCost(model, workload))}</span>
+                        {issues.length > 0 && (
+                            <span className="workload-warning" title={issues.join('\n')}>⚠️</span>
+                        )}
+                    </>
+                );
+            case 'costPerPoint': {
+                const cost = getCostPerPoint(model, benchmarks);
+                return <span className="price-value">{cost === null ? '-' : formatPrice(cost)}</span>;
+            }
+            case 'cacheRead':
+                return <span className="price-value">{formatOptionalPrice(model.pricing?.cacheRead)}</span>;
+            case 'cacheWrite':
+                return <span className="price-value">{formatOptionalPrice(model.pricing?.cacheWrite)}</span>;
+            case 'internalReasoning':
+                return <span className="price-value">{formatOptionalPrice(model.pricing?.internalReasoning)}</span>;
+            case 'requestPrice':
+                return <span className="price-value">{formatUnitPrice(model.pricing?.request)}</span>;
+            case 'imagePrice':
+                return <span className="price-value">{formatUnitPrice(model.pricing?.image)}</span>;
+            case 'webSearchPrice':
+                return <span className="price-value">{formatUnitPrice(model.pricing?.webSearch)}</span>;
+            case 'tokenizer':
+                return model.tokenizer || '-';
+            case 'modality':
+                return (
+                    <div className="modality-chips">
+                        {renderModalities(model, 'input')}
+                        <span className="modality-arrow">→</span>
+                        {renderModalities(model, 'output')}
+                    </div>
+                );
+            case 'createdAt':
+                return model.createdAt ? formatDate(model.createdAt) : '-';
+            case 'description':
+                return <span className="model-description" title={model.description}>{model.description || '-'}</span>;
+        }
+    };
+
     if (models.length === 0) {
         return null; // 让父组件处理空状态
     }
@@ -55,97 +270,91 @@ function ModelTable({
             <table className="model-table">
                 <thead>
                     <tr>
-                        <th className="th-name" onClick={() => onSort('name')}>
-                            Model {renderSortIcon('name')}
-                        </th>
-                        <th className="th-provider" onClick={() => onSort('provider')}>
-                            Provider {renderSortIcon('provider')}
-                        </th>
-                        <th className="th-context" onClick={() => onSort('contextLength')}>
-                            Context {renderSortIcon('contextLength')}
-                        </th>
-                        <th className="th-output" onClick={() => onSort('maxOutput')}>
-                            Max Output {renderSortIcon('maxOutput')}
-                        </th>
-                        <th className="th-input-price" onClick={() => onSort('inputPrice')}>
-                            Input Price {renderSortIcon('inputPrice')}
-                        </th>
-                        <th className="th-output-price" onClick={() => onSort('outputPrice')}>
-                            Output Price {renderSortIcon('outputPrice')}
-                        </th>
-                        <th className="th-modality">Modality</th>
-                        <th className="th-actions">Actions</th>
+                        {visibleColumns.map(col => {
+                            const className = `th-${CELL_CLASSES[col.id] || 'extra'}`;
+                            if (!col.sortable) {
+                                return (
+                                    <th key={col.id} className={`${className} th-static`} title={col.title && t(col.title, { ...col.params, unit: priceUnitLong })}>
+                                        {t(col.label, col.params)}
+                                    </th>
+                                );
+                            }
+                            const field = col.id as SortField;
+                            return (
+                                <th
+                                    key={col.id}
+                                    className={className}
+                                    onClick={(e) => onSort(field, e.shiftKey)}
+                                    title={`${col.title ? `${t(col.title, { ...col.params, unit: priceUnitLong })}\n` : ''}${t('table.sortHint')}`}
+                                >
+                                    {t(col.label, col.params)} {renderSortIcon(field)}
+                                </th>
+                            );
+                        })}
+                        <th className="th-actions th-static">{t('table.actions')}</th>
                     </tr>
                 </thead>
                 <tbody>
-                    {models.map((model) => (
-                        <tr key={model.id}>
-                            <td className="td-name">
-                                <div className="model-name-wrapper">
-                                    <span className="model-name">{model.name}</span>
-                                    <span className="model-id">{model.id}</span>
-                                </div>
-                            </td>
-                            <td className="td-provider">
-                                <span className={`provider-badge ${getProviderBadgeClass(model.provider)}`}>
-                                    {model.provider}
-                                </span>
-                            </td>
-                            <td className="td-context">
-                                <span className="context-value">
-                                    {model.contextLengthFormatted || '-'}
-                                </span>
-                            </td>
-                            <td className="td-output">
-                                <span className="output-value">
-                                    {model.maxOutputFormatted || '-'}
-                                </span>
-                            </td>
-                            <td className="td-input-price">
-                                <span className={model.inputPrice === 0 ? 'price-free' : 'price-value'}>
-                                    {formatPrice(model.inputPrice)}
-                                </span>
-                            </td>
-                            <td className="td-output-price">
-                                <span className={model.outputPrice === 0 ? 'price-free' : 'price-value'}>
-                                    {formatPrice(model.outputPrice)}
-                                </span>
-                            </td>
-                            <td className="td-modality">
-                                <span className="modality-badge" title={`Input: ${model.inputModalities?.join(', ') || 'text'}\nOutput: ${model.outputModalities?.join(', ') || 'text'}`}>
-                                    {model.modality.includes('image') ? '🖼️' : ''}
-                                    {model.modality.includes('audio') ? '🎵' : ''}
-                                    {model.modality.includes('video') ? '🎬' : ''}
-                                    {model.modality === 'text->text' ? '📝' : ''}
-                                    {!model.modality.includes('image') &&
-                                        !model.modality.includes('audio') &&
-                                        !model.modality.includes('video') &&
-                                        model.modality !== 'text->text' ? '📝' : ''}
-                                </span>
-                            </td>
-                            <td className="td-actions">
-                                <div className="action-buttons">
-                                    <a
-                                        href={model.openRouterUrl}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="action-link"
-                                    >
-                                        View ↗
-                                    </a>
-                                    {showRemoveButton && onRemove && (
-                                        <button
-                                            className="remove-btn"
-                                            onClick={() => onRemove(model.id)}
-                                            title="Remove from comparison"
-                                        >
-                                            ✕
-                                        </button>
-                                    )}
-                                </div>
-                            </td>
-                        </tr>
-                    ))}
+                    {models.map((model) => {
+                        const issues = workload ? getWorkloadIssues(model, workload, locale) : [];
+                        const expanded = expandedIds.includes(model.id);
+                        return (
+                            <Fragment key={model.id}>
+                                <tr className={issues.length > 0 ? 'row-warning' : undefined}>
+                                    {visibleColumns.map(col => (
+                                        <td key={col.id} className={`td-${CELL_CLASSES[col.id] || 'extra'}`}>
+                                            {renderCell(col.id, model, issues)}
+                                        </td>
+                                    ))}
+                                    <td className="td-actions">
+                                        <div className="action-buttons">
+                                            <a
+                                                href={model.openRouterUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="action-link"
+                                            >
+                                                {t('common.view')}
+                                            </a>
+                                            <button
+                                                className={`endpoints-btn ${expanded ? 'active' : ''}`}
+                                                onClick={() => toggleExpanded(model.id)}
+                                                title={t(expanded ? 'table.hideEndpoints' : 'table.showEndpoints')}
+                                                aria-expanded={expanded}
+                                            >
+                                                {expanded ? '▾' : '▸'}
+                                            </button>
+                                            {onShowHistory && (
+                                                <button
+                                                    className="history-btn"
+                                                    onClick={() => onShowHistory(model.id)}
+                                                    title={t('table.history')}
+                                                >
+                                                    📈
+                                                </button>
+                                            )}
+                                            {showRemoveButton && onRemove && (
+                                                <button
+                                                    className="remove-btn"
+                                                    onClick={() => onRemove(model.id)}
+                                                    title={t('table.removeTitle')}
+                                                >
+                                                    ✕
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                                {expanded && (
+                                    <tr className="endpoint-row">
+                                        <td colSpan={visibleColumns.length + 1}>
+                                            <EndpointList model={model} />
+                                        </td>
+                                    </tr>
+                                )}
+                            </Fragment>
+                        );
+                    })}
                 </tbody>
             </table>
         </div>
@@ -0,0 +1,90 @@
+import { useState, useRef, useEffect } from 'react';
+import type { PriceUnit } from '../types';
+import { BASE_CURRENCY, PRICE_UNITS, getCurrencies } from '../utils/currency';
+import { useI18n } from '../i18n/context';
+import './PriceMenu.css';
+
+function PriceMenu() {
+    const { t, priceDisplay, setPriceDisplay, exchangeRates, currency, priceUnit, formatNumber } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // 点击外部关闭
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const setUnit = (unit: PriceUnit) => setPriceDisplay({ ...priceDisplay, unit });
+
+    const setRequestTokens = (value: string) => {
+        const requestTokens = Math.floor(Number(value));
+        if (requestTokens > 0) setPriceDisplay({ ...priceDisplay, requestTokens });
+    };
+
+    return (
+        <div className="price-menu" ref={containerRef}>
+            <button
+                className={`reset-btn ${isOpen ? 'active' : ''}`}
+                onClick={() => setIsOpen(!isOpen)}
+                title={t('priceMenu.title')}
+            >
+                💱 {priceUnit}
+            </button>
+
+            {isOpen && (
+                <div className="price-dropdown">
+                    <label className="price-field">
+                        {t('priceMenu.currency')}
+                        <select
+                            value={currency}
+                            onChange={(e) => setPriceDisplay({ ...priceDisplay, currency: e.target.value })}
+                        >
+                            {getCurrencies(exchangeRates).map(code => (
+                                <option key={code} value={code}>{code}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {currency !== BASE_CURRENCY && (
+                        <p className="price-rate">
+                            {t('priceMenu.rate', { rate: formatNumber(exchangeRates[currency]), currency })}
+                        </p>
+                    )}
+
+                    <div className="price-section-title">{t('priceMenu.unit')}</div>
+                    {PRICE_UNITS.map(unit => (
+                        <label key={unit} className="price-unit">
+                            <input
+                                type="radio"
+                                name="price-unit"
+                                checked={priceDisplay.unit === unit}
+                                onChange={() => setUnit(unit)}
+                            />
+                            {t(`priceMenu.${unit}`)}
+                        </label>
+                    ))}
+                    {priceDisplay.unit === 'perRequest' && (
+                        <label className="price-field">
+                            {t('priceMenu.requestTokens')}
+                            <input
+                                type="number"
+                                min={1}
+                                step={100}
+                                value={priceDisplay.requestTokens}
+                                onChange={(e) => setRequestTokens(e.target.value)}
+                            />
+                        </label>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default PriceMenu;
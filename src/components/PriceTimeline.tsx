@@ -0,0 +1,170 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ModelTimeline, PricePoint, FieldChange } from '../types';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/context';
+import './PriceTimeline.css';
+
+interface PriceTimelineProps {
+    modelId: string;
+    modelName: string;
+    onClose: () => void;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const EVENT_LABELS: Record<PricePoint['event'], MessageKey> = {
+    baseline: 'timeline.event.baseline',
+    added: 'timeline.event.added',
+    changed: 'timeline.event.changed',
+    removed: 'timeline.event.removed',
+};
+
+const FIELD_LABELS: Record<string, MessageKey> = {
+    inputPrice: 'timeline.field.inputPrice',
+    outputPrice: 'timeline.field.outputPrice',
+    contextLength: 'timeline.field.contextLength',
+    maxOutput: 'timeline.field.maxOutput',
+};
+
+// 价格上涨、容量下降视为变差
+const isWorse = (change: FieldChange): boolean =>
+    change.field.endsWith('Price') ? change.to > change.from : change.to < change.from;
+
+function PriceTimeline({ modelId, modelName, onClose }: PriceTimelineProps) {
+    const { t, formatPrice, formatDateTime } = useI18n();
+    const [timeline, setTimeline] = useState<ModelTimeline | null>(null);
+    const [loadedAt, setLoadedAt] = useState(0);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch(`/api/history?model=${encodeURIComponent(modelId)}`)
+            .then(res => {
+                if (!res.ok) throw new Error('History unavailable');
+                return res.json();
+            })
+            .then((data: ModelTimeline) => {
+                if (cancelled) return;
+                setTimeline(data);
+                setLoadedAt(Date.now());
+            })
+            .catch(() => {
+                if (!cancelled) setFailed(true);
+            });
+
+        return () => { cancelled = true; };
+    }, [modelId]);
+
+    // 阶梯折线：每个价格点一直保持到下一个价格点
+    const chart = useMemo(() => {
+        const points = timeline?.points || [];
+        if (points.length === 0) return null;
+
+        const start = new Date(points[0].date).getTime();
+        const end = Math.max(loadedAt, start + 1);
+        const maxPrice = Math.max(...points.map(p => Math.max(p.inputPrice, p.outputPrice)), 0.001);
+
+        const x = (date: string) => CHART_PADDING + ((new Date(date).getTime() - start) / (end - start)) * (CHART_WIDTH - CHART_PADDING * 2);
+        const y = (price: number) => CHART_HEIGHT - CHART_PADDING - (price / maxPrice) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+        const buildPath = (field: 'inputPrice' | 'outputPrice') => {
+            let d = '';
+            points.forEach((point, i) => {
+                const px = x(point.date);
+                const py = y(point[field]);
+                d += i === 0 ? `M${px},${py}` : `H${px}V${py}`;
+            });
+            const last = points[points.length - 1];
+            if (last.event !== 'removed') {
+                d += `H${CHART_WIDTH - CHART_PADDING}`;
+            }
+            return d;
+        };
+
+        return {
+            inputPath: buildPath('inputPrice'),
+            outputPath: buildPath('outputPrice'),
+            maxPrice,
+        };
+    }, [timeline, loadedAt]);
+
+    return (
+        <section className="price-timeline">
+            <div className="timeline-header">
+                <div>
+                    <h2>{t('timeline.title')}</h2>
+                    <span className="timeline-model">{modelName} · {modelId}</span>
+                </div>
+                <button className="timeline-close" onClick={onClose} title={t('common.close')}>✕</button>
+            </div>
+
+            {failed && <p className="timeline-empty">{t('timeline.unavailable')}</p>}
+
+            {timeline && !timeline.available && (
+                <p className="timeline-empty">{t('timeline.notRecorded')}</p>
+            )}
+
+            {!failed && !timeline && <p className="timeline-empty">{t('timeline.loading')}</p>}
+
+            {timeline?.available && timeline.points.length === 0 && (
+                <p className="timeline-empty">{t('timeline.empty')}</p>
+            )}
+
+            {timeline && chart && (
+                <>
+                    <svg
+                        className="timeline-chart"
+                        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                        preserveAspectRatio="none"
+                    >
+                        <line
+                            className="timeline-axis"
+                            x1={CHART_PADDING}
+                            y1={CHART_HEIGHT - CHART_PADDING}
+                            x2={CHART_WIDTH - CHART_PADDING}
+                            y2={CHART_HEIGHT - CHART_PADDING}
+                        />
+                        <path className="timeline-line-input" d={chart.inputPath} />
+                        <path className="timeline-line-output" d={chart.outputPath} />
+                        <text className="timeline-axis-label" x={CHART_PADDING} y={CHART_PADDING - 8}>
+                            {formatPrice(chart.maxPrice)}
+                        </text>
+                    </svg>
+
+                    <div className="timeline-legend">
+                        <span className="legend-input">{t('timeline.inputPrice')}</span>
+                        <span className="legend-output">{t('timeline.outputPrice')}</span>
+                    </div>
+
+                    <ol className="timeline-list">
+                        {[...timeline.points].reverse().map(point => (
+                            <li key={`${point.date}-${point.event}`} className={`timeline-item event-${point.event}`}>
+                                <span className="timeline-date">
+                                    {formatDateTime(point.date)}
+                                </span>
+                                <span className="timeline-event">{t(EVENT_LABELS[point.event])}</span>
+                                <span className="timeline-prices">
+                                    {formatPrice(point.inputPrice)} / {formatPrice(point.outputPrice)}
+                                </span>
+                                {point.changes && (
+                                    <span className="timeline-changes">
+                                        {point.changes.map(change => (
+                                            <span key={change.field} className={isWorse(change) ? 'change-worse' : 'change-better'}>
+                                                {FIELD_LABELS[change.field] ? t(FIELD_LABELS[change.field]) : change.field}: {change.from} → {change.to}
+                                            </span>
+                                        ))}
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </>
+            )}
+        </section>
+    );
+}
+
+export default PriceTimeline;
@@ -0,0 +1,218 @@
+import { useState, useMemo } from 'react';
+import type { Model } from '../types';
+import {
+    CHART_AXES,
+    getChartAxis,
+    getParetoFrontier,
+    getProviderColor,
+    linearTicks,
+    logTicks,
+} from '../utils/chart';
+import type { ChartAxisKey } from '../utils/chart';
+import { useI18n } from '../i18n/context';
+import './ScatterChart.css';
+
+interface ScatterChartProps {
+    selectedModels: Model[];
+    catalogModels: Model[];
+    selectedIds: Set<string>;
+    onToggle: (modelId: string) => void;
+}
+
+type ChartSource = 'selected' | 'catalog';
+
+// SVG 画布尺寸（viewBox 坐标）
+const WIDTH = 800;
+const HEIGHT = 460;
+const MARGIN = { top: 20, right: 24, bottom: 48, left: 72 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// 把数值映射到 [0, 1]
+function createScale(values: number[], log: boolean) {
+    if (log) {
+        const min = Math.pow(10, Math.floor(Math.log10(Math.min(...values))));
+        const max = Math.pow(10, Math.ceil(Math.log10(Math.max(...values))));
+        const span = Math.log10(max) - Math.log10(min) || 1;
+        return {
+            ticks: logTicks(min, max),
+            toUnit: (v: number) => (Math.log10(v) - Math.log10(min)) / span,
+        };
+    }
+
+    const max = Math.max(...values) * 1.05 || 1;
+    return {
+        ticks: linearTicks(0, max),
+        toUnit: (v: number) => v / max,
+    };
+}
+
+// 去掉 "Provider: " 前缀的短名称
+const shortName = (model: Model) => model.name.split(': ').pop() ?? model.name;
+
+function ScatterChart({ selectedModels, catalogModels, selectedIds, onToggle }: ScatterChartProps) {
+    const i18n = useI18n();
+    const { t, priceUnit } = i18n;
+    const [source, setSource] = useState<ChartSource>('selected');
+    const [xKey, setXKey] = useState<ChartAxisKey>('blendedPrice');
+    const [yKey, setYKey] = useState<ChartAxisKey>('contextLength');
+    const [logScale, setLogScale] = useState(false);
+
+    const xAxis = getChartAxis(xKey);
+    const yAxis = getChartAxis(yKey);
+    const models = source === 'selected' ? selectedModels : catalogModels;
+
+    // 对数坐标无法显示 0；负价格（路由类模型）不参与比较
+    const plotted = useMemo(() => models.filter(m => {
+        const x = xAxis.get(m);
+        const y = yAxis.get(m);
+        return logScale ? x > 0 && y > 0 : x >= 0 && y >= 0;
+    }), [models, xAxis, yAxis, logScale]);
+
+    const frontier = useMemo(() => getParetoFrontier(plotted, xAxis, yAxis), [plotted, xAxis, yAxis]);
+
+    const chart = useMemo(() => {
+        if (plotted.length === 0) return null;
+
+        const xScale = createScale(plotted.map(xAxis.get), logScale);
+        const yScale = createScale(plotted.map(yAxis.get), logScale);
+        const toX = (v: number) => MARGIN.left + xScale.toUnit(v) * PLOT_WIDTH;
+        const toY = (v: number) => MARGIN.top + (1 - yScale.toUnit(v)) * PLOT_HEIGHT;
+
+        const points = plotted.map(m => ({ model: m, x: toX(xAxis.get(m)), y: toY(yAxis.get(m)) }));
+        const frontierLine = points
+            .filter(p => frontier.has(p.model.id))
+            .sort((a, b) => a.x - b.x || a.y - b.y)
+            .map(p => `${p.x},${p.y}`)
+            .join(' ');
+
+        return {
+            points,
+            frontierLine,
+            xTicks: xScale.ticks.map(v => ({ value: v, pos: toX(v) })),
+            yTicks: yScale.ticks.map(v => ({ value: v, pos: toY(v) })),
+        };
+    }, [plotted, xAxis, yAxis, logScale, frontier]);
+
+    const providers = useMemo(
+        () => Array.from(new Set(plotted.map(m => m.provider))).sort(),
+        [plotted]
+    );
+
+    const hiddenCount = models.length - plotted.length;
+    const xLabel = t(xAxis.label, { unit: priceUnit });
+    const yLabel = t(yAxis.label, { unit: priceUnit });
+
+    return (
+        <div className="scatter-chart">
+            <div className="chart-controls">
+                <div className="chart-control">
+                    <label htmlFor="chart-source">{t('chart.models')}</label>
+                    <select id="chart-source" value={source} onChange={(e) => setSource(e.target.value as ChartSource)}>
+                        <option value="selected">{t('chart.selected', { count: selectedModels.length })}</option>
+                        <option value="catalog">{t('chart.catalog', { count: catalogModels.length })}</option>
+                    </select>
+                </div>
+                <div className="chart-control">
+                    <label htmlFor="chart-x">{t('chart.xAxis')}</label>
+                    <select id="chart-x" value={xKey} onChange={(e) => setXKey(e.target.value as ChartAxisKey)}>
+                        {CHART_AXES.map(a => <option key={a.key} value={a.key}>{t(a.label, { unit: priceUnit })}</option>)}
+                    </select>
+                </div>
+                <div className="chart-control">
+                    <label htmlFor="chart-y">{t('chart.yAxis')}</label>
+                    <select id="chart-y" value={yKey} onChange={(e) => setYKey(e.target.value as ChartAxisKey)}>
+                        {CHART_AXES.map(a => <option key={a.key} value={a.key}>{t(a.label, { unit: priceUnit })}</option>)}
+                    </select>
+                </div>
+                <label className="chart-checkbox">
+                    <input type="checkbox" checked={logScale} onChange={(e) => setLogScale(e.target.checked)} />
+                    {t('chart.logScale')}
+                </label>
+            </div>
+
+            {chart ? (
+                <svg className="chart-svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={t('chart.ariaLabel', { x: xLabel, y: yLabel })}>
+                    {chart.xTicks.map(tick => (
+                        <g key={`x-${tick.value}`}>
+                            <line className="chart-grid" x1={tick.pos} x2={tick.pos} y1={MARGIN.top} y2={MARGIN.top + PLOT_HEIGHT} />
+                            <text className="chart-tick" x={tick.pos} y={MARGIN.top + PLOT_HEIGHT + 18} textAnchor="middle">
+                                {xAxis.format(tick.value, i18n)}
+                            </text>
+                        </g>
+                    ))}
+                    {chart.yTicks.map(tick => (
+                        <g key={`y-${tick.value}`}>
+                            <line className="chart-grid" x1={MARGIN.left} x2={MARGIN.left + PLOT_WIDTH} y1={tick.pos} y2={tick.pos} />
+                            <text className="chart-tick" x={MARGIN.left - 8} y={tick.pos + 4} textAnchor="end">
+                                {yAxis.format(tick.value, i18n)}
+                            </text>
+                        </g>
+                    ))}
+
+                    <text className="chart-axis-label" x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 8} textAnchor="middle">
+                        {xLabel}
+                    </text>
+                    <text
+                        className="chart-axis-label"
+                        transform={`translate(16 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+                        textAnchor="middle"
+                    >
+                        {yLabel}
+                    </text>
+
+                    {chart.frontierLine && <polyline className="chart-frontier" points={chart.frontierLine} />}
+
+                    {chart.points.map(({ model, x, y }) => {
+                        const onFrontier = frontier.has(model.id);
+                        const selected = selectedIds.has(model.id);
+                        return (
+                            <g
+                                key={model.id}
+                                className={`chart-point ${onFrontier ? 'frontier' : ''} ${selected ? 'selected' : ''}`}
+                                onClick={() => onToggle(model.id)}
+                            >
+                                <circle
+                                    cx={x}
+                                    cy={y}
+                                    r={onFrontier ? 7 : 5}
+                                    fill={selected ? getProviderColor(model.provider) : 'transparent'}
+                                    stroke={getProviderColor(model.provider)}
+                                />
+                                <title>
+                                    {`${model.name}\n${xLabel}: ${xAxis.format(xAxis.get(model), i18n)}\n${yLabel}: ${yAxis.format(yAxis.get(model), i18n)}`}
+                                    {onFrontier ? `\n${t('chart.pareto')}` : ''}
+                                    {`\n${t(selected ? 'chart.clickRemove' : 'chart.clickAdd')}`}
+                                </title>
+                                {onFrontier && (
+                                    <text className="chart-point-label" x={x + 9} y={y - 7}>{shortName(model)}</text>
+                                )}
+                            </g>
+                        );
+                    })}
+                </svg>
+            ) : (
+                <p className="chart-empty">{t('chart.empty')}</p>
+            )}
+
+            <div className="chart-legend">
+                <span className="legend-item">
+                    <span className="legend-frontier" /> {t('chart.frontier', { count: frontier.size })}
+                </span>
+                {providers.map(p => (
+                    <span key={p} className="legend-item">
+                        <span className="legend-dot" style={{ background: getProviderColor(p) }} />
+                        {p}
+                    </span>
+                ))}
+                {hiddenCount > 0 && (
+                    <span className="legend-note">
+                        {hiddenCount > 1 ? t('chart.hidden', { count: hiddenCount }) : t('chart.hiddenOne')}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default ScatterChart;
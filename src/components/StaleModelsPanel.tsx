@@ -0,0 +1,72 @@
+import type { MissingModel, ModelPreset } from '../types';
+import { useI18n } from '../i18n/context';
+import './StaleModelsPanel.css';
+
+interface StaleModelsPanelProps {
+    // 仍被预设引用的已下架模型
+    missingModels: MissingModel[];
+    presets: ModelPreset[];
+    // toId 为 null 时从预设中移除
+    onReplace: (fromId: string, toId: string | null) => void;
+    onReplaceAll: () => void;
+}
+
+function StaleModelsPanel({ missingModels, presets, onReplace, onReplaceAll }: StaleModelsPanelProps) {
+    const { t, formatDate } = useI18n();
+
+    const presetTitles = (id: string) => presets
+        .filter(p => p.models.includes(id))
+        .map(p => p.title || p.id)
+        .join(', ');
+    const replaceableCount = missingModels.filter(m => m.suggestions.length > 0).length;
+
+    return (
+        <section className="stale-models-panel">
+            <div className="stale-models-header">
+                <h2>{t('stale.title', { count: missingModels.length })}</h2>
+                {replaceableCount > 0 && (
+                    <button onClick={onReplaceAll} className="action-btn">
+                        {t('stale.replaceAll', { count: replaceableCount })}
+                    </button>
+                )}
+            </div>
+            <p className="stale-models-hint">{t('stale.hint')}</p>
+
+            <ul className="stale-models-list">
+                {missingModels.map(m => (
+                    <li key={m.id}>
+                        <div className="stale-model-info">
+                            <code>{m.id}</code>
+                            <span className="stale-model-presets">{t('stale.usedIn', { presets: presetTitles(m.id) })}</span>
+                        </div>
+                        <div className="stale-model-actions">
+                            {m.suggestions.length === 0 && (
+                                <span className="stale-model-none">{t('stale.noSuggestions')}</span>
+                            )}
+                            {m.suggestions.map(s => (
+                                <button
+                                    key={s.id}
+                                    onClick={() => onReplace(m.id, s.id)}
+                                    className="stale-suggestion"
+                                    title={s.id}
+                                >
+                                    → {s.name}
+                                    {s.createdAt && <span className="stale-suggestion-date">{formatDate(s.createdAt)}</span>}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => onReplace(m.id, null)}
+                                className="preset-icon-btn"
+                                title={t('common.remove')}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+}
+
+export default StaleModelsPanel;
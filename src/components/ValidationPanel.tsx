@@ -0,0 +1,95 @@
+import type { ValidationReport, ValidationReports } from '../types';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/context';
+import './ValidationPanel.css';
+
+interface ValidationPanelProps {
+    reports: ValidationReports;
+}
+
+const SOURCES: { key: keyof ValidationReports; label: MessageKey }[] = [
+    { key: 'sync', label: 'validation.sync' },
+    { key: 'api', label: 'validation.api' },
+];
+
+function ReportCard({ label, report }: { label: string; report: ValidationReport | null }) {
+    const { t, formatDateTime } = useI18n();
+
+    if (!report) {
+        return (
+            <div className="validation-card">
+                <h3>{label}</h3>
+                <p className="validation-empty">{t('validation.noReport')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`validation-card ${report.published ? '' : 'blocked'}`}>
+            <h3>
+                {label}
+                <span className={`validation-status ${report.published ? 'ok' : 'blocked'}`}>
+                    {report.published ? t('validation.published') : t('validation.blocked')}
+                </span>
+            </h3>
+            <p className="validation-meta">
+                {formatDateTime(report.checkedAt)}
+                {` · ${t('validation.counts', { received: report.received, accepted: report.accepted })}`}
+            </p>
+
+            {report.failures.length > 0 && (
+                <ul className="validation-failures">
+                    {report.failures.map(f => <li key={f}>{f}</li>)}
+                </ul>
+            )}
+
+            {report.rejected.length > 0 && (
+                <details>
+                    <summary>{t('validation.rejected', { count: report.rejected.length })}</summary>
+                    <ul className="validation-list">
+                        {report.rejected.map((r, i) => (
+                            <li key={`${r.id}-${i}`}><code>{r.id}</code> {r.reason}</li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            {report.quarantined.length > 0 && (
+                <details>
+                    <summary>{t('validation.quarantined', { count: report.quarantined.length })}</summary>
+                    <ul className="validation-list">
+                        {report.quarantined.map(q => (
+                            <li key={q.id}><code>{q.id}</code> {q.reason} ({q.from} → {q.to})</li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            {report.removed.length > 0 && (
+                <details>
+                    <summary>{t('validation.removed', { count: report.removed.length })}</summary>
+                    <ul className="validation-list">
+                        {report.removed.map(id => <li key={id}><code>{id}</code></li>)}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+}
+
+function ValidationPanel({ reports }: ValidationPanelProps) {
+    const { t } = useI18n();
+
+    return (
+        <section className="validation-panel">
+            <h2>{t('validation.title')}</h2>
+            <div className="validation-cards">
+                {SOURCES.map(s => (
+                    <ReportCard key={s.key} label={t(s.label)} report={reports[s.key]} />
+                ))}
+            </div>
+        </section>
+    );
+}
+
+export default ValidationPanel;
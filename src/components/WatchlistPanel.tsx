@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import type { Model, Watchlist, WatchTrigger, WebhookDelivery } from '../types';
+import { useI18n } from '../i18n/context';
+import './WatchlistPanel.css';
+
+interface WatchlistPanelProps {
+    // Authorization 请求头的值
+    authorization: string;
+    allModels: Model[];
+}
+
+const TRIGGERS: WatchTrigger[] = ['any', 'removed', 'price-change', 'price-increase'];
+
+const EMPTY_FORM = {
+    id: '',
+    name: '',
+    models: '',
+    webhookUrl: '',
+    format: 'slack' as Watchlist['format'],
+    trigger: 'any' as WatchTrigger,
+    minPercent: 10,
+};
+
+// 表单中的模型列表：逗号或换行分隔
+const parseModelIds = (text: string): string[] =>
+    text.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+
+function WatchlistPanel({ authorization, allModels }: WatchlistPanelProps) {
+    const { t, formatDateTime } = useI18n();
+    const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch('/api/watchlists', { headers: { 'Authorization': authorization } })
+            .then(res => {
+                if (!res.ok) throw new Error(t('watchlist.unavailable'));
+                return res.json();
+            })
+            .then((data: { watchlists: Watchlist[]; deliveries: WebhookDelivery[] }) => {
+                if (cancelled) return;
+                setWatchlists(data.watchlists);
+                setDeliveries(data.deliveries);
+            })
+            .catch(err => {
+                if (!cancelled) setMessage(`❌ ${err instanceof Error ? err.message : t('watchlist.unavailable')}`);
+            });
+
+        return () => { cancelled = true; };
+    }, [authorization, reloadKey, t]);
+
+    const request = async (method: string, body?: unknown, query = '') => {
+        const res = await fetch(`/api/watchlists${query}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', 'Authorization': authorization },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.message || `HTTP ${res.status}`);
+        return data;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await request('POST', {
+                watchlist: {
+                    ...form,
+                    id: form.id || undefined,
+                    models: parseModelIds(form.models),
+                },
+            });
+            setMessage(form.id ? t('watchlist.updated') : t('watchlist.created'));
+            setForm(EMPTY_FORM);
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            setMessage(`❌ ${err instanceof Error ? err.message : t('watchlist.saveFailed')}`);
+        }
+    };
+
+    const handleEdit = (watchlist: Watchlist) => {
+        setForm({
+            id: watchlist.id,
+            name: watchlist.name,
+            models: watchlist.models.join('\n'),
+            webhookUrl: watchlist.webhookUrl,
+            format: watchlist.format,
+            trigger: watchlist.trigger,
+            minPercent: watchlist.minPercent,
+        });
+        setMessage('');
+    };
+
+    const handleDelete = async (watchlist: Watchlist) => {
+        if (!window.confirm(t('watchlist.confirmDelete', { name: watchlist.name }))) return;
+        try {
+            await request('DELETE', undefined, `?id=${encodeURIComponent(watchlist.id)}`);
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            setMessage(`❌ ${err instanceof Error ? err.message : t('watchlist.deleteFailed')}`);
+        }
+    };
+
+    const handleTest = async (watchlist: Watchlist) => {
+        setMessage(t('watchlist.sendingTest', { name: watchlist.name }));
+        try {
+            const data: { delivery: WebhookDelivery } = await request('POST', { testId: watchlist.id });
+            setMessage(data.delivery.status === 'delivered'
+                ? t('watchlist.testDelivered', { status: data.delivery.responseStatus ?? '' })
+                : t('watchlist.testFailedWith', { error: data.delivery.error ?? '' }));
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            setMessage(`❌ ${err instanceof Error ? err.message : t('watchlist.testFailed')}`);
+        }
+    };
+
+    const knownIds = new Set(allModels.map(m => m.id));
+    const unknownIds = parseModelIds(form.models).filter(id => !knownIds.has(id));
+    const usesThreshold = form.trigger === 'price-change' || form.trigger === 'price-increase';
+
+    return (
+        <section className="watchlist-panel">
+            <h2>{t('watchlist.title')}</h2>
+            <p className="watchlist-hint">
+                {t('watchlist.hint')}
+            </p>
+
+            {watchlists.length > 0 && (
+                <ul className="watchlist-list">
+                    {watchlists.map(w => (
+                        <li key={w.id}>
+                            <div className="watchlist-info">
+                                <strong>{w.name}</strong>
+                                <span className="watchlist-meta">
+                                    {t('common.models', { count: w.models.length })} · {t(`watchlist.trigger.${w.trigger}`)}
+                                    {(w.trigger === 'price-change' || w.trigger === 'price-increase') && ` (>${w.minPercent}%)`}
+                                    {` · ${w.format === 'slack' ? 'Slack' : 'JSON'} → ${w.webhookUrl}`}
+                                </span>
+                                <details className="watchlist-secret">
+                                    <summary>{t('watchlist.secret')}</summary>
+                                    <code>{w.secret}</code>
+                                </details>
+                            </div>
+                            <div className="watchlist-actions">
+                                <button className="action-btn" onClick={() => handleTest(w)}>{t('watchlist.sendTest')}</button>
+                                <button className="action-btn" onClick={() => handleEdit(w)}>{t('common.edit')}</button>
+                                <button className="action-btn danger" onClick={() => handleDelete(w)}>{t('common.delete')}</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form className="watchlist-form" onSubmit={handleSubmit}>
+                <h3>{form.id ? t('watchlist.editTitle', { name: form.name }) : t('watchlist.new')}</h3>
+                <div className="watchlist-form-row">
+                    <label>
+                        {t('watchlist.name')}
+                        <input
+                            type="text"
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                            required
+                        />
+                    </label>
+                    <label className="watchlist-url-field">
+                        {t('watchlist.webhookUrl')}
+                        <input
+                            type="url"
+                            value={form.webhookUrl}
+                            onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                            placeholder="https://hooks.slack.com/services/..."
+                            required
+                        />
+                    </label>
+                    <label>
+                        {t('watchlist.payload')}
+                        <select
+                            value={form.format}
+                            onChange={(e) => setForm({ ...form, format: e.target.value as Watchlist['format'] })}
+                        >
+                            <option value="slack">{t('watchlist.slack')}</option>
+                            <option value="generic">{t('watchlist.generic')}</option>
+                        </select>
+                    </label>
+                </div>
+                <div className="watchlist-form-row">
+                    <label>
+                        {t('watchlist.notifyOn')}
+                        <select
+                            value={form.trigger}
+                            onChange={(e) => setForm({ ...form, trigger: e.target.value as WatchTrigger })}
+                        >
+                            {TRIGGERS.map(trigger => (
+                                <option key={trigger} value={trigger}>{t(`watchlist.trigger.${trigger}`)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {usesThreshold && (
+                        <label>
+                            {t('watchlist.threshold')}
+                            <input
+                                type="number"
+                                min={0}
+                                value={form.minPercent}
+                                onChange={(e) => setForm({ ...form, minPercent: Math.max(0, Number(e.target.value) || 0) })}
+                            />
+                        </label>
+                    )}
+                </div>
+                <label>
+                    {t('watchlist.modelIds')}
+                    <textarea
+                        rows={4}
+                        value={form.models}
+                        onChange={(e) => setForm({ ...form, models: e.target.value })}
+                        placeholder="openai/gpt-4o"
+                        required
+                    />
+                </label>
+                {unknownIds.length > 0 && (
+                    <p className="watchlist-warning">{t('common.notInCatalog', { ids: unknownIds.join(', ') })}</p>
+                )}
+                <div className="watchlist-form-actions">
+                    <button type="submit" className="action-btn">{form.id ? t('watchlist.update') : t('watchlist.add')}</button>
+                    {form.id && (
+                        <button type="button" className="action-btn" onClick={() => setForm(EMPTY_FORM)}>{t('common.cancel')}</button>
+                    )}
+                    {message && <span className="watchlist-message">{message}</span>}
+                </div>
+            </form>
+
+            {deliveries.length > 0 && (
+                <div className="delivery-log">
+                    <h3>{t('watchlist.deliveries')}</h3>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>{t('watchlist.time')}</th>
+                                <th>{t('watchlist.watchlist')}</th>
+                                <th>{t('watchlist.events')}</th>
+                                <th>{t('watchlist.status')}</th>
+                                <th>{t('watchlist.attempts')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {deliveries.map(d => (
+                                <tr key={d.id}>
+                                    <td>{formatDateTime(d.createdAt)}</td>
+                                    <td>{d.watchlistName}</td>
+                                    <td>{d.eventCount || t('watchlist.test')}</td>
+                                    <td className={d.status === 'delivered' ? 'delivery-ok' : 'delivery-failed'}>
+                                        {d.status === 'delivered' ? `✅ ${d.responseStatus}` : `❌ ${d.error}`}
+                                    </td>
+                                    <td>{d.attempts}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    );
+}
+
+export default WatchlistPanel;
@@ -0,0 +1,51 @@
+import type { Workload } from '../types';
+import { DAYS_PER_MONTH } from '../utils/workload';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/context';
+import './WorkloadPanel.css';
+
+interface WorkloadPanelProps {
+    workload: Workload;
+    onChange: (workload: Workload) => void;
+}
+
+const FIELDS: { key: keyof Workload; label: MessageKey; step: number }[] = [
+    { key: 'avgInputTokens', label: 'workload.avgInputTokens', step: 100 },
+    { key: 'avgOutputTokens', label: 'workload.avgOutputTokens', step: 100 },
+    { key: 'requestsPerDay', label: 'workload.requestsPerDay', step: 100 },
+];
+
+function WorkloadPanel({ workload, onChange }: WorkloadPanelProps) {
+    const { t, formatNumber } = useI18n();
+
+    const handleChange = (key: keyof Workload, value: string) => {
+        const parsed = Math.max(0, Math.floor(Number(value) || 0));
+        onChange({ ...workload, [key]: parsed });
+    };
+
+    return (
+        <div className="workload-panel">
+            {FIELDS.map(field => (
+                <div key={field.key} className="workload-field">
+                    <label htmlFor={`workload-${field.key}`}>{t(field.label)}</label>
+                    <input
+                        id={`workload-${field.key}`}
+                        type="number"
+                        min={0}
+                        step={field.step}
+                        value={workload[field.key]}
+                        onChange={(e) => handleChange(field.key, e.target.value)}
+                    />
+                </div>
+            ))}
+            <p className="workload-summary">
+                {t('workload.summary', {
+                    requests: formatNumber(workload.requestsPerDay * DAYS_PER_MONTH),
+                    tokens: formatNumber(workload.avgInputTokens + workload.avgOutputTokens)
+                })}
+            </p>
+        </div>
+    );
+}
+
+export default WorkloadPanel;
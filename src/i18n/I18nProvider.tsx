@@ -0,0 +1,40 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { LOCALE_TAGS, detectLocale, saveLocale } from './index';
+import type { Locale } from './index';
+import { I18nContext, createI18n } from './context';
+import type { ExchangeRates, PriceDisplay } from '../types';
+import { BASE_EXCHANGE_RATES, loadPriceDisplay, savePriceDisplay } from '../utils/currency';
+import { fetchExchangeRates } from '../utils/api';
+
+function I18nProvider({ children }: { children: ReactNode }) {
+    const [locale, setLocale] = useState<Locale>(detectLocale);
+    const [priceDisplay, setPriceDisplay] = useState<PriceDisplay>(loadPriceDisplay);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(BASE_EXCHANGE_RATES);
+
+    // 记住选择，并同步 <html lang>
+    useEffect(() => {
+        saveLocale(locale);
+        document.documentElement.lang = LOCALE_TAGS[locale];
+    }, [locale]);
+
+    useEffect(() => {
+        savePriceDisplay(priceDisplay);
+    }, [priceDisplay]);
+
+    // 汇率由管理员在配置中维护
+    useEffect(() => {
+        fetchExchangeRates()
+            .then(setExchangeRates)
+            .catch(err => console.error('Failed to load exchange rates:', err));
+    }, []);
+
+    const i18n = useMemo(
+        () => createI18n({ locale, setLocale, priceDisplay, setPriceDisplay, exchangeRates, setExchangeRates }),
+        [locale, priceDisplay, exchangeRates]
+    );
+
+    return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
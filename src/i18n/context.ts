@@ -0,0 +1,84 @@
+import { createContext, useContext } from 'react';
+import { translate } from './index';
+import type { Locale, MessageKey, MessageParams } from './index';
+import type { ExchangeRates, PriceDisplay } from '../types';
+import {
+    formatCost,
+    formatDate,
+    formatDateTime,
+    formatNumber,
+    formatOptionalPrice,
+    formatPrice,
+    formatUnitPrice,
+    getCurrencySymbol,
+} from '../utils/format';
+import { convertAmount, convertTokenPrice, resolveCurrency } from '../utils/currency';
+
+// 语言和价格显示设置（由 I18nProvider 保存）
+export interface DisplaySettings {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    priceDisplay: PriceDisplay;
+    setPriceDisplay: (display: PriceDisplay) => void;
+    // 管理员维护的汇率（见 /api/config）
+    exchangeRates: ExchangeRates;
+    setExchangeRates: (rates: ExchangeRates) => void;
+}
+
+// 绑定当前语言和价格显示设置的文案和格式化函数
+export interface I18n extends DisplaySettings {
+    t: (key: MessageKey, params?: MessageParams) => string;
+    // 实际显示的货币（所选货币没有汇率时为 USD）
+    currency: string;
+    // 价格单位简写（如 "¥/1K"）和完整说明（如 "per thousand tokens"）
+    priceUnit: string;
+    priceUnitLong: string;
+    formatNumber: (value: number) => string;
+    formatDate: (iso: string) => string;
+    formatDateTime: (iso: string) => string;
+    // token 价格：输入为美元 / 每百万 token，换算为显示货币和单位
+    formatPrice: (price: number) => string;
+    formatOptionalPrice: (price: number | null | undefined) => string;
+    // 金额（成本、按次计费价格）：输入为美元，只换算货币
+    formatCost: (cost: number) => string;
+    formatUnitPrice: (price: number | null | undefined) => string;
+}
+
+export function createI18n(settings: DisplaySettings): I18n {
+    const { locale, priceDisplay, exchangeRates } = settings;
+    const currency = resolveCurrency(priceDisplay, exchangeRates);
+    const toPrice = (price: number) => convertTokenPrice(price, priceDisplay, exchangeRates);
+    const toAmount = (amount: number) => convertAmount(amount, priceDisplay, exchangeRates);
+    // null / undefined 表示未提供，原样交给格式化函数
+    const toOptional = (value: number | null | undefined, convert: (value: number) => number) =>
+        value === null || value === undefined ? value : convert(value);
+    const unitParams = {
+        symbol: getCurrencySymbol(currency, locale),
+        tokens: formatNumber(priceDisplay.requestTokens, locale),
+    };
+
+    return {
+        ...settings,
+        t: (key, params) => translate(locale, key, params),
+        currency,
+        priceUnit: translate(locale, `price.unit.${priceDisplay.unit}`, unitParams),
+        priceUnitLong: translate(locale, `price.unitLong.${priceDisplay.unit}`, unitParams),
+        formatNumber: value => formatNumber(value, locale),
+        formatDate: iso => formatDate(iso, locale),
+        formatDateTime: iso => formatDateTime(iso, locale),
+        formatPrice: price => formatPrice(toPrice(price), locale, currency),
+        formatOptionalPrice: price => formatOptionalPrice(toOptional(price, toPrice), locale, currency),
+        formatCost: cost => formatCost(toAmount(cost), locale, currency),
+        formatUnitPrice: price => formatUnitPrice(toOptional(price, toAmount), locale, currency),
+    };
+}
+
+export const I18nContext = createContext<I18n | null>(null);
+
+export function useI18n(): I18n {
+    const i18n = useContext(I18nContext);
+    if (!i18n) {
+        throw new Error('useI18n must be used inside <I18nProvider>');
+    }
+    return i18n;
+}
@@ -0,0 +1,436 @@
+/**
+ * 英文文案（基准目录，其他语言的键必须与此一致）
+ * {name} 为插值占位符
+ */
+const en = {
+    // 通用
+    'common.loading': 'Loading...',
+    'common.loadingModels': 'Loading model data...',
+    'common.backHome': '← Back to Home',
+    'common.view': 'View ↗',
+    'common.remove': 'Remove',
+    'common.close': 'Close',
+    'common.edit': 'Edit',
+    'common.delete': 'Delete',
+    'common.cancel': 'Cancel',
+    'common.clear': 'Clear',
+    'common.copied': '✅ Copied',
+    'common.moveUp': 'Move up',
+    'common.moveDown': 'Move down',
+    'common.moveLeft': 'Move left',
+    'common.moveRight': 'Move right',
+    'common.networkError': 'Network error',
+    'common.models': '{count} models',
+    'common.matchingModels': '{count} matching models',
+    'common.notInCatalog': 'Not in the current catalog: {ids}',
+    'common.language': 'Language',
+    'common.yes': 'Yes',
+    'common.no': 'No',
+    'price.free': 'Free',
+    'price.unit.per1M': '{symbol}/M',
+    'price.unit.per1K': '{symbol}/1K',
+    'price.unit.perRequest': '{symbol}/req ({tokens} tokens)',
+    'price.unitLong.per1M': 'per million tokens',
+    'price.unitLong.per1K': 'per thousand tokens',
+    'price.unitLong.perRequest': 'per request of {tokens} tokens',
+    'modality.input': 'input',
+    'modality.output': 'output',
+
+    // 主页面
+    'app.loadFailed': 'Failed to load',
+    'app.dataLoadFailed': 'Could not load model data ({detail})',
+    'app.unknownError': 'Unknown error',
+    'app.title': 'OpenRouter Model Comparison',
+    'app.github': 'View on GitHub',
+    'app.subtitle': 'Compare pricing and context length of top LLMs',
+    'app.updated': 'Updated: {date}',
+    'app.available': 'Available: {count} models',
+    'app.comparing': 'Comparing {count} models',
+    'app.filters': '🔍 Filters',
+    'app.filtersTitle': 'Filter the model catalog',
+    'app.workload': '🧮 Workload',
+    'app.workloadTitle': 'Estimate cost for your workload',
+    'app.details': '🧾 Details',
+    'app.detailsTitle': 'Compare full details side by side',
+    'app.choosePreset': 'Choose a preset',
+    'app.reset': '🔄 Reset',
+    'app.resetTitle': 'Reset to the {preset} preset',
+    'app.defaultPreset': 'default',
+    'app.copyLink': '🔗 Copy link',
+    'app.copyLinkTitle': 'Copy a link to this comparison',
+    'app.copyPrompt': 'Copy this link:',
+    'app.viewTable': '📋 Table',
+    'app.viewChart': '📊 Chart',
+    'app.modalityFilter': 'Showing {shown} of {total} models with',
+    'app.removeFilter': 'Remove this filter',
+    'app.missingModels': '{count} model(s) in "{preset}" are no longer available on OpenRouter and are hidden: {ids}',
+    'app.emptyTitle': '😅 No models selected',
+    'app.emptyHint': 'Click "Add Model" above to add models',
+    'app.footerData': 'Data:',
+    'app.footerPrices': 'Prices: {currency} {unit}',
+    'app.footerFeed': '📡 Atom feed',
+
+    // 模型表格
+    'table.actions': 'Actions',
+    'table.sortHint': 'Shift+click to add a secondary sort',
+    'table.moderated': '🛡️ Moderated',
+    'table.moderatedTitle': 'Requests are moderated by the provider',
+    'table.expires': '⏳ Expires {date}',
+    'table.expiresTitle': 'This model will be removed from OpenRouter',
+    'table.rating': 'Internal rating: {rating}/5',
+    'table.sourceEntry': 'Price sheet entry: {key}',
+    'table.priceDiffTitle': 'Blended price (3:1 input:output) compared with OpenRouter',
+    'table.filterModality': 'Filter by {direction} modality "{modality}"',
+    'table.unfilterModality': 'Stop filtering by {direction} modality "{modality}"',
+    'table.history': 'Show price history',
+    'table.showEndpoints': 'Show hosting providers',
+    'table.hideEndpoints': 'Hide hosting providers',
+    'table.removeTitle': 'Remove from comparison',
+
+    // 表格列
+    'column.name': 'Model',
+    'column.provider': 'Provider',
+    'column.contextLength': 'Context',
+    'column.maxOutput': 'Max Output',
+    'column.inputPrice': 'Input Price',
+    'column.inputPrice.title': 'Input price {unit}',
+    'column.outputPrice': 'Output Price',
+    'column.outputPrice.title': 'Output price {unit}',
+    'column.costPerRequest': 'Cost / Request',
+    'column.monthlyCost': 'Monthly Cost',
+    'column.cacheRead': 'Cache Read',
+    'column.cacheRead.title': 'Cached input price {unit}',
+    'column.cacheWrite': 'Cache Write',
+    'column.cacheWrite.title': 'Cache write price {unit}',
+    'column.internalReasoning': 'Reasoning',
+    'column.internalReasoning.title': 'Internal reasoning price {unit}',
+    'column.requestPrice': 'Per Request',
+    'column.requestPrice.title': 'Fixed price per request',
+    'column.imagePrice': 'Image',
+    'column.imagePrice.title': 'Price per input image',
+    'column.webSearchPrice': 'Web Search',
+    'column.webSearchPrice.title': 'Price per web search',
+    'column.modality': 'Modality',
+    'column.modality.title': 'Input → output modalities',
+    'column.tokenizer': 'Tokenizer',
+    'column.tokenizer.title': 'Tokenizer family',
+    'column.createdAt': 'Added',
+    'column.createdAt.title': 'Date the model was added to OpenRouter',
+    'column.description': 'Description',
+    'column.costPerPoint': 'Cost / Point',
+    'column.costPerPoint.title': 'Blended price (3:1 input:output, {unit}) divided by the {name} score',
+    'column.source': '{name}',
+    'column.source.title': 'Input / output price at {name} ({unit}); the badge compares the 3:1 blended price with OpenRouter',
+    'column.score': '{name}',
+    'column.score.title': '{name} score (imported by the admin)',
+    'columnGroup.basic': 'Basic',
+    'columnGroup.pricing': 'Pricing',
+    'columnGroup.sources': 'Other price sources',
+    'columnGroup.benchmark': 'Benchmarks',
+    'columnGroup.metadata': 'Metadata',
+    'columnMenu.button': '🧱 Columns',
+    'columnMenu.title': 'Show, hide and reorder table columns',
+    'columnMenu.shown': 'Shown',
+    'columnMenu.workload': 'workload',
+    'columnMenu.reset': 'Reset columns and sorting',
+    'priceMenu.title': 'Currency and price unit',
+    'priceMenu.currency': 'Currency',
+    'priceMenu.unit': 'Unit',
+    'priceMenu.per1M': 'Per 1M tokens',
+    'priceMenu.per1K': 'Per 1K tokens',
+    'priceMenu.perRequest': 'Per request',
+    'priceMenu.requestTokens': 'Tokens per request',
+    'priceMenu.rate': '1 USD = {rate} {currency}, set by the site admin',
+
+    // 模型能力
+    'capability.tools': 'Tool calling',
+    'capability.structured': 'Structured outputs',
+    'capability.reasoning': 'Reasoning',
+
+    // 添加模型
+    'selector.add': '➕ Add Model',
+    'selector.placeholder': 'Search by name, ID, or provider...',
+    'selector.filters': 'Filters',
+    'selector.filtersTitle': 'Filter models',
+    'selector.listLabel': 'Models',
+    'selector.noMatch': 'No matching models found',
+    'selector.allAdded': 'All models added',
+    'selector.available': '{count} models available',
+    'selector.hint': '↑↓ navigate · Enter add · Esc close',
+
+    // 目录筛选
+    'filter.provider': 'Provider',
+    'filter.inputModalities': 'Input modalities',
+    'filter.outputModalities': 'Output modalities',
+    'filter.tags': 'Team tags',
+    'filter.showLess': 'Show less',
+    'filter.more': '+{count} more',
+    'filter.any': 'Any',
+    'filter.minContext': 'Min context',
+    'filter.minMaxOutput': 'Min max output',
+    'filter.price': 'Price ({unit})',
+    'filter.input': 'Input',
+    'filter.output': 'Output',
+    'filter.min': 'min',
+    'filter.max': 'max',
+    'filter.freeOnly': 'Free only',
+    'filter.clear': 'Clear filters',
+    'filter.addAll': '➕ Add all matching ({count})',
+    'filter.addAllTitle': 'Add every matching model to the comparison',
+
+    // 工作负载
+    'workload.avgInputTokens': 'Avg input tokens',
+    'workload.avgOutputTokens': 'Avg output tokens',
+    'workload.requestsPerDay': 'Requests per day',
+    'workload.summary': '{requests} requests / month · {tokens} tokens / request',
+    'workload.contextIssue': 'Context {context} < {tokens} tokens per request',
+    'workload.outputIssue': 'Max output {maxOutput} < {tokens} output tokens',
+
+    // 导出
+    'export.button': '⬇️ Export',
+    'export.title': 'Export the current comparison',
+    'export.copyMarkdown': 'Copy as Markdown',
+
+    // 价格历史
+    'timeline.title': 'Price history',
+    'timeline.unavailable': 'History unavailable',
+    'timeline.notRecorded': 'History unavailable: price history is only recorded by the self-hosted sync job',
+    'timeline.loading': 'Loading history...',
+    'timeline.empty': 'No history recorded for this model yet',
+    'timeline.inputPrice': 'Input price',
+    'timeline.outputPrice': 'Output price',
+    'timeline.event.baseline': 'Tracking started',
+    'timeline.event.added': 'Added',
+    'timeline.event.changed': 'Changed',
+    'timeline.event.removed': 'Removed',
+    'timeline.field.inputPrice': 'Input',
+    'timeline.field.outputPrice': 'Output',
+    'timeline.field.contextLength': 'Context',
+    'timeline.field.maxOutput': 'Max output',
+
+    // 服务商列表
+    'endpoints.loading': 'Loading providers...',
+    'endpoints.unavailable': 'Provider list unavailable',
+    'endpoints.empty': 'No provider list for this model',
+    'endpoints.provider': 'Provider',
+    'endpoints.price': 'Input / Output',
+    'endpoints.contextLength': 'Context',
+    'endpoints.maxOutput': 'Max output',
+    'endpoints.quantization': 'Quantization',
+    'endpoints.cheapest': '💰 Cheapest',
+    'endpoints.cheapestTitle': 'Lowest blended price (3:1 input:output) among the providers',
+    'endpoints.updatedAt': 'Provider list updated {date}',
+
+    // 散点图
+    'chart.models': 'Models',
+    'chart.selected': 'Selected ({count})',
+    'chart.catalog': 'Filtered catalog ({count})',
+    'chart.xAxis': 'X axis',
+    'chart.yAxis': 'Y axis',
+    'chart.logScale': 'Log scale',
+    'chart.ariaLabel': '{y} vs {x}',
+    'chart.pareto': '★ Pareto-optimal',
+    'chart.clickRemove': 'Click to remove from comparison',
+    'chart.clickAdd': 'Click to add to comparison',
+    'chart.empty': 'No models to plot',
+    'chart.frontier': 'Pareto frontier ({count})',
+    'chart.hidden': '{count} models not shown (zero or variable values)',
+    'chart.hiddenOne': '1 model not shown (zero or variable values)',
+    'chart.axis.inputPrice': 'Input price ({unit})',
+    'chart.axis.outputPrice': 'Output price ({unit})',
+    'chart.axis.blendedPrice': 'Blended price 3:1 ({unit})',
+    'chart.axis.contextLength': 'Context length',
+    'chart.axis.maxOutput': 'Max output',
+
+    // 详情对比页
+    'compare.title': 'Model Details',
+    'compare.subtitle': 'Ratios are relative to the first model',
+    'compare.back': '← Back to comparison',
+    'compare.empty': 'No models to compare',
+    'compare.field': 'Field',
+    'compare.baseline': 'Baseline',
+    'compare.setBaseline': 'Set as baseline',
+    'compare.row.provider': 'Provider',
+    'compare.row.description': 'Description',
+    'compare.row.releaseDate': 'Release date',
+    'compare.row.contextLength': 'Context length',
+    'compare.row.maxOutput': 'Max output',
+    'compare.row.inputPrice': 'Input price ({unit})',
+    'compare.row.outputPrice': 'Output price ({unit})',
+    'compare.row.cacheRead': 'Cache read ({unit})',
+    'compare.row.cacheWrite': 'Cache write ({unit})',
+    'compare.row.reasoning': 'Reasoning ({unit})',
+    'compare.row.perRequest': 'Per request',
+    'compare.row.perImage': 'Per image',
+    'compare.row.tokenizer': 'Tokenizer',
+    'compare.row.moderated': 'Moderated',
+    'compare.row.expires': 'Expires',
+    'compare.row.modality': 'Modality',
+    'compare.row.inputModalities': 'Input modalities',
+    'compare.row.outputModalities': 'Output modalities',
+
+    // 已下架的模型
+    'stale.title': '⚠️ {count} configured model(s) are no longer in the catalog',
+    'stale.hint': 'These IDs are hidden on the public page. Pick a suggested successor (same provider, similar ID, newer release) or remove them, then save.',
+    'stale.usedIn': 'Used in: {presets}',
+    'stale.noSuggestions': 'No likely successor found',
+    'stale.replaceAll': 'Replace all with the top suggestion ({count})',
+
+    // 数据校验
+    'validation.title': 'Upstream data validation',
+    'validation.sync': 'Sync pipeline',
+    'validation.api': 'Live API',
+    'validation.noReport': 'No report yet',
+    'validation.published': '✅ Published',
+    'validation.blocked': '⛔ Blocked',
+    'validation.counts': '{received} received · {accepted} published',
+    'validation.rejected': 'Rejected ({count})',
+    'validation.quarantined': 'Quarantined ({count})',
+    'validation.removed': 'Removed ({count})',
+
+    // 基准测试成绩
+    'benchmarks.title': 'Benchmark scores',
+    'benchmarks.hint': 'Upload a CSV (a model column plus one column per benchmark) or JSON ([{ "model": "gpt-4o", "MMLU": 88.7 }] or { "gpt-4o": { "MMLU": 88.7 } }). Model names are matched to catalog IDs; scores are saved with the configuration. The first benchmark is used for the cost-per-point column.',
+    'benchmarks.primary': 'Primary',
+    'benchmarks.modelCount': '{count} models',
+    'benchmarks.makePrimary': 'Make primary',
+    'benchmarks.makePrimaryTitle': 'Use this benchmark for the cost-per-point column',
+    'benchmarks.upload': 'Import scores (CSV or JSON)',
+    'benchmarks.reviewTitle': '{file}: {benchmarks}',
+    'benchmarks.needsReview': '{count} row(s) were not matched or only matched approximately. Check the model IDs below; leave a row empty to skip it.',
+    'benchmarks.allMatched': 'All rows were matched to catalog models.',
+    'benchmarks.matchedRows': '{count} row(s) matched automatically',
+    'benchmarks.fileModel': 'Model in file',
+    'benchmarks.scores': 'Scores',
+    'benchmarks.catalogModel': 'Catalog model ID',
+    'benchmarks.matchColumn': 'Match',
+    'benchmarks.match.exact': 'Exact',
+    'benchmarks.match.normalized': 'Name',
+    'benchmarks.match.fuzzy': 'Approximate — check',
+    'benchmarks.match.none': 'Not matched',
+    'benchmarks.skip': 'Skip this row',
+    'benchmarks.apply': 'Import {count} row(s)',
+    'benchmarks.imported': '✅ Imported {rows} row(s) of {benchmarks}. Click Save to publish.',
+    'benchmarks.errorFormat': 'The file could not be read as JSON',
+    'benchmarks.errorEmpty': 'The file contains no rows with a model and a score',
+    'benchmarks.errorNoScores': 'No benchmark columns with numeric scores were found',
+
+    // 模型注释
+    'annotations.title': 'Model annotations',
+    'annotations.hint': "Record the team's own knowledge next to OpenRouter's data. Tags appear as badges in the model table (the note is the tooltip) and can be used as filters.",
+    'annotations.unavailable': 'Annotations are unavailable',
+    'annotations.new': 'New annotation',
+    'annotations.editTitle': 'Edit {id}',
+    'annotations.model': 'Model ID',
+    'annotations.rating': 'Internal rating',
+    'annotations.noRating': 'Not rated',
+    'annotations.tags': 'Tags (comma-separated)',
+    'annotations.tagsPlaceholder': 'approved for production, use for summarization',
+    'annotations.note': 'Note',
+    'annotations.notePlaceholder': 'e.g. poor at JSON mode, retry with a stricter prompt',
+    'annotations.save': 'Save annotation',
+    'annotations.saved': '✅ Saved annotation for {id}',
+    'annotations.saveFailed': 'Save failed',
+    'annotations.deleteFailed': 'Delete failed',
+    'annotations.confirmDelete': 'Delete the annotation for {id}?',
+
+    // 关注列表
+    'watchlist.title': 'Watchlists',
+    'watchlist.hint': 'Notifications are sent by the sync script after each sync and signed with the watchlist\'s own secret.',
+    'watchlist.unavailable': 'Watchlists unavailable',
+    'watchlist.updated': '✅ Watchlist updated',
+    'watchlist.created': '✅ Watchlist created',
+    'watchlist.saveFailed': 'Save failed',
+    'watchlist.confirmDelete': 'Delete watchlist "{name}"?',
+    'watchlist.deleteFailed': 'Delete failed',
+    'watchlist.sendingTest': 'Sending test to {name}...',
+    'watchlist.testDelivered': '✅ Test delivered (HTTP {status})',
+    'watchlist.testFailedWith': '❌ Test failed: {error}',
+    'watchlist.testFailed': 'Test failed',
+    'watchlist.sendTest': 'Send test',
+    'watchlist.secret': 'Signing secret',
+    'watchlist.editTitle': 'Edit "{name}"',
+    'watchlist.new': 'New watchlist',
+    'watchlist.name': 'Name',
+    'watchlist.webhookUrl': 'Webhook URL',
+    'watchlist.payload': 'Payload',
+    'watchlist.slack': 'Slack ({ text })',
+    'watchlist.generic': 'Generic JSON',
+    'watchlist.notifyOn': 'Notify on',
+    'watchlist.threshold': 'Threshold (%)',
+    'watchlist.modelIds': 'Model IDs (one per line)',
+    'watchlist.update': 'Update',
+    'watchlist.add': 'Add watchlist',
+    'watchlist.deliveries': 'Recent deliveries',
+    'watchlist.time': 'Time',
+    'watchlist.watchlist': 'Watchlist',
+    'watchlist.events': 'Events',
+    'watchlist.status': 'Status',
+    'watchlist.attempts': 'Attempts',
+    'watchlist.test': 'test',
+    'watchlist.trigger.any': 'Any change',
+    'watchlist.trigger.removed': 'Removed only',
+    'watchlist.trigger.price-change': 'Price change over threshold',
+    'watchlist.trigger.price-increase': 'Price increase over threshold',
+
+    // 管理后台
+    'admin.loginTitle': '🔐 Admin Login',
+    'admin.loginHint': 'Enter admin credentials to manage default models',
+    'admin.username': 'Username',
+    'admin.password': 'Password',
+    'admin.passwordPlaceholder': 'Enter admin password',
+    'admin.login': 'Login',
+    'admin.loginFailed': 'Login failed',
+    'admin.tooManyAttempts': 'Too many failed login attempts. Try again in {minutes} min.',
+    'admin.sessionExpired': 'Your session has expired. Please log in again.',
+    'admin.title': '⚙️ Admin Panel',
+    'admin.subtitle': 'Configure model presets for all users',
+    'admin.logout': 'Logout',
+    'admin.confirmRollback': 'Roll back to version {version}? This is saved as a new version.',
+    'admin.rolledBack': '✅ {message} Now at version {version}.',
+    'admin.rollbackFailed': '❌ Rollback failed: {message}',
+    'admin.savedVersion': '✅ Saved as version {version}.',
+    'admin.saved': '✅ Saved as version {version} and active now!',
+    'admin.saveFailed': '❌ Save failed: {message}',
+    'admin.newPresetTitle': 'New preset',
+    'admin.confirmDeletePreset': 'Delete preset "{id}"?',
+    'admin.defaultTag': 'default',
+    'admin.newPreset': '➕ New preset',
+    'admin.presetTitle': 'Title',
+    'admin.presetId': 'ID',
+    'admin.presetIdTaken': 'ID "{id}" is already used by another preset',
+    'admin.presetDescription': 'Description',
+    'admin.deletePreset': 'Delete preset',
+    'admin.unavailable': 'unavailable',
+    'admin.emptyPreset': 'No models in this preset yet. Pick some below.',
+    'admin.searchModels': 'Search models...',
+    'admin.allProviders': 'All Providers ({count})',
+    'admin.selectAll': 'Select All',
+    'admin.deselectAll': 'Deselect All',
+    'admin.modelsInPreset': 'models in {preset}',
+    'admin.preset': 'preset',
+    'admin.saving': 'Saving...',
+    'admin.save': '💾 Save Config',
+    'admin.versionHistory': 'Version history',
+    'admin.current': 'current',
+    'admin.versionSummary': '{presets} presets, {count} default models',
+    'admin.diff': 'Diff',
+    'admin.rollback': 'Rollback',
+    'admin.noDifferences': 'No differences',
+    'admin.diffStatus.added': 'added',
+    'admin.diffStatus.removed': 'removed',
+    'admin.renamed': '~ Title or description changed',
+    'admin.reordered': '~ Order changed',
+    'admin.presetsReordered': '~ Preset order changed (the first preset is the default)',
+    'admin.benchmarksReordered': '~ Benchmark order changed (the first one is used for cost per point)',
+    'admin.benchmarkRenamed': '~ Name changed',
+    'admin.scoresChanged': '~ {count} scores changed',
+    'admin.exchangeRates': 'Exchange rates',
+    'admin.exchangeRatesHint': 'Units of each currency per 1 USD. Prices are stored in USD and converted for display; these rates are saved with the config when you click Save.',
+    'admin.currencyCode': 'Currency',
+    'admin.rate': 'Rate',
+    'admin.baseCurrency': 'base',
+    'admin.addCurrency': '➕ Add currency',
+};
+
+export default en;
@@ -0,0 +1,66 @@
+/**
+ * 轻量多语言支持：en / zh-CN 两套文案目录 + 插值
+ *
+ * 组件中通过 useI18n() 获取 t() 和按语言格式化的函数；
+ * 工具函数需要文案时直接调用 translate(locale, key)
+ */
+
+import en from './en';
+import zhCN from './zh-CN';
+
+export type Locale = 'en' | 'zh-CN';
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; label: string }[] = [
+    { id: 'en', label: 'English' },
+    { id: 'zh-CN', label: '简体中文' },
+];
+
+// Intl 使用的语言标签；en 固定为 en-US，保持原有的日期和数字格式
+export const LOCALE_TAGS: Record<Locale, string> = {
+    'en': 'en-US',
+    'zh-CN': 'zh-CN',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+    'en': en,
+    'zh-CN': zhCN,
+};
+
+const STORAGE_KEY = 'locale';
+
+/**
+ * 取文案并替换 {name} 占位符；缺少对应参数的占位符原样保留
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+    const template = CATALOGS[locale][key] ?? en[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match
+    );
+}
+
+const isLocale = (value: unknown): value is Locale =>
+    LOCALES.some(l => l.id === value);
+
+/**
+ * 初始语言：已保存的选择 > 浏览器语言（中文环境使用 zh-CN）> en
+ */
+export function detectLocale(): Locale {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch {
+        // localStorage 不可用时按浏览器语言判断
+    }
+    return navigator.language?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
+
+export function saveLocale(locale: Locale): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // 隐私模式下忽略，选择只在本次会话有效
+    }
+}
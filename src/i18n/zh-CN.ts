@@ -0,0 +1,437 @@
+import type { MessageKey } from './index';
+
+/**
+ * 简体中文文案，键与 en.ts 一一对应（缺少键时类型检查报错）
+ */
+const zhCN: Record<MessageKey, string> = {
+    // 通用
+    'common.loading': '加载中...',
+    'common.loadingModels': '正在加载模型数据...',
+    'common.backHome': '← 返回首页',
+    'common.view': '查看 ↗',
+    'common.remove': '移除',
+    'common.close': '关闭',
+    'common.edit': '编辑',
+    'common.delete': '删除',
+    'common.cancel': '取消',
+    'common.clear': '清除',
+    'common.copied': '✅ 已复制',
+    'common.moveUp': '上移',
+    'common.moveDown': '下移',
+    'common.moveLeft': '左移',
+    'common.moveRight': '右移',
+    'common.networkError': '网络错误',
+    'common.models': '{count} 个模型',
+    'common.matchingModels': '{count} 个匹配的模型',
+    'common.notInCatalog': '当前目录中不存在：{ids}',
+    'common.language': '语言',
+    'common.yes': '是',
+    'common.no': '否',
+    'price.free': '免费',
+    'price.unit.per1M': '{symbol}/M',
+    'price.unit.per1K': '{symbol}/1K',
+    'price.unit.perRequest': '{symbol}/次（{tokens} token）',
+    'price.unitLong.per1M': '每百万 token',
+    'price.unitLong.per1K': '每千 token',
+    'price.unitLong.perRequest': '每次请求（{tokens} token）',
+    'modality.input': '输入',
+    'modality.output': '输出',
+
+    // 主页面
+    'app.loadFailed': '加载失败',
+    'app.dataLoadFailed': '数据加载失败（{detail}）',
+    'app.unknownError': '未知错误',
+    'app.title': 'OpenRouter 模型对比',
+    'app.github': '在 GitHub 上查看',
+    'app.subtitle': '对比主流大模型的价格和上下文长度',
+    'app.updated': '更新时间：{date}',
+    'app.available': '可用模型：{count} 个',
+    'app.comparing': '正在对比 {count} 个模型',
+    'app.filters': '🔍 筛选',
+    'app.filtersTitle': '筛选模型目录',
+    'app.workload': '🧮 工作负载',
+    'app.workloadTitle': '按你的工作负载估算成本',
+    'app.details': '🧾 详情',
+    'app.detailsTitle': '并排对比完整详情',
+    'app.choosePreset': '选择预设',
+    'app.reset': '🔄 重置',
+    'app.resetTitle': '重置为「{preset}」预设',
+    'app.defaultPreset': '默认',
+    'app.copyLink': '🔗 复制链接',
+    'app.copyLinkTitle': '复制当前对比的链接',
+    'app.copyPrompt': '复制此链接：',
+    'app.viewTable': '📋 表格',
+    'app.viewChart': '📊 图表',
+    'app.modalityFilter': '显示 {total} 个模型中的 {shown} 个，条件：',
+    'app.removeFilter': '移除此筛选条件',
+    'app.missingModels': '「{preset}」中有 {count} 个模型已在 OpenRouter 下架，未显示：{ids}',
+    'app.emptyTitle': '😅 尚未选择模型',
+    'app.emptyHint': '点击上方的「添加模型」添加模型',
+    'app.footerData': '数据来源：',
+    'app.footerPrices': '价格：{currency}，{unit}',
+    'app.footerFeed': '📡 Atom 订阅',
+
+    // 模型表格
+    'table.actions': '操作',
+    'table.sortHint': 'Shift+点击添加次要排序',
+    'table.moderated': '🛡️ 内容审核',
+    'table.moderatedTitle': '请求会经过提供方的内容审核',
+    'table.expires': '⏳ {date} 下线',
+    'table.expiresTitle': '该模型将从 OpenRouter 下线',
+    'table.rating': '内部评分：{rating}/5',
+    'table.sourceEntry': '价格表条目：{key}',
+    'table.priceDiffTitle': '混合价格（输入:输出 = 3:1）与 OpenRouter 对比',
+    'table.filterModality': '按{direction}模态「{modality}」筛选',
+    'table.unfilterModality': '取消按{direction}模态「{modality}」筛选',
+    'table.history': '查看价格历史',
+    'table.showEndpoints': '显示服务商',
+    'table.hideEndpoints': '隐藏服务商',
+    'table.removeTitle': '从对比中移除',
+
+    // 表格列
+    'column.name': '模型',
+    'column.provider': '厂商',
+    'column.contextLength': '上下文',
+    'column.maxOutput': '最大输出',
+    'column.inputPrice': '输入价格',
+    'column.inputPrice.title': '输入价格（{unit}）',
+    'column.outputPrice': '输出价格',
+    'column.outputPrice.title': '输出价格（{unit}）',
+    'column.costPerRequest': '单次成本',
+    'column.monthlyCost': '月成本',
+    'column.cacheRead': '缓存读取',
+    'column.cacheRead.title': '缓存输入价格（{unit}）',
+    'column.cacheWrite': '缓存写入',
+    'column.cacheWrite.title': '缓存写入价格（{unit}）',
+    'column.internalReasoning': '推理',
+    'column.internalReasoning.title': '内部推理价格（{unit}）',
+    'column.requestPrice': '按次',
+    'column.requestPrice.title': '每次请求的固定价格',
+    'column.imagePrice': '图片',
+    'column.imagePrice.title': '每张输入图片的价格',
+    'column.webSearchPrice': '联网搜索',
+    'column.webSearchPrice.title': '每次联网搜索的价格',
+    'column.modality': '模态',
+    'column.modality.title': '输入 → 输出模态',
+    'column.tokenizer': '分词器',
+    'column.tokenizer.title': '分词器类型',
+    'column.createdAt': '上线日期',
+    'column.createdAt.title': '模型加入 OpenRouter 的日期',
+    'column.description': '简介',
+    'column.costPerPoint': '每分成本',
+    'column.costPerPoint.title': '混合价格（输入:输出 = 3:1，{unit}）除以 {name} 分数',
+    'column.source': '{name}',
+    'column.source.title': '{name} 的输入 / 输出价格（{unit}），标记为与 OpenRouter 的 3:1 混合价格对比',
+    'column.score': '{name}',
+    'column.score.title': '{name} 分数（由管理员导入）',
+    'columnGroup.basic': '基本',
+    'columnGroup.pricing': '价格',
+    'columnGroup.sources': '其他价格来源',
+    'columnGroup.benchmark': '基准测试',
+    'columnGroup.metadata': '元数据',
+    'columnMenu.button': '🧱 列',
+    'columnMenu.title': '显示、隐藏和调整表格列顺序',
+    'columnMenu.shown': '已显示',
+    'columnMenu.workload': '工作负载',
+    'columnMenu.reset': '重置列和排序',
+    'priceMenu.title': '货币和价格单位',
+    'priceMenu.currency': '货币',
+    'priceMenu.unit': '单位',
+    'priceMenu.per1M': '每百万 token',
+    'priceMenu.per1K': '每千 token',
+    'priceMenu.perRequest': '每次请求',
+    'priceMenu.requestTokens': '每次请求的 token 数',
+    'priceMenu.rate': '1 USD = {rate} {currency}，由站点管理员设置',
+
+    // 模型能力
+    'capability.tools': '工具调用',
+    'capability.structured': '结构化输出',
+    'capability.reasoning': '推理',
+
+    // 添加模型
+    'selector.add': '➕ 添加模型',
+    'selector.placeholder': '按名称、ID 或厂商搜索...',
+    'selector.filters': '筛选',
+    'selector.filtersTitle': '筛选模型',
+    'selector.listLabel': '模型',
+    'selector.noMatch': '没有匹配的模型',
+    'selector.allAdded': '所有模型都已添加',
+    'selector.available': '可添加 {count} 个模型',
+    'selector.hint': '↑↓ 选择 · Enter 添加 · Esc 关闭',
+
+    // 目录筛选
+    'filter.provider': '厂商',
+    'filter.inputModalities': '输入模态',
+    'filter.outputModalities': '输出模态',
+    'filter.tags': '团队标签',
+    'filter.showLess': '收起',
+    'filter.more': '还有 {count} 个',
+    'filter.any': '不限',
+    'filter.minContext': '最小上下文',
+    'filter.minMaxOutput': '最小输出上限',
+    'filter.price': '价格（{unit}）',
+    'filter.input': '输入',
+    'filter.output': '输出',
+    'filter.min': '最低',
+    'filter.max': '最高',
+    'filter.freeOnly': '仅免费',
+    'filter.clear': '清除筛选',
+    'filter.addAll': '➕ 全部添加（{count}）',
+    'filter.addAllTitle': '把所有匹配的模型加入对比',
+
+    // 工作负载
+    'workload.avgInputTokens': '平均输入 token',
+    'workload.avgOutputTokens': '平均输出 token',
+    'workload.requestsPerDay': '每日请求数',
+    'workload.summary': '每月 {requests} 次请求 · 每次 {tokens} token',
+    'workload.contextIssue': '上下文 {context} < 每次请求 {tokens} token',
+    'workload.outputIssue': '最大输出 {maxOutput} < {tokens} 输出 token',
+
+    // 导出
+    'export.button': '⬇️ 导出',
+    'export.title': '导出当前对比',
+    'export.copyMarkdown': '复制为 Markdown',
+
+    // 价格历史
+    'timeline.title': '价格历史',
+    'timeline.unavailable': '无法获取历史记录',
+    'timeline.notRecorded': '历史记录不可用：价格历史仅由自托管的同步任务记录',
+    'timeline.loading': '正在加载历史记录...',
+    'timeline.empty': '该模型暂无历史记录',
+    'timeline.inputPrice': '输入价格',
+    'timeline.outputPrice': '输出价格',
+    'timeline.event.baseline': '开始追踪',
+    'timeline.event.added': '上线',
+    'timeline.event.changed': '变更',
+    'timeline.event.removed': '下线',
+    'timeline.field.inputPrice': '输入',
+    'timeline.field.outputPrice': '输出',
+    'timeline.field.contextLength': '上下文',
+    'timeline.field.maxOutput': '最大输出',
+
+    // 服务商列表
+    'endpoints.loading': '正在加载服务商...',
+    'endpoints.unavailable': '无法获取服务商列表',
+    'endpoints.empty': '该模型没有服务商列表',
+    'endpoints.provider': '服务商',
+    'endpoints.price': '输入 / 输出',
+    'endpoints.contextLength': '上下文',
+    'endpoints.maxOutput': '最大输出',
+    'endpoints.quantization': '量化',
+    'endpoints.cheapest': '💰 最便宜',
+    'endpoints.cheapestTitle': '各服务商中混合价格（输入:输出 = 3:1）最低',
+    'endpoints.updatedAt': '服务商列表更新于 {date}',
+
+    // 散点图
+    'chart.models': '模型',
+    'chart.selected': '已选（{count}）',
+    'chart.catalog': '筛选后的目录（{count}）',
+    'chart.xAxis': 'X 轴',
+    'chart.yAxis': 'Y 轴',
+    'chart.logScale': '对数坐标',
+    'chart.ariaLabel': '{y} 与 {x}',
+    'chart.pareto': '★ 帕累托最优',
+    'chart.clickRemove': '点击从对比中移除',
+    'chart.clickAdd': '点击加入对比',
+    'chart.empty': '没有可绘制的模型',
+    'chart.frontier': '帕累托前沿（{count}）',
+    'chart.hidden': '{count} 个模型未显示（值为零或不固定）',
+    'chart.hiddenOne': '1 个模型未显示（值为零或不固定）',
+    'chart.axis.inputPrice': '输入价格（{unit}）',
+    'chart.axis.outputPrice': '输出价格（{unit}）',
+    'chart.axis.blendedPrice': '混合价格 3:1（{unit}）',
+    'chart.axis.contextLength': '上下文长度',
+    'chart.axis.maxOutput': '最大输出',
+
+    // 详情对比页
+    'compare.title': '模型详情',
+    'compare.subtitle': '比值以第一个模型为基准',
+    'compare.back': '← 返回对比',
+    'compare.empty': '没有可对比的模型',
+    'compare.field': '字段',
+    'compare.baseline': '基准',
+    'compare.setBaseline': '设为基准',
+    'compare.row.provider': '厂商',
+    'compare.row.description': '简介',
+    'compare.row.releaseDate': '上线日期',
+    'compare.row.contextLength': '上下文长度',
+    'compare.row.maxOutput': '最大输出',
+    'compare.row.inputPrice': '输入价格（{unit}）',
+    'compare.row.outputPrice': '输出价格（{unit}）',
+    'compare.row.cacheRead': '缓存读取（{unit}）',
+    'compare.row.cacheWrite': '缓存写入（{unit}）',
+    'compare.row.reasoning': '推理（{unit}）',
+    'compare.row.perRequest': '按次',
+    'compare.row.perImage': '每张图片',
+    'compare.row.tokenizer': '分词器',
+    'compare.row.moderated': '内容审核',
+    'compare.row.expires': '下线日期',
+    'compare.row.modality': '模态',
+    'compare.row.inputModalities': '输入模态',
+    'compare.row.outputModalities': '输出模态',
+
+    // 已下架的模型
+    'stale.title': '⚠️ 配置中有 {count} 个模型已不在模型目录中',
+    'stale.hint': '这些模型在公开页面上不会显示。请选择建议的替代模型（同一厂商、ID 相近、发布时间更新）或直接移除，然后保存。',
+    'stale.usedIn': '所在预设：{presets}',
+    'stale.noSuggestions': '没有找到可能的替代模型',
+    'stale.replaceAll': '全部替换为首选建议（{count} 个）',
+
+    // 数据校验
+    'validation.title': '上游数据校验',
+    'validation.sync': '同步流程',
+    'validation.api': '实时 API',
+    'validation.noReport': '暂无报告',
+    'validation.published': '✅ 已发布',
+    'validation.blocked': '⛔ 已拦截',
+    'validation.counts': '收到 {received} 个 · 发布 {accepted} 个',
+    'validation.rejected': '已拒绝（{count}）',
+    'validation.quarantined': '已隔离（{count}）',
+    'validation.removed': '已移除（{count}）',
+
+    // 基准测试成绩
+    'benchmarks.title': '基准测试成绩',
+    'benchmarks.hint': '上传 CSV（一列模型，其余每列一个基准）或 JSON（[{ "model": "gpt-4o", "MMLU": 88.7 }] 或 { "gpt-4o": { "MMLU": 88.7 } }）。模型名称会自动匹配到目录中的 ID，成绩随配置一起保存。第一个基准用于计算每分成本列。',
+    'benchmarks.primary': '主基准',
+    'benchmarks.modelCount': '{count} 个模型',
+    'benchmarks.makePrimary': '设为主基准',
+    'benchmarks.makePrimaryTitle': '用这个基准计算每分成本列',
+    'benchmarks.upload': '导入成绩（CSV 或 JSON）',
+    'benchmarks.reviewTitle': '{file}：{benchmarks}',
+    'benchmarks.needsReview': '{count} 行未匹配或只是近似匹配。请检查下面的模型 ID，留空则跳过该行。',
+    'benchmarks.allMatched': '所有行都已匹配到目录中的模型。',
+    'benchmarks.matchedRows': '{count} 行已自动匹配',
+    'benchmarks.fileModel': '文件中的模型',
+    'benchmarks.scores': '分数',
+    'benchmarks.catalogModel': '目录中的模型 ID',
+    'benchmarks.matchColumn': '匹配',
+    'benchmarks.match.exact': '完全一致',
+    'benchmarks.match.normalized': '名称一致',
+    'benchmarks.match.fuzzy': '近似，请检查',
+    'benchmarks.match.none': '未匹配',
+    'benchmarks.skip': '跳过该行',
+    'benchmarks.apply': '导入 {count} 行',
+    'benchmarks.imported': '✅ 已导入 {benchmarks} 的 {rows} 行成绩，点击保存后生效。',
+    'benchmarks.errorFormat': '无法按 JSON 解析该文件',
+    'benchmarks.errorEmpty': '文件中没有同时包含模型和分数的行',
+    'benchmarks.errorNoScores': '没有找到包含数字分数的基准列',
+
+    // 模型注释
+    'annotations.title': '模型注释',
+    'annotations.hint': '在 OpenRouter 数据旁记录团队自己的经验。标签会在模型表格中显示为徽章（备注显示在提示中），并可用于筛选。',
+    'annotations.unavailable': '无法加载注释',
+    'annotations.new': '新建注释',
+    'annotations.editTitle': '编辑 {id}',
+    'annotations.model': '模型 ID',
+    'annotations.rating': '内部评分',
+    'annotations.noRating': '未评分',
+    'annotations.tags': '标签（逗号分隔）',
+    'annotations.tagsPlaceholder': '可用于生产, 适合摘要',
+    'annotations.note': '备注',
+    'annotations.notePlaceholder': '例如：JSON 模式表现差，需要更严格的提示词',
+    'annotations.save': '保存注释',
+    'annotations.saved': '✅ 已保存 {id} 的注释',
+    'annotations.saveFailed': '保存失败',
+    'annotations.deleteFailed': '删除失败',
+    'annotations.confirmDelete': '确定删除 {id} 的注释吗？',
+
+    // 关注列表
+    'watchlist.title': '关注列表',
+    'watchlist.hint': '同步脚本在每次同步后发送通知，并用关注列表自己的密钥签名。',
+    'watchlist.unavailable': '无法获取关注列表',
+    'watchlist.updated': '✅ 关注列表已更新',
+    'watchlist.created': '✅ 关注列表已创建',
+    'watchlist.saveFailed': '保存失败',
+    'watchlist.confirmDelete': '删除关注列表「{name}」？',
+    'watchlist.deleteFailed': '删除失败',
+    'watchlist.sendingTest': '正在向 {name} 发送测试...',
+    'watchlist.testDelivered': '✅ 测试已送达（HTTP {status}）',
+    'watchlist.testFailedWith': '❌ 测试失败：{error}',
+    'watchlist.testFailed': '测试失败',
+    'watchlist.sendTest': '发送测试',
+    'watchlist.secret': '签名密钥',
+    'watchlist.editTitle': '编辑「{name}」',
+    'watchlist.new': '新建关注列表',
+    'watchlist.name': '名称',
+    'watchlist.webhookUrl': 'Webhook 地址',
+    'watchlist.payload': '消息格式',
+    'watchlist.slack': 'Slack（{ text }）',
+    'watchlist.generic': '通用 JSON',
+    'watchlist.notifyOn': '通知条件',
+    'watchlist.threshold': '阈值（%）',
+    'watchlist.modelIds': '模型 ID（每行一个）',
+    'watchlist.update': '更新',
+    'watchlist.add': '添加关注列表',
+    'watchlist.deliveries': '最近的推送',
+    'watchlist.time': '时间',
+    'watchlist.watchlist': '关注列表',
+    'watchlist.events': '事件数',
+    'watchlist.status': '状态',
+    'watchlist.attempts': '尝试次数',
+    'watchlist.test': '测试',
+    'watchlist.trigger.any': '任何变化',
+    'watchlist.trigger.removed': '仅下线',
+    'watchlist.trigger.price-change': '价格变化超过阈值',
+    'watchlist.trigger.price-increase': '价格上涨超过阈值',
+
+    // 管理后台
+    'admin.loginTitle': '🔐 管理员登录',
+    'admin.loginHint': '输入管理员账号以管理默认模型',
+    'admin.username': '用户名',
+    'admin.password': '密码',
+    'admin.passwordPlaceholder': '输入管理员密码',
+    'admin.login': '登录',
+    'admin.loginFailed': '登录失败',
+    'admin.tooManyAttempts': '登录失败次数过多，请 {minutes} 分钟后再试',
+    'admin.sessionExpired': '登录已过期，请重新登录',
+    'admin.title': '⚙️ 管理后台',
+    'admin.subtitle': '为所有用户配置模型预设',
+    'admin.logout': '退出登录',
+    'admin.confirmRollback': '回滚到版本 {version}？回滚会保存为一个新版本。',
+    'admin.rolledBack': '✅ {message} 当前版本为 {version}。',
+    'admin.rollbackFailed': '❌ 回滚失败：{message}',
+    'admin.savedVersion': '✅ 已保存为版本 {version}。',
+    'admin.saved': '✅ 已保存为版本 {version} 并立即生效！',
+    'admin.saveFailed': '❌ 保存失败：{message}',
+    'admin.newPresetTitle': '新预设',
+    'admin.confirmDeletePreset': '删除预设「{id}」？',
+    'admin.defaultTag': '默认',
+    'admin.newPreset': '➕ 新建预设',
+    'admin.presetTitle': '标题',
+    'admin.presetId': 'ID',
+    'admin.presetIdTaken': 'ID「{id}」已被其他预设使用',
+    'admin.presetDescription': '描述',
+    'admin.deletePreset': '删除预设',
+    'admin.unavailable': '不可用',
+    'admin.emptyPreset': '该预设还没有模型，请在下方选择。',
+    'admin.searchModels': '搜索模型...',
+    'admin.allProviders': '全部厂商（{count}）',
+    'admin.selectAll': '全选',
+    'admin.deselectAll': '取消全选',
+    'admin.modelsInPreset': '个模型在「{preset}」中',
+    'admin.preset': '预设',
+    'admin.saving': '保存中...',
+    'admin.save': '💾 保存配置',
+    'admin.versionHistory': '版本历史',
+    'admin.current': '当前',
+    'admin.versionSummary': '{presets} 个预设，{count} 个默认模型',
+    'admin.diff': '对比',
+    'admin.rollback': '回滚',
+    'admin.noDifferences': '没有差异',
+    'admin.diffStatus.added': '新增',
+    'admin.diffStatus.removed': '删除',
+    'admin.renamed': '~ 标题或描述已修改',
+    'admin.reordered': '~ 顺序已调整',
+    'admin.presetsReordered': '~ 预设顺序已调整（第一个为默认预设）',
+    'admin.benchmarksReordered': '~ 基准顺序已调整（第一个用于计算每分成本）',
+    'admin.benchmarkRenamed': '~ 名称已修改',
+    'admin.scoresChanged': '~ {count} 个分数已修改',
+    'admin.exchangeRates': '汇率',
+    'admin.exchangeRatesHint': '每 1 美元可兑换的各货币数量。价格以美元保存，显示时按汇率换算；点击保存时与配置一起保存。',
+    'admin.currencyCode': '货币',
+    'admin.rate': '汇率',
+    'admin.baseCurrency': '基准',
+    'admin.addCurrency': '➕ 添加货币',
+};
+
+export default zhCN;
@@ -4,14 +4,19 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import AdminPage from './pages/AdminPage.tsx'
+import ComparePage from './pages/ComparePage.tsx'
+import I18nProvider from './i18n/I18nProvider.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<App />} />
-        <Route path="/admin" element={<AdminPage />} />
-      </Routes>
-    </BrowserRouter>
+    <I18nProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/" element={<App />} />
+          <Route path="/admin" element={<AdminPage />} />
+          <Route path="/compare/:ids" element={<ComparePage />} />
+        </Routes>
+      </BrowserRouter>
+    </I18nProvider>
   </StrictMode>,
 )
@@ -1,15 +1,40 @@
-import { useState, useEffect, useMemo } from 'react';
-import type { Model, ModelsData } from '../types';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Benchmark, Model, ModelsData, ModelPreset, ConfigVersion, MissingModel, ValidationReports } from '../types';
+import { diffConfigs, isEmptyConfigDiff, createPresetId, movePresetItem, replacePresetModel } from '../utils/configDiff';
+import { BASE_CURRENCY, fromRateRows, toRateRows } from '../utils/currency';
+import type { RateRow } from '../utils/currency';
+import {
+    REFRESH_MARGIN_MS,
+    clearSession,
+    getAuthorization,
+    loadSession,
+    login,
+    logout,
+    refreshSession,
+    saveSession,
+} from '../utils/adminSession';
+import type { AdminSession } from '../utils/adminSession';
+import ValidationPanel from '../components/ValidationPanel';
+import StaleModelsPanel from '../components/StaleModelsPanel';
+import WatchlistPanel from '../components/WatchlistPanel';
+import AnnotationsPanel from '../components/AnnotationsPanel';
+import BenchmarkPanel from '../components/BenchmarkPanel';
+import LanguageSwitcher from '../components/LanguageSwitcher';
+import { useI18n } from '../i18n/context';
 import './AdminPage.css';
 
 function AdminPage() {
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
+    const { t, formatPrice, formatDateTime, setExchangeRates } = useI18n();
+    // 已保存的会话（刷新页面后仍然有效，直到过期或登出）
+    const [session, setSession] = useState<AdminSession | null>(loadSession);
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [authError, setAuthError] = useState('');
 
     const [allModels, setAllModels] = useState<Model[]>([]);
-    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [presets, setPresets] = useState<ModelPreset[]>([]);
+    // 按位置记录正在编辑的预设（ID 可在编辑中修改，不能作为标识）
+    const [activeIndex, setActiveIndex] = useState(0);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [saveMessage, setSaveMessage] = useState('');
@@ -17,6 +42,61 @@ function AdminPage() {
     const [searchQuery, setSearchQuery] = useState('');
     const [providerFilter, setProviderFilter] = useState('all');
 
+    // 已下架的模型及替代建议（由 /api/config 根据已保存的配置计算）
+    const [missingModels, setMissingModels] = useState<MissingModel[]>([]);
+
+    // 汇率（与预设一起保存）
+    const [rateRows, setRateRows] = useState<RateRow[]>([]);
+
+    // 基准测试成绩（与预设一起保存）
+    const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
+
+    // 配置版本历史
+    const [versions, setVersions] = useState<ConfigVersion[]>([]);
+    const [diffFrom, setDiffFrom] = useState<number | null>(null);
+    const [diffTo, setDiffTo] = useState<number | null>(null);
+
+    // 加载配置版本历史
+    const loadHistory = useCallback(async () => {
+        const current = loadSession();
+        if (!current) return;
+
+        try {
+            const res = await fetch('/api/config?history=1', {
+                headers: { 'Authorization': getAuthorization(current) }
+            });
+            if (!res.ok) return;
+
+            const data: { versions: ConfigVersion[] } = await res.json();
+            setVersions(data.versions);
+            if (data.versions.length > 1) {
+                setDiffFrom(data.versions[1].version);
+                setDiffTo(data.versions[0].version);
+            }
+        } catch (err) {
+            console.error('Failed to load config history:', err);
+        }
+    }, []);
+
+    // 上游数据校验报告
+    const [validation, setValidation] = useState<ValidationReports | null>(null);
+
+    const loadValidation = useCallback(async () => {
+        const current = loadSession();
+        if (!current) return;
+
+        try {
+            const res = await fetch('/api/validation', {
+                headers: { 'Authorization': getAuthorization(current) }
+            });
+            if (res.ok) {
+                setValidation(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to load validation reports:', err);
+        }
+    }, []);
+
     // 加载所有模型数据
     useEffect(() => {
         const loadData = async () => {
@@ -29,7 +109,18 @@ function AdminPage() {
                 // 获取当前配置
                 const configRes = await fetch('/api/config');
                 const configData = await configRes.json();
-                setSelectedIds(new Set(configData.defaultModels || []));
+                const loadedPresets: ModelPreset[] = configData.presets?.length
+                    ? configData.presets
+                    : [{ id: 'default', title: 'Default', description: '', models: configData.defaultModels || [] }];
+                setPresets(loadedPresets);
+                setRateRows(toRateRows(configData.exchangeRates || { [BASE_CURRENCY]: 1 }));
+                setBenchmarks(configData.benchmarks || []);
+                setMissingModels(configData.missingModels || []);
+                setActiveIndex(0);
+
+                // 已登录时加载版本历史
+                await loadHistory();
+                await loadValidation();
 
                 setLoading(false);
             } catch (err) {
@@ -39,53 +130,122 @@ function AdminPage() {
         };
 
         loadData();
+    }, [loadHistory, loadValidation]);
+
+    // 结束会话（登出、令牌过期或失效）
+    const endSession = useCallback((message = '') => {
+        clearSession();
+        setSession(null);
+        setPassword('');
+        setAuthError(message);
     }, []);
 
-    // 登录
+    // 登录：只在这里发送密码，之后的请求使用会话令牌
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setAuthError('');
 
         try {
-            const credentials = btoa(`${username}:${password}`);
+            const result = await login(username, password);
+
+            if ('session' in result) {
+                saveSession(result.session);
+                setSession(result.session);
+                setPassword('');
+                loadHistory();
+                loadValidation();
+            } else if (result.retryAfter) {
+                setAuthError(t('admin.tooManyAttempts', { minutes: Math.ceil(result.retryAfter / 60) }));
+            } else {
+                setAuthError(result.error || t('admin.loginFailed'));
+            }
+        } catch {
+            setAuthError(t('common.networkError'));
+        }
+    };
+
+    // 到期前自动续期；令牌已失效时回到登录页
+    useEffect(() => {
+        if (!session) return;
+
+        const delay = Math.max(Date.parse(session.expiresAt) - Date.now() - REFRESH_MARGIN_MS, 0);
+        const timer = setTimeout(async () => {
+            try {
+                const next = await refreshSession(session);
+                if (next) {
+                    saveSession(next);
+                    setSession(next);
+                } else {
+                    endSession(t('admin.sessionExpired'));
+                }
+            } catch (err) {
+                // 网络错误时保留会话，令牌过期后保存会提示重新登录
+                console.error('Failed to refresh admin session:', err);
+            }
+        }, delay);
+
+        return () => clearTimeout(timer);
+    }, [session, endSession, t]);
+
+    // 回滚到指定版本（另存为新版本）
+    const handleRollback = async (version: number) => {
+        if (!window.confirm(t('admin.confirmRollback', { version }))) return;
+
+        const current = loadSession();
+        if (!current) {
+            endSession(t('admin.sessionExpired'));
+            return;
+        }
+
+        try {
             const res = await fetch('/api/config', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': `Basic ${credentials}`
+                    'Authorization': getAuthorization(current)
                 },
-                body: JSON.stringify({ defaultModels: Array.from(selectedIds) })
+                body: JSON.stringify({ rollbackTo: version })
             });
-
-            if (res.ok) {
-                setIsAuthenticated(true);
-                // 保存凭证到 sessionStorage
-                sessionStorage.setItem('adminAuth', credentials);
+            const data = await res.json();
+
+            if (res.status === 401) {
+                endSession(t('admin.sessionExpired'));
+            } else if (res.ok) {
+                setPresets(data.presets);
+                setMissingModels(data.missingModels || []);
+                setRateRows(toRateRows(data.exchangeRates));
+                setExchangeRates(data.exchangeRates);
+                setBenchmarks(data.benchmarks || []);
+                // 回滚后的版本中仍有同 ID 的预设时继续编辑它
+                const index = data.presets.findIndex((p: ModelPreset) => p.id === presets[activeIndex]?.id);
+                setActiveIndex(Math.max(index, 0));
+                setSaveMessage(t('admin.rolledBack', { message: data.message, version: data.version }));
+                loadHistory();
             } else {
-                const data = await res.json();
-                setAuthError(data.message || 'Login failed');
+                setSaveMessage(t('admin.rollbackFailed', { message: data.message }));
             }
-        } catch (err) {
-            setAuthError('Network error');
+        } catch {
+            setSaveMessage(`❌ ${t('common.networkError')}`);
         }
     };
 
-    // 检查已保存的认证
-    useEffect(() => {
-        const savedAuth = sessionStorage.getItem('adminAuth');
-        if (savedAuth) {
-            setIsAuthenticated(true);
-        }
-    }, []);
+    // 选中的两个版本之间的差异（预设、汇率和基准测试，与回滚恢复的范围一致）
+    const versionDiff = useMemo(() => {
+        const from = versions.find(v => v.version === diffFrom);
+        const to = versions.find(v => v.version === diffTo);
+        if (!from || !to) return null;
+        return diffConfigs(from, to);
+    }, [versions, diffFrom, diffTo]);
 
     // 保存配置
     const handleSave = async () => {
         setSaving(true);
         setSaveMessage('');
 
-        const auth = sessionStorage.getItem('adminAuth');
-        if (!auth) {
-            setIsAuthenticated(false);
+        const current = loadSession();
+        if (!current) {
+            setSaving(false);
+            endSession(t('admin.sessionExpired'));
             return;
         }
 
@@ -94,35 +254,41 @@ function AdminPage() {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': `Basic ${auth}`
+                    'Authorization': getAuthorization(current)
                 },
-                body: JSON.stringify({ defaultModels: Array.from(selectedIds) })
+                body: JSON.stringify({ presets, exchangeRates: fromRateRows(rateRows), benchmarks })
             });
 
             if (res.ok) {
                 const data = await res.json();
-                setSaveMessage(`✅ Saved and active now!\n\nTo persist after redeployment, copy this value to DEFAULT_MODELS env var:\n${data.envValue}`);
+                setMissingModels(data.missingModels || []);
+                setRateRows(toRateRows(data.exchangeRates));
+                setExchangeRates(data.exchangeRates);
+                setBenchmarks(data.benchmarks || []);
+                setSaveMessage(data.persistenceNote
+                    ? `${t('admin.savedVersion', { version: data.version })}\n\n${data.persistenceNote}\n${data.envValue}`
+                    : t('admin.saved', { version: data.version }));
+                loadHistory();
+            } else if (res.status === 401) {
+                endSession(t('admin.sessionExpired'));
             } else {
-                if (res.status === 401) {
-                    setIsAuthenticated(false);
-                    sessionStorage.removeItem('adminAuth');
-                }
                 const data = await res.json();
-                setSaveMessage(`❌ Save failed: ${data.message}`);
+                setSaveMessage(t('admin.saveFailed', { message: data.message }));
             }
-        } catch (err) {
-            setSaveMessage('❌ Network error');
+        } catch {
+            setSaveMessage(`❌ ${t('common.networkError')}`);
         }
 
         setSaving(false);
     };
 
-    // 登出
+    // 登出（服务端令牌同时失效）
     const handleLogout = () => {
-        setIsAuthenticated(false);
-        sessionStorage.removeItem('adminAuth');
+        if (session) {
+            logout(session).catch(err => console.error('Failed to log out:', err));
+        }
+        endSession();
         setUsername('');
-        setPassword('');
     };
 
     // 厂商列表
@@ -150,50 +316,125 @@ function AdminPage() {
         return models;
     }, [allModels, searchQuery, providerFilter]);
 
+    // 正在编辑的预设
+    const editingIndex = activeIndex < presets.length ? activeIndex : 0;
+    const activePreset = presets[editingIndex];
+    const selectedIds = useMemo(() => new Set(activePreset?.models ?? []), [activePreset]);
+
+    const modelNames = useMemo(() => {
+        return new Map(allModels.map(m => [m.id, m.name]));
+    }, [allModels]);
+
+    // 修改正在编辑的预设
+    const updateActivePreset = (update: (preset: ModelPreset) => ModelPreset) => {
+        if (!activePreset) return;
+        setPresets(prev => prev.map((p, i) => i === editingIndex ? update(p) : p));
+    };
+
+    // 被多个预设使用的 ID（输入过程中可能暂时重复，重复时不能保存）
+    const duplicateIds = useMemo(() => {
+        const ids = presets.map(p => p.id);
+        return new Set(ids.filter((id, i) => ids.indexOf(id) !== i));
+    }, [presets]);
+
+    // 新建预设
+    const addPreset = () => {
+        const id = createPresetId(presets.map(p => p.id));
+        setPresets(prev => [...prev, { id, title: t('admin.newPresetTitle'), description: '', models: [] }]);
+        setActiveIndex(presets.length);
+    };
+
+    // 删除预设（至少保留一个）
+    const deletePreset = (index: number) => {
+        if (presets.length <= 1) return;
+        if (!window.confirm(t('admin.confirmDeletePreset', { id: presets[index].id }))) return;
+
+        setPresets(prev => prev.filter((_, i) => i !== index));
+        if (editingIndex === index) {
+            setActiveIndex(0);
+        } else if (editingIndex > index) {
+            setActiveIndex(editingIndex - 1);
+        }
+    };
+
+    // 调整预设顺序，第一个为默认预设
+    const movePreset = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= presets.length) return;
+
+        setPresets(prev => movePresetItem(prev, index, offset));
+        // 正在编辑的预设跟随移动
+        if (editingIndex === index) {
+            setActiveIndex(target);
+        } else if (editingIndex === target) {
+            setActiveIndex(index);
+        }
+    };
+
+    // 调整预设内模型顺序
+    const moveModel = (index: number, offset: number) => {
+        updateActivePreset(p => ({ ...p, models: movePresetItem(p.models, index, offset) }));
+    };
+
     // 切换选择
     const toggleModel = (id: string) => {
-        setSelectedIds(prev => {
-            const newSet = new Set(prev);
-            if (newSet.has(id)) {
-                newSet.delete(id);
-            } else {
-                newSet.add(id);
-            }
-            return newSet;
-        });
+        updateActivePreset(p => ({
+            ...p,
+            models: p.models.includes(id) ? p.models.filter(m => m !== id) : [...p.models, id]
+        }));
     };
 
     // 全选/取消
     const toggleAll = () => {
         if (filteredModels.every(m => selectedIds.has(m.id))) {
-            setSelectedIds(prev => {
-                const newSet = new Set(prev);
-                filteredModels.forEach(m => newSet.delete(m.id));
-                return newSet;
-            });
+            const filteredIds = new Set(filteredModels.map(m => m.id));
+            updateActivePreset(p => ({ ...p, models: p.models.filter(id => !filteredIds.has(id)) }));
         } else {
-            setSelectedIds(prev => {
-                const newSet = new Set(prev);
-                filteredModels.forEach(m => newSet.add(m.id));
-                return newSet;
-            });
+            updateActivePreset(p => ({
+                ...p,
+                models: [...p.models, ...filteredModels.map(m => m.id).filter(id => !p.models.includes(id))]
+            }));
         }
     };
 
     // 清空
-    const clearAll = () => setSelectedIds(new Set());
+    const clearAll = () => updateActivePreset(p => ({ ...p, models: [] }));
+
+    // 仍被预设引用的已下架模型（替换或移除后立即消失，保存后生效）
+    const staleModels = useMemo(
+        () => missingModels.filter(m => presets.some(p => p.models.includes(m.id))),
+        [missingModels, presets]
+    );
+
+    // 在所有预设中替换（或移除）已下架的模型
+    const replaceModel = (fromId: string, toId: string | null) => {
+        setPresets(prev => replacePresetModel(prev, fromId, toId));
+    };
+
+    // 全部替换为首选建议
+    const replaceAllModels = () => {
+        setPresets(prev => staleModels.reduce(
+            (next, m) => m.suggestions.length > 0 ? replacePresetModel(next, m.id, m.suggestions[0].id) : next,
+            prev
+        ));
+    };
+
+    // 修改一行汇率
+    const updateRateRow = (index: number, patch: Partial<RateRow>) => {
+        setRateRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+    };
 
     // 登录页面
-    if (!isAuthenticated) {
+    if (!session) {
         return (
             <div className="admin-login-page">
                 <div className="login-card">
-                    <h1>🔐 Admin Login</h1>
-                    <p>Enter admin credentials to manage default models</p>
+                    <h1>{t('admin.loginTitle')}</h1>
+                    <p>{t('admin.loginHint')}</p>
 
                     <form onSubmit={handleLogin}>
                         <div className="form-group">
-                            <label>Username</label>
+                            <label>{t('admin.username')}</label>
                             <input
                                 type="text"
                                 value={username}
@@ -204,12 +445,12 @@ function AdminPage() {
                         </div>
 
                         <div className="form-group">
-                            <label>Password</label>
+                            <label>{t('admin.password')}</label>
                             <input
                                 type="password"
                                 value={password}
                                 onChange={(e) => setPassword(e.target.value)}
-                                placeholder="Enter admin password"
+                                placeholder={t('admin.passwordPlaceholder')}
                                 required
                             />
                         </div>
@@ -217,11 +458,14 @@ function AdminPage() {
                         {authError && <div className="error-message">{authError}</div>}
 
                         <button type="submit" className="login-btn">
-                            Login
+                            {t('admin.login')}
                         </button>
                     </form>
 
-                    <a href="/" className="back-link">← Back to Home</a>
+                    <div className="login-card-footer">
+                        <a href="/" className="back-link">{t('common.backHome')}</a>
+                        <LanguageSwitcher />
+                    </div>
                 </div>
             </div>
         );
@@ -232,24 +476,155 @@ function AdminPage() {
         <div className="admin-page">
             <header className="admin-header">
                 <div className="admin-header-left">
-                    <h1>⚙️ Admin Panel</h1>
-                    <p>Configure default model list for all users</p>
+                    <h1>{t('admin.title')}</h1>
+                    <p>{t('admin.subtitle')}</p>
                 </div>
                 <div className="admin-header-right">
-                    <a href="/" className="nav-link">← Back to Home</a>
-                    <button onClick={handleLogout} className="logout-btn">Logout</button>
+                    <LanguageSwitcher />
+                    <a href="/" className="nav-link">{t('common.backHome')}</a>
+                    <button onClick={handleLogout} className="logout-btn">{t('admin.logout')}</button>
                 </div>
             </header>
 
             <main className="admin-main">
                 {loading ? (
-                    <div className="loading">Loading...</div>
+                    <div className="loading">{t('common.loading')}</div>
                 ) : (
                     <>
+                        {staleModels.length > 0 && (
+                            <StaleModelsPanel
+                                missingModels={staleModels}
+                                presets={presets}
+                                onReplace={replaceModel}
+                                onReplaceAll={replaceAllModels}
+                            />
+                        )}
+
+                        <section className="preset-editor">
+                            <div className="preset-tabs">
+                                {presets.map((p, i) => (
+                                    <div
+                                        key={i}
+                                        className={`preset-tab ${i === editingIndex ? 'active' : ''}`}
+                                    >
+                                        <button className="preset-tab-title" onClick={() => setActiveIndex(i)}>
+                                            {p.title || p.id}
+                                            {i === 0 && <span className="preset-default-tag">{t('admin.defaultTag')}</span>}
+                                            <span className="preset-count">{p.models.length}</span>
+                                        </button>
+                                        <button
+                                            className="preset-icon-btn"
+                                            onClick={() => movePreset(i, -1)}
+                                            disabled={i === 0}
+                                            title={t('common.moveLeft')}
+                                        >
+                                            ←
+                                        </button>
+                                        <button
+                                            className="preset-icon-btn"
+                                            onClick={() => movePreset(i, 1)}
+                                            disabled={i === presets.length - 1}
+                                            title={t('common.moveRight')}
+                                        >
+                                            →
+                                        </button>
+                                    </div>
+                                ))}
+                                <button onClick={addPreset} className="action-btn">
+                                    {t('admin.newPreset')}
+                                </button>
+                            </div>
+
+                            {activePreset && (
+                                <div className="preset-details">
+                                    <div className="preset-fields">
+                                        <label>
+                                            {t('admin.presetTitle')}
+                                            <input
+                                                type="text"
+                                                value={activePreset.title}
+                                                onChange={(e) => updateActivePreset(p => ({ ...p, title: e.target.value }))}
+                                                className="search-input"
+                                            />
+                                        </label>
+                                        <label>
+                                            {t('admin.presetId')}
+                                            <input
+                                                type="text"
+                                                value={activePreset.id}
+                                                onChange={(e) => updateActivePreset(p => ({
+                                                    ...p,
+                                                    id: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+                                                }))}
+                                                className={`search-input ${duplicateIds.has(activePreset.id) ? 'invalid' : ''}`}
+                                            />
+                                            {duplicateIds.has(activePreset.id) && (
+                                                <span className="preset-id-error">{t('admin.presetIdTaken', { id: activePreset.id })}</span>
+                                            )}
+                                        </label>
+                                        <label className="preset-description-field">
+                                            {t('admin.presetDescription')}
+                                            <input
+                                                type="text"
+                                                value={activePreset.description}
+                                                onChange={(e) => updateActivePreset(p => ({ ...p, description: e.target.value }))}
+                                                className="search-input"
+                                            />
+                                        </label>
+                                        <button
+                                            onClick={() => deletePreset(editingIndex)}
+                                            className="action-btn danger"
+                                            disabled={presets.length <= 1}
+                                        >
+                                            {t('admin.deletePreset')}
+                                        </button>
+                                    </div>
+
+                                    {activePreset.models.length > 0 ? (
+                                        <ol className="preset-model-list">
+                                            {activePreset.models.map((id, i) => (
+                                                <li key={id}>
+                                                    <span className="preset-model-name">
+                                                        {modelNames.get(id) ?? id}
+                                                        {!modelNames.has(id) && <span className="preset-missing-tag">{t('admin.unavailable')}</span>}
+                                                    </span>
+                                                    <button
+                                                        className="preset-icon-btn"
+                                                        onClick={() => moveModel(i, -1)}
+                                                        disabled={i === 0}
+                                                        title={t('common.moveUp')}
+                                                    >
+                                                        ↑
+                                                    </button>
+                                                    <button
+                                                        className="preset-icon-btn"
+                                                        onClick={() => moveModel(i, 1)}
+                                                        disabled={i === activePreset.models.length - 1}
+                                                        title={t('common.moveDown')}
+                                                    >
+                                                        ↓
+                                                    </button>
+                                                    <button
+                                                        className="preset-icon-btn"
+                                                        onClick={() => toggleModel(id)}
+                                                        title={t('common.remove')}
+                                                    >
+                                                        ✕
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    ) : (
+                                        <p className="diff-empty">{t('admin.emptyPreset')}</p>
+                                    )}
+                                </div>
+                            )}
+                        </section>
+
                         <div className="admin-toolbar">
                             <input
                                 type="text"
-                                placeholder="Search models..."
+                                placeholder={t('admin.searchModels')}
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
                                 className="search-input"
@@ -260,22 +635,22 @@ function AdminPage() {
                                 onChange={(e) => setProviderFilter(e.target.value)}
                                 className="provider-select"
                             >
-                                <option value="all">All Providers ({providers.length})</option>
+                                <option value="all">{t('admin.allProviders', { count: providers.length })}</option>
                                 {providers.map(p => (
                                     <option key={p} value={p}>{p}</option>
                                 ))}
                             </select>
 
                             <button onClick={toggleAll} className="action-btn">
-                                {filteredModels.every(m => selectedIds.has(m.id)) ? 'Deselect All' : 'Select All'}
+                                {filteredModels.every(m => selectedIds.has(m.id)) ? t('admin.deselectAll') : t('admin.selectAll')}
                             </button>
 
                             <button onClick={clearAll} className="action-btn danger">
-                                Clear
+                                {t('common.clear')}
                             </button>
 
                             <div className="selected-info">
-                                <strong>{selectedIds.size}</strong> models selected
+                                <strong>{selectedIds.size}</strong> {t('admin.modelsInPreset', { preset: activePreset?.title || t('admin.preset') })}
                             </div>
                         </div>
 
@@ -297,7 +672,7 @@ function AdminPage() {
                                         <div className="model-card-meta">
                                             <span className="provider-tag">{model.provider}</span>
                                             <span className="price-tag">
-                                                ${model.inputPrice}/${model.outputPrice}
+                                                {formatPrice(model.inputPrice)} / {formatPrice(model.outputPrice)}
                                             </span>
                                         </div>
                                     </div>
@@ -305,16 +680,242 @@ function AdminPage() {
                             ))}
                         </div>
 
+                        <section className="rates-editor">
+                            <h2>{t('admin.exchangeRates')}</h2>
+                            <p className="rates-hint">{t('admin.exchangeRatesHint')}</p>
+                            <table className="rates-table">
+                                <thead>
+                                    <tr>
+                                        <th>{t('admin.currencyCode')}</th>
+                                        <th>{t('admin.rate')}</th>
+                                        <th />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rateRows.map((row, i) => {
+                                        const isBase = row.code === BASE_CURRENCY;
+                                        return (
+                                            <tr key={i}>
+                                                <td>
+                                                    <input
+                                                        type="text"
+                                                        value={row.code}
+                                                        onChange={(e) => updateRateRow(i, { code: e.target.value.toUpperCase() })}
+                                                        maxLength={3}
+                                                        placeholder="EUR"
+                                                        disabled={isBase}
+                                                        className="search-input"
+                                                    />
+                                                </td>
+                                                <td>
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        step="any"
+                                                        value={row.rate}
+                                                        onChange={(e) => updateRateRow(i, { rate: e.target.value })}
+                                                        disabled={isBase}
+                                                        className="search-input"
+                                                    />
+                                                </td>
+                                                <td>
+                                                    {isBase ? (
+                                                        <span className="preset-default-tag">{t('admin.baseCurrency')}</span>
+                                                    ) : (
+                                                        <button
+                                                            className="preset-icon-btn"
+                                                            onClick={() => setRateRows(prev => prev.filter((_, j) => j !== i))}
+                                                            title={t('common.remove')}
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            <button
+                                onClick={() => setRateRows(prev => [...prev, { code: '', rate: '' }])}
+                                className="action-btn"
+                            >
+                                {t('admin.addCurrency')}
+                            </button>
+                        </section>
+
+                        <BenchmarkPanel
+                            benchmarks={benchmarks}
+                            allModels={allModels}
+                            onChange={setBenchmarks}
+                        />
+
                         <div className="save-bar">
                             {saveMessage && <div className="save-message">{saveMessage}</div>}
                             <button
                                 onClick={handleSave}
                                 className="save-btn"
-                                disabled={saving}
+                                disabled={saving || duplicateIds.size > 0}
                             >
-                                {saving ? 'Saving...' : '💾 Save Config'}
+                                {saving ? t('admin.saving') : t('admin.save')}
                             </button>
                         </div>
+
+                        {validation && <ValidationPanel reports={validation} />}
+
+                        <AnnotationsPanel
+                            authorization={getAuthorization(session)}
+                            allModels={allModels}
+                        />
+
+                        <WatchlistPanel
+                            authorization={getAuthorization(session)}
+                            allModels={allModels}
+                        />
+
+                        {versions.length > 0 && (
+                            <section className="version-history">
+                                <h2>{t('admin.versionHistory')}</h2>
+
+                                <div className="version-layout">
+                                    <ul className="version-list">
+                                        {versions.map((v, i) => (
+                                            <li key={v.version} className={i === 0 ? 'current' : undefined}>
+                                                <div className="version-info">
+                                                    <strong>v{v.version}</strong>
+                                                    {i === 0 && <span className="version-current-tag">{t('admin.current')}</span>}
+                                                    <span className="version-meta">
+                                                        {v.updatedAt ? formatDateTime(v.updatedAt) : v.source}
+                                                        {v.updatedBy && ` · ${v.updatedBy}`}
+                                                        {` · ${t('admin.versionSummary', { presets: v.presets.length, count: v.count })}`}
+                                                    </span>
+                                                    {v.note && <span className="version-note">{v.note}</span>}
+                                                </div>
+                                                <div className="version-actions">
+                                                    {i < versions.length - 1 && (
+                                                        <button
+                                                            className="action-btn"
+                                                            onClick={() => {
+                                                                setDiffFrom(versions[i + 1].version);
+                                                                setDiffTo(v.version);
+                                                            }}
+                                                        >
+                                                            {t('admin.diff')}
+                                                        </button>
+                                                    )}
+                                                    {i > 0 && (
+                                                        <button className="action-btn" onClick={() => handleRollback(v.version)}>
+                                                            {t('admin.rollback')}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+
+                                    <div className="version-diff">
+                                        <div className="version-diff-select">
+                                            <select
+                                                value={diffFrom ?? ''}
+                                                onChange={(e) => setDiffFrom(Number(e.target.value))}
+                                                className="provider-select"
+                                            >
+                                                {versions.map(v => (
+                                                    <option key={v.version} value={v.version}>v{v.version}</option>
+                                                ))}
+                                            </select>
+                                            <span>→</span>
+                                            <select
+                                                value={diffTo ?? ''}
+                                                onChange={(e) => setDiffTo(Number(e.target.value))}
+                                                className="provider-select"
+                                            >
+                                                {versions.map(v => (
+                                                    <option key={v.version} value={v.version}>v{v.version}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+
+                                        {versionDiff && (
+                                            isEmptyConfigDiff(versionDiff) ? (
+                                                <p className="diff-empty">{t('admin.noDifferences')}</p>
+                                            ) : (
+                                                <>
+                                                    {versionDiff.presetsReordered && (
+                                                        <ul className="diff-list">
+                                                            <li className="diff-reordered">{t('admin.presetsReordered')}</li>
+                                                        </ul>
+                                                    )}
+                                                    {versionDiff.presets.map(d => (
+                                                        <div key={d.id} className="preset-diff">
+                                                            <h3>
+                                                                {d.title}
+                                                                {d.status !== 'changed' && (
+                                                                    <span className={`diff-${d.status}`}> ({t(`admin.diffStatus.${d.status}`)})</span>
+                                                                )}
+                                                            </h3>
+                                                            <ul className="diff-list">
+                                                                {d.renamed && (
+                                                                    <li className="diff-reordered">{t('admin.renamed')}</li>
+                                                                )}
+                                                                {d.models.added.map(id => (
+                                                                    <li key={`+${id}`} className="diff-added">+ {id}</li>
+                                                                ))}
+                                                                {d.models.removed.map(id => (
+                                                                    <li key={`-${id}`} className="diff-removed">− {id}</li>
+                                                                ))}
+                                                                {d.models.reordered && (
+                                                                    <li className="diff-reordered">{t('admin.reordered')}</li>
+                                                                )}
+                                                            </ul>
+                                                        </div>
+                                                    ))}
+                                                    {versionDiff.exchangeRates.length > 0 && (
+                                                        <div className="preset-diff">
+                                                            <h3>{t('admin.exchangeRates')}</h3>
+                                                            <ul className="diff-list">
+                                                                {versionDiff.exchangeRates.map(d => (
+                                                                    d.from === null ? (
+                                                                        <li key={d.code} className="diff-added">+ {d.code} {d.to}</li>
+                                                                    ) : d.to === null ? (
+                                                                        <li key={d.code} className="diff-removed">− {d.code} {d.from}</li>
+                                                                    ) : (
+                                                                        <li key={d.code} className="diff-reordered">~ {d.code} {d.from} → {d.to}</li>
+                                                                    )
+                                                                ))}
+                                                            </ul>
+                                                        </div>
+                                                    )}
+                                                    {versionDiff.benchmarksReordered && (
+                                                        <ul className="diff-list">
+                                                            <li className="diff-reordered">{t('admin.benchmarksReordered')}</li>
+                                                        </ul>
+                                                    )}
+                                                    {versionDiff.benchmarks.map(d => (
+                                                        <div key={d.id} className="preset-diff">
+                                                            <h3>
+                                                                {d.name}
+                                                                {d.status !== 'changed' && (
+                                                                    <span className={`diff-${d.status}`}> ({t(`admin.diffStatus.${d.status}`)})</span>
+                                                                )}
+                                                            </h3>
+                                                            <ul className="diff-list">
+                                                                {d.renamed && (
+                                                                    <li className="diff-reordered">{t('admin.benchmarkRenamed')}</li>
+                                                                )}
+                                                                {d.changedScores.length > 0 && (
+                                                                    <li className="diff-reordered">{t('admin.scoresChanged', { count: d.changedScores.length })}</li>
+                                                                )}
+                                                            </ul>
+                                                        </div>
+                                                    ))}
+                                                </>
+                                            )
+                                        )}
+                                    </div>
+                                </div>
+                            </section>
+                        )}
                     </>
                 )}
             </main>
@@ -0,0 +1,261 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import type { Model } from '../types';
+import { fetchModelsByIds } from '../utils/api';
+import { CAPABILITIES } from '../utils/capabilities';
+import { buildComparePath } from '../utils/urlState';
+import LanguageSwitcher from '../components/LanguageSwitcher';
+import PriceMenu from '../components/PriceMenu';
+import type { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/context';
+import type { I18n } from '../i18n/context';
+import './ComparePage.css';
+
+// 一行对比字段：value 用于判断差异，render 用于显示（按当前语言格式化）
+interface CompareRow {
+    label: MessageKey;
+    value: (model: Model) => string | number;
+    render?: (model: Model, i18n: I18n) => ReactNode;
+    // 与基准模型的比值；lowerIsBetter 决定比值的颜色
+    ratio?: { get: (model: Model) => number; lowerIsBetter: boolean };
+}
+
+const formatList = (values: string[] | undefined): string =>
+    (values && values.length > 0 ? values : ['text']).join(', ');
+
+const ROWS: CompareRow[] = [
+    { label: 'compare.row.provider', value: m => m.provider },
+    {
+        label: 'compare.row.description',
+        value: m => m.description,
+        render: m => <p className="compare-description">{m.description || '-'}</p>,
+    },
+    { label: 'compare.row.releaseDate', value: m => m.createdAt || '', render: (m, { formatDate }) => (m.createdAt ? formatDate(m.createdAt) : '-') },
+    {
+        label: 'compare.row.contextLength',
+        value: m => m.contextLength,
+        render: m => m.contextLengthFormatted || '-',
+        ratio: { get: m => m.contextLength, lowerIsBetter: false },
+    },
+    {
+        label: 'compare.row.maxOutput',
+        value: m => m.maxOutput,
+        render: m => m.maxOutputFormatted || '-',
+        ratio: { get: m => m.maxOutput, lowerIsBetter: false },
+    },
+    {
+        label: 'compare.row.inputPrice',
+        value: m => m.inputPrice,
+        render: (m, { formatPrice }) => formatPrice(m.inputPrice),
+        ratio: { get: m => m.inputPrice, lowerIsBetter: true },
+    },
+    {
+        label: 'compare.row.outputPrice',
+        value: m => m.outputPrice,
+        render: (m, { formatPrice }) => formatPrice(m.outputPrice),
+        ratio: { get: m => m.outputPrice, lowerIsBetter: true },
+    },
+    {
+        label: 'compare.row.cacheRead',
+        value: m => m.pricing?.cacheRead ?? '',
+        render: (m, { formatOptionalPrice }) => formatOptionalPrice(m.pricing?.cacheRead),
+    },
+    {
+        label: 'compare.row.cacheWrite',
+        value: m => m.pricing?.cacheWrite ?? '',
+        render: (m, { formatOptionalPrice }) => formatOptionalPrice(m.pricing?.cacheWrite),
+    },
+    {
+        label: 'compare.row.reasoning',
+        value: m => m.pricing?.internalReasoning ?? '',
+        render: (m, { formatOptionalPrice }) => formatOptionalPrice(m.pricing?.internalReasoning),
+    },
+    {
+        label: 'compare.row.perRequest',
+        value: m => m.pricing?.request ?? '',
+        render: (m, { formatUnitPrice }) => formatUnitPrice(m.pricing?.request),
+    },
+    {
+        label: 'compare.row.perImage',
+        value: m => m.pricing?.image ?? '',
+        render: (m, { formatUnitPrice }) => formatUnitPrice(m.pricing?.image),
+    },
+    ...CAPABILITIES.map((c): CompareRow => ({
+        label: c.label,
+        value: m => (c.params.some(p => m.supportedParameters?.includes(p)) ? 'yes' : 'no'),
+        render: (m, { t }) => (c.params.some(p => m.supportedParameters?.includes(p)) ? `${c.icon} ${t('common.yes')}` : '-'),
+    })),
+    { label: 'compare.row.tokenizer', value: m => m.tokenizer || '', render: m => m.tokenizer || '-' },
+    {
+        label: 'compare.row.moderated',
+        value: m => (m.isModerated ? 'yes' : 'no'),
+        render: (m, { t }) => (m.isModerated ? `🛡️ ${t('common.yes')}` : t('common.no')),
+    },
+    {
+        label: 'compare.row.expires',
+        value: m => m.expirationDate || '',
+        render: (m, { formatDate }) => (m.expirationDate ? formatDate(m.expirationDate) : '-'),
+    },
+    { label: 'compare.row.modality', value: m => m.modality },
+    {
+        label: 'compare.row.inputModalities',
+        value: m => formatList([...(m.inputModalities || [])].sort()),
+        render: m => formatList(m.inputModalities),
+    },
+    {
+        label: 'compare.row.outputModalities',
+        value: m => formatList([...(m.outputModalities || [])].sort()),
+        render: m => formatList(m.outputModalities),
+    },
+];
+
+// 解析路由参数中的模型 ID 列表（逗号分隔）
+const parseIds = (ids: string | undefined): string[] =>
+    (ids || '').split(',').map(id => id.trim()).filter(Boolean);
+
+function ComparePage() {
+    const { ids } = useParams<{ ids: string }>();
+    const navigate = useNavigate();
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    const [allModels, setAllModels] = useState<Model[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const requestedIds = useMemo(() => parseIds(ids), [ids]);
+
+    // 只加载路由中的模型；ID 变化（如浏览器后退）时重新加载
+    useEffect(() => {
+        fetchModelsByIds(requestedIds)
+            .then(data => setAllModels(data.models))
+            .catch(err => setError(err instanceof Error ? err.message : ''))
+            .finally(() => setLoading(false));
+    }, [requestedIds]);
+
+    // 保持路由中的顺序，第一个模型作为比值基准
+    const models = useMemo(
+        () => requestedIds
+            .map(id => allModels.find(m => m.id === id))
+            .filter((m): m is Model => m !== undefined),
+        [requestedIds, allModels]
+    );
+
+    const missingIds = requestedIds.filter(id => !allModels.some(m => m.id === id));
+
+    const setBaseline = (modelId: string) => {
+        navigate(buildComparePath([modelId, ...models.map(m => m.id).filter(id => id !== modelId)]));
+    };
+
+    const removeModel = (modelId: string) => {
+        navigate(buildComparePath(models.map(m => m.id).filter(id => id !== modelId)));
+    };
+
+    const renderRatio = (row: CompareRow, model: Model, base: Model) => {
+        if (!row.ratio || model === base) return null;
+        const baseValue = row.ratio.get(base);
+        const value = row.ratio.get(model);
+        if (baseValue <= 0) return null;
+
+        const ratio = value / baseValue;
+        const better = row.ratio.lowerIsBetter ? ratio < 1 : ratio > 1;
+        const className = ratio === 1 ? 'ratio-same' : better ? 'ratio-better' : 'ratio-worse';
+        return <span className={`compare-ratio ${className}`}>×{ratio.toFixed(2)}</span>;
+    };
+
+    const backLink = `/?models=${encodeURIComponent(models.map(m => m.id).join(','))}`;
+
+    if (loading) {
+        return (
+            <div className="compare-page">
+                <div className="compare-loading">{t('common.loadingModels')}</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="compare-page">
+            <header className="compare-header">
+                <div>
+                    <h1>{t('compare.title')}</h1>
+                    <p>{t('compare.subtitle')}</p>
+                </div>
+                <div className="compare-header-actions">
+                    <PriceMenu />
+                    <LanguageSwitcher />
+                    <Link to={backLink} className="compare-back">{t('compare.back')}</Link>
+                </div>
+            </header>
+
+            <main className="compare-main">
+                {error !== null && (
+                    <div className="compare-notice error">
+                        {error ? t('app.dataLoadFailed', { detail: error }) : t('app.unknownError')}
+                    </div>
+                )}
+
+                {missingIds.length > 0 && (
+                    <div className="compare-notice">
+                        {t('common.notInCatalog', { ids: missingIds.join(', ') })}
+                    </div>
+                )}
+
+                {models.length === 0 ? (
+                    <div className="compare-loading">{t('compare.empty')}</div>
+                ) : (
+                    <div className="compare-table-container">
+                        <table className="compare-table">
+                            <thead>
+                                <tr>
+                                    <th className="compare-field">{t('compare.field')}</th>
+                                    {models.map((model, i) => (
+                                        <th key={model.id} className={i === 0 ? 'compare-baseline' : undefined}>
+                                            <div className="compare-model-name">{model.name}</div>
+                                            <div className="compare-model-id">{model.id}</div>
+                                            <div className="compare-model-actions">
+                                                <a href={model.openRouterUrl} target="_blank" rel="noopener noreferrer">
+                                                    {t('common.view')}
+                                                </a>
+                                                {i === 0 ? (
+                                                    <span className="baseline-tag">{t('compare.baseline')}</span>
+                                                ) : (
+                                                    <button onClick={() => setBaseline(model.id)}>{t('compare.setBaseline')}</button>
+                                                )}
+                                                {models.length > 1 && (
+                                                    <button onClick={() => removeModel(model.id)} title={t('common.remove')}>✕</button>
+                                                )}
+                                            </div>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ROWS.map(row => {
+                                    const base = models[0];
+                                    const baseValue = row.value(base);
+                                    return (
+                                        <tr key={row.label}>
+                                            <th className="compare-field">{t(row.label, { unit: i18n.priceUnit })}</th>
+                                            {models.map(model => (
+                                                <td
+                                                    key={model.id}
+                                                    className={model !== base && row.value(model) !== baseValue ? 'compare-diff' : undefined}
+                                                >
+                                                    {row.render ? row.render(model, i18n) : row.value(model)}
+                                                    {renderRatio(row, model, base)}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
+
+export default ComparePage;
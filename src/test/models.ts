@@ -0,0 +1,25 @@
+import type { Model } from '../types';
+
+/**
+ * 测试用模型：只需填写与用例相关的字段
+ */
+export function createModel(overrides: Partial<Model> & Pick<Model, 'id'>): Model {
+    const slash = overrides.id.indexOf('/');
+    return {
+        name: overrides.id.slice(slash + 1),
+        provider: slash === -1 ? '' : overrides.id.slice(0, slash),
+        description: '',
+        contextLength: 128000,
+        contextLengthFormatted: '128K',
+        maxOutput: 16384,
+        maxOutputFormatted: '16K',
+        inputPrice: 1,
+        outputPrice: 2,
+        modality: 'text->text',
+        inputModalities: ['text'],
+        outputModalities: ['text'],
+        openRouterUrl: `https://openrouter.ai/${overrides.id}`,
+        createdAt: null,
+        ...overrides,
+    };
+}
@@ -14,12 +14,83 @@ export interface Model {
     outputModalities: string[];
     openRouterUrl: string;
     createdAt: string | null;
+    // 以下字段由较新的同步脚本生成，旧数据中可能缺失
+    pricing?: ModelPricing;
+    tokenizer?: string | null;
+    supportedParameters?: string[];
+    isModerated?: boolean;
+    expirationDate?: string | null;
+    // 管理员维护的注释（只有 /api/models 返回，且只有带注释的模型才有）
+    annotation?: ModelAnnotation;
+    // 本地价格表中匹配到的价格（只有匹配到的模型才有）
+    sourcePrices?: SourcePrice[];
+}
+
+// 其他来源的价格（见 api/_lib/priceSources.js），美元 / 每百万 token
+export interface SourcePrice {
+    source: string;
+    // 价格表中匹配到的条目
+    key: string;
+    inputPrice: number;
+    outputPrice: number;
+}
+
+// 本地价格表：LiteLLM 风格的 model_prices 文件或手工维护的厂商价格表
+export interface PriceSource {
+    id: string;
+    name: string;
+    format: 'litellm' | 'sheet';
+    // 价格表中的条目数和匹配到的模型数
+    entries: number;
+    matched: number;
+}
+
+// 托管模型的一个上游服务商（见 api/_lib/endpoints.js），价格为美元 / 每百万 token
+export interface ModelEndpoint {
+    provider: string;
+    tag: string | null;
+    inputPrice: number;
+    outputPrice: number;
+    contextLength: number;
+    // 服务商未公布时为 null
+    maxOutput: number | null;
+    quantization: string | null;
+}
+
+export interface ModelEndpoints {
+    modelId: string;
+    updatedAt: string | null;
+    endpoints: ModelEndpoint[];
+}
+
+// 团队对模型的标签、备注和内部评分（见 api/_lib/annotations.js）
+export interface ModelAnnotation {
+    tags: string[];
+    note: string;
+    // 1-5，未评分为 null
+    rating: number | null;
+    updatedAt: string;
+    updatedBy: string | null;
+}
+
+// 输入/输出以外的价格；null 表示 OpenRouter 未提供
+export interface ModelPricing {
+    // 每百万 token 的美元价格
+    cacheRead: number | null;
+    cacheWrite: number | null;
+    internalReasoning: number | null;
+    // 按次计费的美元价格
+    image: number | null;
+    request: number | null;
+    webSearch: number | null;
 }
 
 export interface ModelsData {
     updatedAt: string;
     totalCount: number;
     models: Model[];
+    // 旧数据或没有本地价格表时缺失
+    sources?: PriceSource[];
 }
 
 export type SortField =
@@ -28,12 +99,204 @@ export type SortField =
     | 'contextLength'
     | 'maxOutput'
     | 'inputPrice'
-    | 'outputPrice';
+    | 'outputPrice'
+    | 'costPerRequest'
+    | 'monthlyCost'
+    | 'cacheRead'
+    | 'cacheWrite'
+    | 'internalReasoning'
+    | 'requestPrice'
+    | 'imagePrice'
+    | 'webSearchPrice'
+    | 'tokenizer'
+    | 'modality'
+    | 'createdAt'
+    | 'costPerPoint'
+    | BenchmarkField
+    | SourceField;
+
+// 基准测试成绩列，如 score:mmlu
+export type BenchmarkField = `score:${string}`;
+
+// 其他价格来源的价格列，如 source:litellm
+export type SourceField = `source:${string}`;
 
 export type SortDirection = 'asc' | 'desc';
 
-// 配置：默认展示的模型 ID 列表
+// 多列排序中的一个排序键，数组中越靠前优先级越高
+export interface SortKey {
+    field: SortField;
+    direction: SortDirection;
+}
+
+// 模型表格中可显示的列
+export type ColumnId = SortField | 'description';
+
+// 表格偏好：可见列（按显示顺序）和排序键，保存在 localStorage
+export interface TablePreferences {
+    columns: ColumnId[];
+    sort: SortKey[];
+}
+
+// 表格按真实输入/输出模态筛选，要求模型支持全部所选模态
+export interface ModalityFilter {
+    input: string[];
+    output: string[];
+}
+
+// 目录筛选条件
+export interface ModelFilters {
+    providers: string[];
+    inputModalities: string[];
+    outputModalities: string[];
+    minContext: number;
+    minMaxOutput: number;
+    priceField: 'inputPrice' | 'outputPrice';
+    minPrice: number | null;
+    maxPrice: number | null;
+    freeOnly: boolean;
+    // 注释标签（需全部带有）
+    tags: string[];
+}
+
+// 工作负载：用于估算每次请求和每月的成本
+export interface Workload {
+    avgInputTokens: number;
+    avgOutputTokens: number;
+    requestsPerDay: number;
+}
+
+// 价格显示单位：每 1M token、每 1K token、按给定 token 数的单次请求
+export type PriceUnit = 'per1M' | 'per1K' | 'perRequest';
+
+// 价格显示设置（保存在浏览器中）
+export interface PriceDisplay {
+    currency: string;
+    unit: PriceUnit;
+    // unit 为 perRequest 时每次请求的 token 数
+    requestTokens: number;
+}
+
+// 汇率：1 美元可兑换的各货币数量，USD 固定为 1
+export type ExchangeRates = Record<string, number>;
+
+// 管理员导入的基准测试成绩（见 api/_lib/benchmarks.js），第一个为主基准
+export interface Benchmark {
+    id: string;
+    name: string;
+    // 模型 ID -> 分数（越高越好）
+    scores: Record<string, number>;
+}
+
+// 历史记录中追踪变化的字段
+export type TrackedField = 'inputPrice' | 'outputPrice' | 'contextLength' | 'maxOutput';
+
+export interface FieldChange {
+    field: TrackedField;
+    from: number;
+    to: number;
+}
+
+// 模型时间线上的一个价格点
+export interface PricePoint {
+    date: string;
+    event: 'baseline' | 'added' | 'changed' | 'removed';
+    inputPrice: number;
+    outputPrice: number;
+    contextLength: number;
+    maxOutput: number;
+    changes?: FieldChange[];
+}
+
+export interface ModelTimeline {
+    modelId: string;
+    since: string | null;
+    points: PricePoint[];
+    current: Model | null;
+    /** 服务端是否记录了历史（Vercel 部署不运行同步脚本） */
+    available: boolean;
+}
+
+// 命名的模型预设，如 "Coding"、"Long context"
+export interface ModelPreset {
+    id: string;
+    title: string;
+    description: string;
+    models: string[];
+}
+
+// 配置：模型预设，第一个预设的列表即默认展示的模型 ID 列表
 export interface SiteConfig {
     defaultModels: string[];
-    updatedAt: string;
+    presets: ModelPreset[];
+    exchangeRates: ExchangeRates;
+    // 旧版本服务端不返回
+    benchmarks?: Benchmark[];
+    count: number;
+    version: number;
+    source: 'admin' | 'environment' | 'fallback';
+    storage: 'file' | 'memory';
+    updatedAt: string | null;
+    updatedBy: string | null;
+    // 当前版本中已不在目录里的模型（只有当前配置返回，目录不可用时为 null）
+    missingModels?: MissingModel[] | null;
+}
+
+// 配置中已下架的模型及可能的替代模型（见 api/_lib/staleModels.js）
+export interface MissingModel {
+    id: string;
+    // 引用该模型的预设 ID
+    presets: string[];
+    suggestions: { id: string; name: string; createdAt: string | null }[];
+}
+
+// 配置的历史版本
+export interface ConfigVersion extends SiteConfig {
+    note: string;
+}
+
+// 上游数据校验报告（见 api/_lib/validate.js）
+export interface ValidationReport {
+    checkedAt: string;
+    source: 'sync' | 'api';
+    published: boolean;
+    received: number;
+    accepted: number;
+    rejected: { id: string; reason: string }[];
+    quarantined: { id: string; field: string; from: number; to: number; reason: string }[];
+    removed: string[];
+    failures: string[];
+}
+
+export interface ValidationReports {
+    sync: ValidationReport | null;
+    api: ValidationReport | null;
+}
+
+// 关注列表（见 api/_lib/watchlists.js）
+export type WatchTrigger = 'any' | 'removed' | 'price-change' | 'price-increase';
+
+export interface Watchlist {
+    id: string;
+    name: string;
+    models: string[];
+    webhookUrl: string;
+    format: 'slack' | 'generic';
+    trigger: WatchTrigger;
+    minPercent: number;
+    // 服务端生成的签名密钥（X-Webhook-Signature）
+    secret: string;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    watchlistId: string;
+    watchlistName: string;
+    url: string;
+    eventCount: number;
+    createdAt: string;
+    status: 'delivered' | 'failed';
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
 }
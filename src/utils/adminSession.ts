@@ -0,0 +1,69 @@
+// 管理员会话：登录后由 /api/auth/login 签发的令牌，保存在 sessionStorage（不保存密码）
+export interface AdminSession {
+    token: string;
+    expiresAt: string;
+    username: string;
+}
+
+export type LoginResult =
+    | { session: AdminSession }
+    // retryAfter：登录失败次数过多时需要等待的秒数
+    | { error: string; retryAfter?: number };
+
+const STORAGE_KEY = 'adminSession';
+
+// 到期前多久自动续期
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const isExpired = (session: AdminSession) => Date.parse(session.expiresAt) <= Date.now();
+
+// 读取未过期的会话
+export function loadSession(): AdminSession | null {
+    try {
+        const saved: AdminSession | null = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null');
+        return saved?.token && !isExpired(saved) ? saved : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(session: AdminSession): void {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession(): void {
+    sessionStorage.removeItem(STORAGE_KEY);
+}
+
+// Authorization 请求头的值
+export const getAuthorization = (session: AdminSession) => `Bearer ${session.token}`;
+
+export async function login(username: string, password: string): Promise<LoginResult> {
+    const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+        return { error: data.message || '', retryAfter: data.retryAfter };
+    }
+    return { session: data };
+}
+
+// 续期：返回新会话，令牌已失效时返回 null（网络错误时抛出）
+export async function refreshSession(session: AdminSession): Promise<AdminSession | null> {
+    const res = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Authorization': getAuthorization(session) }
+    });
+    return res.ok ? res.json() : null;
+}
+
+export async function logout(session: AdminSession): Promise<void> {
+    await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Authorization': getAuthorization(session) }
+    });
+}
@@ -0,0 +1,32 @@
+import type { ExchangeRates, ModelsData, SiteConfig } from '../types';
+import { BASE_EXCHANGE_RATES } from './currency';
+
+// 获取模型数据，API 不可用时回退到静态文件
+// 错误信息只包含状态码，页面显示时加上本地化的说明（app.dataLoadFailed）
+export async function fetchModelsData(): Promise<ModelsData> {
+    const res = await fetch('/api/models').catch(() => fetch('/data/models.json'));
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+}
+
+// 按 ID 批量获取模型（只传输需要的模型），API 不可用时从完整数据中筛选
+export async function fetchModelsByIds(ids: string[]): Promise<ModelsData> {
+    if (ids.length === 0) return { updatedAt: '', totalCount: 0, models: [] };
+
+    const query = ids.map(encodeURIComponent).join(',');
+    const res = await fetch(`/api/models?ids=${query}`).catch(() => null);
+    if (res?.ok && res.headers.get('content-type')?.includes('application/json')) {
+        return res.json();
+    }
+
+    const data = await fetchModelsData();
+    return { ...data, models: data.models.filter(m => ids.includes(m.id)) };
+}
+
+// 获取管理员配置的汇率，配置不可用时只能显示美元
+export async function fetchExchangeRates(): Promise<ExchangeRates> {
+    const res = await fetch('/api/config').catch(() => null);
+    if (!res?.ok) return BASE_EXCHANGE_RATES;
+    const config: SiteConfig = await res.json();
+    return config.exchangeRates || BASE_EXCHANGE_RATES;
+}
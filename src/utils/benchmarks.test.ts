@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { parseBenchmarkFile, matchModel, mergeBenchmarks, getCostPerPoint } from './benchmarks';
+import type { ParsedBenchmarks } from './benchmarks';
+
+const models = [
+    createModel({ id: 'openai/gpt-4o', name: 'OpenAI: GPT-4o' }),
+    createModel({ id: 'openai/gpt-4o-mini', name: 'OpenAI: GPT-4o-mini' }),
+    createModel({ id: 'anthropic/claude-3.5-sonnet', name: 'Anthropic: Claude 3.5 Sonnet' }),
+    createModel({ id: 'meta-llama/llama-3-8b-instruct', name: 'Meta: Llama 3 8B Instruct' }),
+    createModel({ id: 'meta-llama/llama-3-8b-instruct:free', name: 'Meta: Llama 3 8B Instruct (free)' }),
+];
+
+describe('parseBenchmarkFile', () => {
+    it('reads CSV with a model column, quoted cells and percentages', () => {
+        const csv = 'Rank,Model,MMLU,"Human, Eval"\n1,gpt-4o,88.7%,90.2\n2,"Claude 3.5 ""Sonnet""",88.3,\n';
+        expect(parseBenchmarkFile(csv, 'scores.csv')).toEqual({
+            names: ['Rank', 'MMLU', 'Human, Eval'],
+            rows: [
+                { key: 'gpt-4o', scores: { Rank: 1, MMLU: 88.7, 'Human, Eval': 90.2 } },
+                { key: 'Claude 3.5 "Sonnet"', scores: { Rank: 2, MMLU: 88.3 } },
+            ],
+        });
+    });
+
+    it('detects semicolon and tab delimiters', () => {
+        expect(parseBenchmarkFile('model;MMLU;GPQA\ngpt-4o;88.7;53.6', 'scores.csv')).toEqual({
+            names: ['MMLU', 'GPQA'],
+            rows: [{ key: 'gpt-4o', scores: { MMLU: 88.7, GPQA: 53.6 } }],
+        });
+        expect(parseBenchmarkFile('id\tGPQA\ngpt-4o\t53.6', 'scores.tsv')).toEqual({
+            names: ['GPQA'],
+            rows: [{ key: 'gpt-4o', scores: { GPQA: 53.6 } }],
+        });
+    });
+
+    it('reads JSON arrays and objects keyed by model', () => {
+        expect(parseBenchmarkFile('[{"model": "gpt-4o", "MMLU": 88.7, "notes": "n/a"}]', 'a.json')).toEqual({
+            names: ['MMLU'],
+            rows: [{ key: 'gpt-4o', scores: { MMLU: 88.7 } }],
+        });
+        expect(parseBenchmarkFile('{"gpt-4o": {"MMLU": "88.7%"}}', 'a.JSON')).toEqual({
+            names: ['MMLU'],
+            rows: [{ key: 'gpt-4o', scores: { MMLU: 88.7 } }],
+        });
+    });
+
+    it('reports files it cannot use', () => {
+        expect(parseBenchmarkFile('model,MMLU', 'a.csv')).toEqual({ error: 'benchmarks.errorEmpty' });
+        expect(parseBenchmarkFile('model\ngpt-4o', 'a.csv')).toEqual({ error: 'benchmarks.errorNoScores' });
+        expect(parseBenchmarkFile('{not json', 'a.json')).toEqual({ error: 'benchmarks.errorFormat' });
+        expect(parseBenchmarkFile('[{"model": "gpt-4o"}]', 'a.json')).toEqual({ error: 'benchmarks.errorNoScores' });
+    });
+});
+
+describe('matchModel', () => {
+    it('matches full IDs exactly, ignoring case', () => {
+        expect(matchModel('OpenAI/GPT-4o', models)).toEqual({ modelId: 'openai/gpt-4o', method: 'exact' });
+    });
+
+    it('matches IDs and names without provider or separators', () => {
+        expect(matchModel('gpt-4o', models)).toEqual({ modelId: 'openai/gpt-4o', method: 'normalized' });
+        expect(matchModel('Claude 3.5 Sonnet', models)).toEqual({ modelId: 'anthropic/claude-3.5-sonnet', method: 'normalized' });
+    });
+
+    it('prefers the model without a variant suffix', () => {
+        expect(matchModel('llama-3-8b-instruct', models)?.modelId).toBe('meta-llama/llama-3-8b-instruct');
+    });
+
+    it('falls back to fuzzy search and gives up on no match', () => {
+        expect(matchModel('sonnet 3.5', models)).toEqual({ modelId: 'anthropic/claude-3.5-sonnet', method: 'fuzzy' });
+        expect(matchModel('qwen-72b', models)).toBeNull();
+    });
+});
+
+describe('mergeBenchmarks', () => {
+    const parsed: ParsedBenchmarks = {
+        names: ['mmlu', 'HumanEval+'],
+        rows: [
+            { key: 'gpt-4o', scores: { mmlu: 90, 'HumanEval+': 87 } },
+            { key: 'unknown', scores: { mmlu: 50 } },
+        ],
+    };
+
+    it('updates same-named benchmarks and adds new ones, skipping unmatched rows', () => {
+        const existing = [{ id: 'mmlu', name: 'MMLU', scores: { 'anthropic/claude-3.5-sonnet': 88.3 } }];
+        expect(mergeBenchmarks(existing, parsed, ['openai/gpt-4o', null])).toEqual([
+            { id: 'mmlu', name: 'MMLU', scores: { 'anthropic/claude-3.5-sonnet': 88.3, 'openai/gpt-4o': 90 } },
+            { id: 'humaneval', name: 'HumanEval+', scores: { 'openai/gpt-4o': 87 } },
+        ]);
+    });
+
+    it('gives new benchmarks unique IDs', () => {
+        const existing = [{ id: 'mmlu', name: 'MMLU (old)', scores: {} }];
+        expect(mergeBenchmarks(existing, parsed, ['openai/gpt-4o', null])[1].id).toBe('mmlu-2');
+    });
+});
+
+describe('getCostPerPoint', () => {
+    it('divides the blended price by the first benchmark score', () => {
+        const model = createModel({ id: 'openai/gpt-4o', inputPrice: 4, outputPrice: 8 });
+        expect(getCostPerPoint(model, [{ id: 'mmlu', name: 'MMLU', scores: { 'openai/gpt-4o': 50 } }])).toBe(0.1);
+        expect(getCostPerPoint(model, [{ id: 'mmlu', name: 'MMLU', scores: {} }])).toBeNull();
+        expect(getCostPerPoint(model, [])).toBeNull();
+    });
+});
@@ -0,0 +1,253 @@
+import type { Benchmark, BenchmarkField, Model } from '../types';
+import type { MessageKey } from '../i18n';
+import { getBlendedPrice } from './chart';
+import { rankModels } from './search';
+
+const FIELD_PREFIX = 'score:';
+
+export const getBenchmarkField = (id: string): BenchmarkField => `${FIELD_PREFIX}${id}`;
+
+export const isBenchmarkField = (field: string): field is BenchmarkField =>
+    field.startsWith(FIELD_PREFIX) && field.length > FIELD_PREFIX.length;
+
+export const getBenchmarkId = (field: BenchmarkField): string => field.slice(FIELD_PREFIX.length);
+
+// 模型在某个基准上的分数，未测或基准不存在时为 null
+export function getBenchmarkScore(model: Model, benchmarks: Benchmark[], field: BenchmarkField): number | null {
+    const benchmark = benchmarks.find(b => b.id === getBenchmarkId(field));
+    return benchmark?.scores[model.id] ?? null;
+}
+
+/**
+ * 每分成本：混合价格（美元 / 每百万 token）除以主基准分数
+ * 没有主基准、模型未测或分数为 0 时为 null
+ */
+export function getCostPerPoint(model: Model, benchmarks: Benchmark[]): number | null {
+    const score = benchmarks[0]?.scores[model.id];
+    if (!score) return null;
+    return getBlendedPrice(model) / score;
+}
+
+// 导入文件中的一行：文件里的模型标识和各基准的分数
+export interface BenchmarkRow {
+    key: string;
+    scores: Record<string, number>;
+}
+
+export interface ParsedBenchmarks {
+    // 文件中的基准名称（按列顺序）
+    names: string[];
+    rows: BenchmarkRow[];
+}
+
+export type ParseResult = ParsedBenchmarks | { error: MessageKey };
+
+// 可作为模型列的表头 / 字段名
+const MODEL_KEYS = ['model', 'model_id', 'modelid', 'model id', 'id', 'name', 'model name', 'model_name'];
+
+// 分数可以带百分号，如 "88.7%"；空值或非数字视为未测
+function parseScore(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+    if (typeof value !== 'string') return null;
+
+    const text = value.trim().replace(/%$/, '');
+    if (!text) return null;
+    const score = Number(text);
+    return Number.isFinite(score) && score >= 0 ? score : null;
+}
+
+/**
+ * 拆分一行 CSV，支持双引号包裹的字段和转义的双引号（""）
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * CSV：第一行为表头，模型列为 model / id / name 等（没有时取第一列），其余每列为一个基准
+ * 分隔符按表头自动识别（逗号、分号或制表符）
+ */
+function parseCsv(text: string): ParseResult {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) return { error: 'benchmarks.errorEmpty' };
+
+    const delimiter = [',', ';', '\t'].reduce((best, d) =>
+        lines[0].split(d).length > lines[0].split(best).length ? d : best
+    );
+    const header = splitCsvLine(lines[0], delimiter);
+    const foundModelColumn = header.findIndex(h => MODEL_KEYS.includes(h.toLowerCase()));
+    const modelColumn = foundModelColumn === -1 ? 0 : foundModelColumn;
+
+    const columns = header
+        .map((name, index) => ({ name, index }))
+        .filter(c => c.index !== modelColumn && c.name);
+    if (columns.length === 0) return { error: 'benchmarks.errorNoScores' };
+
+    const rows = lines.slice(1).map(line => {
+        const cells = splitCsvLine(line, delimiter);
+        const scores: Record<string, number> = {};
+        for (const { name, index } of columns) {
+            const score = parseScore(cells[index]);
+            if (score !== null) scores[name] = score;
+        }
+        return { key: cells[modelColumn] || '', scores };
+    });
+
+    return { names: columns.map(c => c.name), rows };
+}
+
+/**
+ * JSON：对象数组 [{ "model": "gpt-4o", "MMLU": 88.7 }]
+ * 或以模型为键的对象 { "gpt-4o": { "MMLU": 88.7 } }
+ */
+function parseJson(text: string): ParseResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { error: 'benchmarks.errorFormat' };
+    }
+
+    let entries: [string, Record<string, unknown>][];
+    if (Array.isArray(data)) {
+        entries = data
+            .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+            .map(item => {
+                const modelKey = Object.keys(item).find(k => MODEL_KEYS.includes(k.toLowerCase()));
+                const { [modelKey ?? '']: key, ...scores } = item;
+                return [typeof key === 'string' ? key : '', scores];
+            });
+    } else if (data && typeof data === 'object') {
+        entries = Object.entries(data)
+            .filter((entry): entry is [string, Record<string, unknown>] => !!entry[1] && typeof entry[1] === 'object');
+    } else {
+        return { error: 'benchmarks.errorFormat' };
+    }
+
+    const names: string[] = [];
+    const rows = entries.map(([key, values]) => {
+        const scores: Record<string, number> = {};
+        for (const [name, value] of Object.entries(values)) {
+            const score = parseScore(value);
+            if (score === null) continue;
+            scores[name] = score;
+            if (!names.includes(name)) names.push(name);
+        }
+        return { key, scores };
+    });
+
+    if (names.length === 0) return { error: 'benchmarks.errorNoScores' };
+    return { names, rows };
+}
+
+/**
+ * 解析导入的成绩文件（按扩展名区分 JSON 和 CSV），去掉没有模型标识或没有分数的行
+ */
+export function parseBenchmarkFile(text: string, fileName: string): ParseResult {
+    const result = fileName.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+    if ('error' in result) return result;
+
+    const rows = result.rows
+        .map(row => ({ ...row, key: row.key.trim() }))
+        .filter(row => row.key && Object.keys(row.scores).length > 0);
+    if (rows.length === 0) return { error: 'benchmarks.errorEmpty' };
+    return { ...result, rows };
+}
+
+// 匹配方式：完全一致的 ID > 规范化后一致的 ID 或名称 > 模糊搜索（需要人工确认）
+export type MatchMethod = 'exact' | 'normalized' | 'fuzzy';
+
+export interface ModelMatch {
+    modelId: string;
+    method: MatchMethod;
+}
+
+// 去掉大小写和分隔符，保留版本号中的点："Claude 3.5 Sonnet" -> "claude3.5sonnet"
+const compact = (text: string): string => text.toLowerCase().replace(/[^a-z0-9.]+/g, '');
+
+// 不带厂商的 ID 和名称："openai/gpt-4o" -> "gpt-4o"，"OpenAI: GPT-4o" -> "GPT-4o"
+const getAliases = (model: Model): string[] => [
+    model.id.slice(model.id.indexOf('/') + 1),
+    model.name,
+    model.name.replace(/^[^:]+:\s*/, ''),
+];
+
+/**
+ * 把文件中的模型标识匹配到目录中的模型
+ * 规范化匹配有多个候选时优先没有 :free 等变体后缀、ID 较短的模型
+ */
+export function matchModel(key: string, models: Model[]): ModelMatch | null {
+    const lower = key.toLowerCase();
+    const exact = models.find(m => m.id.toLowerCase() === lower);
+    if (exact) return { modelId: exact.id, method: 'exact' };
+
+    const target = compact(key);
+    if (!target) return null;
+
+    const normalized = models
+        .filter(m => getAliases(m).some(alias => compact(alias) === target))
+        .sort((a, b) => Number(a.id.includes(':')) - Number(b.id.includes(':')) || a.id.length - b.id.length);
+    if (normalized.length > 0) return { modelId: normalized[0].id, method: 'normalized' };
+
+    const [best] = rankModels(models, key);
+    return best ? { modelId: best.id, method: 'fuzzy' } : null;
+}
+
+// 由基准名称生成未被占用的 ID："HumanEval+" -> "humaneval"
+function createBenchmarkId(name: string, existing: string[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'benchmark';
+    let id = base;
+    for (let n = 2; existing.includes(id); n++) id = `${base}-${n}`;
+    return id;
+}
+
+/**
+ * 把导入结果合并到已有基准：同名（不区分大小写）的基准更新对应模型的分数，其余新增
+ * modelIds 与 rows 一一对应，null 表示跳过该行
+ */
+export function mergeBenchmarks(existing: Benchmark[], parsed: ParsedBenchmarks, modelIds: (string | null)[]): Benchmark[] {
+    const next = [...existing];
+
+    for (const name of parsed.names) {
+        const scores: Record<string, number> = {};
+        parsed.rows.forEach((row, i) => {
+            const modelId = modelIds[i];
+            if (modelId && row.scores[name] !== undefined) scores[modelId] = row.scores[name];
+        });
+        if (Object.keys(scores).length === 0) continue;
+
+        const index = next.findIndex(b => b.name.toLowerCase() === name.toLowerCase());
+        if (index === -1) {
+            next.push({ id: createBenchmarkId(name, next.map(b => b.id)), name, scores });
+        } else {
+            next[index] = { ...next[index], scores: { ...next[index].scores, ...scores } };
+        }
+    }
+
+    return next;
+}
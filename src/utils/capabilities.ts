@@ -0,0 +1,23 @@
+import type { Model } from '../types';
+import type { MessageKey } from '../i18n';
+
+// 由 supported_parameters 推断的模型能力
+export interface Capability {
+    key: string;
+    label: MessageKey;
+    icon: string;
+    // 支持其中任意一个参数即视为具备该能力
+    params: string[];
+}
+
+export const CAPABILITIES: Capability[] = [
+    { key: 'tools', label: 'capability.tools', icon: '🛠️', params: ['tools', 'tool_choice'] },
+    { key: 'structured', label: 'capability.structured', icon: '🧩', params: ['structured_outputs', 'response_format'] },
+    { key: 'reasoning', label: 'capability.reasoning', icon: '💭', params: ['reasoning', 'include_reasoning'] },
+];
+
+export function getCapabilities(model: Model): Capability[] {
+    const params = model.supportedParameters || [];
+    return CAPABILITIES.filter(c => c.params.some(p => params.includes(p)));
+}
+
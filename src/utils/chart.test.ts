@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { getParetoFrontier, getChartAxis, getBlendedPrice, formatTokenCount, linearTicks, logTicks } from './chart';
+
+describe('getParetoFrontier', () => {
+    const price = getChartAxis('inputPrice');
+    const context = getChartAxis('contextLength');
+
+    it('keeps models that no other model beats on both axes', () => {
+        const models = [
+            createModel({ id: 'a/cheap', inputPrice: 0.1, contextLength: 32000 }),
+            createModel({ id: 'a/balanced', inputPrice: 1, contextLength: 200000 }),
+            createModel({ id: 'a/long', inputPrice: 5, contextLength: 1000000 }),
+            createModel({ id: 'a/dominated', inputPrice: 2, contextLength: 128000 }),
+        ];
+        expect([...getParetoFrontier(models, price, context)].sort()).toEqual(['a/balanced', 'a/cheap', 'a/long']);
+    });
+
+    it('drops a model that only ties on one axis', () => {
+        const models = [
+            createModel({ id: 'a/better', inputPrice: 1, contextLength: 200000 }),
+            createModel({ id: 'a/same-price', inputPrice: 1, contextLength: 100000 }),
+        ];
+        expect([...getParetoFrontier(models, price, context)]).toEqual(['a/better']);
+    });
+
+    it('keeps identical models together', () => {
+        const models = [
+            createModel({ id: 'a/one', inputPrice: 1, contextLength: 100000 }),
+            createModel({ id: 'a/two', inputPrice: 1, contextLength: 100000 }),
+        ];
+        expect(getParetoFrontier(models, price, context).size).toBe(2);
+    });
+
+    it('treats both axes as lower-is-better for two prices', () => {
+        const models = [
+            createModel({ id: 'a/x', inputPrice: 1, outputPrice: 4 }),
+            createModel({ id: 'a/y', inputPrice: 2, outputPrice: 2 }),
+            createModel({ id: 'a/z', inputPrice: 2, outputPrice: 5 }),
+        ];
+        expect([...getParetoFrontier(models, price, getChartAxis('outputPrice'))].sort()).toEqual(['a/x', 'a/y']);
+    });
+});
+
+describe('chart helpers', () => {
+    it('weights the blended price 3:1 towards input', () => {
+        expect(getBlendedPrice(createModel({ id: 'a/b', inputPrice: 4, outputPrice: 8 }))).toBe(5);
+    });
+
+    it('abbreviates token counts', () => {
+        expect(formatTokenCount(512)).toBe('512');
+        expect(formatTokenCount(128000)).toBe('128K');
+        expect(formatTokenCount(1048576)).toBe('1.05M');
+    });
+
+    it('picks round tick steps', () => {
+        expect(linearTicks(0, 10)).toEqual([0, 2, 4, 6, 8, 10]);
+        expect(linearTicks(0.1, 0.35)).toEqual([0.1, 0.15, 0.2, 0.25, 0.3, 0.35]);
+        expect(linearTicks(3, 3)).toEqual([3]);
+        expect(logTicks(0.05, 20)).toEqual([0.01, 0.1, 1, 10, 100]);
+    });
+});
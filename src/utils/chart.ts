@@ -0,0 +1,106 @@
+import type { Model } from '../types';
+import type { MessageKey } from '../i18n';
+import type { I18n } from '../i18n/context';
+
+// 散点图可选的坐标轴
+export type ChartAxisKey = 'inputPrice' | 'outputPrice' | 'blendedPrice' | 'contextLength' | 'maxOutput';
+
+export interface ChartAxis {
+    key: ChartAxisKey;
+    label: MessageKey;
+    get: (model: Model) => number;
+    // 价格按当前货币和单位显示
+    format: (value: number, i18n: I18n) => string;
+    // 价格越低越好，容量越高越好（用于计算帕累托前沿）
+    lowerIsBetter: boolean;
+}
+
+// 混合价格按输入:输出 = 3:1 的 token 比例计算
+const BLENDED_INPUT_WEIGHT = 0.75;
+
+export function getBlendedPrice(model: Model): number {
+    return model.inputPrice * BLENDED_INPUT_WEIGHT + model.outputPrice * (1 - BLENDED_INPUT_WEIGHT);
+}
+
+// token 数量格式化（128000 -> 128K）
+export function formatTokenCount(value: number): string {
+    if (value >= 1000000) return `${+(value / 1000000).toFixed(2)}M`;
+    if (value >= 1000) return `${+(value / 1000).toFixed(1)}K`;
+    return String(Math.round(value));
+}
+
+const formatAxisPrice = (value: number, i18n: I18n) => i18n.formatPrice(value);
+
+export const CHART_AXES: ChartAxis[] = [
+    { key: 'inputPrice', label: 'chart.axis.inputPrice', get: m => m.inputPrice, format: formatAxisPrice, lowerIsBetter: true },
+    { key: 'outputPrice', label: 'chart.axis.outputPrice', get: m => m.outputPrice, format: formatAxisPrice, lowerIsBetter: true },
+    { key: 'blendedPrice', label: 'chart.axis.blendedPrice', get: getBlendedPrice, format: formatAxisPrice, lowerIsBetter: true },
+    { key: 'contextLength', label: 'chart.axis.contextLength', get: m => m.contextLength, format: formatTokenCount, lowerIsBetter: false },
+    { key: 'maxOutput', label: 'chart.axis.maxOutput', get: m => m.maxOutput, format: formatTokenCount, lowerIsBetter: false },
+];
+
+export function getChartAxis(key: ChartAxisKey): ChartAxis {
+    return CHART_AXES.find(a => a.key === key) ?? CHART_AXES[0];
+}
+
+/**
+ * 帕累托前沿：不被任何其他模型在两个坐标轴上同时“更好或相等且至少一项更好”支配的模型
+ */
+export function getParetoFrontier(models: Model[], xAxis: ChartAxis, yAxis: ChartAxis): Set<string> {
+    // 统一转换为“越大越好”
+    const score = (axis: ChartAxis, model: Model) => (axis.lowerIsBetter ? -axis.get(model) : axis.get(model));
+
+    const points = models.map(m => ({ id: m.id, x: score(xAxis, m), y: score(yAxis, m) }));
+    const frontier = new Set<string>();
+
+    for (const p of points) {
+        const dominated = points.some(q =>
+            q.id !== p.id && q.x >= p.x && q.y >= p.y && (q.x > p.x || q.y > p.y)
+        );
+        if (!dominated) frontier.add(p.id);
+    }
+
+    return frontier;
+}
+
+/**
+ * 线性刻度：取 1/2/5 × 10^n 的整齐间隔
+ */
+export function linearTicks(min: number, max: number, count = 5): number[] {
+    if (max <= min) return [min];
+
+    const rawStep = (max - min) / count;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+    const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= rawStep) ?? rawStep;
+
+    const ticks: number[] = [];
+    for (let v = Math.ceil(min / step) * step; v <= max + step / 1e6; v += step) {
+        ticks.push(+v.toPrecision(12));
+    }
+    return ticks;
+}
+
+/**
+ * 对数刻度：10 的整数次幂
+ */
+export function logTicks(min: number, max: number): number[] {
+    const ticks: number[] = [];
+    for (let e = Math.floor(Math.log10(min)); e <= Math.ceil(Math.log10(max)); e++) {
+        ticks.push(Math.pow(10, e));
+    }
+    return ticks;
+}
+
+// 按厂商名生成稳定的颜色
+const PROVIDER_COLORS = [
+    '#6366f1', '#f59e0b', '#10b981', '#ef4444', '#3b82f6', '#ec4899',
+    '#14b8a6', '#f97316', '#8b5cf6', '#84cc16', '#06b6d4', '#eab308',
+];
+
+export function getProviderColor(provider: string): string {
+    let hash = 0;
+    for (const ch of provider) {
+        hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+    }
+    return PROVIDER_COLORS[hash % PROVIDER_COLORS.length];
+}
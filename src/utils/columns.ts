@@ -0,0 +1,166 @@
+import type { Benchmark, ColumnId, PriceSource, SortKey, TablePreferences, Workload } from '../types';
+import type { MessageKey, MessageParams } from '../i18n';
+import { DEFAULT_SORT } from './sort';
+import { isSortField } from './urlState';
+import { getBenchmarkField, isBenchmarkField } from './benchmarks';
+import { getSourceField, isSourceField } from './priceSources';
+
+export type ColumnGroup = 'basic' | 'pricing' | 'sources' | 'benchmark' | 'metadata';
+
+export interface ColumnDef {
+    id: ColumnId;
+    label: MessageKey;
+    // 表头悬停提示
+    title?: MessageKey;
+    // 表头和提示中的参数（如基准名称）
+    params?: MessageParams;
+    group: ColumnGroup;
+    sortable: boolean;
+    // 只在开启工作负载估算时显示
+    requiresWorkload?: boolean;
+    // 只在管理员导入了基准测试成绩时显示
+    requiresBenchmarks?: boolean;
+    // 不能隐藏
+    required?: boolean;
+}
+
+// 所有可用列（列选择器中的默认顺序）
+export const COLUMNS: ColumnDef[] = [
+    { id: 'name', label: 'column.name', group: 'basic', sortable: true, required: true },
+    { id: 'provider', label: 'column.provider', group: 'basic', sortable: true },
+    { id: 'contextLength', label: 'column.contextLength', group: 'basic', sortable: true },
+    { id: 'maxOutput', label: 'column.maxOutput', group: 'basic', sortable: true },
+    { id: 'inputPrice', label: 'column.inputPrice', title: 'column.inputPrice.title', group: 'pricing', sortable: true },
+    { id: 'outputPrice', label: 'column.outputPrice', title: 'column.outputPrice.title', group: 'pricing', sortable: true },
+    { id: 'costPerRequest', label: 'column.costPerRequest', group: 'pricing', sortable: true, requiresWorkload: true },
+    { id: 'monthlyCost', label: 'column.monthlyCost', group: 'pricing', sortable: true, requiresWorkload: true },
+    { id: 'cacheRead', label: 'column.cacheRead', title: 'column.cacheRead.title', group: 'pricing', sortable: true },
+    { id: 'cacheWrite', label: 'column.cacheWrite', title: 'column.cacheWrite.title', group: 'pricing', sortable: true },
+    { id: 'internalReasoning', label: 'column.internalReasoning', title: 'column.internalReasoning.title', group: 'pricing', sortable: true },
+    { id: 'requestPrice', label: 'column.requestPrice', title: 'column.requestPrice.title', group: 'pricing', sortable: true },
+    { id: 'imagePrice', label: 'column.imagePrice', title: 'column.imagePrice.title', group: 'pricing', sortable: true },
+    { id: 'webSearchPrice', label: 'column.webSearchPrice', title: 'column.webSearchPrice.title', group: 'pricing', sortable: true },
+    { id: 'costPerPoint', label: 'column.costPerPoint', title: 'column.costPerPoint.title', group: 'benchmark', sortable: true, requiresBenchmarks: true },
+    { id: 'modality', label: 'column.modality', title: 'column.modality.title', group: 'metadata', sortable: true },
+    { id: 'tokenizer', label: 'column.tokenizer', title: 'column.tokenizer.title', group: 'metadata', sortable: true },
+    { id: 'createdAt', label: 'column.createdAt', title: 'column.createdAt.title', group: 'metadata', sortable: true },
+    { id: 'description', label: 'column.description', group: 'metadata', sortable: false },
+];
+
+export const COLUMN_GROUPS: { id: ColumnGroup; label: MessageKey }[] = [
+    { id: 'basic', label: 'columnGroup.basic' },
+    { id: 'pricing', label: 'columnGroup.pricing' },
+    { id: 'sources', label: 'columnGroup.sources' },
+    { id: 'benchmark', label: 'columnGroup.benchmark' },
+    { id: 'metadata', label: 'columnGroup.metadata' },
+];
+
+export const DEFAULT_COLUMNS: ColumnId[] = [
+    'name',
+    'provider',
+    'contextLength',
+    'maxOutput',
+    'inputPrice',
+    'outputPrice',
+    'costPerRequest',
+    'monthlyCost',
+    'modality',
+];
+
+export const DEFAULT_TABLE_PREFERENCES: TablePreferences = {
+    columns: DEFAULT_COLUMNS,
+    sort: DEFAULT_SORT,
+};
+
+const STORAGE_KEY = 'modelTablePreferences';
+
+/**
+ * 所有可用列：固定列加上每个价格来源的价格列和每个基准测试的成绩列，每分成本列使用第一个（主）基准
+ */
+export function getColumns(benchmarks: Benchmark[], sources: PriceSource[] = []): ColumnDef[] {
+    const primary = benchmarks[0]?.name ?? '';
+    const scoreColumns: ColumnDef[] = benchmarks.map(b => ({
+        id: getBenchmarkField(b.id),
+        label: 'column.score',
+        title: 'column.score.title',
+        params: { name: b.name },
+        group: 'benchmark',
+        sortable: true,
+    }));
+
+    const sourceColumns: ColumnDef[] = sources.map(s => ({
+        id: getSourceField(s.id),
+        label: 'column.source',
+        title: 'column.source.title',
+        params: { name: s.name },
+        group: 'sources',
+        sortable: true,
+    }));
+
+    return [
+        ...COLUMNS.map(c => c.requiresBenchmarks ? { ...c, params: { name: primary } } : c),
+        ...sourceColumns,
+        ...scoreColumns,
+    ];
+}
+
+export const getColumn = (id: ColumnId, benchmarks: Benchmark[] = [], sources: PriceSource[] = []): ColumnDef | undefined =>
+    getColumns(benchmarks, sources).find(c => c.id === id);
+
+/**
+ * 实际显示的列（表格和导出共用）：去掉无法识别的列，成本列只在开启工作负载估算时显示，
+ * 每分成本列只在有基准测试成绩时显示
+ */
+export function getVisibleColumns(
+    columns: ColumnId[],
+    workload: Workload | null,
+    benchmarks: Benchmark[] = [],
+    sources: PriceSource[] = []
+): ColumnDef[] {
+    return columns
+        .map(id => getColumn(id, benchmarks, sources))
+        .filter(col => col !== undefined)
+        .filter(col => !col.requiresWorkload || workload)
+        .filter(col => !col.requiresBenchmarks || benchmarks.length > 0);
+}
+
+// 去掉未知或重复的列，并保证必需列存在；成绩列和来源列在加载数据前无法校验，先保留
+function sanitizeColumns(columns: unknown): ColumnId[] {
+    if (!Array.isArray(columns)) return DEFAULT_COLUMNS;
+
+    const valid = [...new Set(columns)].filter((id): id is ColumnId =>
+        COLUMNS.some(c => c.id === id) || (typeof id === 'string' && (isBenchmarkField(id) || isSourceField(id)))
+    );
+    const missing = COLUMNS.filter(c => c.required && !valid.includes(c.id)).map(c => c.id);
+    return [...missing, ...valid];
+}
+
+function sanitizeSort(sort: unknown): SortKey[] {
+    if (!Array.isArray(sort)) return DEFAULT_SORT;
+
+    const keys = sort.filter((k): k is SortKey =>
+        typeof k?.field === 'string' && isSortField(k.field) && (k.direction === 'asc' || k.direction === 'desc')
+    );
+    return keys.length > 0 ? keys : DEFAULT_SORT;
+}
+
+/**
+ * 读取保存的表格偏好；不存在或损坏时返回默认值
+ */
+export function loadTablePreferences(): TablePreferences {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (!saved) return DEFAULT_TABLE_PREFERENCES;
+        return { columns: sanitizeColumns(saved.columns), sort: sanitizeSort(saved.sort) };
+    } catch {
+        return DEFAULT_TABLE_PREFERENCES;
+    }
+}
+
+export function saveTablePreferences(preferences: TablePreferences): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch {
+        // 隐私模式或存储已满时忽略，偏好只在本次会话有效
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+    diffModelLists,
+    diffPresets,
+    diffConfigs,
+    isEmptyConfigDiff,
+    createPresetId,
+    movePresetItem,
+    replacePresetModel
+} from './configDiff';
+import type { ModelPreset, SiteConfig } from '../types';
+
+const preset = (id: string, models: string[], title = id): ModelPreset => ({ id, title, description: '', models });
+
+describe('diffModelLists', () => {
+    it('reports additions, removals and reordering separately', () => {
+        expect(diffModelLists(['a', 'b', 'c'], ['c', 'b', 'd'])).toEqual({ added: ['d'], removed: ['a'], reordered: true });
+        // 只有增删时不算调整顺序
+        expect(diffModelLists(['a', 'b'], ['a', 'x', 'b'])).toEqual({ added: ['x'], removed: [], reordered: false });
+    });
+});
+
+describe('diffPresets', () => {
+    it('returns only added, removed and changed presets', () => {
+        const from = [preset('default', ['a']), preset('coding', ['b']), preset('old', ['c'])];
+        const to = [preset('default', ['a']), preset('coding', ['b'], 'Coding'), preset('new', ['d'])];
+
+        expect(diffPresets(from, to)).toEqual([
+            { id: 'coding', title: 'Coding', status: 'changed', renamed: true, models: { added: [], removed: [], reordered: false } },
+            { id: 'new', title: 'new', status: 'added', renamed: false, models: { added: ['d'], removed: [], reordered: false } },
+            { id: 'old', title: 'old', status: 'removed', renamed: false, models: { added: [], removed: ['c'], reordered: false } },
+        ]);
+    });
+});
+
+describe('diffConfigs', () => {
+    const version = (overrides: Partial<SiteConfig>): SiteConfig => ({
+        defaultModels: ['a'],
+        presets: [preset('default', ['a'])],
+        exchangeRates: { USD: 1, CNY: 7.2 },
+        benchmarks: [{ id: 'mmlu', name: 'MMLU', scores: { a: 80 } }],
+        count: 1,
+        version: 1,
+        source: 'admin',
+        storage: 'memory',
+        updatedAt: null,
+        updatedBy: null,
+        ...overrides,
+    });
+
+    it('finds no differences between identical configs', () => {
+        expect(isEmptyConfigDiff(diffConfigs(version({}), version({ version: 2 })))).toBe(true);
+    });
+
+    it('reports exchange rate and benchmark changes that a rollback would restore', () => {
+        const diff = diffConfigs(version({}), version({
+            exchangeRates: { USD: 1, CNY: 7.3, EUR: 0.9 },
+            benchmarks: [
+                { id: 'gpqa', name: 'GPQA', scores: { a: 50 } },
+                { id: 'mmlu', name: 'MMLU', scores: { a: 81, b: 70 } },
+            ],
+        }));
+
+        expect(diff.presets).toEqual([]);
+        expect(diff.exchangeRates).toEqual([
+            { code: 'CNY', from: 7.2, to: 7.3 },
+            { code: 'EUR', from: null, to: 0.9 },
+        ]);
+        expect(diff.benchmarks).toEqual([
+            { id: 'gpqa', name: 'GPQA', status: 'added', renamed: false, changedScores: ['a'] },
+            { id: 'mmlu', name: 'MMLU', status: 'changed', renamed: false, changedScores: ['a', 'b'] },
+        ]);
+        // 新增的基准排在前面，但已有基准之间的相对顺序没有变
+        expect(diff.benchmarksReordered).toBe(false);
+        expect(isEmptyConfigDiff(diff)).toBe(false);
+    });
+
+    it('notices a new default preset and configs saved without benchmarks', () => {
+        const presets = [preset('default', ['a']), preset('coding', ['b'])];
+        const diff = diffConfigs(version({ presets, benchmarks: undefined }), version({ presets: [...presets].reverse() }));
+
+        expect(diff.presets).toEqual([]);
+        expect(diff.presetsReordered).toBe(true);
+        expect(diff.benchmarks.map(b => b.status)).toEqual(['added']);
+    });
+});
+
+describe('preset editing helpers', () => {
+    it('creates an unused preset id', () => {
+        expect(createPresetId(['default'])).toBe('preset-2');
+        expect(createPresetId(['default', 'preset-2'])).toBe('preset-3');
+    });
+
+    it('moves items within bounds only', () => {
+        expect(movePresetItem(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c']);
+        const items = ['a', 'b'];
+        expect(movePresetItem(items, 0, -1)).toBe(items);
+    });
+
+    it('replaces a model in place or drops it when the replacement is already present', () => {
+        const presets = [preset('p1', ['a', 'b']), preset('p2', ['b', 'c']), preset('p3', ['c'])];
+        const replaced = replacePresetModel(presets, 'b', 'c');
+
+        expect(replaced.map(p => p.models)).toEqual([['a', 'c'], ['c'], ['c']]);
+        expect(replaced[2]).toBe(presets[2]);
+        expect(replacePresetModel(presets, 'a', null)[0].models).toEqual(['b']);
+    });
+});
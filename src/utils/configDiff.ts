@@ -0,0 +1,184 @@
+import type { Benchmark, ExchangeRates, ModelPreset, SiteConfig } from '../types';
+
+// 两个模型列表之间的差异
+export interface ModelListDiff {
+    added: string[];
+    removed: string[];
+    reordered: boolean;
+}
+
+export function diffModelLists(from: string[], to: string[]): ModelListDiff {
+    const added = to.filter(id => !from.includes(id));
+    const removed = from.filter(id => !to.includes(id));
+
+    // 去掉增删后比较剩余模型的顺序
+    const keptFrom = from.filter(id => to.includes(id));
+    const keptTo = to.filter(id => from.includes(id));
+    const reordered = keptFrom.some((id, i) => keptTo[i] !== id);
+
+    return { added, removed, reordered };
+}
+
+// 单个预设在两个版本之间的差异
+export interface PresetDiff {
+    id: string;
+    title: string;
+    status: 'added' | 'removed' | 'changed';
+    renamed: boolean;
+    models: ModelListDiff;
+}
+
+/**
+ * 按预设 ID 比较两个版本的预设列表，只返回有变化的预设
+ */
+export function diffPresets(from: ModelPreset[], to: ModelPreset[]): PresetDiff[] {
+    const diffs: PresetDiff[] = [];
+
+    for (const preset of to) {
+        const previous = from.find(p => p.id === preset.id);
+        const models = diffModelLists(previous?.models ?? [], preset.models);
+        const renamed = !!previous &&
+            (previous.title !== preset.title || previous.description !== preset.description);
+
+        if (!previous || renamed || models.added.length > 0 || models.removed.length > 0 || models.reordered) {
+            diffs.push({ id: preset.id, title: preset.title, status: previous ? 'changed' : 'added', renamed, models });
+        }
+    }
+
+    for (const preset of from) {
+        if (!to.some(p => p.id === preset.id)) {
+            diffs.push({
+                id: preset.id,
+                title: preset.title,
+                status: 'removed',
+                renamed: false,
+                models: diffModelLists(preset.models, [])
+            });
+        }
+    }
+
+    return diffs;
+}
+
+// 一种货币的汇率变化；null 表示该版本中没有这种货币
+export interface RateDiff {
+    code: string;
+    from: number | null;
+    to: number | null;
+}
+
+export function diffExchangeRates(from: ExchangeRates, to: ExchangeRates): RateDiff[] {
+    const codes = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    return codes
+        .map(code => ({ code, from: from[code] ?? null, to: to[code] ?? null }))
+        .filter(d => d.from !== d.to);
+}
+
+// 单个基准测试在两个版本之间的差异
+export interface BenchmarkDiff {
+    id: string;
+    name: string;
+    status: 'added' | 'removed' | 'changed';
+    renamed: boolean;
+    // 分数新增、删除或修改的模型
+    changedScores: string[];
+}
+
+/**
+ * 按基准测试 ID 比较两个版本，只返回有变化的基准测试
+ */
+export function diffBenchmarks(from: Benchmark[], to: Benchmark[]): BenchmarkDiff[] {
+    const changedScores = (a: Record<string, number>, b: Record<string, number>) =>
+        [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(id => a[id] !== b[id]);
+
+    const diffs: BenchmarkDiff[] = [];
+
+    for (const benchmark of to) {
+        const previous = from.find(b => b.id === benchmark.id);
+        const scores = changedScores(previous?.scores ?? {}, benchmark.scores);
+        const renamed = !!previous && previous.name !== benchmark.name;
+
+        if (!previous || renamed || scores.length > 0) {
+            diffs.push({ id: benchmark.id, name: benchmark.name, status: previous ? 'changed' : 'added', renamed, changedScores: scores });
+        }
+    }
+
+    for (const benchmark of from) {
+        if (!to.some(b => b.id === benchmark.id)) {
+            diffs.push({
+                id: benchmark.id,
+                name: benchmark.name,
+                status: 'removed',
+                renamed: false,
+                changedScores: changedScores(benchmark.scores, {})
+            });
+        }
+    }
+
+    return diffs;
+}
+
+// 两个配置版本之间的完整差异（回滚会恢复整个配置）
+export interface ConfigDiff {
+    presets: PresetDiff[];
+    // 预设顺序变化（第一个是默认预设）
+    presetsReordered: boolean;
+    exchangeRates: RateDiff[];
+    benchmarks: BenchmarkDiff[];
+    // 基准测试顺序变化（第一个用于每分成本列）
+    benchmarksReordered: boolean;
+}
+
+export function diffConfigs(from: SiteConfig, to: SiteConfig): ConfigDiff {
+    const fromBenchmarks = from.benchmarks ?? [];
+    const toBenchmarks = to.benchmarks ?? [];
+
+    return {
+        presets: diffPresets(from.presets, to.presets),
+        presetsReordered: diffModelLists(from.presets.map(p => p.id), to.presets.map(p => p.id)).reordered,
+        exchangeRates: diffExchangeRates(from.exchangeRates, to.exchangeRates),
+        benchmarks: diffBenchmarks(fromBenchmarks, toBenchmarks),
+        benchmarksReordered: diffModelLists(fromBenchmarks.map(b => b.id), toBenchmarks.map(b => b.id)).reordered,
+    };
+}
+
+export function isEmptyConfigDiff(diff: ConfigDiff): boolean {
+    return diff.presets.length === 0 && !diff.presetsReordered &&
+        diff.exchangeRates.length === 0 &&
+        diff.benchmarks.length === 0 && !diff.benchmarksReordered;
+}
+
+/**
+ * 生成一个未被占用的预设 ID
+ */
+export function createPresetId(existing: string[]): string {
+    let n = existing.length + 1;
+    while (existing.includes(`preset-${n}`)) n++;
+    return `preset-${n}`;
+}
+
+/**
+ * 把列表中的一项向前/向后移动
+ */
+export function movePresetItem<T>(items: T[], index: number, offset: number): T[] {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return items;
+
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+}
+
+/**
+ * 在所有预设中替换一个模型（保持位置）；预设中已有替代模型或未指定替代模型时直接移除
+ */
+export function replacePresetModel(presets: ModelPreset[], fromId: string, toId: string | null): ModelPreset[] {
+    return presets.map(preset => {
+        if (!preset.models.includes(fromId)) return preset;
+
+        const models = toId && !preset.models.includes(toId)
+            ? preset.models.map(id => id === fromId ? toId : id)
+            : preset.models.filter(id => id !== fromId);
+        return { ...preset, models };
+    });
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { PriceDisplay } from '../types';
+import {
+    convertAmount,
+    convertTokenPrice,
+    toBaseTokenPrice,
+    resolveCurrency,
+    getCurrencies,
+    toRateRows,
+    fromRateRows,
+} from './currency';
+
+const rates = { USD: 1, CNY: 7.2, EUR: 0.92 };
+const display = (overrides: Partial<PriceDisplay>): PriceDisplay => ({
+    currency: 'USD',
+    unit: 'per1M',
+    requestTokens: 1000,
+    ...overrides,
+});
+
+describe('convertTokenPrice', () => {
+    it('converts $/1M prices to the display currency and unit', () => {
+        expect(convertTokenPrice(3, display({}), rates)).toBe(3);
+        expect(convertTokenPrice(3, display({ currency: 'CNY' }), rates)).toBeCloseTo(21.6);
+        expect(convertTokenPrice(3, display({ unit: 'per1K' }), rates)).toBeCloseTo(0.003);
+        expect(convertTokenPrice(3, display({ currency: 'EUR', unit: 'perRequest', requestTokens: 2000 }), rates)).toBeCloseTo(0.00552);
+    });
+
+    it('falls back to USD when the chosen currency has no rate', () => {
+        expect(resolveCurrency(display({ currency: 'GBP' }), rates)).toBe('USD');
+        expect(convertAmount(10, display({ currency: 'GBP' }), rates)).toBe(10);
+    });
+});
+
+describe('toBaseTokenPrice', () => {
+    it('inverts the display conversion', () => {
+        for (const d of [display({ currency: 'CNY' }), display({ unit: 'per1K' }), display({ currency: 'EUR', unit: 'perRequest' })]) {
+            expect(toBaseTokenPrice(convertTokenPrice(2.5, d, rates), d, rates)).toBeCloseTo(2.5);
+        }
+    });
+});
+
+describe('exchange rate rows', () => {
+    it('lists USD first and the rest by code', () => {
+        expect(getCurrencies({ EUR: 0.92, USD: 1, CNY: 7.2 })).toEqual(['USD', 'CNY', 'EUR']);
+    });
+
+    it('round-trips rows, upper-casing codes and dropping blank ones', () => {
+        const rows = toRateRows(rates);
+        expect(rows[0]).toEqual({ code: 'USD', rate: '1' });
+        expect(fromRateRows([...rows, { code: ' gbp ', rate: '0.79' }, { code: ' ', rate: '3' }])).toEqual({
+            USD: '1',
+            CNY: '7.2',
+            EUR: '0.92',
+            GBP: '0.79',
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import type { ExchangeRates, PriceDisplay, PriceUnit } from '../types';
+
+// 模型价格的原始货币和单位：美元 / 每百万 token
+export const BASE_CURRENCY = 'USD';
+
+// 配置加载前（或加载失败时）只能显示美元
+export const BASE_EXCHANGE_RATES: ExchangeRates = { [BASE_CURRENCY]: 1 };
+
+export const PRICE_UNITS: PriceUnit[] = ['per1M', 'per1K', 'perRequest'];
+
+export const DEFAULT_PRICE_DISPLAY: PriceDisplay = {
+    currency: BASE_CURRENCY,
+    unit: 'per1M',
+    requestTokens: 1000,
+};
+
+const STORAGE_KEY = 'priceDisplay';
+
+// 每百万 token 价格换算到显示单位的系数
+function getUnitFactor(display: PriceDisplay): number {
+    if (display.unit === 'per1K') return 1 / 1000;
+    if (display.unit === 'perRequest') return display.requestTokens / 1_000_000;
+    return 1;
+}
+
+/**
+ * 实际使用的货币：汇率表中没有所选货币时（如管理员删除了该汇率）退回美元
+ */
+export function resolveCurrency(display: PriceDisplay, rates: ExchangeRates): string {
+    return rates[display.currency] > 0 ? display.currency : BASE_CURRENCY;
+}
+
+/**
+ * 美元金额换算为显示货币
+ */
+export function convertAmount(usd: number, display: PriceDisplay, rates: ExchangeRates): number {
+    return usd * (rates[resolveCurrency(display, rates)] ?? 1);
+}
+
+/**
+ * 每百万 token 的美元价格换算为显示货币和单位
+ */
+export function convertTokenPrice(pricePerMillion: number, display: PriceDisplay, rates: ExchangeRates): number {
+    return convertAmount(pricePerMillion, display, rates) * getUnitFactor(display);
+}
+
+/**
+ * 显示货币和单位的价格换算回每百万 token 的美元价格（用于价格筛选的输入）
+ */
+export function toBaseTokenPrice(price: number, display: PriceDisplay, rates: ExchangeRates): number {
+    return price / convertTokenPrice(1, display, rates);
+}
+
+// 货币列表：美元在前，其余按代码排序
+export function getCurrencies(rates: ExchangeRates): string[] {
+    return Object.keys(rates).sort((a, b) =>
+        a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b)
+    );
+}
+
+// 后台编辑中的一行汇率（输入过程中允许为空或不合法，保存时由服务端校验）
+export interface RateRow {
+    code: string;
+    rate: string;
+}
+
+export function toRateRows(rates: ExchangeRates): RateRow[] {
+    return getCurrencies(rates).map(code => ({ code, rate: String(rates[code]) }));
+}
+
+export function fromRateRows(rows: RateRow[]): Record<string, string> {
+    return Object.fromEntries(
+        rows.filter(row => row.code.trim()).map(row => [row.code.trim().toUpperCase(), row.rate])
+    );
+}
+
+const isPriceUnit = (value: unknown): value is PriceUnit =>
+    PRICE_UNITS.includes(value as PriceUnit);
+
+export function loadPriceDisplay(): PriceDisplay {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (!saved) return DEFAULT_PRICE_DISPLAY;
+        const requestTokens = Math.floor(Number(saved.requestTokens));
+        return {
+            currency: typeof saved.currency === 'string' ? saved.currency : BASE_CURRENCY,
+            unit: isPriceUnit(saved.unit) ? saved.unit : DEFAULT_PRICE_DISPLAY.unit,
+            requestTokens: requestTokens > 0 ? requestTokens : DEFAULT_PRICE_DISPLAY.requestTokens,
+        };
+    } catch {
+        return DEFAULT_PRICE_DISPLAY;
+    }
+}
+
+export function savePriceDisplay(display: PriceDisplay): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(display));
+    } catch {
+        // 隐私模式或存储已满时忽略，设置只在本次会话有效
+    }
+}
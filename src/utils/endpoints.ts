@@ -0,0 +1,24 @@
+import type { Model, ModelEndpoint } from '../types';
+import { getBlendedPrice } from './chart';
+
+export interface RankedEndpoint {
+    endpoint: ModelEndpoint;
+    blendedPrice: number;
+    cheapest: boolean;
+}
+
+/**
+ * 按 3:1 混合价格从低到高排列服务商，同价时上下文较长的在前
+ * 有多个服务商时标出最便宜的（同价的都标出）
+ */
+export function rankEndpoints(model: Model, endpoints: ModelEndpoint[]): RankedEndpoint[] {
+    const ranked = endpoints
+        .map(endpoint => ({
+            endpoint,
+            blendedPrice: getBlendedPrice({ ...model, inputPrice: endpoint.inputPrice, outputPrice: endpoint.outputPrice }),
+        }))
+        .sort((a, b) => a.blendedPrice - b.blendedPrice || b.endpoint.contextLength - a.endpoint.contextLength);
+
+    const lowest = ranked[0]?.blendedPrice;
+    return ranked.map(r => ({ ...r, cheapest: ranked.length > 1 && r.blendedPrice === lowest }));
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { createI18n } from '../i18n/context';
+import type { ColumnId, PriceDisplay } from '../types';
+import { toCsv, toMarkdown, exportModels } from './export';
+
+const noop = () => {};
+const createPrices = (priceDisplay: PriceDisplay) => createI18n({
+    locale: 'en',
+    setLocale: noop,
+    priceDisplay,
+    setPriceDisplay: noop,
+    exchangeRates: { USD: 1, EUR: 0.5 },
+    setExchangeRates: noop,
+});
+const usd = createPrices({ currency: 'USD', unit: 'per1M', requestTokens: 1000 });
+
+const models = [
+    createModel({
+        id: 'acme/widget',
+        name: 'Widget, "Pro"',
+        inputPrice: 2,
+        outputPrice: 8,
+        sourcePrices: [{ source: 'direct', key: 'widget', inputPrice: 1.5, outputPrice: 6 }],
+    }),
+    createModel({ id: 'acme/free', name: 'Free | Tier', inputPrice: 0, outputPrice: 0 }),
+];
+
+const rows = (csv: string) => csv.trimEnd().split('\n');
+
+describe('toCsv', () => {
+    it('follows the given columns and order, splitting the model column into name and ID', () => {
+        const [header, first, second] = rows(toCsv(models, usd, { columns: ['outputPrice', 'name', 'provider'] }));
+        expect(header).toBe('Output Price ($/M),Model,ID,Provider');
+        expect(first).toBe('$8.00,"Widget, ""Pro""",acme/widget,acme');
+        expect(second).toBe('Free,Free | Tier,acme/free,acme');
+    });
+
+    it('converts prices to the display currency and unit and labels the headers', () => {
+        const eurPer1K = createPrices({ currency: 'EUR', unit: 'per1K', requestTokens: 1000 });
+        const [header, first] = rows(toCsv(models, eurPer1K, { columns: ['inputPrice'] }));
+        expect(header).toBe('Input Price (€/1K)');
+        expect(first).toBe('€0.0010');
+    });
+
+    it('leaves out workload and benchmark columns that the table would hide', () => {
+        const columns: ColumnId[] = ['name', 'monthlyCost', 'costPerPoint'];
+        expect(rows(toCsv(models, usd, { columns }))[0]).toBe('Model,ID');
+
+        const workload = { avgInputTokens: 1000, avgOutputTokens: 1000, requestsPerDay: 10 };
+        const [header, first] = rows(toCsv(models, usd, { columns, workload }));
+        expect(header).toBe('Model,ID,Monthly Cost (USD)');
+        expect(first.endsWith(',$3.00')).toBe(true);
+    });
+
+    it('exports benchmark scores and other price sources', () => {
+        const benchmarks = [{ id: 'mmlu', name: 'MMLU', scores: { 'acme/widget': 88.5 } }];
+        const sources = [{ id: 'direct', name: 'Direct', format: 'sheet' as const, entries: 1, matched: 1 }];
+        const csv = toCsv(models, usd, { columns: ['name', 'score:mmlu', 'source:direct'], benchmarks, sources });
+        expect(rows(csv).slice(1)).toEqual([
+            '"Widget, ""Pro""",acme/widget,88.5,$1.50 / $6.00',
+            'Free | Tier,acme/free,-,-',
+        ]);
+    });
+});
+
+describe('toMarkdown', () => {
+    it('escapes pipes in cells', () => {
+        const lines = rows(toMarkdown(models, usd, { columns: ['name'] }));
+        expect(lines).toEqual([
+            '| Model | ID |',
+            '| --- | --- |',
+            '| Widget, "Pro" | acme/widget |',
+            '| Free \\| Tier | acme/free |',
+        ]);
+    });
+});
+
+describe('exportModels', () => {
+    it('exports JSON with raw USD prices regardless of the display settings', () => {
+        const data = JSON.parse(exportModels(models, 'json', createPrices({ currency: 'EUR', unit: 'per1K', requestTokens: 1000 }), { columns: [] }));
+        expect(data.totalCount).toBe(2);
+        expect(data.models[0].inputPrice).toBe(2);
+    });
+});
@@ -0,0 +1,189 @@
+import type { Benchmark, ColumnId, Model, ModelsData, PriceSource, Workload } from '../types';
+import type { I18n } from '../i18n/context';
+import { getCostPerRequest, getMonthlyCost } from './workload';
+import { getVisibleColumns } from './columns';
+import { getBenchmarkScore, getCostPerPoint, isBenchmarkField } from './benchmarks';
+import { getSourcePrice, isSourceField } from './priceSources';
+
+export type ExportFormat = 'csv' | 'json' | 'md';
+
+// 表头文案和按当前货币、价格单位的格式化（见 useI18n）
+export type ExportPrices = Pick<I18n,
+    | 't'
+    | 'formatNumber'
+    | 'formatDate'
+    | 'formatPrice'
+    | 'formatOptionalPrice'
+    | 'formatCost'
+    | 'formatUnitPrice'
+    | 'priceUnit'
+    | 'currency'
+>;
+
+// 导出的列：与表格相同的列（见 TablePreferences）和显示所需的数据
+export interface ExportOptions {
+    columns: ColumnId[];
+    workload?: Workload | null;
+    benchmarks?: Benchmark[];
+    sources?: PriceSource[];
+}
+
+interface ExportColumn {
+    header: string;
+    value: (model: Model) => string;
+}
+
+/**
+ * 单元格的文本值，与 ModelTable 的显示一致
+ */
+function getCellValue(id: ColumnId, model: Model, prices: ExportPrices, options: ExportOptions): string {
+    const { workload = null, benchmarks = [] } = options;
+
+    if (isSourceField(id)) {
+        const price = getSourcePrice(model, id);
+        return price ? `${prices.formatPrice(price.inputPrice)} / ${prices.formatPrice(price.outputPrice)}` : '-';
+    }
+
+    if (isBenchmarkField(id)) {
+        const score = getBenchmarkScore(model, benchmarks, id);
+        return score === null ? '-' : prices.formatNumber(score);
+    }
+
+    switch (id) {
+        case 'name':
+            return model.name;
+        case 'provider':
+            return model.provider;
+        case 'contextLength':
+            return model.contextLengthFormatted || '-';
+        case 'maxOutput':
+            return model.maxOutputFormatted || '-';
+        case 'inputPrice':
+            return prices.formatPrice(model.inputPrice);
+        case 'outputPrice':
+            return prices.formatPrice(model.outputPrice);
+        case 'costPerRequest':
+            return workload ? prices.formatCost(getCostPerRequest(model, workload)) : '-';
+        case 'monthlyCost':
+            return workload ? prices.formatCost(getMonthlyCost(model, workload)) : '-';
+        case 'costPerPoint': {
+            const cost = getCostPerPoint(model, benchmarks);
+            return cost === null ? '-' : prices.formatPrice(cost);
+        }
+        case 'cacheRead':
+            return prices.formatOptionalPrice(model.pricing?.cacheRead);
+        case 'cacheWrite':
+            return prices.formatOptionalPrice(model.pricing?.cacheWrite);
+        case 'internalReasoning':
+            return prices.formatOptionalPrice(model.pricing?.internalReasoning);
+        case 'requestPrice':
+            return prices.formatUnitPrice(model.pricing?.request);
+        case 'imagePrice':
+            return prices.formatUnitPrice(model.pricing?.image);
+        case 'webSearchPrice':
+            return prices.formatUnitPrice(model.pricing?.webSearch);
+        case 'modality':
+            return model.modality;
+        case 'tokenizer':
+            return model.tokenizer || '-';
+        case 'createdAt':
+            return model.createdAt ? prices.formatDate(model.createdAt) : '-';
+        case 'description':
+            return model.description || '-';
+    }
+}
+
+// 按 token 计价的列在表头注明价格单位，金额列注明货币
+const TOKEN_PRICE_COLUMNS: ColumnId[] = ['inputPrice', 'outputPrice', 'cacheRead', 'cacheWrite', 'internalReasoning', 'costPerPoint'];
+const AMOUNT_COLUMNS: ColumnId[] = ['costPerRequest', 'monthlyCost', 'requestPrice', 'imagePrice', 'webSearchPrice'];
+
+function getHeaderUnit(id: ColumnId, prices: ExportPrices): string {
+    if (TOKEN_PRICE_COLUMNS.includes(id) || isSourceField(id)) return ` (${prices.priceUnit})`;
+    if (AMOUNT_COLUMNS.includes(id)) return ` (${prices.currency})`;
+    return '';
+}
+
+// 与 ModelTable 当前显示的列和顺序一致（模型列拆成名称和 ID 两列）
+function getColumns(prices: ExportPrices, options: ExportOptions): ExportColumn[] {
+    const { columns, workload = null, benchmarks = [], sources = [] } = options;
+
+    return getVisibleColumns(columns, workload, benchmarks, sources).flatMap(col => {
+        const column: ExportColumn = {
+            header: `${prices.t(col.label, col.params)}${getHeaderUnit(col.id, prices)}`,
+            value: m => getCellValue(col.id, m, prices, options),
+        };
+        return col.id === 'name' ? [column, { header: 'ID', value: (m: Model) => m.id }] : [column];
+    });
+}
+
+const escapeCsv = (value: string): string =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const escapeMarkdown = (value: string): string =>
+    value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function toCsv(models: Model[], prices: ExportPrices, options: ExportOptions): string {
+    const columns = getColumns(prices, options);
+    const lines = [
+        columns.map(c => escapeCsv(c.header)).join(','),
+        ...models.map(m => columns.map(c => escapeCsv(c.value(m))).join(',')),
+    ];
+    return lines.join('\n') + '\n';
+}
+
+export function toMarkdown(models: Model[], prices: ExportPrices, options: ExportOptions): string {
+    const columns = getColumns(prices, options);
+    const lines = [
+        `| ${columns.map(c => c.header).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...models.map(m => `| ${columns.map(c => escapeMarkdown(c.value(m))).join(' | ')} |`),
+    ];
+    return lines.join('\n') + '\n';
+}
+
+// JSON 使用与 /api/models 相同的 ModelsData 结构（原始美元价格）
+export function toJson(models: Model[]): string {
+    const data: ModelsData = {
+        updatedAt: new Date().toISOString(),
+        totalCount: models.length,
+        models,
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    json: 'application/json;charset=utf-8',
+    md: 'text/markdown;charset=utf-8',
+};
+
+export function exportModels(
+    models: Model[],
+    format: ExportFormat,
+    prices: ExportPrices,
+    options: ExportOptions
+): string {
+    if (format === 'csv') return toCsv(models, prices, options);
+    if (format === 'md') return toMarkdown(models, prices, options);
+    return toJson(models);
+}
+
+// 触发浏览器下载
+export function downloadExport(
+    models: Model[],
+    format: ExportFormat,
+    prices: ExportPrices,
+    options: ExportOptions
+) {
+    const content = exportModels(models, format, prices, options);
+    const blob = new Blob([content], { type: MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `openrouter-models-${new Date().toISOString().slice(0, 10)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { applyFilters, countActiveFilters, getFacets, toggleModalityFilter, EMPTY_FILTERS, EMPTY_MODALITY_FILTER } from './filters';
+
+const models = [
+    createModel({ id: 'openai/gpt-4o', inputPrice: 2.5, outputPrice: 10, inputModalities: ['text', 'image'] }),
+    createModel({ id: 'openai/gpt-4o-mini', inputPrice: 0.15, outputPrice: 0.6, inputModalities: ['text', 'image'], contextLength: 64000 }),
+    createModel({
+        id: 'meta-llama/llama-3-8b:free',
+        inputPrice: 0,
+        outputPrice: 0,
+        contextLength: 8192,
+        maxOutput: 4096,
+        annotation: { tags: ['cheap'], note: '', rating: null, updatedAt: '2026-01-01T00:00:00Z', updatedBy: null },
+    }),
+    createModel({ id: 'google/imagen', inputModalities: ['text'], outputModalities: ['image'] }),
+];
+
+const ids = (filtered: typeof models) => filtered.map(m => m.id);
+
+describe('applyFilters', () => {
+    it('keeps everything without filters', () => {
+        expect(applyFilters(models, EMPTY_FILTERS)).toEqual(models);
+        expect(countActiveFilters(EMPTY_FILTERS)).toBe(0);
+    });
+
+    it('requires every selected modality', () => {
+        expect(ids(applyFilters(models, { ...EMPTY_FILTERS, inputModalities: ['image'] })))
+            .toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini']);
+        expect(ids(applyFilters(models, { ...EMPTY_FILTERS, outputModalities: ['image'] }))).toEqual(['google/imagen']);
+    });
+
+    it('combines provider, capacity, price and tag filters', () => {
+        const filters = { ...EMPTY_FILTERS, providers: ['openai'], minContext: 100000, maxPrice: 5 };
+        expect(ids(applyFilters(models, filters))).toEqual(['openai/gpt-4o']);
+        expect(countActiveFilters(filters)).toBe(3);
+
+        expect(ids(applyFilters(models, { ...EMPTY_FILTERS, priceField: 'outputPrice', minPrice: 1 })))
+            .toEqual(['openai/gpt-4o', 'google/imagen']);
+        expect(ids(applyFilters(models, { ...EMPTY_FILTERS, freeOnly: true, minMaxOutput: 4096 })))
+            .toEqual(['meta-llama/llama-3-8b:free']);
+        expect(ids(applyFilters(models, { ...EMPTY_FILTERS, tags: ['cheap'] }))).toEqual(['meta-llama/llama-3-8b:free']);
+    });
+});
+
+describe('variable-priced models', () => {
+    const router = createModel({ id: 'openrouter/auto', inputPrice: -1000000, outputPrice: -1000000 });
+
+    it('are neither free nor within a price range', () => {
+        const all = [...models, router];
+        expect(ids(applyFilters(all, { ...EMPTY_FILTERS, freeOnly: true }))).toEqual(['meta-llama/llama-3-8b:free']);
+        expect(ids(applyFilters(all, { ...EMPTY_FILTERS, maxPrice: 1 })))
+            .toEqual(['openai/gpt-4o-mini', 'meta-llama/llama-3-8b:free', 'google/imagen']);
+        expect(ids(applyFilters(all, { ...EMPTY_FILTERS, priceField: 'outputPrice', minPrice: 0 }))).not.toContain('openrouter/auto');
+    });
+
+    it('stay visible without a price filter', () => {
+        expect(applyFilters([router], EMPTY_FILTERS)).toEqual([router]);
+    });
+});
+
+describe('getFacets', () => {
+    it('counts values, most common first', () => {
+        const facets = getFacets(models);
+        expect(facets.providers).toEqual([
+            { value: 'openai', count: 2 },
+            { value: 'google', count: 1 },
+            { value: 'meta-llama', count: 1 },
+        ]);
+        expect(facets.inputModalities).toEqual([{ value: 'text', count: 4 }, { value: 'image', count: 2 }]);
+        expect(facets.tags).toEqual([{ value: 'cheap', count: 1 }]);
+    });
+});
+
+describe('toggleModalityFilter', () => {
+    it('adds and removes a modality on one side', () => {
+        const added = toggleModalityFilter(EMPTY_MODALITY_FILTER, 'input', 'image');
+        expect(added).toEqual({ input: ['image'], output: [] });
+        expect(toggleModalityFilter(added, 'input', 'image')).toEqual(EMPTY_MODALITY_FILTER);
+    });
+});
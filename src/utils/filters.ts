@@ -0,0 +1,103 @@
+import type { Model, ModelFilters, ModalityFilter } from '../types';
+
+export const EMPTY_FILTERS: ModelFilters = {
+    providers: [],
+    inputModalities: [],
+    outputModalities: [],
+    minContext: 0,
+    minMaxOutput: 0,
+    priceField: 'inputPrice',
+    minPrice: null,
+    maxPrice: null,
+    freeOnly: false,
+    tags: [],
+};
+
+export interface FacetOption {
+    value: string;
+    count: number;
+}
+
+export interface Facets {
+    providers: FacetOption[];
+    inputModalities: FacetOption[];
+    outputModalities: FacetOption[];
+    tags: FacetOption[];
+}
+
+// 已启用的筛选条件数量
+export function countActiveFilters(filters: ModelFilters): number {
+    let count = 0;
+    if (filters.providers.length > 0) count++;
+    if (filters.inputModalities.length > 0) count++;
+    if (filters.outputModalities.length > 0) count++;
+    if (filters.minContext > 0) count++;
+    if (filters.minMaxOutput > 0) count++;
+    if (filters.minPrice !== null || filters.maxPrice !== null) count++;
+    if (filters.freeOnly) count++;
+    if (filters.tags.length > 0) count++;
+    return count;
+}
+
+// 应用筛选条件；模态要求模型支持全部所选模态
+export function applyFilters(models: Model[], filters: ModelFilters): Model[] {
+    return models.filter(m => {
+        if (filters.providers.length > 0 && !filters.providers.includes(m.provider)) return false;
+        if (!filters.inputModalities.every(mod => (m.inputModalities || ['text']).includes(mod))) return false;
+        if (!filters.outputModalities.every(mod => (m.outputModalities || ['text']).includes(mod))) return false;
+        if (m.contextLength < filters.minContext) return false;
+        if (m.maxOutput < filters.minMaxOutput) return false;
+
+        // 价格为负数表示按实际路由的模型计费（如 openrouter/auto），不参与价格筛选
+        const price = m[filters.priceField];
+        const hasPriceFilter = filters.minPrice !== null || filters.maxPrice !== null;
+        if (hasPriceFilter && price < 0) return false;
+        if (filters.minPrice !== null && price < filters.minPrice) return false;
+        if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+        if (filters.freeOnly && (m.inputPrice !== 0 || m.outputPrice !== 0)) return false;
+        if (!filters.tags.every(tag => m.annotation?.tags.includes(tag))) return false;
+
+        return true;
+    });
+}
+
+// 统计各维度的可选值及数量
+export function getFacets(models: Model[]): Facets {
+    const count = (values: string[]): FacetOption[] => {
+        const map = new Map<string, number>();
+        values.forEach(v => map.set(v, (map.get(v) || 0) + 1));
+        return Array.from(map, ([value, n]) => ({ value, count: n }))
+            .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    return {
+        providers: count(models.map(m => m.provider)),
+        inputModalities: count(models.flatMap(m => m.inputModalities || ['text'])),
+        outputModalities: count(models.flatMap(m => m.outputModalities || ['text'])),
+        tags: count(models.flatMap(m => m.annotation?.tags || [])),
+    };
+}
+
+export const EMPTY_MODALITY_FILTER: ModalityFilter = { input: [], output: [] };
+
+// 表格的模态筛选：与目录筛选相同，要求模型支持全部所选模态
+export function applyModalityFilter(models: Model[], filter: ModalityFilter): Model[] {
+    return applyFilters(models, {
+        ...EMPTY_FILTERS,
+        inputModalities: filter.input,
+        outputModalities: filter.output,
+    });
+}
+
+// 添加或移除一个模态筛选条件
+export function toggleModalityFilter(
+    filter: ModalityFilter,
+    direction: keyof ModalityFilter,
+    modality: string
+): ModalityFilter {
+    const values = filter[direction];
+    return {
+        ...filter,
+        [direction]: values.includes(modality) ? values.filter(v => v !== modality) : [...values, modality],
+    };
+}
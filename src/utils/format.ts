@@ -0,0 +1,89 @@
+import type { Model } from '../types';
+import { LOCALE_TAGS, translate } from '../i18n';
+import type { Locale } from '../i18n';
+
+// Intl 格式化器创建成本较高，按语言和参数缓存
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getCurrencyFormatter(locale: Locale, currency: string, digits: number): Intl.NumberFormat {
+    const key = `${locale}:${currency}:${digits}`;
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(LOCALE_TAGS[locale], {
+            style: 'currency',
+            currency,
+            // 中文环境默认显示 "US$"，统一使用 "$"
+            currencyDisplay: 'narrowSymbol',
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        });
+        formatters.set(key, formatter);
+    }
+    return formatter;
+}
+
+// 货币符号，如 "$"、"¥"、"€"
+export function getCurrencySymbol(currency: string, locale: Locale = 'en'): string {
+    const parts = getCurrencyFormatter(locale, currency, 0).formatToParts(0);
+    return parts.find(p => p.type === 'currency')?.value ?? currency;
+}
+
+// 价格格式化（已换算为显示货币和单位的 token 价格，默认美元 / 每百万 token）
+// 每 1K token 的价格可能非常小，低于 0.001 时保留 6 位小数
+export function formatPrice(price: number, locale: Locale = 'en', currency = 'USD'): string {
+    if (price <= 0) return translate(locale, 'price.free');
+    const digits = price < 0.001 ? 6 : price < 0.01 ? 4 : price < 1 ? 3 : 2;
+    return getCurrencyFormatter(locale, currency, digits).format(price);
+}
+
+// 成本格式化（默认美元），单次请求的成本可能非常小
+export function formatCost(cost: number, locale: Locale = 'en', currency = 'USD'): string {
+    if (cost <= 0) return translate(locale, 'price.free');
+    const digits = cost < 0.01 ? 5 : cost < 1 ? 3 : 2;
+    return getCurrencyFormatter(locale, currency, digits).format(cost);
+}
+
+// 可选价格格式化：null 表示未提供，0 表示不单独收费
+export function formatOptionalPrice(price: number | null | undefined, locale: Locale = 'en', currency = 'USD'): string {
+    if (price === null || price === undefined) return '-';
+    return price === 0 ? '—' : formatPrice(price, locale, currency);
+}
+
+// 按次计费价格格式化（每张图片、每次请求、每次搜索）
+export function formatUnitPrice(price: number | null | undefined, locale: Locale = 'en', currency = 'USD'): string {
+    if (price === null || price === undefined) return '-';
+    return price === 0 ? '—' : formatCost(price, locale, currency);
+}
+
+// 整数/小数，带千位分隔符
+export function formatNumber(value: number, locale: Locale = 'en'): string {
+    return value.toLocaleString(LOCALE_TAGS[locale]);
+}
+
+// 日期，如 "Jan 5, 2025" / "2025年1月5日"
+export function formatDate(iso: string, locale: Locale = 'en'): string {
+    return new Date(iso).toLocaleDateString(LOCALE_TAGS[locale], { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// 日期和时间
+export function formatDateTime(iso: string, locale: Locale = 'en'): string {
+    return new Date(iso).toLocaleString(LOCALE_TAGS[locale]);
+}
+
+// 模态的显示顺序，未列出的排在后面
+const MODALITY_ORDER = ['text', 'image', 'audio', 'video', 'file'];
+
+// 按固定顺序排列模态列表，旧数据缺失时视为纯文本
+export function sortModalities(modalities: string[] | undefined): string[] {
+    const rank = (m: string) => {
+        const index = MODALITY_ORDER.indexOf(m);
+        return index === -1 ? MODALITY_ORDER.length : index;
+    };
+    return [...(modalities?.length ? modalities : ['text'])]
+        .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+// 模态描述，如 "text+image → text"
+export function formatModalities(model: Pick<Model, 'inputModalities' | 'outputModalities'>): string {
+    return `${sortModalities(model.inputModalities).join('+')} → ${sortModalities(model.outputModalities).join('+')}`;
+}
@@ -0,0 +1,29 @@
+import type { Model, SourceField, SourcePrice } from '../types';
+import { getBlendedPrice } from './chart';
+
+const FIELD_PREFIX = 'source:';
+
+export const getSourceField = (id: string): SourceField => `${FIELD_PREFIX}${id}`;
+
+export const isSourceField = (field: string): field is SourceField =>
+    field.startsWith(FIELD_PREFIX) && field.length > FIELD_PREFIX.length;
+
+// 模型在某个来源的价格，价格表中没有匹配条目时为 undefined
+export const getSourcePrice = (model: Model, field: SourceField): SourcePrice | undefined =>
+    model.sourcePrices?.find(p => p.source === field.slice(FIELD_PREFIX.length));
+
+// 来源价格的 3:1 混合价格，用于排序
+export function getSourceBlendedPrice(model: Model, field: SourceField): number | null {
+    const price = getSourcePrice(model, field);
+    return price ? getBlendedPrice({ ...model, ...price }) : null;
+}
+
+/**
+ * 来源价格相对 OpenRouter 的差异（按 3:1 混合价格计算），如 -0.25 表示便宜 25%
+ * OpenRouter 免费时无法计算比例，为 null
+ */
+export function getPriceDifference(model: Model, price: SourcePrice): number | null {
+    const base = getBlendedPrice(model);
+    if (base <= 0) return null;
+    return getBlendedPrice({ ...model, ...price }) / base - 1;
+}
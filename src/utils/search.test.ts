@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { rankModels, scoreModel } from './search';
+
+const models = [
+    createModel({ id: 'anthropic/claude-3.5-sonnet', name: 'Anthropic: Claude 3.5 Sonnet' }),
+    createModel({ id: 'anthropic/claude-sonnet-4', name: 'Anthropic: Claude Sonnet 4' }),
+    createModel({ id: 'anthropic/claude-sonnet-4.5', name: 'Anthropic: Claude Sonnet 4.5' }),
+    createModel({ id: 'openai/gpt-4o', name: 'OpenAI: GPT-4o' }),
+    createModel({ id: 'openai/gpt-4o-mini', name: 'OpenAI: GPT-4o-mini' }),
+    createModel({ id: 'google/gemini-2.5-pro', name: 'Google: Gemini 2.5 Pro' }),
+];
+
+const rank = (query: string) => rankModels(models, query).map(m => m.id);
+
+describe('rankModels', () => {
+    it('returns the list unchanged for an empty query', () => {
+        expect(rankModels(models, '  ')).toBe(models);
+    });
+
+    it('ranks the shorter ID first among equal matches', () => {
+        expect(rank('gpt-4o')).toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini']);
+    });
+
+    it('treats version dots as part of the number', () => {
+        expect(rank('sonnet 4.5')[0]).toBe('anthropic/claude-sonnet-4.5');
+        expect(rank('sonnet 4')[0]).toBe('anthropic/claude-sonnet-4');
+    });
+
+    it('requires every word to match', () => {
+        expect(rank('claude gemini')).toEqual([]);
+    });
+
+    it('matches characters typed in order', () => {
+        expect(rank('gmn pro')).toEqual(['google/gemini-2.5-pro']);
+    });
+
+    it('does not match letters scattered across the text', () => {
+        expect(rank('xyz')).toEqual([]);
+        expect(scoreModel(models[3], 'oeiu')).toBeNull();
+    });
+
+    it('finds models by provider', () => {
+        expect(rank('google')).toEqual(['google/gemini-2.5-pro']);
+    });
+});
@@ -0,0 +1,120 @@
+import type { Model } from '../types';
+
+// 统一大小写，把 / - : _ 等分隔符视为空格；保留版本号中的点（4.5 与 4 不同）
+const normalize = (text: string): string =>
+    text.toLowerCase()
+        .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+        .replace(/[^a-z0-9.]+/g, ' ')
+        .trim();
+
+// 匹配等级：完全匹配 > 前缀 > 完整单词 > 单词前缀 > 子串 > 模糊（按顺序出现的字符）
+const EXACT = 1000;
+const PREFIX = 800;
+const WORD = 700;
+const WORD_PREFIX = 600;
+const SUBSTRING = 400;
+const FUZZY = 100;
+
+// 各字段的权重
+const FIELDS: { get: (model: Model) => string; weight: number }[] = [
+    { get: m => m.name, weight: 1 },
+    { get: m => m.id, weight: 0.9 },
+    { get: m => m.provider, weight: 0.6 },
+];
+
+/**
+ * 模糊匹配：token 的字符按顺序出现在文本中（忽略分隔符）
+ * 命中单词开头、连续命中加分，跨度越大分数越低；
+ * 超过一半字符散落在单词中间时视为不匹配
+ */
+function fuzzyScore(token: string, text: string): number | null {
+    let score = FUZZY;
+    let textIndex = 0;
+    let previous = -2;
+    let scattered = 0;
+
+    for (const ch of token) {
+        const found = text.indexOf(ch, textIndex);
+        if (found === -1) return null;
+
+        const wordStart = found === 0 || text[found - 1] === ' ';
+        const consecutive = found === previous + 1;
+        if (wordStart) score += 15;
+        if (consecutive) score += 10;
+        if (!wordStart && !consecutive) scattered++;
+        score -= Math.min(found - textIndex, 10);
+
+        previous = found;
+        textIndex = found + 1;
+    }
+
+    if (scattered > Math.ceil(token.length / 2)) return null;
+    return Math.max(score, 1);
+}
+
+// token 在文本中作为完整单词出现（前后都是边界）
+const isWholeWord = (token: string, text: string): boolean =>
+    ` ${text} `.includes(` ${token} `);
+
+/**
+ * 单个 token 在单个字段中的得分，不匹配时为 null
+ */
+function scoreToken(token: string, text: string): number | null {
+    if (text === token) return EXACT;
+    if (text.startsWith(token)) return isWholeWord(token, text) ? PREFIX + 50 : PREFIX;
+    if (isWholeWord(token, text)) return WORD;
+    if (text.includes(` ${token}`)) return WORD_PREFIX;
+    if (text.includes(token)) return SUBSTRING;
+    return fuzzyScore(token.replace(/ /g, ''), text);
+}
+
+/**
+ * 模型与查询的匹配得分，不匹配时为 null
+ * 查询按空格拆分为多个 token，每个 token 都必须匹配某个字段；
+ * 整个查询作为一个整体匹配时额外加分（如 "sonnet 4" 匹配 "claude sonnet 4"）
+ */
+export function scoreModel(model: Model, query: string): number | null {
+    const normalizedQuery = normalize(query);
+    if (!normalizedQuery) return 0;
+
+    const texts = FIELDS.map(f => ({ text: normalize(f.get(model)), weight: f.weight }));
+    const tokens = normalizedQuery.split(' ');
+    let total = 0;
+
+    for (const token of tokens) {
+        let best: number | null = null;
+        for (const { text, weight } of texts) {
+            const score = scoreToken(token, text);
+            if (score !== null && (best === null || score * weight > best)) {
+                best = score * weight;
+            }
+        }
+        if (best === null) return null;
+        total += best;
+    }
+
+    if (tokens.length > 1) {
+        for (const { text, weight } of texts) {
+            const whole = scoreToken(normalizedQuery, text);
+            if (whole !== null && whole >= SUBSTRING) {
+                total += whole * weight;
+                break;
+            }
+        }
+    }
+
+    return total;
+}
+
+/**
+ * 按匹配得分排序（同分时 ID 较短的优先，再保持原顺序），去掉不匹配的模型
+ */
+export function rankModels(models: Model[], query: string): Model[] {
+    if (!query.trim()) return models;
+
+    return models
+        .map((model, index) => ({ model, index, score: scoreModel(model, query) }))
+        .filter((r): r is { model: Model; index: number; score: number } => r.score !== null)
+        .sort((a, b) => b.score - a.score || a.model.id.length - b.model.id.length || a.index - b.index)
+        .map(r => r.model);
+}
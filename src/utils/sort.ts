@@ -0,0 +1,76 @@
+import type { Benchmark, Model, SortField, SortKey, Workload } from '../types';
+import { formatModalities } from './format';
+import { getCostPerRequest, getMonthlyCost } from './workload';
+import { getBenchmarkScore, getCostPerPoint, isBenchmarkField } from './benchmarks';
+import { getSourceBlendedPrice, isSourceField } from './priceSources';
+
+export const DEFAULT_SORT: SortKey[] = [{ field: 'inputPrice', direction: 'asc' }];
+
+// 多列排序最多保留的排序键数量
+const MAX_SORT_KEYS = 3;
+
+/**
+ * 取模型在某一列上的排序值；null 表示缺失，无论升序降序都排在最后
+ */
+export function getSortValue(model: Model, field: SortField, workload: Workload, benchmarks: Benchmark[] = []): string | number | null {
+    if (isBenchmarkField(field)) return getBenchmarkScore(model, benchmarks, field);
+    if (isSourceField(field)) return getSourceBlendedPrice(model, field);
+
+    switch (field) {
+        case 'costPerRequest': return getCostPerRequest(model, workload);
+        case 'monthlyCost': return getMonthlyCost(model, workload);
+        case 'costPerPoint': return getCostPerPoint(model, benchmarks);
+        case 'cacheRead': return model.pricing?.cacheRead ?? null;
+        case 'cacheWrite': return model.pricing?.cacheWrite ?? null;
+        case 'internalReasoning': return model.pricing?.internalReasoning ?? null;
+        case 'requestPrice': return model.pricing?.request ?? null;
+        case 'imagePrice': return model.pricing?.image ?? null;
+        case 'webSearchPrice': return model.pricing?.webSearch ?? null;
+        case 'tokenizer': return model.tokenizer?.toLowerCase() ?? null;
+        case 'modality': return formatModalities(model);
+        case 'createdAt': return model.createdAt ? Date.parse(model.createdAt) : null;
+        case 'name': return model.name.toLowerCase();
+        case 'provider': return model.provider.toLowerCase();
+        default: return model[field];
+    }
+}
+
+/**
+ * 按排序键依次比较，前一个键相同时才比较下一个
+ */
+export function sortModels(models: Model[], keys: SortKey[], workload: Workload, benchmarks: Benchmark[] = []): Model[] {
+    return [...models].sort((a, b) => {
+        for (const { field, direction } of keys) {
+            const aVal = getSortValue(a, field, workload, benchmarks);
+            const bVal = getSortValue(b, field, workload, benchmarks);
+
+            if (aVal === bVal) continue;
+            if (aVal === null) return 1;
+            if (bVal === null) return -1;
+            if (aVal < bVal) return direction === 'asc' ? -1 : 1;
+            if (aVal > bVal) return direction === 'asc' ? 1 : -1;
+        }
+        return 0;
+    });
+}
+
+/**
+ * 处理表头点击：
+ * - 普通点击：只按该列排序，该列已是主排序键时切换方向
+ * - Shift+点击：追加为次要排序键，已存在时切换方向
+ */
+export function updateSortKeys(keys: SortKey[], field: SortField, additive: boolean): SortKey[] {
+    const existing = keys.find(k => k.field === field);
+    const toggled: SortKey = existing
+        ? { field, direction: existing.direction === 'asc' ? 'desc' : 'asc' }
+        : { field, direction: 'asc' };
+
+    if (!additive) {
+        return [keys[0]?.field === field ? toggled : { field, direction: 'asc' }];
+    }
+    if (existing) {
+        return keys.map(k => k.field === field ? toggled : k);
+    }
+    // 超出上限时替换优先级最低的排序键
+    return [...keys.slice(0, MAX_SORT_KEYS - 1), toggled];
+}
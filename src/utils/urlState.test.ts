@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { SortKey } from '../types';
+import { parseComparisonParams, buildComparisonParams, buildComparePath } from './urlState';
+import type { ComparisonState } from './urlState';
+import { DEFAULT_SORT } from './sort';
+
+const baseState: ComparisonState = {
+    presetId: 'default',
+    defaultPresetId: 'default',
+    modelIds: ['openai/gpt-4o', 'anthropic/claude-sonnet-4'],
+    defaultIds: ['openai/gpt-4o', 'anthropic/claude-sonnet-4'],
+    sort: DEFAULT_SORT,
+    workload: null,
+};
+
+describe('buildComparisonParams', () => {
+    it('omits everything that matches the defaults', () => {
+        expect(buildComparisonParams(baseState).toString()).toBe('');
+    });
+
+    it('treats a reordered default model list as unchanged', () => {
+        const state = { ...baseState, modelIds: [...baseState.modelIds].reverse() };
+        expect(buildComparisonParams(state).has('models')).toBe(false);
+    });
+});
+
+describe('parseComparisonParams', () => {
+    it('returns null for parameters that are missing', () => {
+        expect(parseComparisonParams(new URLSearchParams())).toEqual({
+            presetId: null,
+            modelIds: null,
+            sort: null,
+            workload: null,
+        });
+    });
+
+    it('round-trips preset, models, multi-column sort and workload', () => {
+        const sort: SortKey[] = [
+            { field: 'outputPrice', direction: 'desc' },
+            { field: 'score:mmlu', direction: 'asc' },
+        ];
+        const state = {
+            ...baseState,
+            presetId: 'coding',
+            modelIds: ['openai/gpt-4o', 'google/gemini-2.5-pro'],
+            sort,
+            workload: { avgInputTokens: 4000, avgOutputTokens: 800, requestsPerDay: 250 },
+        };
+
+        const params = new URLSearchParams(buildComparisonParams(state).toString());
+        expect(parseComparisonParams(params)).toEqual({
+            presetId: 'coding',
+            modelIds: state.modelIds,
+            sort,
+            workload: state.workload,
+        });
+    });
+
+    it('defaults missing directions to ascending', () => {
+        const { sort } = parseComparisonParams(new URLSearchParams('sort=name,inputPrice&dir=desc'));
+        expect(sort).toEqual([
+            { field: 'name', direction: 'desc' },
+            { field: 'inputPrice', direction: 'asc' },
+        ]);
+    });
+
+    it('ignores the whole sort when a field is unknown', () => {
+        expect(parseComparisonParams(new URLSearchParams('sort=name,__proto__')).sort).toBeNull();
+    });
+
+    it('keeps an empty model list and trims IDs', () => {
+        expect(parseComparisonParams(new URLSearchParams('models=')).modelIds).toEqual([]);
+        expect(parseComparisonParams(new URLSearchParams('models= a/b ,,c/d')).modelIds).toEqual(['a/b', 'c/d']);
+    });
+
+    it('rejects malformed workloads', () => {
+        for (const workload of ['1,2', '1,2,x', '1,-2,3', '1,2,3,4']) {
+            expect(parseComparisonParams(new URLSearchParams({ workload })).workload).toBeNull();
+        }
+    });
+});
+
+describe('buildComparePath', () => {
+    it('encodes the slashes inside model IDs', () => {
+        expect(buildComparePath(['openai/gpt-4o', 'x-ai/grok-4'])).toBe('/compare/openai%2Fgpt-4o,x-ai%2Fgrok-4');
+    });
+});
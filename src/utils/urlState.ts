@@ -0,0 +1,119 @@
+import type { SortField, SortKey, Workload } from '../types';
+import { DEFAULT_SORT } from './sort';
+import { isBenchmarkField } from './benchmarks';
+import { isSourceField } from './priceSources';
+
+// URL 中允许的排序字段
+export const SORT_FIELDS: SortField[] = [
+    'name',
+    'provider',
+    'contextLength',
+    'maxOutput',
+    'inputPrice',
+    'outputPrice',
+    'costPerRequest',
+    'monthlyCost',
+    'cacheRead',
+    'cacheWrite',
+    'internalReasoning',
+    'requestPrice',
+    'imagePrice',
+    'webSearchPrice',
+    'tokenizer',
+    'modality',
+    'createdAt',
+    'costPerPoint',
+];
+
+// 固定的排序字段、基准测试成绩列（score:<基准 ID>）或其他来源的价格列（source:<来源 ID>），
+// 基准和来源是否存在在加载数据后才知道
+export const isSortField = (field: string): field is SortField =>
+    SORT_FIELDS.includes(field as SortField) || isBenchmarkField(field) || isSourceField(field);
+
+// 从 URL 还原的对比状态，未提供的参数为 null
+export interface ComparisonParams {
+    presetId: string | null;
+    modelIds: string[] | null;
+    sort: SortKey[] | null;
+    workload: Workload | null;
+}
+
+export interface ComparisonState {
+    presetId: string;
+    defaultPresetId: string;
+    modelIds: string[];
+    defaultIds: string[];
+    sort: SortKey[];
+    workload: Workload | null;
+}
+
+/**
+ * 解析多列排序：sort 与 dir 按位置一一对应，缺少方向时为升序；含无效字段时忽略整个参数
+ */
+function parseSort(sort: string | null, dir: string | null): SortKey[] | null {
+    if (!sort) return null;
+
+    const fields = sort.split(',');
+    const directions = dir?.split(',') || [];
+    if (!fields.every(isSortField)) return null;
+
+    return fields.map((field, i) => ({
+        field,
+        direction: directions[i] === 'desc' ? 'desc' : 'asc',
+    }));
+}
+
+const isDefaultSort = (sort: SortKey[]): boolean =>
+    sort.length === DEFAULT_SORT.length &&
+    sort.every((k, i) => k.field === DEFAULT_SORT[i].field && k.direction === DEFAULT_SORT[i].direction);
+
+/**
+ * 解析 URL 查询参数：
+ *   ?preset=coding&models=openai/gpt-4o,anthropic/claude-sonnet-4&sort=outputPrice,name&dir=desc,asc&workload=2000,500,1000
+ */
+export function parseComparisonParams(params: URLSearchParams): ComparisonParams {
+    const models = params.get('models');
+    const workload = params.get('workload')?.split(',').map(Number);
+
+    return {
+        presetId: params.get('preset'),
+        modelIds: models !== null ? models.split(',').map(id => id.trim()).filter(Boolean) : null,
+        sort: parseSort(params.get('sort'), params.get('dir')),
+        workload: workload && workload.length === 3 && workload.every(n => Number.isFinite(n) && n >= 0)
+            ? { avgInputTokens: workload[0], avgOutputTokens: workload[1], requestsPerDay: workload[2] }
+            : null,
+    };
+}
+
+/**
+ * 生成 URL 查询参数；与默认值相同的部分省略，保持链接简短
+ */
+export function buildComparisonParams(state: ComparisonState): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (state.presetId !== state.defaultPresetId) {
+        params.set('preset', state.presetId);
+    }
+
+    // defaultIds 为当前预设的模型列表
+    const sameAsDefault = state.modelIds.length === state.defaultIds.length &&
+        state.modelIds.every(id => state.defaultIds.includes(id));
+    if (!sameAsDefault) {
+        params.set('models', state.modelIds.join(','));
+    }
+    if (!isDefaultSort(state.sort)) {
+        params.set('sort', state.sort.map(k => k.field).join(','));
+        params.set('dir', state.sort.map(k => k.direction).join(','));
+    }
+    if (state.workload) {
+        const { avgInputTokens, avgOutputTokens, requestsPerDay } = state.workload;
+        params.set('workload', [avgInputTokens, avgOutputTokens, requestsPerDay].join(','));
+    }
+
+    return params;
+}
+
+// 详情对比页路径；模型 ID 含 "/"，需要编码后用逗号连接
+export function buildComparePath(ids: string[]): string {
+    return `/compare/${ids.map(encodeURIComponent).join(',')}`;
+}
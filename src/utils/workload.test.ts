@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createModel } from '../test/models';
+import { getCostPerRequest, getMonthlyCost, getWorkloadIssues, DAYS_PER_MONTH } from './workload';
+
+const workload = { avgInputTokens: 2000, avgOutputTokens: 500, requestsPerDay: 1000 };
+
+describe('getCostPerRequest', () => {
+    it('prices input and output tokens per million', () => {
+        const model = createModel({ id: 'openai/gpt-4o', inputPrice: 2.5, outputPrice: 10 });
+        expect(getCostPerRequest(model, workload)).toBeCloseTo(0.01);
+    });
+
+    it('is zero for free models', () => {
+        const model = createModel({ id: 'meta-llama/llama-3-8b:free', inputPrice: 0, outputPrice: 0 });
+        expect(getCostPerRequest(model, workload)).toBe(0);
+    });
+});
+
+describe('getMonthlyCost', () => {
+    it('multiplies the request cost by requests per day over a month', () => {
+        const model = createModel({ id: 'openai/gpt-4o', inputPrice: 2.5, outputPrice: 10 });
+        expect(getMonthlyCost(model, workload)).toBeCloseTo(0.01 * 1000 * DAYS_PER_MONTH);
+    });
+});
+
+describe('getWorkloadIssues', () => {
+    it('reports nothing when the model fits the workload', () => {
+        expect(getWorkloadIssues(createModel({ id: 'a/b' }), workload)).toEqual([]);
+    });
+
+    it('reports a context window smaller than input plus output', () => {
+        const issues = getWorkloadIssues(createModel({ id: 'a/b', contextLength: 2048 }), workload);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toContain('2,048');
+        expect(issues[0]).toContain('2,500');
+    });
+
+    it('reports a max output below the average output', () => {
+        const issues = getWorkloadIssues(createModel({ id: 'a/b', maxOutput: 256 }), workload);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toContain('256');
+    });
+
+    it('ignores unknown limits', () => {
+        const model = createModel({ id: 'a/b', contextLength: 0, maxOutput: 0 });
+        expect(getWorkloadIssues(model, workload)).toEqual([]);
+    });
+});
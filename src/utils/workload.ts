@@ -0,0 +1,44 @@
+import type { Model, Workload } from '../types';
+import { translate } from '../i18n';
+import type { Locale } from '../i18n';
+import { formatNumber } from './format';
+
+export const DEFAULT_WORKLOAD: Workload = {
+    avgInputTokens: 2000,
+    avgOutputTokens: 500,
+    requestsPerDay: 1000,
+};
+
+// 按每月 30 天估算
+export const DAYS_PER_MONTH = 30;
+
+// 每次请求的成本（美元），价格单位为每百万 token
+export function getCostPerRequest(model: Model, workload: Workload): number {
+    return (model.inputPrice * workload.avgInputTokens + model.outputPrice * workload.avgOutputTokens) / 1_000_000;
+}
+
+// 每月成本（美元）
+export function getMonthlyCost(model: Model, workload: Workload): number {
+    return getCostPerRequest(model, workload) * workload.requestsPerDay * DAYS_PER_MONTH;
+}
+
+// 检查模型能否承载该工作负载，返回问题描述
+export function getWorkloadIssues(model: Model, workload: Workload, locale: Locale = 'en'): string[] {
+    const issues: string[] = [];
+    const totalTokens = workload.avgInputTokens + workload.avgOutputTokens;
+
+    if (model.contextLength > 0 && model.contextLength < totalTokens) {
+        issues.push(translate(locale, 'workload.contextIssue', {
+            context: formatNumber(model.contextLength, locale),
+            tokens: formatNumber(totalTokens, locale),
+        }));
+    }
+    if (model.maxOutput > 0 && model.maxOutput < workload.avgOutputTokens) {
+        issues.push(translate(locale, 'workload.outputIssue', {
+            maxOutput: formatNumber(model.maxOutput, locale),
+            tokens: formatNumber(workload.avgOutputTokens, locale),
+        }));
+    }
+
+    return issues;
+}